@@ -385,7 +385,7 @@ const inferenceEndpoints: EndpointMetadata[] = [
 ];
 
 // =============================================================================
-// STORAGE - KV ENDPOINTS (4)
+// STORAGE - KV ENDPOINTS (7)
 // =============================================================================
 
 const kvEndpoints: EndpointMetadata[] = [
@@ -403,6 +403,8 @@ const kvEndpoints: EndpointMetadata[] = [
         value: { type: "string", description: "Value to store" },
         metadata: { type: "object", description: "Optional metadata" },
         ttl: { type: "integer", description: "TTL in seconds (optional)" },
+        ifMatch: { type: "string", description: "Only write if the key is at this version (\"*\" = exists); else 412" },
+        ifNoneMatch: { type: "string", description: "Only write if the key does not exist (\"*\"); else 412" },
       },
     },
     queryParams: TOKEN_TYPE_QUERY,
@@ -410,6 +412,7 @@ const kvEndpoints: EndpointMetadata[] = [
       ok: true,
       key: "my-key",
       created: true,
+      version: 1,
       tokenType: "STX",
     },
   },
@@ -424,6 +427,7 @@ const kvEndpoints: EndpointMetadata[] = [
       key: "my-key",
       value: "my-value",
       metadata: {},
+      version: 1,
       tokenType: "STX",
     },
   },
@@ -431,16 +435,22 @@ const kvEndpoints: EndpointMetadata[] = [
     path: "/storage/kv",
     method: "GET",
     category: "storage",
-    description: "List all keys in the KV store.",
+    description: "List keys in the KV store, paginated with an opaque cursor.",
     queryParams: {
       prefix: { type: "string", description: "Filter keys by prefix" },
-      limit: { type: "integer", description: "Maximum number of keys to return" },
+      limit: { type: "integer", description: "Maximum number of keys to return (max 1000)" },
+      cursor: { type: "string", description: "nextCursor from the previous page" },
+      includeValues: { type: "string", description: "Set to true to include values" },
       tokenType: TOKEN_TYPE_PARAM,
     },
     outputExample: {
       ok: true,
-      keys: ["key1", "key2"],
+      keys: [
+        { key: "key1", metadata: null, version: 1, updatedAt: "2024-01-01T00:00:00.000Z" },
+        { key: "key2", metadata: null, version: 3, updatedAt: "2024-01-01T00:00:00.000Z" },
+      ],
       count: 2,
+      nextCursor: "eyJrIjoia2V5MiJ9",
       tokenType: "STX",
     },
   },
@@ -449,7 +459,11 @@ const kvEndpoints: EndpointMetadata[] = [
     method: "DELETE",
     category: "storage",
     description: "Delete a key from the KV store.",
-    queryParams: TOKEN_TYPE_QUERY,
+    queryParams: {
+      ifMatch: { type: "string", description: "Only delete if the key is at this version; else 412" },
+      ifNoneMatch: { type: "string", description: "Only delete if the key is not at this version; else 412" },
+      tokenType: TOKEN_TYPE_PARAM,
+    },
     outputExample: {
       ok: true,
       key: "my-key",
@@ -457,10 +471,90 @@ const kvEndpoints: EndpointMetadata[] = [
       tokenType: "STX",
     },
   },
+  {
+    path: "/storage/kv/incr",
+    method: "POST",
+    category: "storage",
+    description: "Atomically increment or decrement an integer counter.",
+    bodyType: "json",
+    bodySchema: {
+      type: "object",
+      required: ["key"],
+      properties: {
+        key: { type: "string", description: "Counter key" },
+        delta: { type: "integer", description: "Amount to add, negative to decrement (default: 1)" },
+        ttl: { type: "integer", description: "TTL in seconds (optional)" },
+      },
+    },
+    queryParams: TOKEN_TYPE_QUERY,
+    outputExample: {
+      ok: true,
+      key: "page-views",
+      value: 42,
+      created: false,
+      version: 42,
+      tokenType: "STX",
+    },
+  },
+  {
+    path: "/storage/kv/batch",
+    method: "POST",
+    category: "storage",
+    description: "Get, set and delete up to 100 keys in one call, atomically.",
+    bodyType: "json",
+    bodySchema: {
+      type: "object",
+      required: ["operations"],
+      properties: {
+        operations: {
+          type: "array",
+          description: "Operations run in order: { op: get|set|delete, key, value?, metadata?, ttl?, ifMatch?, ifNoneMatch? }",
+          items: { type: "object" },
+        },
+      },
+    },
+    queryParams: TOKEN_TYPE_QUERY,
+    outputExample: {
+      ok: true,
+      results: [
+        { op: "set", key: "a", created: true, version: 1 },
+        { op: "get", key: "b", found: false },
+        { op: "delete", key: "c", deleted: true },
+      ],
+      tokenType: "STX",
+    },
+  },
+  {
+    path: "/storage/kv/watch",
+    method: "POST",
+    category: "storage",
+    description: "Long-poll for set/delete events on a key or prefix, resuming from a sequence number.",
+    bodyType: "json",
+    bodySchema: {
+      type: "object",
+      properties: {
+        key: { type: "string", description: "Watch a single key" },
+        prefix: { type: "string", description: "Watch keys with this prefix" },
+        since: { type: "integer", description: "Sequence number to resume after (default: now)" },
+        timeout: { type: "integer", description: "Seconds to wait, 0-60 (default: 25)" },
+        limit: { type: "integer", description: "Max events (default: 100)" },
+      },
+    },
+    queryParams: TOKEN_TYPE_QUERY,
+    outputExample: {
+      ok: true,
+      events: [
+        { seq: 128, key: "leader", op: "set", value: "agent-b", version: 4, at: "2024-01-01T00:00:00.000Z" },
+      ],
+      seq: 128,
+      truncated: false,
+      tokenType: "STX",
+    },
+  },
 ];
 
 // =============================================================================
-// STORAGE - PASTE ENDPOINTS (3)
+// STORAGE - PASTE ENDPOINTS (10)
 // =============================================================================
 
 const pasteEndpoints: EndpointMetadata[] = [
@@ -468,7 +562,7 @@ const pasteEndpoints: EndpointMetadata[] = [
     path: "/storage/paste",
     method: "POST",
     category: "storage",
-    description: "Create a paste (text snippet with syntax highlighting).",
+    description: "Create a paste (text snippet with syntax highlighting). Unlisted/public pastes are readable by anyone via the free /paste routes.",
     bodyType: "json",
     bodySchema: {
       type: "object",
@@ -477,12 +571,16 @@ const pasteEndpoints: EndpointMetadata[] = [
         content: { type: "string", description: "Paste content" },
         language: { type: "string", description: "Programming language for syntax highlighting" },
         ttl: { type: "integer", description: "TTL in seconds (optional)" },
+        visibility: { type: "string", description: "private (default), unlisted, or public" },
+        maxReads: { type: "integer", description: "Shared reads allowed before the paste is deleted (1-1000)" },
+        burnAfterRead: { type: "boolean", description: "Delete after the first shared read" },
       },
     },
     queryParams: TOKEN_TYPE_QUERY,
     outputExample: {
       ok: true,
       id: "paste-abc123",
+      visibility: "private",
       createdAt: "2024-01-01T00:00:00.000Z",
       tokenType: "STX",
     },
@@ -491,17 +589,91 @@ const pasteEndpoints: EndpointMetadata[] = [
     path: "/storage/paste/{id}",
     method: "GET",
     category: "storage",
-    description: "Get a paste by ID.",
+    description: "Get a paste by ID, optionally at an earlier version (?version=N).",
     queryParams: TOKEN_TYPE_QUERY,
     outputExample: {
       ok: true,
       id: "paste-abc123",
       content: "console.log('hello world');",
       language: "javascript",
+      version: 2,
       createdAt: "2024-01-01T00:00:00.000Z",
+      updatedAt: "2024-01-02T00:00:00.000Z",
+      tokenType: "STX",
+    },
+  },
+  {
+    path: "/storage/paste/{id}",
+    method: "PUT",
+    category: "storage",
+    description: "Update a paste under the same ID, keeping the previous version in its history.",
+    bodyType: "json",
+    bodySchema: {
+      type: "object",
+      required: ["content"],
+      properties: {
+        content: { type: "string", description: "New paste content" },
+        title: { type: "string", description: "New title (omit to keep)" },
+        language: { type: "string", description: "New language (omit to keep)" },
+        ttl: { type: "integer", description: "TTL in seconds from now (omit to keep the current expiry)" },
+        ifMatch: { type: "integer", description: "Only update at this current version (412 otherwise)" },
+      },
+    },
+    queryParams: TOKEN_TYPE_QUERY,
+    outputExample: {
+      ok: true,
+      id: "paste-abc123",
+      version: 2,
+      updatedAt: "2024-01-02T00:00:00.000Z",
+      expiresAt: null,
+      tokenType: "STX",
+    },
+  },
+  {
+    path: "/storage/paste/{id}/revisions",
+    method: "GET",
+    category: "storage",
+    description: "List the versions of a paste, newest first.",
+    queryParams: TOKEN_TYPE_QUERY,
+    outputExample: {
+      ok: true,
+      id: "paste-abc123",
+      revisions: [
+        { version: 2, title: null, language: "javascript", size: 120, savedAt: "2024-01-02T00:00:00.000Z", current: true },
+        { version: 1, title: null, language: "javascript", size: 96, savedAt: "2024-01-01T00:00:00.000Z", current: false },
+      ],
+      count: 2,
+      tokenType: "STX",
+    },
+  },
+  {
+    path: "/storage/paste/{id}/diff",
+    method: "GET",
+    category: "storage",
+    description: "Unified line diff between two versions of a paste (?from=N&to=M; default previous to current).",
+    queryParams: TOKEN_TYPE_QUERY,
+    outputExample: {
+      ok: true,
+      id: "paste-abc123",
+      from: 1,
+      to: 2,
+      added: 1,
+      removed: 1,
+      diff: "--- paste-abc123@1\n+++ paste-abc123@2\n@@ -1,1 +1,1 @@\n-console.log('hi');\n+console.log('hello world');\n",
       tokenType: "STX",
     },
   },
+  {
+    path: "/storage/paste/{id}/raw",
+    method: "GET",
+    category: "storage",
+    description: "Paste content as a raw document (the response body is the content), with a Content-Type based on its language.",
+    queryParams: TOKEN_TYPE_QUERY,
+    outputExample: {
+      contentType: "text/javascript; charset=utf-8",
+      body: "console.log('hello world');",
+    },
+  },
   {
     path: "/storage/paste/{id}",
     method: "DELETE",
@@ -515,10 +687,59 @@ const pasteEndpoints: EndpointMetadata[] = [
       tokenType: "STX",
     },
   },
+  {
+    path: "/paste",
+    method: "GET",
+    category: "storage",
+    description: "List public pastes, newest first (free endpoint).",
+    outputExample: {
+      ok: true,
+      pastes: [
+        {
+          id: "Xy3kQ9mV2aLpR7tN0bWc4e",
+          title: "Deploy script",
+          language: "bash",
+          createdAt: "2024-01-01T00:00:00.000Z",
+          expiresAt: null,
+        },
+      ],
+      nextCursor: null,
+    },
+  },
+  {
+    path: "/paste/{id}",
+    method: "GET",
+    category: "storage",
+    description: "Read an unlisted or public paste by ID (free endpoint). Counts toward its read limit.",
+    outputExample: {
+      ok: true,
+      id: "Xy3kQ9mV2aLpR7tN0bWc4e",
+      content: "echo deploy",
+      title: "Deploy script",
+      language: "bash",
+      visibility: "unlisted",
+      version: 1,
+      createdAt: "2024-01-01T00:00:00.000Z",
+      updatedAt: "2024-01-01T00:00:00.000Z",
+      expiresAt: null,
+      readsRemaining: 4,
+      burned: false,
+    },
+  },
+  {
+    path: "/paste/{id}/raw",
+    method: "GET",
+    category: "storage",
+    description: "Raw content of an unlisted or public paste (free endpoint). Counts toward its read limit.",
+    outputExample: {
+      contentType: "text/plain; charset=utf-8",
+      body: "echo deploy",
+    },
+  },
 ];
 
 // =============================================================================
-// STORAGE - DB ENDPOINTS (3)
+// STORAGE - DB ENDPOINTS (4)
 // =============================================================================
 
 const dbEndpoints: EndpointMetadata[] = [
@@ -566,6 +787,38 @@ const dbEndpoints: EndpointMetadata[] = [
       tokenType: "STX",
     },
   },
+  {
+    path: "/storage/db/batch",
+    method: "POST",
+    category: "storage",
+    description: "Execute SQL statements in order inside one transaction; any failure rolls back all of them.",
+    bodyType: "json",
+    bodySchema: {
+      type: "object",
+      required: ["statements"],
+      properties: {
+        statements: {
+          type: "array",
+          description: "Statements to run in order (max 100)",
+          items: {
+            type: "object",
+            required: ["query"],
+            properties: {
+              query: { type: "string", description: "SQL statement" },
+              params: { type: "array", description: "Query parameters for placeholders" },
+            },
+          },
+        },
+      },
+    },
+    queryParams: TOKEN_TYPE_QUERY,
+    outputExample: {
+      ok: true,
+      results: [{ rowsAffected: 0 }, { rowsAffected: 1 }],
+      rowsAffected: 1,
+      tokenType: "STX",
+    },
+  },
   {
     path: "/storage/db/schema",
     method: "GET",
@@ -597,23 +850,30 @@ const syncEndpoints: EndpointMetadata[] = [
     path: "/storage/sync/lock",
     method: "POST",
     category: "storage",
-    description: "Acquire a distributed lock.",
+    description: "Acquire an exclusive, shared or semaphore lock, optionally waiting in a FIFO queue. Returns a fencing token.",
     bodyType: "json",
     bodySchema: {
       type: "object",
       required: ["name"],
       properties: {
         name: { type: "string", description: "Lock name" },
-        ttl: { type: "integer", description: "Lock TTL in seconds (default: 30)" },
+        ttl: { type: "integer", description: "Lock TTL in seconds (default: 60)" },
+        mode: { type: "string", description: "exclusive (default), shared, or semaphore" },
+        limit: { type: "integer", description: "Semaphore capacity (default: 1)" },
+        permits: { type: "integer", description: "Semaphore permits to take (default: 1)" },
+        wait: { type: "integer", description: "Seconds to wait in the queue, 0-60 (default: 0)" },
+        token: { type: "string", description: "Token of a hold you own, to re-enter it" },
       },
     },
     queryParams: TOKEN_TYPE_QUERY,
     outputExample: {
       ok: true,
       acquired: true,
-      name: "my-lock",
       token: "lock-token-abc123",
       expiresAt: "2024-01-01T00:01:00.000Z",
+      fence: 42,
+      mode: "exclusive",
+      depth: 1,
       tokenType: "STX",
     },
   },
@@ -635,7 +895,7 @@ const syncEndpoints: EndpointMetadata[] = [
     outputExample: {
       ok: true,
       released: true,
-      name: "my-lock",
+      depth: 0,
       tokenType: "STX",
     },
   },
@@ -674,6 +934,12 @@ const syncEndpoints: EndpointMetadata[] = [
       name: "my-lock",
       locked: true,
       expiresAt: "2024-01-01T00:01:00.000Z",
+      acquiredAt: "2024-01-01T00:00:00.000Z",
+      mode: "shared",
+      holders: 2,
+      permitsUsed: 2,
+      waiters: 1,
+      fence: 42,
       tokenType: "STX",
     },
   },
@@ -688,8 +954,11 @@ const syncEndpoints: EndpointMetadata[] = [
       locks: [
         {
           name: "my-lock",
-          locked: true,
           expiresAt: "2024-01-01T00:01:00.000Z",
+          acquiredAt: "2024-01-01T00:00:00.000Z",
+          mode: "exclusive",
+          holders: 1,
+          waiters: 0,
         },
       ],
       count: 1,
@@ -699,7 +968,7 @@ const syncEndpoints: EndpointMetadata[] = [
 ];
 
 // =============================================================================
-// STORAGE - QUEUE ENDPOINTS (5)
+// STORAGE - QUEUE ENDPOINTS (10)
 // =============================================================================
 
 const queueEndpoints: EndpointMetadata[] = [
@@ -707,22 +976,43 @@ const queueEndpoints: EndpointMetadata[] = [
     path: "/storage/queue/push",
     method: "POST",
     category: "storage",
-    description: "Push items to a queue.",
+    description: "Push items to a queue, optionally delayed or scheduled, with per-job retry budgets and dedup keys.",
     bodyType: "json",
     bodySchema: {
       type: "object",
-      required: ["name", "items"],
+      required: ["name"],
       properties: {
         name: { type: "string", description: "Queue name" },
-        items: { type: "array", description: "Items to push" },
+        items: { type: "array", description: "Items to push (use either items or jobs)" },
+        jobs: {
+          type: "array",
+          description: "Jobs with per-job options (use either items or jobs)",
+          items: {
+            type: "object",
+            required: ["data"],
+            properties: {
+              data: { description: "Job payload" },
+              priority: { type: "integer" },
+              delaySeconds: { type: "integer" },
+              runAt: { type: "string", format: "date-time" },
+              maxAttempts: { type: "integer" },
+              dedupKey: { type: "string" },
+            },
+          },
+        },
         priority: { type: "integer", description: "Priority level (higher = processed first)" },
+        delaySeconds: { type: "integer", description: "Seconds before jobs become available" },
+        runAt: { type: "string", format: "date-time", description: "Absolute availability time" },
+        maxAttempts: { type: "integer", description: "Deliveries before dead-lettering (default: 3)" },
       },
     },
     queryParams: TOKEN_TYPE_QUERY,
     outputExample: {
       ok: true,
       pushed: 1,
-      name: "my-queue",
+      queue: "my-queue",
+      ids: ["job_a1b2c3d4e5f6g7h8"],
+      duplicates: 0,
       tokenType: "STX",
     },
   },
@@ -730,7 +1020,7 @@ const queueEndpoints: EndpointMetadata[] = [
     path: "/storage/queue/pop",
     method: "POST",
     category: "storage",
-    description: "Pop items from a queue.",
+    description: "Lease items from a queue. Leased items must be acked or nacked before the visibility timeout expires.",
     bodyType: "json",
     bodySchema: {
       type: "object",
@@ -738,12 +1028,21 @@ const queueEndpoints: EndpointMetadata[] = [
       properties: {
         name: { type: "string", description: "Queue name" },
         count: { type: "integer", description: "Number of items to pop (default: 1)" },
+        visibilityTimeout: { type: "integer", description: "Lease length in seconds (1-43200, default: 30)" },
       },
     },
     queryParams: TOKEN_TYPE_QUERY,
     outputExample: {
       ok: true,
-      items: [{ task: "process data" }],
+      items: [
+        {
+          id: "job_a1b2c3d4e5f6g7h8",
+          data: { task: "process data" },
+          attempt: 1,
+          maxAttempts: 3,
+          leaseExpiresAt: "2024-01-01T00:00:30.000Z",
+        },
+      ],
       count: 1,
       tokenType: "STX",
     },
@@ -803,10 +1102,138 @@ const queueEndpoints: EndpointMetadata[] = [
       tokenType: "STX",
     },
   },
+  {
+    path: "/storage/queue/ack",
+    method: "POST",
+    category: "storage",
+    description: "Acknowledge leased items as completed.",
+    bodyType: "json",
+    bodySchema: {
+      type: "object",
+      required: ["name", "ids"],
+      properties: {
+        name: { type: "string", description: "Queue name" },
+        ids: { type: "array", items: { type: "string" }, description: "Leased job IDs" },
+      },
+    },
+    queryParams: TOKEN_TYPE_QUERY,
+    outputExample: {
+      ok: true,
+      queue: "my-queue",
+      acked: 1,
+      ids: ["job_a1b2c3d4e5f6g7h8"],
+      tokenType: "STX",
+    },
+  },
+  {
+    path: "/storage/queue/nack",
+    method: "POST",
+    category: "storage",
+    description: "Return leased items to the queue for retry. Items past maxAttempts are dead-lettered.",
+    bodyType: "json",
+    bodySchema: {
+      type: "object",
+      required: ["name", "ids"],
+      properties: {
+        name: { type: "string", description: "Queue name" },
+        ids: { type: "array", items: { type: "string" }, description: "Leased job IDs" },
+        error: { type: "string", description: "Failure reason recorded on the job" },
+        delaySeconds: { type: "integer", description: "Retry delay in seconds (default: 0)" },
+      },
+    },
+    queryParams: TOKEN_TYPE_QUERY,
+    outputExample: {
+      ok: true,
+      queue: "my-queue",
+      requeued: ["job_a1b2c3d4e5f6g7h8"],
+      deadLettered: [],
+      tokenType: "STX",
+    },
+  },
+  {
+    path: "/storage/queue/extend",
+    method: "POST",
+    category: "storage",
+    description: "Extend the lease on items that are still being processed.",
+    bodyType: "json",
+    bodySchema: {
+      type: "object",
+      required: ["name", "ids"],
+      properties: {
+        name: { type: "string", description: "Queue name" },
+        ids: { type: "array", items: { type: "string" }, description: "Leased job IDs" },
+        visibilityTimeout: { type: "integer", description: "New lease length in seconds (1-43200, default: 30)" },
+      },
+    },
+    queryParams: TOKEN_TYPE_QUERY,
+    outputExample: {
+      ok: true,
+      queue: "my-queue",
+      extended: 1,
+      ids: ["job_a1b2c3d4e5f6g7h8"],
+      leaseExpiresAt: "2024-01-01T00:01:00.000Z",
+      tokenType: "STX",
+    },
+  },
+  {
+    path: "/storage/queue/dead",
+    method: "GET",
+    category: "storage",
+    description: "List dead-lettered jobs with their last error and attempt count.",
+    queryParams: {
+      name: { type: "string", description: "Queue name" },
+      limit: { type: "integer", description: "Max items (default: 100)" },
+      offset: { type: "integer", description: "Pagination offset" },
+      tokenType: TOKEN_TYPE_PARAM,
+    },
+    outputExample: {
+      ok: true,
+      name: "my-queue",
+      items: [
+        {
+          id: "job_a1b2c3d4e5f6g7h8",
+          data: { task: "process data" },
+          attempt: 3,
+          maxAttempts: 3,
+          error: "upstream timeout",
+          createdAt: "2024-01-01T00:00:00.000Z",
+          failedAt: "2024-01-01T00:05:00.000Z",
+        },
+      ],
+      total: 1,
+      tokenType: "STX",
+    },
+  },
+  {
+    path: "/storage/queue/redrive",
+    method: "POST",
+    category: "storage",
+    description: "Move selected or all dead-lettered jobs back to pending, optionally into another queue.",
+    bodyType: "json",
+    bodySchema: {
+      type: "object",
+      required: ["name"],
+      properties: {
+        name: { type: "string", description: "Queue name" },
+        ids: { type: "array", items: { type: "string" }, description: "Dead job IDs to redrive" },
+        all: { type: "boolean", description: "Redrive every dead job in the queue" },
+        targetQueue: { type: "string", description: "Destination queue (default: same queue)" },
+      },
+    },
+    queryParams: TOKEN_TYPE_QUERY,
+    outputExample: {
+      ok: true,
+      queue: "my-queue",
+      targetQueue: "my-queue",
+      redriven: 1,
+      ids: ["job_a1b2c3d4e5f6g7h8"],
+      tokenType: "STX",
+    },
+  },
 ];
 
 // =============================================================================
-// STORAGE - MEMORY ENDPOINTS (5)
+// STORAGE - MEMORY ENDPOINTS (7)
 // =============================================================================
 
 const memoryEndpoints: EndpointMetadata[] = [
@@ -820,6 +1247,12 @@ const memoryEndpoints: EndpointMetadata[] = [
       type: "object",
       required: ["items"],
       properties: {
+        collection: { type: "string", description: "Collection name (default: default)" },
+        model: {
+          type: "string",
+          description: "Embedding model when creating the collection: bge-small, bge-base (default), bge-large, bge-m3, custom",
+        },
+        dimensions: { type: "integer", description: "Vector size for a new custom collection" },
         items: {
           type: "array",
           items: {
@@ -828,7 +1261,13 @@ const memoryEndpoints: EndpointMetadata[] = [
             properties: {
               id: { type: "string", description: "Unique item ID" },
               text: { type: "string", description: "Text content to index" },
+              embedding: { type: "array", items: { type: "number" }, description: "Optional precomputed embedding" },
               metadata: { type: "object", description: "Optional metadata" },
+              type: { type: "string", description: "Memory type, e.g. fact, preference (default: embedding)" },
+              importance: { type: "integer", description: "Importance 1-10 (default: 5)" },
+              summary: { type: "string", description: "Optional short summary" },
+              source: { type: "string", description: "Optional origin of the memory" },
+              ttl: { type: "integer", description: "TTL in seconds (optional)" },
             },
           },
         },
@@ -837,7 +1276,10 @@ const memoryEndpoints: EndpointMetadata[] = [
     queryParams: TOKEN_TYPE_QUERY,
     outputExample: {
       ok: true,
+      collection: "default",
+      model: "bge-base",
       stored: 1,
+      embedded: 1,
       tokenType: "STX",
     },
   },
@@ -845,25 +1287,46 @@ const memoryEndpoints: EndpointMetadata[] = [
     path: "/storage/memory/search",
     method: "POST",
     category: "storage",
-    description: "Semantic search across stored memories.",
+    description: "Semantic, keyword or hybrid search across stored memories, with metadata filters.",
     bodyType: "json",
     bodySchema: {
       type: "object",
-      required: ["query"],
       properties: {
+        collection: { type: "string", description: "Collection name (default: default)" },
         query: { type: "string", description: "Search query" },
+        vector: { type: "array", items: { type: "number" }, description: "Precomputed query embedding (instead of query)" },
+        mode: { type: "string", description: "vector (default), keyword, or hybrid" },
+        keywords: { type: "string", description: "Full-text terms for keyword/hybrid modes (default: query)" },
+        fusion: { type: "string", description: "Hybrid ranking: rrf (default) or weighted" },
+        filter: {
+          type: "object",
+          description:
+            "Conditions on metadata.<path>, id, type, importance, source, createdAt, updatedAt, expiresAt ($eq, $in, $gt, $gte, $lt, $lte, $exists)",
+        },
+        weights: {
+          type: "object",
+          description: "Blend importance and recency into the ranking: { importance: 0-1, recency: 0-1, halfLifeHours }",
+        },
         limit: { type: "integer", description: "Max results (default: 10)" },
       },
     },
     queryParams: TOKEN_TYPE_QUERY,
     outputExample: {
       ok: true,
+      mode: "hybrid",
       results: [
         {
           id: "mem-123",
           text: "This is a test memory.",
-          score: 0.95,
+          similarity: 0.91,
+          score: 0.032,
           metadata: {},
+          type: "fact",
+          importance: 5,
+          summary: null,
+          source: null,
+          createdAt: "2024-01-01T00:00:00.000Z",
+          expiresAt: null,
         },
       ],
       tokenType: "STX",
@@ -879,6 +1342,7 @@ const memoryEndpoints: EndpointMetadata[] = [
       type: "object",
       required: ["ids"],
       properties: {
+        collection: { type: "string", description: "Collection name (default: default)" },
         ids: {
           type: "array",
           items: { type: "string" },
@@ -897,8 +1361,9 @@ const memoryEndpoints: EndpointMetadata[] = [
     path: "/storage/memory/list",
     method: "GET",
     category: "storage",
-    description: "List all stored memories.",
+    description: "List stored memories in a collection.",
     queryParams: {
+      collection: { type: "string", description: "Collection name (default: default)" },
       limit: { type: "integer", description: "Max items (default: 100)" },
       offset: { type: "integer", description: "Pagination offset" },
       tokenType: TOKEN_TYPE_PARAM,
@@ -920,19 +1385,470 @@ const memoryEndpoints: EndpointMetadata[] = [
     path: "/storage/memory/clear",
     method: "POST",
     category: "storage",
-    description: "Clear all memories.",
+    description: "Clear all memories in a collection, including its declared model.",
     bodyType: "json",
     bodySchema: {
       type: "object",
-      properties: {},
+      properties: {
+        collection: { type: "string", description: "Collection name (default: default)" },
+      },
     },
     queryParams: TOKEN_TYPE_QUERY,
     outputExample: {
       ok: true,
-      cleared: true,
+      collection: "default",
+      cleared: 3,
+      tokenType: "STX",
+    },
+  },
+  {
+    path: "/storage/memory/collections",
+    method: "GET",
+    category: "storage",
+    description: "List memory collections with their embedding models and item counts.",
+    queryParams: TOKEN_TYPE_QUERY,
+    outputExample: {
+      ok: true,
+      collections: [
+        { name: "default", model: "bge-base", dimensions: 768, count: 12, createdAt: "2024-01-01T00:00:00.000Z" },
+      ],
+      tokenType: "STX",
+    },
+  },
+  {
+    path: "/storage/memory/consolidate",
+    method: "POST",
+    category: "storage",
+    description: "Summarize clusters of old, low-importance memories into single entries (Workers AI).",
+    bodyType: "json",
+    bodySchema: {
+      type: "object",
+      properties: {
+        collection: { type: "string", description: "Collection name (default: default)" },
+        olderThanDays: { type: "number", description: "Only memories older than this (default: 30)" },
+        maxImportance: { type: "number", description: "Only memories with importance at or below this (default: 3)" },
+        similarity: { type: "number", description: "Cosine similarity to join a group (default: 0.8)" },
+        minGroupSize: { type: "number", description: "Smallest group to consolidate (default: 3)" },
+        maxGroups: { type: "number", description: "Groups per request (default: 5, max 20)" },
+        dryRun: { type: "boolean", description: "Preview groups without changing anything" },
+      },
+    },
+    queryParams: TOKEN_TYPE_QUERY,
+    outputExample: {
+      ok: true,
+      collection: "default",
+      scanned: 120,
+      consolidated: [
+        { id: "consolidated-6f1c...", replaced: ["note-1", "note-7", "note-9"], text: "The agent swapped STX for sBTC on three occasions in March." },
+      ],
+      skipped: [],
+      tokenType: "STX",
+    },
+  },
+];
+
+// =============================================================================
+// STORAGE - USAGE ENDPOINTS (1)
+// =============================================================================
+
+const usageEndpoints: EndpointMetadata[] = [
+  {
+    path: "/storage/usage",
+    method: "GET",
+    category: "storage",
+    description: "Rows and bytes held per storage subsystem (kv, paste, queue, memory, db) with their quotas.",
+    queryParams: TOKEN_TYPE_QUERY,
+    outputExample: {
+      ok: true,
+      subsystems: {
+        kv: { rows: 42, bytes: 18230, quota: { rows: 100000, bytes: 52428800 } },
+        paste: { rows: 3, bytes: 5120, quota: { rows: 20000, bytes: 52428800 } },
+        queue: { rows: 0, bytes: 0, quota: { rows: 100000, bytes: 52428800 } },
+        memory: { rows: 12, bytes: 40960, quota: { rows: 50000, bytes: 262144000 } },
+        db: { rows: 250, bytes: 31000, quota: { rows: 1000000, bytes: 104857600 } },
+      },
+      total: { rows: 307, bytes: 95310 },
+      databaseBytes: 270336,
+      tokenType: "STX",
+    },
+  },
+];
+
+// =============================================================================
+// STORAGE - ARCHIVE ENDPOINTS (2)
+// =============================================================================
+
+const archiveEndpoints: EndpointMetadata[] = [
+  {
+    path: "/storage/export",
+    method: "GET",
+    category: "storage",
+    description:
+      "Export all storage (KV, pastes, queues, lock fences, memories with embeddings, database tables) as a versioned NDJSON archive (the response body is the archive).",
+    queryParams: {
+      sections: { type: "string", description: "Comma-separated sections (default: all): kv, paste, queue, lock, memory, db" },
+      tokenType: TOKEN_TYPE_PARAM,
+    },
+    outputExample: {
+      contentType: "application/x-ndjson; charset=utf-8",
+      body: [
+        '{"type":"header","format":"x402-storage-archive","version":1,"exportedAt":"2026-01-15T12:00:00.000Z","owner":"SP2...","sections":["kv"]}',
+        '{"type":"kv","key":"theme","value":"dark","metadata":null,"version":3,"expiresAt":null,"createdAt":"2026-01-10T09:00:00.000Z","updatedAt":"2026-01-14T18:30:00.000Z"}',
+        '{"type":"end","counts":{"kv":1}}',
+      ].join("\n"),
+    },
+  },
+  {
+    path: "/storage/import",
+    method: "POST",
+    category: "storage",
+    description:
+      "Restore an archive from /storage/export in one transaction. mode=merge upserts over existing data; mode=replace clears the archive's sections first.",
+    bodyType: "text",
+    queryParams: {
+      mode: { type: "string", description: "merge (default) or replace" },
+      tokenType: TOKEN_TYPE_PARAM,
+    },
+    outputExample: {
+      ok: true,
+      mode: "merge",
+      sections: ["kv", "paste"],
+      counts: { kv: 42, paste: 3, paste_revision: 5 },
+      pasteIndexConflicts: [],
+      tokenType: "STX",
+    },
+  },
+];
+
+// =============================================================================
+// STORAGE - GRANT ENDPOINTS (3)
+// =============================================================================
+
+const GRANT_EXAMPLE = {
+  grantor: "SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7",
+  grantee: "SP3FBR2AGK5H9QBDH3EEN6DF8EK8JY7RX8QJ5SVTE",
+  scope: "read-write",
+  subsystems: ["kv", "queue"],
+  prefix: "shared/",
+  expiresAt: 1767225600,
+  nonce: 1,
+};
+
+const grantEndpoints: EndpointMetadata[] = [
+  {
+    path: "/storage/grants",
+    method: "POST",
+    category: "storage",
+    description:
+      "Register a SIP-018 signed grant letting another address use the grantor's storage (X-Storage-Owner header) with read or read-write scope on chosen subsystems, optionally limited to names under a prefix.",
+    bodyType: "json",
+    bodySchema: {
+      type: "object",
+      required: ["grant", "signature"],
+      properties: {
+        grant: {
+          type: "object",
+          description: "{ grantor, grantee, scope (read | read-write), subsystems (kv, paste, db, sync, queue, memory), prefix, expiresAt (unix seconds or null), nonce }",
+        },
+        signature: { type: "string", description: "Grantor's RSV signature (hex) of the SIP-018 grant message" },
+      },
+    },
+    queryParams: TOKEN_TYPE_QUERY,
+    outputExample: {
+      ok: true,
+      created: true,
+      grant: { ...GRANT_EXAMPLE, signature: "0x8d1c...01", createdAt: "2026-01-15T12:00:00.000Z", revokedAt: null },
       tokenType: "STX",
     },
   },
+  {
+    path: "/storage/grants",
+    method: "GET",
+    category: "storage",
+    description: "List the grants the payer has issued, newest first.",
+    queryParams: {
+      includeRevoked: { type: "string", description: "Set to true to include revoked grants" },
+      tokenType: TOKEN_TYPE_PARAM,
+    },
+    outputExample: {
+      ok: true,
+      grants: [{ ...GRANT_EXAMPLE, signature: "0x8d1c...01", createdAt: "2026-01-15T12:00:00.000Z", revokedAt: null }],
+      tokenType: "STX",
+    },
+  },
+  {
+    path: "/storage/grants/{nonce}",
+    method: "DELETE",
+    category: "storage",
+    description: "Revoke a grant the payer issued. The nonce cannot be reused.",
+    queryParams: TOKEN_TYPE_QUERY,
+    outputExample: {
+      ok: true,
+      nonce: 1,
+      revoked: true,
+      tokenType: "STX",
+    },
+  },
+];
+
+// =============================================================================
+// USAGE - PAYER ENDPOINTS (7)
+// =============================================================================
+
+const USAGE_AUTH_NOTE =
+  "Free; send X-Usage-Address, X-Usage-Issued-At and X-Usage-Signature (and X-Usage-Scheme for SIP-018) from /usage/me/challenge.";
+
+const payerUsageEndpoints: EndpointMetadata[] = [
+  {
+    path: "/usage/me/challenge",
+    method: "GET",
+    category: "usage",
+    description: "Challenge for an address to sign (Stacks message or SIP-018) to read its own usage (free endpoint).",
+    queryParams: {
+      address: { type: "string", description: "Stacks address whose usage will be read" },
+    },
+    outputExample: {
+      ok: true,
+      address: "SP2PABAF9FTAJYNFZH93XENAJ8FVY99RRM50D2JG9",
+      issuedAt: 1767225600,
+      expiresAt: 1767225900,
+      message: "x402 usage access\naddress: SP2PABAF9FTAJYNFZH93XENAJ8FVY99RRM50D2JG9\nissued-at: 1767225600",
+      sip018: {
+        domain: { name: "x402-usage", version: "1", network: "mainnet" },
+        message: { action: "view-usage", address: "SP2PABAF9FTAJYNFZH93XENAJ8FVY99RRM50D2JG9", "issued-at": 1767225600 },
+      },
+    },
+  },
+  {
+    path: "/usage/me",
+    method: "GET",
+    category: "usage",
+    description: `All-time spend of the signing address, by category and payment token. ${USAGE_AUTH_NOTE}`,
+    outputExample: {
+      ok: true,
+      address: "SP2PABAF9FTAJYNFZH93XENAJ8FVY99RRM50D2JG9",
+      totals: {
+        totalRequests: 152,
+        totalRevenue: 164000,
+        totalTokens: 48210,
+        firstRequest: "2026-01-01T00:00:00.000Z",
+        lastRequest: "2026-01-31T12:00:00.000Z",
+      },
+      categories: [
+        { category: "storage", totalRequests: 140, totalRevenue: 140000 },
+        { category: "inference", totalRequests: 12, totalRevenue: 24000 },
+      ],
+      tokens: [{ token: "STX", totalRequests: 152, totalRevenue: 164000 }],
+    },
+  },
+  {
+    path: "/usage/me/endpoints",
+    method: "GET",
+    category: "usage",
+    description: `Spend of the signing address per endpoint, most called first. ${USAGE_AUTH_NOTE}`,
+    queryParams: {
+      limit: { type: "integer", description: "Max endpoints to return (max 100, default 20)" },
+    },
+    outputExample: {
+      ok: true,
+      address: "SP2PABAF9FTAJYNFZH93XENAJ8FVY99RRM50D2JG9",
+      endpoints: [{ endpoint: "/storage/kv", category: "storage", totalRequests: 90, totalRevenue: 90000 }],
+    },
+  },
+  {
+    path: "/usage/me/models",
+    method: "GET",
+    category: "usage",
+    description: `LLM spend of the signing address per model, with token counts. ${USAGE_AUTH_NOTE}`,
+    outputExample: {
+      ok: true,
+      address: "SP2PABAF9FTAJYNFZH93XENAJ8FVY99RRM50D2JG9",
+      models: [
+        {
+          model: "openai/gpt-4o",
+          totalRequests: 12,
+          totalInputTokens: 30210,
+          totalOutputTokens: 18000,
+          totalRevenue: 24000,
+        },
+      ],
+    },
+  },
+  {
+    path: "/usage/me/daily",
+    method: "GET",
+    category: "usage",
+    description: `Daily spend of the signing address per category and endpoint. ${USAGE_AUTH_NOTE}`,
+    queryParams: {
+      days: { type: "integer", description: "Days to include (max 365, default 30)" },
+    },
+    outputExample: {
+      ok: true,
+      address: "SP2PABAF9FTAJYNFZH93XENAJ8FVY99RRM50D2JG9",
+      days: [{ date: "2026-01-31", category: "storage", endpoint: "/storage/kv", totalRequests: 8, totalRevenue: 8000 }],
+    },
+  },
+  {
+    path: "/usage/me/recent",
+    method: "GET",
+    category: "usage",
+    description: `Latest paid requests of the signing address, newest first. ${USAGE_AUTH_NOTE}`,
+    queryParams: {
+      limit: { type: "integer", description: "Max records to return (max 100, default 20)" },
+    },
+    outputExample: {
+      ok: true,
+      address: "SP2PABAF9FTAJYNFZH93XENAJ8FVY99RRM50D2JG9",
+      requests: [
+        {
+          requestId: "b7e1c0de-...",
+          endpoint: "/storage/kv",
+          category: "storage",
+          pricingType: "fixed",
+          tier: "standard",
+          amountCharged: 1000,
+          token: "STX",
+          model: null,
+          inputTokens: null,
+          outputTokens: null,
+          timestamp: "2026-01-31T12:00:00.000Z",
+          durationMs: 41,
+        },
+      ],
+    },
+  },
+  {
+    path: "/usage/me/reconciliation",
+    method: "GET",
+    category: "usage",
+    description: `Estimated vs actual cost of the signing address's LLM calls: overcharges credited back, undercharges absorbed as capped house risk. ${USAGE_AUTH_NOTE}`,
+    queryParams: {
+      limit: { type: "integer", description: "Max reconciliations to return (max 100, default 20)" },
+    },
+    outputExample: {
+      ok: true,
+      address: "SP2PABAF9FTAJYNFZH93XENAJ8FVY99RRM50D2JG9",
+      totals: [
+        {
+          token: "STX",
+          requests: 12,
+          charged: 24000,
+          actual: 19500,
+          credited: 4800,
+          houseRisk: 300,
+          unrecovered: 0,
+        },
+      ],
+      recent: [
+        {
+          requestId: "b7e1c0de-...",
+          model: "openai/gpt-4o",
+          token: "STX",
+          inputTokens: 1200,
+          outputTokens: 350,
+          estimatedCostUsd: 0.0096,
+          actualCostUsd: 0.0065,
+          charged: 2000,
+          actual: 1600,
+          delta: 400,
+          credited: 400,
+          houseRisk: 0,
+          unrecovered: 0,
+          createdAt: "2026-01-31T12:00:00.000Z",
+        },
+      ],
+    },
+  },
+];
+
+// =============================================================================
+// CREDITS - PREPAID BALANCE ENDPOINTS (4)
+// =============================================================================
+
+const CREDIT_SESSION_NOTE =
+  "Free; send the session token from /credits/topup or POST /credits/session as Authorization: Bearer <token>.";
+
+const CREDIT_BALANCE_EXAMPLE = { token: "STX", balance: 95000, expiresAt: "2026-03-01T12:00:00.000Z" };
+
+const creditEndpoints: EndpointMetadata[] = [
+  {
+    path: "/credits/topup",
+    method: "POST",
+    category: "credits",
+    description:
+      "Prepay a credit balance with one x402 payment of the chosen amount (at least 100 standard calls) and get a bearer session token. Paid endpoints called with Authorization: Bearer <token> and no payment-signature debit the balance instead of settling a payment each.",
+    bodyType: "json",
+    bodySchema: {
+      type: "object",
+      required: ["amount"],
+      properties: {
+        amount: { type: "string", description: "Amount to prepay, in base units of the payment token" },
+        sessionTtl: { type: "integer", minimum: 60, maximum: 86400, default: 3600, description: "Session lifetime in seconds" },
+      },
+    },
+    queryParams: TOKEN_TYPE_QUERY,
+    outputExample: {
+      ok: true,
+      address: "SP2PABAF9FTAJYNFZH93XENAJ8FVY99RRM50D2JG9",
+      sessionToken: "x402cs_SP2PABAF9FTAJYNFZH93XENAJ8FVY99RRM50D2JG9.6f1e...c0",
+      sessionExpiresAt: "2026-01-30T13:00:00.000Z",
+      balance: { token: "STX", balance: 100000, expiresAt: "2026-03-01T12:00:00.000Z" },
+      tokenType: "STX",
+    },
+  },
+  {
+    path: "/credits/session",
+    method: "POST",
+    category: "credits",
+    description:
+      "Open a new bearer session token on the payer's existing balances without topping up, e.g. to spend overcharges on LLM calls that reconciliation credited back. Paid at the standard price; works on an empty balance.",
+    bodyType: "json",
+    bodySchema: {
+      type: "object",
+      properties: {
+        sessionTtl: { type: "integer", minimum: 60, maximum: 86400, default: 3600, description: "Session lifetime in seconds" },
+      },
+    },
+    queryParams: TOKEN_TYPE_QUERY,
+    outputExample: {
+      ok: true,
+      address: "SP2PABAF9FTAJYNFZH93XENAJ8FVY99RRM50D2JG9",
+      sessionToken: "x402cs_SP2PABAF9FTAJYNFZH93XENAJ8FVY99RRM50D2JG9.9a3b...e1",
+      sessionExpiresAt: "2026-01-30T13:00:00.000Z",
+      balances: [CREDIT_BALANCE_EXAMPLE],
+      tokenType: "STX",
+    },
+  },
+  {
+    path: "/credits/balance",
+    method: "GET",
+    category: "credits",
+    description: `Prepaid balances per token with their expiry, the session's expiry and the latest ledger entries. ${CREDIT_SESSION_NOTE}`,
+    outputExample: {
+      ok: true,
+      address: "SP2PABAF9FTAJYNFZH93XENAJ8FVY99RRM50D2JG9",
+      balances: [CREDIT_BALANCE_EXAMPLE],
+      session: { expiresAt: "2026-01-30T13:00:00.000Z" },
+      recent: [
+        {
+          id: 2,
+          kind: "debit",
+          token: "STX",
+          amount: -1000,
+          balanceAfter: 95000,
+          reference: "/hashing/sha256",
+          createdAt: "2026-01-30T12:05:00.000Z",
+        },
+      ],
+    },
+  },
+  {
+    path: "/credits/session",
+    method: "DELETE",
+    category: "credits",
+    description: `End a credit session early; the balance is kept. ${CREDIT_SESSION_NOTE}`,
+    outputExample: { ok: true, revoked: true },
+  },
 ];
 
 // =============================================================================
@@ -950,6 +1866,11 @@ const ALL_ENDPOINTS: EndpointMetadata[] = [
   ...syncEndpoints,
   ...queueEndpoints,
   ...memoryEndpoints,
+  ...usageEndpoints,
+  ...archiveEndpoints,
+  ...grantEndpoints,
+  ...payerUsageEndpoints,
+  ...creditEndpoints,
 ];
 
 /**
@@ -0,0 +1,506 @@
+/**
+ * CreditLedgerDO - Per-payer Prepaid Credit Ledger
+ *
+ * One instance per payer address. Holds the payer's prepaid balance in each
+ * payment token, the bearer session tokens that may spend it, and an entry
+ * per top-up, debit and expiry.
+ *
+ * Dynamic LLM charges are reconciled here after completion: overcharges are
+ * credited to the balance (spendable through a session from a top-up or
+ * openSession), undercharges are absorbed by the house up to a cap per token
+ * and time window and recorded as unrecovered beyond it.
+ *
+ * A balance expires CREDIT_BALANCE_TTL_S after its last top-up; sessions
+ * expire on their own (shorter) clock. Both are expired lazily, before any
+ * read or write.
+ */
+
+import { DurableObject } from "cloudflare:workers";
+import type { Env, TokenType } from "../types";
+import {
+  CREDIT_BALANCE_TTL_S,
+  hashSessionToken,
+  mintSessionToken,
+} from "../utils/credit-session";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CreditBalance {
+  token: TokenType;
+  /** Base units of the token */
+  balance: number;
+  expiresAt: string;
+}
+
+export type CreditEntryKind = "topup" | "debit" | "expire" | "refund";
+
+export interface CreditEntry {
+  id: number;
+  kind: CreditEntryKind;
+  token: TokenType;
+  /** Signed change in base units (negative for debits and expiries) */
+  amount: number;
+  balanceAfter: number;
+  /** Settlement txid for top-ups, endpoint for debits, request ID for refunds */
+  reference: string | null;
+  createdAt: string;
+}
+
+export interface CreditSession {
+  sessionToken: string;
+  expiresAt: string;
+}
+
+/** Actual vs estimated charge of one dynamic LLM request, and how the difference was settled */
+export interface ChargeReconciliation {
+  requestId: string;
+  model: string;
+  token: TokenType;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCostUsd: number;
+  actualCostUsd: number;
+  /** Charged up front (base units) */
+  charged: number;
+  /** Actual cost with margin (base units) */
+  actual: number;
+  /** charged - actual */
+  delta: number;
+  /** Overcharge added to the credit balance */
+  credited: number;
+  /** Undercharge absorbed by the house within its cap */
+  houseRisk: number;
+  /** Undercharge beyond the house risk cap (never taken from the balance) */
+  unrecovered: number;
+  createdAt: string;
+}
+
+export type ChargeReconciliationInput = Pick<
+  ChargeReconciliation,
+  "requestId" | "model" | "token" | "inputTokens" | "outputTokens" | "estimatedCostUsd" | "actualCostUsd" | "charged" | "actual"
+>;
+
+/** Reconciliation totals for one token */
+export interface ReconciliationTotals {
+  token: TokenType;
+  requests: number;
+  charged: number;
+  actual: number;
+  credited: number;
+  houseRisk: number;
+  unrecovered: number;
+}
+
+export type CreditDebitResult =
+  | { ok: true; balance: CreditBalance }
+  | { ok: false; reason: "invalid_session" | "insufficient_balance"; balance: number };
+
+// =============================================================================
+// CreditLedgerDO Implementation
+// =============================================================================
+
+export class CreditLedgerDO extends DurableObject<Env> {
+  private sql: SqlStorage;
+
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+    this.sql = ctx.storage.sql;
+
+    ctx.blockConcurrencyWhile(async () => {
+      this.initSchema();
+    });
+  }
+
+  private initSchema(): void {
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS balances (
+        token TEXT PRIMARY KEY,
+        balance INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+
+      -- Only a hash of each session token is kept
+      CREATE TABLE IF NOT EXISTS sessions (
+        token_hash TEXT PRIMARY KEY,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS entries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        kind TEXT NOT NULL,
+        token TEXT NOT NULL,
+        amount INTEGER NOT NULL,
+        balance_after INTEGER NOT NULL,
+        reference TEXT,
+        created_at INTEGER NOT NULL
+      );
+
+      -- One row per reconciled dynamic LLM request
+      CREATE TABLE IF NOT EXISTS reconciliations (
+        request_id TEXT PRIMARY KEY,
+        model TEXT NOT NULL,
+        token TEXT NOT NULL,
+        input_tokens INTEGER NOT NULL,
+        output_tokens INTEGER NOT NULL,
+        estimated_cost_usd REAL NOT NULL,
+        actual_cost_usd REAL NOT NULL,
+        charged INTEGER NOT NULL,
+        actual INTEGER NOT NULL,
+        credited INTEGER NOT NULL,
+        house_risk INTEGER NOT NULL,
+        unrecovered INTEGER NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_sessions_expires ON sessions(expires_at);
+      CREATE INDEX IF NOT EXISTS idx_entries_created ON entries(created_at);
+      CREATE INDEX IF NOT EXISTS idx_reconciliations_token ON reconciliations(token, created_at);
+    `);
+  }
+
+  /**
+   * Drop expired sessions, and zero expired balances (logging an expire entry)
+   */
+  private cleanupExpired(now: number): void {
+    this.sql.exec("DELETE FROM sessions WHERE expires_at <= ?", now);
+
+    const expired = this.sql
+      .exec("DELETE FROM balances WHERE expires_at <= ? RETURNING token, balance", now)
+      .toArray();
+    for (const row of expired) {
+      if ((row.balance as number) > 0) {
+        this.logEntry("expire", row.token as TokenType, -(row.balance as number), 0, null, now);
+      }
+    }
+  }
+
+  private logEntry(
+    kind: CreditEntryKind,
+    token: TokenType,
+    amount: number,
+    balanceAfter: number,
+    reference: string | null,
+    now: number
+  ): void {
+    this.sql.exec(
+      `INSERT INTO entries (kind, token, amount, balance_after, reference, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      kind, token, amount, balanceAfter, reference, now
+    );
+  }
+
+  /**
+   * Add to a token's balance (creating it), moving its expiry to
+   * CREDIT_BALANCE_TTL_S from now
+   */
+  private addToBalance(token: TokenType, amount: number, now: number): Record<string, SqlStorageValue> {
+    return this.sql
+      .exec(
+        `INSERT INTO balances (token, balance, expires_at, updated_at) VALUES (?, ?, ?, ?)
+         ON CONFLICT(token) DO UPDATE SET
+           balance = balance + excluded.balance,
+           expires_at = excluded.expires_at,
+           updated_at = excluded.updated_at
+         RETURNING token, balance, expires_at`,
+        token, amount, now + CREDIT_BALANCE_TTL_S * 1000, now
+      )
+      .one();
+  }
+
+  private hasSession(tokenHash: string): boolean {
+    return this.sql.exec("SELECT 1 FROM sessions WHERE token_hash = ?", tokenHash).toArray().length > 0;
+  }
+
+  private rowToBalance(row: Record<string, SqlStorageValue>): CreditBalance {
+    return {
+      token: row.token as TokenType,
+      balance: row.balance as number,
+      expiresAt: new Date(row.expires_at as number).toISOString(),
+    };
+  }
+
+  private rowToReconciliation(row: Record<string, SqlStorageValue>): ChargeReconciliation {
+    return {
+      requestId: row.request_id as string,
+      model: row.model as string,
+      token: row.token as TokenType,
+      inputTokens: row.input_tokens as number,
+      outputTokens: row.output_tokens as number,
+      estimatedCostUsd: row.estimated_cost_usd as number,
+      actualCostUsd: row.actual_cost_usd as number,
+      charged: row.charged as number,
+      actual: row.actual as number,
+      delta: (row.charged as number) - (row.actual as number),
+      credited: row.credited as number,
+      houseRisk: row.house_risk as number,
+      unrecovered: row.unrecovered as number,
+      createdAt: new Date(row.created_at as number).toISOString(),
+    };
+  }
+
+  // ===========================================================================
+  // Top-Ups and Debits
+  // ===========================================================================
+
+  /**
+   * Credit a settled top-up and open a session for the payer. The balance's
+   * expiry moves to CREDIT_BALANCE_TTL_S from now.
+   */
+  async topup(options: {
+    payerAddress: string;
+    token: TokenType;
+    amount: number;
+    txid: string | null;
+    sessionTtlS: number;
+  }): Promise<{ session: CreditSession; balance: CreditBalance }> {
+    const now = Date.now();
+    const sessionToken = mintSessionToken(options.payerAddress);
+    const tokenHash = await hashSessionToken(sessionToken);
+    const sessionExpiresAt = now + options.sessionTtlS * 1000;
+
+    const balance = this.ctx.storage.transactionSync(() => {
+      this.cleanupExpired(now);
+
+      const row = this.addToBalance(options.token, options.amount, now);
+      this.logEntry("topup", options.token, options.amount, row.balance as number, options.txid, now);
+      this.sql.exec(
+        "INSERT INTO sessions (token_hash, created_at, expires_at) VALUES (?, ?, ?)",
+        tokenHash, now, sessionExpiresAt
+      );
+      return this.rowToBalance(row);
+    });
+
+    return {
+      session: { sessionToken, expiresAt: new Date(sessionExpiresAt).toISOString() },
+      balance,
+    };
+  }
+
+  /**
+   * Open a session on the payer's existing balances without a top-up, e.g.
+   * to spend overcharges credited back by reconciliation
+   */
+  async openSession(options: {
+    payerAddress: string;
+    sessionTtlS: number;
+  }): Promise<{ session: CreditSession; balances: CreditBalance[] }> {
+    const now = Date.now();
+    const sessionToken = mintSessionToken(options.payerAddress);
+    const tokenHash = await hashSessionToken(sessionToken);
+    const sessionExpiresAt = now + options.sessionTtlS * 1000;
+
+    const balances = this.ctx.storage.transactionSync(() => {
+      this.cleanupExpired(now);
+
+      this.sql.exec(
+        "INSERT INTO sessions (token_hash, created_at, expires_at) VALUES (?, ?, ?)",
+        tokenHash, now, sessionExpiresAt
+      );
+      return this.sql
+        .exec("SELECT token, balance, expires_at FROM balances ORDER BY token")
+        .toArray()
+        .map((row) => this.rowToBalance(row));
+    });
+
+    return {
+      session: { sessionToken, expiresAt: new Date(sessionExpiresAt).toISOString() },
+      balances,
+    };
+  }
+
+  /**
+   * Spend from the balance on behalf of a session. Nothing is debited unless
+   * the session is live and the balance covers the whole amount.
+   */
+  async debit(options: {
+    sessionToken: string;
+    token: TokenType;
+    amount: number;
+    endpoint: string;
+  }): Promise<CreditDebitResult> {
+    const now = Date.now();
+    const tokenHash = await hashSessionToken(options.sessionToken);
+
+    return this.ctx.storage.transactionSync((): CreditDebitResult => {
+      this.cleanupExpired(now);
+
+      if (!this.hasSession(tokenHash)) {
+        return { ok: false, reason: "invalid_session", balance: 0 };
+      }
+
+      const row = this.sql
+        .exec(
+          `UPDATE balances SET balance = balance - ?, updated_at = ?
+           WHERE token = ? AND balance >= ?
+           RETURNING token, balance, expires_at`,
+          options.amount, now, options.token, options.amount
+        )
+        .toArray()[0];
+      if (!row) {
+        const current = this.sql.exec("SELECT balance FROM balances WHERE token = ?", options.token).toArray()[0];
+        return { ok: false, reason: "insufficient_balance", balance: (current?.balance as number) ?? 0 };
+      }
+
+      this.logEntry("debit", options.token, -options.amount, row.balance as number, options.endpoint, now);
+      return { ok: true, balance: this.rowToBalance(row) };
+    });
+  }
+
+  // ===========================================================================
+  // Charge Reconciliation (dynamic LLM requests)
+  // ===========================================================================
+
+  /**
+   * Settle the difference between what a request was charged and its actual
+   * cost. An overcharge is credited to the balance. An undercharge is
+   * absorbed by the house while the payer's house risk in the token over the
+   * last `houseRiskWindowS` seconds stays within `houseRiskCap`; the rest is
+   * recorded as unrecovered, and the balance is never touched. Reconciling a
+   * request twice returns the first result.
+   */
+  async reconcile(
+    input: ChargeReconciliationInput & { houseRiskCap: number; houseRiskWindowS: number }
+  ): Promise<ChargeReconciliation> {
+    const now = Date.now();
+
+    return this.ctx.storage.transactionSync(() => {
+      const existing = this.sql
+        .exec("SELECT * FROM reconciliations WHERE request_id = ?", input.requestId)
+        .toArray()[0];
+      if (existing) return this.rowToReconciliation(existing);
+
+      this.cleanupExpired(now);
+
+      const delta = input.charged - input.actual;
+      let credited = 0;
+      let houseRisk = 0;
+      let unrecovered = 0;
+
+      if (delta > 0) {
+        credited = delta;
+        const row = this.addToBalance(input.token, credited, now);
+        this.logEntry("refund", input.token, credited, row.balance as number, input.requestId, now);
+      } else if (delta < 0) {
+        const absorbed = this.sql
+          .exec(
+            `SELECT COALESCE(SUM(house_risk), 0) AS total FROM reconciliations
+             WHERE token = ? AND created_at > ?`,
+            input.token, now - input.houseRiskWindowS * 1000
+          )
+          .one().total as number;
+        houseRisk = Math.min(-delta, Math.max(input.houseRiskCap - absorbed, 0));
+        unrecovered = -delta - houseRisk;
+      }
+
+      this.sql.exec(
+        `INSERT INTO reconciliations (
+          request_id, model, token, input_tokens, output_tokens, estimated_cost_usd, actual_cost_usd,
+          charged, actual, credited, house_risk, unrecovered, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        input.requestId, input.model, input.token, input.inputTokens, input.outputTokens,
+        input.estimatedCostUsd, input.actualCostUsd, input.charged, input.actual,
+        credited, houseRisk, unrecovered, now
+      );
+      return this.rowToReconciliation(
+        this.sql.exec("SELECT * FROM reconciliations WHERE request_id = ?", input.requestId).one()
+      );
+    });
+  }
+
+  /**
+   * Reconciliation totals per token and the latest reconciled requests
+   * (for /usage/me/reconciliation)
+   */
+  async getReconciliation(limit: number = 20): Promise<{
+    totals: ReconciliationTotals[];
+    recent: ChargeReconciliation[];
+  }> {
+    const totals = this.sql
+      .exec(
+        `SELECT token, COUNT(*) AS requests, SUM(charged) AS charged, SUM(actual) AS actual,
+                SUM(credited) AS credited, SUM(house_risk) AS house_risk, SUM(unrecovered) AS unrecovered
+         FROM reconciliations GROUP BY token ORDER BY token`
+      )
+      .toArray()
+      .map((row) => ({
+        token: row.token as TokenType,
+        requests: row.requests as number,
+        charged: row.charged as number,
+        actual: row.actual as number,
+        credited: row.credited as number,
+        houseRisk: row.house_risk as number,
+        unrecovered: row.unrecovered as number,
+      }));
+
+    const recent = this.sql
+      .exec("SELECT * FROM reconciliations ORDER BY created_at DESC, request_id LIMIT ?", limit)
+      .toArray()
+      .map((row) => this.rowToReconciliation(row));
+
+    return { totals, recent };
+  }
+
+  // ===========================================================================
+  // Session Queries (free /credits routes)
+  // ===========================================================================
+
+  /**
+   * Balances, the session's expiry and recent entries; null if the session
+   * is not live
+   */
+  async getBalance(sessionToken: string, recentLimit: number = 20): Promise<{
+    balances: CreditBalance[];
+    session: { expiresAt: string };
+    recent: CreditEntry[];
+  } | null> {
+    const now = Date.now();
+    const tokenHash = await hashSessionToken(sessionToken);
+    this.cleanupExpired(now);
+
+    const session = this.sql
+      .exec("SELECT expires_at FROM sessions WHERE token_hash = ?", tokenHash)
+      .toArray()[0];
+    if (!session) return null;
+
+    const balances = this.sql
+      .exec("SELECT token, balance, expires_at FROM balances ORDER BY token")
+      .toArray()
+      .map((row) => this.rowToBalance(row));
+
+    const recent = this.sql
+      .exec(
+        `SELECT id, kind, token, amount, balance_after, reference, created_at
+         FROM entries ORDER BY id DESC LIMIT ?`,
+        recentLimit
+      )
+      .toArray()
+      .map((row) => ({
+        id: row.id as number,
+        kind: row.kind as CreditEntryKind,
+        token: row.token as TokenType,
+        amount: row.amount as number,
+        balanceAfter: row.balance_after as number,
+        reference: row.reference as string | null,
+        createdAt: new Date(row.created_at as number).toISOString(),
+      }));
+
+    return {
+      balances,
+      session: { expiresAt: new Date(session.expires_at as number).toISOString() },
+      recent,
+    };
+  }
+
+  /**
+   * End a session early. The balance is untouched.
+   */
+  async revokeSession(sessionToken: string): Promise<boolean> {
+    const tokenHash = await hashSessionToken(sessionToken);
+    const result = this.sql.exec("DELETE FROM sessions WHERE token_hash = ?", tokenHash);
+    return result.rowsWritten > 0;
+  }
+}
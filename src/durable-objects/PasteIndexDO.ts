@@ -0,0 +1,190 @@
+/**
+ * PasteIndexDO - Global Shared Paste Index
+ *
+ * Pastes live in their owner's StorageDO, keyed by payer address, so a paste
+ * ID alone cannot be resolved by anyone else. This singleton maps the IDs of
+ * unlisted and public pastes to their owner, so /paste/:id can route a read
+ * to the right StorageDO. Public pastes are also listed; unlisted ones are
+ * reachable only by ID. Private pastes are never indexed.
+ */
+
+import { DurableObject } from "cloudflare:workers";
+import type { Env } from "../types";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type SharedPasteVisibility = "unlisted" | "public";
+
+export interface SharedPasteEntry {
+  id: string;
+  owner: string;
+  visibility: SharedPasteVisibility;
+  title: string | null;
+  language: string | null;
+  createdAt: string;
+  expiresAt: string | null;
+}
+
+/** Public listing row (owner addresses are not exposed) */
+export type PublicPasteSummary = Omit<SharedPasteEntry, "owner" | "visibility">;
+
+// =============================================================================
+// PasteIndexDO Implementation
+// =============================================================================
+
+export class PasteIndexDO extends DurableObject<Env> {
+  private sql: SqlStorage;
+
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+    this.sql = ctx.storage.sql;
+
+    ctx.blockConcurrencyWhile(async () => {
+      this.initSchema();
+    });
+  }
+
+  private initSchema(): void {
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS shared_pastes (
+        id TEXT PRIMARY KEY,
+        owner TEXT NOT NULL,
+        visibility TEXT NOT NULL,
+        title TEXT,
+        language TEXT,
+        created_at TEXT NOT NULL,
+        expires_at TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_shared_pastes_public ON shared_pastes(visibility, created_at);
+      CREATE INDEX IF NOT EXISTS idx_shared_pastes_expires ON shared_pastes(expires_at);
+    `);
+  }
+
+  private cleanupExpired(): void {
+    this.sql.exec(
+      "DELETE FROM shared_pastes WHERE expires_at IS NOT NULL AND expires_at < ?",
+      new Date().toISOString()
+    );
+  }
+
+  // ===========================================================================
+  // Index Maintenance (called by the owner's paste endpoints)
+  // ===========================================================================
+
+  /**
+   * Add or refresh a shared paste. An ID already indexed for another owner is
+   * left untouched (returns false).
+   */
+  async register(entry: SharedPasteEntry): Promise<boolean> {
+    const result = this.sql.exec(
+      `INSERT INTO shared_pastes (id, owner, visibility, title, language, created_at, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         visibility = excluded.visibility,
+         title = excluded.title,
+         language = excluded.language,
+         expires_at = excluded.expires_at
+       WHERE shared_pastes.owner = excluded.owner`,
+      entry.id, entry.owner, entry.visibility, entry.title, entry.language, entry.createdAt, entry.expiresAt
+    );
+    return result.rowsWritten > 0;
+  }
+
+  /**
+   * Drop a paste from the index (only its owner's entry)
+   */
+  async remove(id: string, owner: string): Promise<boolean> {
+    const result = this.sql.exec("DELETE FROM shared_pastes WHERE id = ? AND owner = ?", id, owner);
+    return result.rowsWritten > 0;
+  }
+
+  /**
+   * Register many pastes at once (storage imports). Returns the IDs left
+   * untouched because another owner already holds them.
+   */
+  async registerAll(entries: SharedPasteEntry[]): Promise<string[]> {
+    const conflicts: string[] = [];
+    for (const entry of entries) {
+      if (!(await this.register(entry))) conflicts.push(entry.id);
+    }
+    return conflicts;
+  }
+
+  /**
+   * Drop many of one owner's pastes at once (storage imports)
+   */
+  async removeAll(ids: string[], owner: string): Promise<number> {
+    let removed = 0;
+    for (const id of ids) {
+      if (await this.remove(id, owner)) removed++;
+    }
+    return removed;
+  }
+
+  // ===========================================================================
+  // Lookups (free /paste routes)
+  // ===========================================================================
+
+  async lookup(id: string): Promise<SharedPasteEntry | null> {
+    this.cleanupExpired();
+
+    const row = this.sql
+      .exec(
+        "SELECT owner, visibility, title, language, created_at, expires_at FROM shared_pastes WHERE id = ?",
+        id
+      )
+      .toArray()[0];
+    if (!row) return null;
+
+    return {
+      id,
+      owner: row.owner as string,
+      visibility: row.visibility as SharedPasteVisibility,
+      title: row.title as string | null,
+      language: row.language as string | null,
+      createdAt: row.created_at as string,
+      expiresAt: row.expires_at as string | null,
+    };
+  }
+
+  /**
+   * Public pastes, newest first. `before` is an exclusive (createdAt, id) position.
+   */
+  async listPublic(options: { limit: number; before?: { createdAt: string; id: string } }): Promise<{
+    pastes: PublicPasteSummary[];
+    next: { createdAt: string; id: string } | null;
+  }> {
+    this.cleanupExpired();
+
+    const params: SqlStorageValue[] = [];
+    let where = "visibility = 'public'";
+    if (options.before) {
+      where += " AND (created_at < ? OR (created_at = ? AND id < ?))";
+      params.push(options.before.createdAt, options.before.createdAt, options.before.id);
+    }
+
+    const rows = this.sql
+      .exec(
+        `SELECT id, title, language, created_at, expires_at FROM shared_pastes
+         WHERE ${where} ORDER BY created_at DESC, id DESC LIMIT ?`,
+        ...params, options.limit + 1
+      )
+      .toArray();
+
+    const pastes = rows.slice(0, options.limit).map((row) => ({
+      id: row.id as string,
+      title: row.title as string | null,
+      language: row.language as string | null,
+      createdAt: row.created_at as string,
+      expiresAt: row.expires_at as string | null,
+    }));
+    const last = pastes[pastes.length - 1];
+    return {
+      pastes,
+      next: rows.length > options.limit && last ? { createdAt: last.createdAt, id: last.id } : null,
+    };
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * PriceOracleDO - Global Token Price Cache
+ *
+ * Single instance ("global-prices") holding the USD rates of STX and sBTC
+ * that payment amounts are converted with. Rates are refreshed on demand from
+ * the price feeds (services/price-feeds), at most every PRICE_REFRESH_MS, in
+ * the background while the last accepted rates are served. Each refresh
+ * aggregates the feeds' quotes with outlier rejection; when no quote is usable
+ * the last accepted rate is served until PRICE_MAX_STALE_MS, then the fixed
+ * rates (utils/price-oracle).
+ */
+
+import { DurableObject } from "cloudflare:workers";
+import type { Env, Logger } from "../types";
+import { collectQuotes, priceFeedsFromEnv, type PriceFeed } from "../services/price-feeds";
+import { createConsoleLogger } from "../utils/logger";
+import {
+  ORACLE_TOKENS,
+  PRICE_MAX_STALE_MS,
+  PRICE_REFRESH_MS,
+  aggregateQuotes,
+  selectTokenRate,
+  type OracleToken,
+  type TokenRate,
+} from "../utils/price-oracle";
+
+// =============================================================================
+// PriceOracleDO Implementation
+// =============================================================================
+
+export class PriceOracleDO extends DurableObject<Env> {
+  private sql: SqlStorage;
+  private log: Logger;
+  private feeds: PriceFeed[];
+  /** In-flight refresh shared by concurrent callers */
+  private refreshing: Promise<void> | null = null;
+
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+    this.sql = ctx.storage.sql;
+    this.log = createConsoleLogger({ component: "PriceOracleDO" });
+    this.feeds = priceFeedsFromEnv(env, this.log);
+
+    ctx.blockConcurrencyWhile(async () => {
+      this.initSchema();
+    });
+  }
+
+  private initSchema(): void {
+    this.sql.exec(`
+      -- Last accepted live rate per token (fixed fallbacks are not stored)
+      CREATE TABLE IF NOT EXISTS rates (
+        token TEXT PRIMARY KEY,
+        usd REAL NOT NULL,
+        source TEXT NOT NULL,
+        observed_at INTEGER NOT NULL
+      );
+
+      -- When the feeds were last asked, successful or not
+      CREATE TABLE IF NOT EXISTS refreshes (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        refreshed_at INTEGER NOT NULL
+      );
+    `);
+  }
+
+  // ===========================================================================
+  // Private Helpers
+  // ===========================================================================
+
+  private storedRate(token: OracleToken): TokenRate | null {
+    const row = this.sql.exec("SELECT * FROM rates WHERE token = ?", token).toArray()[0];
+    if (!row) return null;
+    return {
+      token,
+      usd: row.usd as number,
+      source: row.source as string,
+      observedAt: row.observed_at as number,
+      stale: false,
+    };
+  }
+
+  private lastRefreshedAt(): number {
+    const row = this.sql.exec("SELECT refreshed_at FROM refreshes WHERE id = 1").toArray()[0];
+    return (row?.refreshed_at as number | undefined) ?? 0;
+  }
+
+  private async refresh(): Promise<void> {
+    const quotes = await collectQuotes(this.feeds, this.log);
+    const now = Date.now();
+
+    for (const token of ORACLE_TOKENS) {
+      const previous = this.storedRate(token);
+      // Two disagreeing feeds are settled by the last accepted rate while it is live
+      const reference = previous && now - previous.observedAt <= PRICE_MAX_STALE_MS ? previous.usd : null;
+      const consensus = aggregateQuotes(quotes.filter((q) => q.token === token), reference);
+      if (consensus && consensus.rejected.length > 0) {
+        this.log.warn("Price quotes rejected as outliers", {
+          token,
+          consensusUsd: consensus.usd,
+          rejected: consensus.rejected,
+        });
+      }
+
+      const rate = selectTokenRate(token, consensus, previous, now);
+      if (consensus && rate.observedAt === now) {
+        this.sql.exec(
+          `INSERT INTO rates (token, usd, source, observed_at) VALUES (?, ?, ?, ?)
+           ON CONFLICT(token) DO UPDATE SET usd = excluded.usd, source = excluded.source, observed_at = excluded.observed_at`,
+          token, rate.usd, rate.source, now
+        );
+      } else if (consensus) {
+        this.log.warn("Price jump from a single feed ignored", {
+          token,
+          previousUsd: previous?.usd,
+          consensusUsd: consensus.usd,
+          source: consensus.sources.join(","),
+        });
+      }
+    }
+
+    this.sql.exec(
+      `INSERT INTO refreshes (id, refreshed_at) VALUES (1, ?)
+       ON CONFLICT(id) DO UPDATE SET refreshed_at = excluded.refreshed_at`,
+      now
+    );
+  }
+
+  // ===========================================================================
+  // Public Methods
+  // ===========================================================================
+
+  /**
+   * Current rate of each oracle token. When the last refresh is older than
+   * PRICE_REFRESH_MS the feeds are asked in the background; only an oracle
+   * without any accepted rate yet waits for them.
+   */
+  async getRates(): Promise<TokenRate[]> {
+    if (Date.now() - this.lastRefreshedAt() >= PRICE_REFRESH_MS) {
+      this.refreshing ??= this.refresh().finally(() => {
+        this.refreshing = null;
+      });
+      if (ORACLE_TOKENS.every((token) => this.storedRate(token) === null)) {
+        await this.refreshing;
+      } else {
+        this.ctx.waitUntil(this.refreshing);
+      }
+    }
+
+    const now = Date.now();
+    return ORACLE_TOKENS.map((token) => selectTokenRate(token, null, this.storedRate(token), now));
+  }
+}
@@ -8,26 +8,561 @@
  * - Distributed locks (sync)
  * - Job queue
  * - Vector memory with embeddings
+ *
+ * Rows and bytes are accounted per subsystem and capped by storage quotas,
+ * and everything can be exported to (and restored from) an NDJSON archive.
+ * Signed access grants let other payers use this storage (X-Storage-Owner).
+ * Expired rows, locks and job leases are swept by the DO alarm; reads only
+ * hide them until then.
  */
 
 import { DurableObject } from "cloudflare:workers";
 import type { Env } from "../types";
 import type { ScanVerdict } from "../services/safety-scan";
+import type { SharedPasteEntry } from "./PasteIndexDO";
+import { authorizeStatement, type AuthorizedStatement } from "../utils/sql-authorizer";
+import {
+  STORAGE_SUBSYSTEMS,
+  checkStorageQuota,
+  isStorageQuotaExceeded,
+  resolveStorageQuotas,
+  type StorageQuotaExceeded,
+  type StorageQuotas,
+  type StorageSubsystem,
+  type StorageUsage,
+} from "../utils/storage-quota";
+import {
+  ARCHIVE_FORMAT,
+  ARCHIVE_RECORD_SECTIONS,
+  ARCHIVE_VERSION,
+  ArchiveFormatError,
+  archiveCountsMatch,
+  archiveLine,
+  decodeArchiveValue,
+  decodeBinary,
+  encodeArchiveValue,
+  encodeBinary,
+  parseArchiveHeader,
+  parseArchiveLine,
+  type ArchiveEnd,
+  type ArchiveHeader,
+  type ArchiveImportMode,
+  type ArchiveRecord,
+  type ArchiveSection,
+  type ArchiveValue,
+} from "../utils/storage-archive";
+import { grantAllows, type StorageAccessRequest, type StorageGrant } from "../utils/storage-grants";
+import {
+  IVF_DEFAULT_NPROBE,
+  IVF_MIN_VECTORS,
+  IVF_TRAINING_SAMPLE,
+  dotProduct,
+  groupBySimilarity,
+  ivfListCount,
+  meanVector,
+  nearestCentroid,
+  normalizeVector,
+  packVector,
+  topCentroids,
+  trainCentroids,
+  unpackVector,
+} from "../utils/vector-index";
+import {
+  buildFtsQuery,
+  compileMemoryFilter,
+  fuseScores,
+  weightedMemoryScore,
+  type CompiledFilter,
+  type FusionCandidate,
+  type FusionMode,
+  type KeywordMatch,
+  type MemoryFilter,
+  type RankingWeights,
+} from "../utils/memory-query";
+import {
+  CUSTOM_EMBEDDING_MODEL,
+  DEFAULT_EMBEDDING_MODEL,
+  EMBEDDING_MODELS,
+  isCollectionModel,
+  type CollectionModel,
+} from "../services/embeddings";
 
 // Alphanumeric characters for ID generation
 const ID_CHARS = "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
 
+// Queue lease bounds (seconds) for popped jobs awaiting ack/nack
+const DEFAULT_VISIBILITY_TIMEOUT = 30;
+const MAX_VISIBILITY_TIMEOUT = 43200;
+
+// Queue scheduling bounds for delayed jobs and retry budgets
+const MAX_JOB_DELAY_SECONDS = 30 * 24 * 60 * 60;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const MAX_MAX_ATTEMPTS = 100;
+
+// Error recorded when a lease runs out before ack or nack
+const LEASE_EXPIRED_ERROR = "Visibility timeout expired";
+
+// Paste ID lengths: short for private pastes, unguessable for shared ones
+const PRIVATE_PASTE_ID_LENGTH = 8;
+const SHARED_PASTE_ID_LENGTH = 22;
+
+// Superseded versions kept per paste (oldest dropped first)
+const MAX_PASTE_REVISIONS = 100;
+
+// Memory index maintenance batch sizes (rows per alarm pass)
+const LEGACY_EMBEDDING_BATCH = 500;
+const CLUSTER_ASSIGN_BATCH = 2000;
+
+// cluster_id marker for vectors the active index cannot hold (dimension mismatch)
+const UNINDEXED_CLUSTER = -1;
+
+// Filtered searches matching at most this many rows skip the IVF index and score exactly
+const EXACT_FILTERED_SEARCH_MAX = 4096;
+
+// Max rows taken from the FTS5 keyword ranking per search
+const KEYWORD_CANDIDATE_LIMIT = 200;
+
+// KV change feed: events kept for watchers (trimmed every 1000 events)
+const KV_CHANGE_RETENTION = 10000;
+
+// Expiry sweeps: rows removed per table per pass, minimum spacing of passes
+// (reads hide expired rows meanwhile), and expiry events kept in change_log
+const SWEEP_BATCH = 500;
+const MIN_SWEEP_INTERVAL_MS = 5_000;
+const CHANGE_LOG_RETENTION = 10000;
+
+/** SQL condition for rows that have not expired (bind the current ISO time) */
+const LIVE_ROW = "(expires_at IS NULL OR expires_at >= ?)";
+
+// Storage archives: rows read per export query, characters per stream chunk,
+// and the largest archive accepted by an import (it is buffered to apply atomically)
+const EXPORT_PAGE_SIZE = 500;
+const EXPORT_CHUNK_CHARS = 64 * 1024;
+const MAX_IMPORT_BYTES = 32 * 1024 * 1024;
+
+// Defaults for memory items stored without explicit type/importance
+const DEFAULT_MEMORY_TYPE = "embedding";
+const DEFAULT_MEMORY_IMPORTANCE = 5;
+
+/**
+ * A memory item to store. `ttl` (seconds) sets an expiry; omitted fields take
+ * the defaults above.
+ */
+export interface MemoryItemInput {
+  id: string;
+  text: string;
+  embedding: number[];
+  metadata?: Record<string, unknown>;
+  type?: string;
+  importance?: number;
+  summary?: string;
+  source?: string;
+  ttl?: number;
+}
+
+/** Descriptive fields returned with stored memory items */
+export interface MemoryItemFields {
+  type: string;
+  importance: number;
+  summary: string | null;
+  source: string | null;
+  createdAt: string;
+  expiresAt: string | null;
+}
+
+/**
+ * A memory search hit. `similarity` is null for keyword-only searches;
+ * `score` is the ranking score (similarity, normalized bm25, or fused,
+ * optionally blended with importance and recency).
+ */
+export interface MemorySearchResult extends MemoryItemFields {
+  id: string;
+  text: string;
+  metadata: Record<string, unknown> | null;
+  similarity: number | null;
+  score: number;
+}
+
+/**
+ * Built-in tables whose rows count toward a subsystem's usage, with the
+ * columns whose stored size counts as bytes. Kept current by triggers.
+ */
+const USAGE_TRACKED_TABLES: ReadonlyArray<{ table: string; subsystem: StorageSubsystem; columns: string[] }> = [
+  { table: "kv", subsystem: "kv", columns: ["key", "value", "metadata"] },
+  { table: "pastes", subsystem: "paste", columns: ["id", "content", "title", "language"] },
+  { table: "paste_revisions", subsystem: "paste", columns: ["content", "title", "language"] },
+  { table: "jobs", subsystem: "queue", columns: ["id", "queue", "payload", "error", "dedup_key", "history"] },
+  {
+    table: "memories",
+    subsystem: "memory",
+    columns: ["collection", "key", "content", "summary", "tags", "source", "embedding", "embedding_vec"],
+  },
+];
+
+/** DML verbs whose effect on /storage/db usage is limited to the tables they target */
+const DB_DML_VERBS = new Set(["INSERT", "REPLACE", "UPDATE", "DELETE"]);
+
+/**
+ * Tables, indexes and triggers owned by this DO. /storage/db/* statements may
+ * read them but never write, drop or alter them; through a grant they may not
+ * name them at all.
+ */
+const SYSTEM_SQL_OBJECTS: ReadonlySet<string> = new Set([
+  "kv", "kv_changes", "pastes", "paste_revisions", "locks", "lock_holders", "lock_waiters", "lock_fences", "jobs", "memories", "memory_collections", "memory_centroids",
+  "memory_index", "content_scans", "memories_pre_collections",
+  // FTS5 index over memories, its shadow tables and sync triggers
+  "memories_fts", "memories_fts_data", "memories_fts_idx", "memories_fts_docsize", "memories_fts_config",
+  "memories_fts_insert", "memories_fts_delete", "memories_fts_update",
+  "kv_changes_insert", "kv_changes_update", "kv_changes_delete", "kv_changes_trim",
+  "paste_revisions_cleanup",
+  // Expiry sweeps and their change log; scans removed with their content
+  "change_log", "change_log_trim", "idx_kv_expires", "idx_pastes_expires", "idx_memories_expires",
+  "content_scans_kv_cleanup", "content_scans_paste_cleanup", "content_scans_memory_cleanup",
+  // Usage accounting
+  "storage_usage", "storage_usage_tables",
+  // Access grants
+  "storage_grants", "idx_storage_grants_grantee",
+  ...USAGE_TRACKED_TABLES.flatMap(({ table }) => ["insert", "update", "delete"].map((op) => `usage_${table}_${op}`)),
+  "idx_locks_expires", "idx_lock_holders_name", "idx_lock_holders_expires", "idx_lock_waiters_name",
+  "idx_jobs_queue_status", "idx_jobs_available", "idx_jobs_dedup", "idx_jobs_lease",
+  "idx_memories_type", "idx_memories_importance", "idx_memories_cluster",
+  "idx_scans_type", "idx_scans_safe",
+]);
+
+/** Quote an SQL identifier */
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/** Whether a schema object belongs to /storage/db (not to this DO or SQLite) */
+function isUserSqlName(name: string): boolean {
+  return !name.startsWith("sqlite_") && !name.startsWith("_cf_") && !SYSTEM_SQL_OBJECTS.has(name.toLowerCase());
+}
+
+/**
+ * SQL expression for the stored size of a row's columns. With `row`
+ * ("new"/"old"), columns are read from that trigger row.
+ */
+function rowBytesSql(columns: string[], row?: "new" | "old"): string {
+  if (columns.length === 0) return "0";
+  const prefix = row ? `${row}.` : "";
+  return columns
+    .map((column) => `COALESCE(length(CAST(${prefix}${quoteIdentifier(column)} AS BLOB)), 0)`)
+    .join(" + ");
+}
+
+/** Row columns selected for every memory read */
+const MEMORY_ROW_COLUMNS = "key, content, tags, type, importance, summary, source, created_at, expires_at";
+
+function memoryItemFields(row: Record<string, SqlStorageValue>): MemoryItemFields {
+  return {
+    type: (row.type as string | null) ?? DEFAULT_MEMORY_TYPE,
+    importance: (row.importance as number | null) ?? DEFAULT_MEMORY_IMPORTANCE,
+    summary: row.summary as string | null,
+    source: row.source as string | null,
+    createdAt: row.created_at as string,
+    expiresAt: row.expires_at as string | null,
+  };
+}
+
+/** Row columns selected for every current-version paste read */
+const PASTE_ROW_COLUMNS =
+  "content, title, language, version, visibility, max_reads, read_count, created_at, updated_at, expires_at";
+
+function pasteEntryFromRow(id: string, row: Record<string, SqlStorageValue>): PasteEntry {
+  return {
+    id,
+    content: row.content as string,
+    title: row.title as string | null,
+    language: row.language as string | null,
+    version: row.version as number,
+    visibility: row.visibility as PasteVisibility,
+    maxReads: row.max_reads as number | null,
+    readCount: row.read_count as number,
+    createdAt: row.created_at as string,
+    updatedAt: (row.updated_at as string | null) ?? (row.created_at as string),
+    expiresAt: row.expires_at as string | null,
+  };
+}
+
+/**
+ * Preconditions on a KV key's version (compare-and-swap). A number matches
+ * that exact version; "*" matches any existing key.
+ * - ifMatch: the key must exist (at that version)
+ * - ifNoneMatch: the key must not exist (at that version)
+ */
+export interface KvPrecondition {
+  ifMatch?: number | "*";
+  ifNoneMatch?: number | "*";
+}
+
+/** Result of a conditional KV write that did not meet its precondition */
+export interface KvPreconditionFailed {
+  ok: false;
+  /** Current version of the key, or null when it does not exist */
+  currentVersion: number | null;
+}
+
+/** A stored KV entry */
+export interface KvEntry {
+  key: string;
+  value: string;
+  metadata: Record<string, unknown> | null;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** One operation in a /storage/kv/batch request */
+export type KvBatchOperation =
+  | { op: "get"; key: string }
+  | ({ op: "set"; key: string; value: string; metadata?: Record<string, unknown>; ttl?: number } & KvPrecondition)
+  | ({ op: "delete"; key: string } & KvPrecondition);
+
+/** Per-operation result of a KV batch */
+export type KvBatchResult =
+  | ({ op: "get"; found: true } & KvEntry)
+  | { op: "get"; key: string; found: false }
+  | { op: "set"; key: string; created: boolean; version: number }
+  | { op: "delete"; key: string; deleted: boolean };
+
+/** One entry of the KV change feed */
+export interface KvChangeEvent {
+  seq: number;
+  key: string;
+  op: "set" | "delete";
+  /**
+   * Value written by a set event, read from the key when the event is watched;
+   * null for deletes and for sets a later write has already replaced
+   */
+  value: string | null;
+  version: number;
+  at: string;
+}
+
+/**
+ * Who can read a paste: only its owner (private), anyone with the ID
+ * (unlisted), or anyone, with the paste listed in the public index (public).
+ */
+export type PasteVisibility = "private" | "unlisted" | "public";
+
+/**
+ * A paste at one version. `updatedAt` is when that version was written.
+ */
+export interface PasteEntry {
+  id: string;
+  content: string;
+  title: string | null;
+  language: string | null;
+  version: number;
+  visibility: PasteVisibility;
+  /** Shared reads allowed before the paste is deleted (null = unlimited) */
+  maxReads: number | null;
+  readCount: number;
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string | null;
+}
+
+export interface PasteRevision {
+  version: number;
+  title: string | null;
+  language: string | null;
+  /** Content size in bytes */
+  size: number;
+  savedAt: string;
+  current: boolean;
+}
+
+/**
+ * Lock kinds: exclusive (one holder), shared (any number of shared holders,
+ * no exclusive), semaphore (holders share `limit` permits).
+ */
+export type LockMode = "exclusive" | "shared" | "semaphore";
+
+export interface LockAcquireOptions {
+  /** Hold duration in seconds (clamped to 10-300) */
+  ttl?: number;
+  mode?: LockMode;
+  /** Semaphore permits to take (default 1) */
+  permits?: number;
+  /** Semaphore capacity (default 1) */
+  limit?: number;
+  /** How long to wait in the queue; 0 tries once */
+  waitMs?: number;
+  /** Token of a current hold to re-enter */
+  token?: string;
+}
+
+/**
+ * Result of syncLock. `fence` increases with every new hold on a name, so
+ * downstream systems can reject writes carrying an older fence.
+ */
+export type LockAcquireResult =
+  | { acquired: true; token: string; expiresAt: string; fence: number; mode: LockMode; depth: number }
+  | {
+      acquired: false;
+      token: null;
+      expiresAt: null;
+      fence: null;
+      mode: LockMode;
+      heldUntil?: string;
+      error?: string;
+    };
+
+/**
+ * Thrown inside a KV batch transaction to roll it back on a failed precondition
+ */
+class KvBatchPreconditionError extends Error {
+  constructor(public failedIndex: number, public currentVersion: number | null) {
+    super(`KV batch operation ${failedIndex} failed its precondition`);
+    this.name = "KvBatchPreconditionError";
+  }
+}
+
+/**
+ * Check a KV precondition against the key's current version (null = missing)
+ */
+function kvPreconditionHolds(current: number | null, condition?: KvPrecondition): boolean {
+  if (!condition) return true;
+  const { ifMatch, ifNoneMatch } = condition;
+  if (ifMatch !== undefined && (current === null || (ifMatch !== "*" && ifMatch !== current))) {
+    return false;
+  }
+  if (ifNoneMatch !== undefined && current !== null && (ifNoneMatch === "*" || ifNoneMatch === current)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Thrown inside a write transaction to roll it back when it breaks a quota
+ */
+class StorageQuotaError extends Error {
+  constructor(public exceeded: StorageQuotaExceeded) {
+    const { subsystem, limit } = exceeded.quotaExceeded;
+    super(`Storage quota exceeded: ${subsystem} ${limit}`);
+    this.name = "StorageQuotaError";
+  }
+}
+
+/**
+ * A single job to enqueue, with optional per-job scheduling and retry settings
+ */
+export interface QueueJobInput {
+  data: unknown;
+  priority?: number;
+  /** Seconds to wait before the job becomes available (ignored when runAt is set) */
+  delaySeconds?: number;
+  /** Absolute ISO 8601 time at which the job becomes available */
+  runAt?: string;
+  maxAttempts?: number;
+  /** Idempotency key: a pending or in-flight job with the same key is not enqueued twice */
+  dedupKey?: string;
+}
+
+/**
+ * Outcome of /storage/import. Shared pastes must be re-registered in (and
+ * removed ones dropped from) the global paste index by the caller.
+ */
+export type StorageImportResult =
+  | {
+      ok: true;
+      mode: ArchiveImportMode;
+      sections: ArchiveSection[];
+      counts: Record<string, number>;
+      sharedPastes: Array<Omit<SharedPasteEntry, "owner">>;
+      removedSharedPastes: string[];
+    }
+  | { ok: false; error: string; status: 400 | 413; line?: number }
+  | StorageQuotaExceeded;
+
+/** A signed grant stored in its grantor's StorageDO */
+export interface StoredGrant extends StorageGrant {
+  signature: string;
+  createdAt: string;
+  /** Set when the grantor revokes it; the row stays so the nonce cannot be reused */
+  revokedAt: string | null;
+}
+
+export type GrantRegisterResult =
+  | { ok: true; created: boolean; grant: StoredGrant }
+  | { ok: false; error: string; status: 409 };
+
+/** Statuses a queued job can be in */
+const JOB_STATUSES = new Set(["pending", "processing", "completed", "dead"]);
+
+/**
+ * Tables whose rows carry an expires_at, with their subsystem and the
+ * columns that identify a row in change_log
+ */
+const EXPIRING_TABLES = {
+  kv: { subsystem: "kv", namespace: null, name: "key" },
+  pastes: { subsystem: "paste", namespace: null, name: "id" },
+  memories: { subsystem: "memory", namespace: "collection", name: "key" },
+} as const;
+
+type ExpiringTable = keyof typeof EXPIRING_TABLES;
+
+/** What a change_log row records */
+type ChangeLogEvent = "expired" | "lease_expired" | "dead_lettered";
+
+/**
+ * The earlier of two optional times
+ */
+function earliest(a: number | null, b: number | null): number | null {
+  if (a === null) return b;
+  if (b === null) return a;
+  return Math.min(a, b);
+}
+
+/**
+ * One entry of a job's history: a failed attempt (nacked or lease expired),
+ * or a redrive out of the dead-letter state (`queue` is the queue it left)
+ */
+export type JobHistoryEntry =
+  | { event: "failed"; attempt: number; error: string | null; at: string }
+  | { event: "redriven"; queue: string; at: string };
+
+/**
+ * SET clause appending the current attempt's failure to a job's history,
+ * with the error and time as parameters (run before `attempt` changes)
+ */
+const APPEND_FAILED_ATTEMPT =
+  "history = json_insert(COALESCE(history, '[]'), '$[#]', " +
+  "json_object('event', 'failed', 'attempt', attempt, 'error', ?, 'at', ?))";
+
 /**
- * Generate a random alphanumeric string
+ * Generate a random alphanumeric string from the CSPRNG. Shared paste IDs and
+ * lock tokens are bearer secrets, so Math.random is not enough.
  */
 function generateRandomString(length: number, prefix = ""): string {
+  // Bytes at or above the largest multiple of ID_CHARS.length are redrawn so
+  // every character is equally likely
+  const limit = 256 - (256 % ID_CHARS.length);
   let result = prefix;
-  for (let i = 0; i < length; i++) {
-    result += ID_CHARS.charAt(Math.floor(Math.random() * ID_CHARS.length));
+  while (result.length < prefix.length + length) {
+    for (const byte of crypto.getRandomValues(new Uint8Array(length))) {
+      if (byte >= limit) continue;
+      result += ID_CHARS.charAt(byte % ID_CHARS.length);
+      if (result.length === prefix.length + length) break;
+    }
   }
   return result;
 }
 
+/**
+ * Whether a value is a string holding a JSON array
+ */
+function isJsonArray(value: unknown): boolean {
+  if (typeof value !== "string") return false;
+  try {
+    return Array.isArray(JSON.parse(value));
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Safely parse a JSON string field into a Record
  * Returns null if parsing fails or value is falsy
@@ -59,26 +594,63 @@ function parseStringArray(value: unknown): string[] {
 
 export class StorageDO extends DurableObject<Env> {
   private sql: SqlStorage;
+  // IVF centroids by "collection:version" (loaded lazily, dropped when a version retires)
+  private centroidCache = new Map<string, Float32Array[]>();
+  // Set once no JSON-encoded embeddings remain (new writes always use BLOBs)
+  private legacyEmbeddingsMigrated = false;
+  // Pending /storage/kv/watch long-polls, woken on every KV change
+  private kvWatchers = new Set<() => void>();
+  // Pending /storage/sync/lock waits, woken whenever queued waiters are granted
+  private lockWaiters = new Set<() => void>();
+  // Per-subsystem row and byte limits (STORAGE_QUOTAS overrides the defaults)
+  private quotas: StorageQuotas;
 
   constructor(ctx: DurableObjectState, env: Env) {
     super(ctx, env);
     this.sql = ctx.storage.sql;
+    this.quotas = resolveStorageQuotas(env.STORAGE_QUOTAS);
 
     // Use blockConcurrencyWhile for one-time schema initialization
     // This ensures schema is ready before any requests are processed
     ctx.blockConcurrencyWhile(async () => {
       this.initializeSchema();
+      // Data stored before expiry sweeps (or while none was armed) is swept too
+      await this.scheduleSweep();
     });
   }
 
   /**
-   * Clean up expired entries from a table with expires_at column
+   * Wake every pending long-poll in a waiter set
    */
-  private cleanupExpired(table: "kv" | "pastes" | "memories"): void {
-    this.sql.exec(
-      `DELETE FROM ${table} WHERE expires_at IS NOT NULL AND expires_at < ?`,
-      new Date().toISOString()
-    );
+  private wakeAll(waiters: Set<() => void>): void {
+    const pending = [...waiters];
+    waiters.clear();
+    for (const wake of pending) wake();
+  }
+
+  /**
+   * Resolve after the next wakeAll() on `waiters`, or after `ms`, whichever comes first
+   */
+  private waitForWake(waiters: Set<() => void>, ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const wake = () => {
+        clearTimeout(timer);
+        waiters.delete(wake);
+        resolve();
+      };
+      const timer = setTimeout(wake, ms);
+      waiters.add(wake);
+    });
+  }
+
+  /**
+   * Add a column to a table created by an older schema version
+   */
+  private addColumnIfMissing(table: string, column: string, definition: string): void {
+    const columns = this.sql.exec(`PRAGMA table_info(${table})`).toArray();
+    if (!columns.some((col) => col.name === column)) {
+      this.sql.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
   }
 
   /**
@@ -97,6 +669,43 @@ export class StorageDO extends DurableObject<Env> {
         updated_at TEXT NOT NULL
       )
     `);
+    // Incremented on every write; used for compare-and-swap
+    this.addColumnIfMissing("kv", "version", "INTEGER NOT NULL DEFAULT 1");
+
+    // KV change feed for /storage/kv/watch, written by triggers so every path
+    // (set, incr, batch, delete, expiry) is captured. AUTOINCREMENT keeps seq
+    // monotonic after trimming. Events hold no values, so the feed doesn't keep
+    // a copy of every write; kvWatch reads them from kv.
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS kv_changes (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        key TEXT NOT NULL,
+        op TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        at TEXT NOT NULL
+      )
+    `);
+    this.sql.exec(`
+      CREATE TRIGGER IF NOT EXISTS kv_changes_insert AFTER INSERT ON kv BEGIN
+        INSERT INTO kv_changes (key, op, version, at) VALUES (new.key, 'set', new.version, new.updated_at);
+      END
+    `);
+    this.sql.exec(`
+      CREATE TRIGGER IF NOT EXISTS kv_changes_update AFTER UPDATE ON kv BEGIN
+        INSERT INTO kv_changes (key, op, version, at) VALUES (new.key, 'set', new.version, new.updated_at);
+      END
+    `);
+    this.sql.exec(`
+      CREATE TRIGGER IF NOT EXISTS kv_changes_delete AFTER DELETE ON kv BEGIN
+        INSERT INTO kv_changes (key, op, version, at)
+        VALUES (old.key, 'delete', old.version, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+      END
+    `);
+    this.sql.exec(`
+      CREATE TRIGGER IF NOT EXISTS kv_changes_trim AFTER INSERT ON kv_changes WHEN new.seq % 1000 = 0 BEGIN
+        DELETE FROM kv_changes WHERE seq <= new.seq - ${KV_CHANGE_RETENTION};
+      END
+    `);
 
     // Paste table
     this.sql.exec(`
@@ -109,17 +718,85 @@ export class StorageDO extends DurableObject<Env> {
         created_at TEXT NOT NULL
       )
     `);
+    this.addColumnIfMissing("pastes", "version", "INTEGER NOT NULL DEFAULT 1");
+    this.addColumnIfMissing("pastes", "updated_at", "TEXT");
+    this.addColumnIfMissing("pastes", "visibility", "TEXT NOT NULL DEFAULT 'private'");
+    this.addColumnIfMissing("pastes", "max_reads", "INTEGER");
+    this.addColumnIfMissing("pastes", "read_count", "INTEGER NOT NULL DEFAULT 0");
 
-    // Locks table for distributed locking
+    // Superseded paste versions (the current version lives in pastes)
     this.sql.exec(`
-      CREATE TABLE IF NOT EXISTS locks (
-        name TEXT PRIMARY KEY,
-        token TEXT NOT NULL,
+      CREATE TABLE IF NOT EXISTS paste_revisions (
+        paste_id TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        content TEXT NOT NULL,
+        title TEXT,
+        language TEXT,
+        saved_at TEXT NOT NULL,
+        PRIMARY KEY (paste_id, version)
+      )
+    `);
+    // History goes with the paste, whether deleted or expired
+    this.sql.exec(`
+      CREATE TRIGGER IF NOT EXISTS paste_revisions_cleanup AFTER DELETE ON pastes BEGIN
+        DELETE FROM paste_revisions WHERE paste_id = old.id;
+      END
+    `);
+
+    // Lock holders: one row per granted hold (several for shared locks and semaphores)
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS lock_holders (
+        token TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        mode TEXT NOT NULL,
+        permits INTEGER NOT NULL DEFAULT 1,
+        lock_limit INTEGER NOT NULL DEFAULT 1,
+        depth INTEGER NOT NULL DEFAULT 1,
+        fence INTEGER NOT NULL,
         expires_at TEXT NOT NULL,
         acquired_at TEXT NOT NULL
       )
     `);
-    this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_locks_expires ON locks(expires_at)`);
+    this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_lock_holders_name ON lock_holders(name)`);
+    this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_lock_holders_expires ON lock_holders(expires_at)`);
+
+    // FIFO queue of acquires waiting for a lock. Waiters belong to in-flight
+    // requests, which do not survive a restart, so the queue starts empty.
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS lock_waiters (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        token TEXT NOT NULL UNIQUE,
+        mode TEXT NOT NULL,
+        permits INTEGER NOT NULL,
+        lock_limit INTEGER NOT NULL,
+        ttl INTEGER NOT NULL,
+        deadline TEXT NOT NULL
+      )
+    `);
+    this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_lock_waiters_name ON lock_waiters(name, id)`);
+    this.sql.exec("DELETE FROM lock_waiters");
+
+    // Last fencing token issued per lock name (kept after release so tokens never repeat)
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS lock_fences (
+        name TEXT PRIMARY KEY,
+        fence INTEGER NOT NULL
+      )
+    `);
+
+    // Single-holder locks from before lock modes become exclusive holds
+    const hasLegacyLocks = this.sql
+      .exec("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'locks'")
+      .toArray().length > 0;
+    if (hasLegacyLocks) {
+      this.sql.exec(`
+        INSERT OR IGNORE INTO lock_holders (token, name, mode, fence, expires_at, acquired_at)
+        SELECT token, name, 'exclusive', 1, expires_at, acquired_at FROM locks
+      `);
+      this.sql.exec("INSERT OR IGNORE INTO lock_fences (name, fence) SELECT name, 1 FROM locks");
+      this.sql.exec("DROP TABLE locks");
+    }
 
     // Jobs table for queue functionality
     this.sql.exec(`
@@ -137,16 +814,37 @@ export class StorageDO extends DurableObject<Env> {
         updated_at TEXT NOT NULL,
         completed_at TEXT,
         failed_at TEXT,
-        error TEXT
+        error TEXT,
+        dedup_key TEXT,
+        history TEXT
       )
     `);
+    this.addColumnIfMissing("jobs", "dedup_key", "TEXT");
+    // JSON array of JobHistoryEntry
+    this.addColumnIfMissing("jobs", "history", "TEXT");
     this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_jobs_queue_status ON jobs(queue, status)`);
     this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_jobs_available ON jobs(queue, status, available_at, priority DESC)`);
-
-    // Memories table for agent memory system
+    this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_jobs_dedup ON jobs(queue, dedup_key)`);
+    this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_jobs_lease ON jobs(visibility_timeout) WHERE status = 'processing'`);
+
+    // Memories table for agent memory system, namespaced by collection.
+    // Tables from before collections (keyed on `key` alone) are set aside and copied into
+    // the new layout; their FTS and IVF indexes are derived data and get rebuilt.
+    const memoryColumns = this.sql.exec("PRAGMA table_info(memories)").toArray();
+    if (memoryColumns.length > 0 && !memoryColumns.some((col) => col.name === "collection")) {
+      for (const trigger of ["memories_fts_insert", "memories_fts_delete", "memories_fts_update"]) {
+        this.sql.exec(`DROP TRIGGER IF EXISTS ${trigger}`);
+      }
+      this.sql.exec("DROP TABLE IF EXISTS memories_fts");
+      for (const index of ["idx_memories_type", "idx_memories_importance", "idx_memories_cluster"]) {
+        this.sql.exec(`DROP INDEX IF EXISTS ${index}`);
+      }
+      this.sql.exec("ALTER TABLE memories RENAME TO memories_pre_collections");
+    }
     this.sql.exec(`
       CREATE TABLE IF NOT EXISTS memories (
-        key TEXT PRIMARY KEY,
+        collection TEXT NOT NULL DEFAULT 'default',
+        key TEXT NOT NULL,
         content TEXT NOT NULL,
         summary TEXT,
         tags TEXT,
@@ -154,13 +852,102 @@ export class StorageDO extends DurableObject<Env> {
         importance INTEGER DEFAULT 5,
         source TEXT,
         embedding TEXT,
+        embedding_vec BLOB,
+        cluster_id INTEGER,
+        next_cluster_id INTEGER,
         expires_at TEXT,
         created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (collection, key)
       )
     `);
     this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_memories_type ON memories(type)`);
     this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_memories_importance ON memories(importance DESC)`);
+    this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_memories_cluster ON memories(collection, cluster_id)`);
+
+    // Keyword index over memory content: external-content FTS5 kept in sync by triggers.
+    // Rows stored before the index existed are picked up by a one-time rebuild.
+    const hadMemoriesFts = this.sql
+      .exec("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'memories_fts'")
+      .toArray().length > 0;
+    this.sql.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS memories_fts
+      USING fts5(content, content='memories', content_rowid='rowid')
+    `);
+    this.sql.exec(`
+      CREATE TRIGGER IF NOT EXISTS memories_fts_insert AFTER INSERT ON memories BEGIN
+        INSERT INTO memories_fts(rowid, content) VALUES (new.rowid, new.content);
+      END
+    `);
+    this.sql.exec(`
+      CREATE TRIGGER IF NOT EXISTS memories_fts_delete AFTER DELETE ON memories BEGIN
+        INSERT INTO memories_fts(memories_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+      END
+    `);
+    this.sql.exec(`
+      CREATE TRIGGER IF NOT EXISTS memories_fts_update AFTER UPDATE OF content ON memories BEGIN
+        INSERT INTO memories_fts(memories_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+        INSERT INTO memories_fts(rowid, content) VALUES (new.rowid, new.content);
+      END
+    `);
+
+    // Copy pre-collection rows into the default collection (OR IGNORE: safe to resume)
+    const hasPreCollectionMemories = this.sql
+      .exec("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'memories_pre_collections'")
+      .toArray().length > 0;
+    if (hasPreCollectionMemories) {
+      const columns = this.sql
+        .exec("PRAGMA table_info(memories_pre_collections)")
+        .toArray()
+        .map((col) => col.name as string)
+        .filter((name) => name !== "cluster_id" && name !== "next_cluster_id")
+        .join(", ");
+      this.sql.exec(`INSERT OR IGNORE INTO memories (${columns}) SELECT ${columns} FROM memories_pre_collections`);
+      this.sql.exec("DROP TABLE memories_pre_collections");
+    }
+
+    if (!hadMemoriesFts) {
+      this.sql.exec("INSERT INTO memories_fts(memories_fts) VALUES ('rebuild')");
+    }
+
+    // Declared embedding model per collection (collections without a row use the default model)
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS memory_collections (
+        name TEXT PRIMARY KEY,
+        model TEXT NOT NULL,
+        dimensions INTEGER,
+        created_at TEXT NOT NULL
+      )
+    `);
+    this.addColumnIfMissing("memory_collections", "dimensions", "INTEGER");
+
+    // IVF index for memory search, per collection: centroids per index version, plus a state row.
+    // A rebuild trains `building_version` while `active_version` keeps serving queries.
+    // Indexes from before collections were global; drop them and let maintenance retrain.
+    const indexColumns = this.sql.exec("PRAGMA table_info(memory_index)").toArray();
+    if (indexColumns.length > 0 && !indexColumns.some((col) => col.name === "collection")) {
+      this.sql.exec("DROP TABLE memory_index");
+      this.sql.exec("DROP TABLE IF EXISTS memory_centroids");
+      this.sql.exec("UPDATE memories SET cluster_id = NULL, next_cluster_id = NULL");
+    }
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS memory_centroids (
+        collection TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        id INTEGER NOT NULL,
+        vector BLOB NOT NULL,
+        PRIMARY KEY (collection, version, id)
+      )
+    `);
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS memory_index (
+        collection TEXT PRIMARY KEY,
+        active_version INTEGER,
+        building_version INTEGER,
+        trained_count INTEGER NOT NULL DEFAULT 0,
+        updated_at TEXT NOT NULL
+      )
+    `);
 
     // Content scans table for safety classification results
     this.sql.exec(`
@@ -177,55 +964,428 @@ export class StorageDO extends DurableObject<Env> {
     `);
     this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_scans_type ON content_scans(content_type)`);
     this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_scans_safe ON content_scans(safe)`);
+    // Verdicts go with their content, whether deleted, expired or replaced by an import.
+    // Verdicts orphaned before these triggers existed are dropped once.
+    const hadScanCleanup = this.sql
+      .exec("SELECT 1 FROM sqlite_master WHERE type = 'trigger' AND name = 'content_scans_kv_cleanup'")
+      .toArray().length > 0;
+    this.sql.exec(`
+      CREATE TRIGGER IF NOT EXISTS content_scans_kv_cleanup AFTER DELETE ON kv BEGIN
+        DELETE FROM content_scans WHERE content_type = 'kv' AND id = old.key;
+      END
+    `);
+    this.sql.exec(`
+      CREATE TRIGGER IF NOT EXISTS content_scans_paste_cleanup AFTER DELETE ON pastes BEGIN
+        DELETE FROM content_scans WHERE content_type = 'paste' AND id = old.id;
+      END
+    `);
+    // Memory scans are keyed by item key alone, so they stay while any collection holds the key
+    this.sql.exec(`
+      CREATE TRIGGER IF NOT EXISTS content_scans_memory_cleanup AFTER DELETE ON memories
+      WHEN NOT EXISTS (SELECT 1 FROM memories WHERE key = old.key) BEGIN
+        DELETE FROM content_scans WHERE content_type = 'memory' AND id = old.key;
+      END
+    `);
+    if (!hadScanCleanup) {
+      this.sql.exec(`
+        DELETE FROM content_scans WHERE
+          (content_type = 'kv' AND id NOT IN (SELECT key FROM kv)) OR
+          (content_type = 'paste' AND id NOT IN (SELECT id FROM pastes)) OR
+          (content_type = 'memory' AND id NOT IN (SELECT key FROM memories))
+      `);
+    }
+
+    // Expiry sweeps: indexes find due rows, change_log records what was
+    // removed or released (written by the sweep, not by triggers, so explicit
+    // deletes are not logged). AUTOINCREMENT keeps seq monotonic after trimming.
+    this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_kv_expires ON kv(expires_at) WHERE expires_at IS NOT NULL`);
+    this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_pastes_expires ON pastes(expires_at) WHERE expires_at IS NOT NULL`);
+    this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_memories_expires ON memories(expires_at) WHERE expires_at IS NOT NULL`);
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS change_log (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        subsystem TEXT NOT NULL,
+        namespace TEXT,
+        name TEXT NOT NULL,
+        event TEXT NOT NULL,
+        at TEXT NOT NULL
+      )
+    `);
+    this.sql.exec(`
+      CREATE TRIGGER IF NOT EXISTS change_log_trim AFTER INSERT ON change_log WHEN new.seq % 1000 = 0 BEGIN
+        DELETE FROM change_log WHERE seq <= new.seq - ${CHANGE_LOG_RETENTION};
+      END
+    `);
+
+    // Access grants issued by this payer (not counted in usage, not exported)
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS storage_grants (
+        nonce INTEGER PRIMARY KEY,
+        grantor TEXT NOT NULL,
+        grantee TEXT NOT NULL,
+        scope TEXT NOT NULL,
+        subsystems TEXT NOT NULL,
+        prefix TEXT NOT NULL,
+        expires_at INTEGER,
+        signature TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        revoked_at TEXT
+      )
+    `);
+    this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_storage_grants_grantee ON storage_grants(grantee)`);
+
+    // Usage per subsystem. Built-in tables are counted by triggers so every
+    // path (writes, expiry, cascades) is captured; /storage/db tables are
+    // measured after each write (per table, in storage_usage_tables).
+    const hadStorageUsage = this.sql
+      .exec("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'storage_usage'")
+      .toArray().length > 0;
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS storage_usage (
+        subsystem TEXT PRIMARY KEY,
+        rows INTEGER NOT NULL DEFAULT 0,
+        bytes INTEGER NOT NULL DEFAULT 0
+      )
+    `);
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS storage_usage_tables (
+        name TEXT PRIMARY KEY,
+        rows INTEGER NOT NULL,
+        bytes INTEGER NOT NULL
+      )
+    `);
+    for (const subsystem of STORAGE_SUBSYSTEMS) {
+      this.sql.exec("INSERT OR IGNORE INTO storage_usage (subsystem) VALUES (?)", subsystem);
+    }
+    for (const { table, subsystem, columns } of USAGE_TRACKED_TABLES) {
+      this.sql.exec(`
+        CREATE TRIGGER IF NOT EXISTS usage_${table}_insert AFTER INSERT ON ${table} BEGIN
+          UPDATE storage_usage SET rows = rows + 1, bytes = bytes + (${rowBytesSql(columns, "new")})
+          WHERE subsystem = '${subsystem}';
+        END
+      `);
+      this.sql.exec(`
+        CREATE TRIGGER IF NOT EXISTS usage_${table}_update AFTER UPDATE ON ${table} BEGIN
+          UPDATE storage_usage SET bytes = bytes + (${rowBytesSql(columns, "new")}) - (${rowBytesSql(columns, "old")})
+          WHERE subsystem = '${subsystem}';
+        END
+      `);
+      this.sql.exec(`
+        CREATE TRIGGER IF NOT EXISTS usage_${table}_delete AFTER DELETE ON ${table} BEGIN
+          UPDATE storage_usage SET rows = rows - 1, bytes = bytes - (${rowBytesSql(columns, "old")})
+          WHERE subsystem = '${subsystem}';
+        END
+      `);
+    }
+    // Data stored before usage accounting is counted once
+    if (!hadStorageUsage) {
+      for (const subsystem of STORAGE_SUBSYSTEMS) {
+        if (subsystem === "db") continue;
+        let rows = 0;
+        let bytes = 0;
+        for (const tracked of USAGE_TRACKED_TABLES.filter((t) => t.subsystem === subsystem)) {
+          const usage = this.measureTable(tracked.table, tracked.columns);
+          rows += usage.rows;
+          bytes += usage.bytes;
+        }
+        this.sql.exec("UPDATE storage_usage SET rows = ?, bytes = ? WHERE subsystem = ?", rows, bytes, subsystem);
+      }
+      this.refreshDbUsage(null);
+    }
   }
 
   // ===========================================================================
-  // KV Operations
+  // Expiry Sweeps
   // ===========================================================================
 
-  async kvSet(
-    key: string,
-    value: string,
-    options?: { metadata?: Record<string, unknown>; ttl?: number }
-  ): Promise<{ key: string; created: boolean }> {
-    const now = new Date().toISOString();
-    const expiresAt = options?.ttl
-      ? new Date(Date.now() + options.ttl * 1000).toISOString()
-      : null;
-    const metadata = options?.metadata ? JSON.stringify(options.metadata) : null;
-
-    // Check if key exists before upsert to determine created flag
-    const existing = this.sql
-      .exec("SELECT 1 FROM kv WHERE key = ?", key)
-      .toArray();
-    const created = existing.length === 0;
-
-    // Use upsert pattern to eliminate one SQL round-trip
+  private logChange(
+    subsystem: string,
+    namespace: string | null,
+    name: string,
+    event: ChangeLogEvent,
+    at: string
+  ): void {
     this.sql.exec(
-      `INSERT INTO kv (key, value, metadata, expires_at, created_at, updated_at)
-       VALUES (?, ?, ?, ?, ?, ?)
-       ON CONFLICT(key) DO UPDATE SET
-         value = excluded.value,
-         metadata = excluded.metadata,
-         expires_at = excluded.expires_at,
-         updated_at = excluded.updated_at`,
-      key, value, metadata, expiresAt, now, now
+      "INSERT INTO change_log (subsystem, namespace, name, event, at) VALUES (?, ?, ?, ?, ?)",
+      subsystem, namespace, name, event, at
     );
-
-    return { key, created };
   }
 
-  async kvGet(key: string): Promise<{
-    key: string;
-    value: string;
-    metadata: Record<string, unknown> | null;
-    createdAt: string;
-    updatedAt: string;
-  } | null> {
-    this.cleanupExpired('kv');
-
-    const result = this.sql
-      .exec("SELECT value, metadata, created_at, updated_at FROM kv WHERE key = ?", key)
+  /**
+   * Delete expired rows of a table (up to `limit`), logging each to
+   * change_log. `where` narrows the rows considered, e.g. to the key a write
+   * is about to replace. Returns the number of rows removed.
+   */
+  private expireRows(
+    table: ExpiringTable,
+    options?: { where?: string; params?: SqlStorageValue[]; limit?: number }
+  ): number {
+    const { subsystem, namespace, name } = EXPIRING_TABLES[table];
+    const now = new Date().toISOString();
+    const rows = this.sql
+      .exec(
+        `DELETE FROM ${table} WHERE rowid IN (
+           SELECT rowid FROM ${table} WHERE expires_at < ?${options?.where ? ` AND ${options.where}` : ""} LIMIT ?
+         ) RETURNING ${namespace ? `${namespace}, ` : ""}${name}`,
+        now, ...(options?.params ?? []), options?.limit ?? -1
+      )
+      .toArray();
+    for (const row of rows) {
+      this.logChange(subsystem, namespace ? (row[namespace] as string) : null, row[name] as string, "expired", now);
+    }
+    if (table === "kv" && rows.length > 0) this.notifyKvWatchers();
+    return rows.length;
+  }
+
+  /**
+   * One bounded sweep: expired KV entries, pastes and memories are deleted,
+   * expired lock holds dropped (promoting waiters) and timed-out job leases
+   * released. Returns true when expired rows remain for another pass.
+   */
+  private sweepExpired(): boolean {
+    return this.ctx.storage.transactionSync(() => {
+      let more = false;
+      for (const table of Object.keys(EXPIRING_TABLES) as ExpiringTable[]) {
+        if (this.expireRows(table, { limit: SWEEP_BATCH }) === SWEEP_BATCH) more = true;
+      }
+      this.sweepLocks();
+      this.cleanupVisibilityTimeouts();
+      return more;
+    });
+  }
+
+  /**
+   * Earliest pending expiry of a row, lock hold or job lease (epoch ms)
+   */
+  private nextExpiry(): number | null {
+    const row = this.sql
+      .exec(
+        `SELECT MIN(at) AS next FROM (
+           SELECT MIN(expires_at) AS at FROM kv WHERE expires_at IS NOT NULL
+           UNION ALL SELECT MIN(expires_at) FROM pastes WHERE expires_at IS NOT NULL
+           UNION ALL SELECT MIN(expires_at) FROM memories WHERE expires_at IS NOT NULL
+           UNION ALL SELECT MIN(expires_at) FROM lock_holders
+           UNION ALL SELECT MIN(visibility_timeout) FROM jobs WHERE status = 'processing'
+         )`
+      )
+      .one();
+    return row.next === null ? null : new Date(row.next as string).getTime();
+  }
+
+  /**
+   * Arm the DO alarm for `at`, unless it is already due sooner
+   */
+  private async armAlarm(at: number): Promise<void> {
+    const existing = await this.ctx.storage.getAlarm();
+    if (existing === null || existing > at) {
+      await this.ctx.storage.setAlarm(at);
+    }
+  }
+
+  /**
+   * Arm the DO alarm for the next expiry (after writes that set a TTL, hold or lease)
+   */
+  private async scheduleSweep(): Promise<void> {
+    const next = this.nextExpiry();
+    if (next !== null) await this.armAlarm(next);
+  }
+
+  // ===========================================================================
+  // Storage Usage & Quotas
+  // ===========================================================================
+
+  private readUsage(subsystem: StorageSubsystem): StorageUsage {
+    const row = this.sql.exec("SELECT rows, bytes FROM storage_usage WHERE subsystem = ?", subsystem).one();
+    return { rows: row.rows as number, bytes: row.bytes as number };
+  }
+
+  /**
+   * Row count and stored bytes of a table (all columns unless given)
+   */
+  private measureTable(table: string, columns?: string[]): StorageUsage {
+    const measured = columns ?? this.sql
+      .exec(`PRAGMA table_info(${quoteIdentifier(table)})`)
+      .toArray()
+      .map((col) => col.name as string);
+    const row = this.sql
+      .exec(`SELECT COUNT(*) AS rows, COALESCE(SUM(${rowBytesSql(measured)}), 0) AS bytes FROM ${quoteIdentifier(table)}`)
+      .one();
+    return { rows: row.rows as number, bytes: row.bytes as number };
+  }
+
+  /**
+   * Tables created through /storage/db (everything not owned by this DO or SQLite)
+   */
+  private userTables(): string[] {
+    return this.sql
+      .exec("SELECT name FROM sqlite_master WHERE type = 'table'")
+      .toArray()
+      .map((row) => row.name as string)
+      .filter(isUserSqlName);
+  }
+
+  /**
+   * Re-measure /storage/db tables after a write. Plain DML only touches its
+   * target tables; anything else (DDL, or user triggers that may write other
+   * tables) re-measures every table. `null` re-measures everything.
+   */
+  private refreshDbUsage(statement: AuthorizedStatement | null): void {
+    const tables = this.userTables();
+    const hasUserTriggers = this.sql
+      .exec("SELECT name FROM sqlite_master WHERE type = 'trigger'")
+      .toArray()
+      .some((row) => !SYSTEM_SQL_OBJECTS.has((row.name as string).toLowerCase()));
+
+    if (statement && DB_DML_VERBS.has(statement.verb) && !hasUserTriggers) {
+      for (const target of statement.targets) {
+        const table = tables.find((name) => name.toLowerCase() === target);
+        if (!table) continue;
+        const usage = this.measureTable(table);
+        this.sql.exec(
+          `INSERT INTO storage_usage_tables (name, rows, bytes) VALUES (?, ?, ?)
+           ON CONFLICT(name) DO UPDATE SET rows = excluded.rows, bytes = excluded.bytes`,
+          table, usage.rows, usage.bytes
+        );
+      }
+    } else {
+      this.sql.exec("DELETE FROM storage_usage_tables");
+      for (const table of tables) {
+        const usage = this.measureTable(table);
+        this.sql.exec(
+          "INSERT INTO storage_usage_tables (name, rows, bytes) VALUES (?, ?, ?)",
+          table, usage.rows, usage.bytes
+        );
+      }
+    }
+
+    this.sql.exec(`
+      UPDATE storage_usage SET
+        rows = (SELECT COALESCE(SUM(rows), 0) FROM storage_usage_tables),
+        bytes = (SELECT COALESCE(SUM(bytes), 0) FROM storage_usage_tables)
+      WHERE subsystem = 'db'
+    `);
+  }
+
+  /**
+   * Throw StorageQuotaError (rolling back the enclosing transaction) if the
+   * subsystem grew past its quota since `before`
+   */
+  private enforceQuota(subsystem: StorageSubsystem, before: StorageUsage): void {
+    const exceeded = checkStorageQuota(subsystem, this.quotas[subsystem], before, this.readUsage(subsystem));
+    if (exceeded) throw new StorageQuotaError(exceeded);
+  }
+
+  /**
+   * Run a write in a transaction that is rolled back if it takes the
+   * subsystem past its quota
+   */
+  private withinQuota<T>(subsystem: StorageSubsystem, write: () => T): T | StorageQuotaExceeded {
+    try {
+      return this.ctx.storage.transactionSync(() => {
+        const before = this.readUsage(subsystem);
+        const result = write();
+        this.enforceQuota(subsystem, before);
+        return result;
+      });
+    } catch (e) {
+      if (e instanceof StorageQuotaError) return e.exceeded;
+      throw e;
+    }
+  }
+
+  /**
+   * Current usage and quota of every subsystem (expired rows are removed first)
+   */
+  async usageReport(): Promise<{
+    subsystems: Record<StorageSubsystem, { rows: number; bytes: number; quota: StorageUsage }>;
+    total: StorageUsage;
+    databaseBytes: number;
+  }> {
+    const rows = this.sql.exec("SELECT subsystem, rows, bytes FROM storage_usage").toArray();
+    const subsystems = {} as Record<StorageSubsystem, { rows: number; bytes: number; quota: StorageUsage }>;
+    const total: StorageUsage = { rows: 0, bytes: 0 };
+    for (const subsystem of STORAGE_SUBSYSTEMS) {
+      const row = rows.find((r) => r.subsystem === subsystem);
+      const usage = { rows: (row?.rows as number) ?? 0, bytes: (row?.bytes as number) ?? 0 };
+      subsystems[subsystem] = { ...usage, quota: { ...this.quotas[subsystem] } };
+      total.rows += usage.rows;
+      total.bytes += usage.bytes;
+    }
+
+    return { subsystems, total, databaseBytes: this.sql.databaseSize };
+  }
+
+  // ===========================================================================
+  // KV Operations
+  // ===========================================================================
+
+  /**
+   * Current version of a live key, or null when missing or expired
+   */
+  private kvVersion(key: string): number | null {
+    const rows = this.sql
+      .exec(`SELECT version FROM kv WHERE key = ? AND ${LIVE_ROW}`, key, new Date().toISOString())
+      .toArray();
+    return rows.length > 0 ? (rows[0].version as number) : null;
+  }
+
+  /**
+   * Sweep a key that has expired but not been swept yet, so a write to it
+   * starts from scratch
+   */
+  private expireKvKey(key: string): void {
+    this.expireRows("kv", { where: "key = ?", params: [key] });
+  }
+
+  /**
+   * Conditional upsert shared by kvSet and kvBatch
+   */
+  private putKv(
+    key: string,
+    value: string,
+    options?: { metadata?: Record<string, unknown>; ttl?: number } & KvPrecondition
+  ): { ok: true; key: string; created: boolean; version: number } | KvPreconditionFailed {
+    const now = new Date().toISOString();
+    const expiresAt = options?.ttl
+      ? new Date(Date.now() + options.ttl * 1000).toISOString()
+      : null;
+    const metadata = options?.metadata ? JSON.stringify(options.metadata) : null;
+
+    // Check the current version before upsert: created flag and preconditions
+    this.expireKvKey(key);
+    const current = this.kvVersion(key);
+    if (!kvPreconditionHolds(current, options)) {
+      return { ok: false, currentVersion: current };
+    }
+    const created = current === null;
+    const version = created ? 1 : current + 1;
+
+    // Use upsert pattern to eliminate one SQL round-trip
+    this.sql.exec(
+      `INSERT INTO kv (key, value, metadata, expires_at, created_at, updated_at, version)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(key) DO UPDATE SET
+         value = excluded.value,
+         metadata = excluded.metadata,
+         expires_at = excluded.expires_at,
+         updated_at = excluded.updated_at,
+         version = excluded.version`,
+      key, value, metadata, expiresAt, now, now, version
+    );
+    this.notifyKvWatchers();
+
+    return { ok: true, key, created, version };
+  }
+
+  /**
+   * Read a key unless it has expired
+   */
+  private readKv(key: string): KvEntry | null {
+    const result = this.sql
+      .exec(
+        `SELECT value, metadata, version, created_at, updated_at FROM kv WHERE key = ? AND ${LIVE_ROW}`,
+        key, new Date().toISOString()
+      )
       .toArray();
 
     if (result.length === 0) return null;
@@ -235,126 +1395,491 @@ export class StorageDO extends DurableObject<Env> {
       key,
       value: row.value as string,
       metadata: parseJsonField(row.metadata),
+      version: row.version as number,
       createdAt: row.created_at as string,
       updatedAt: row.updated_at as string,
     };
   }
 
-  async kvDelete(key: string): Promise<{ deleted: boolean }> {
+  /**
+   * Conditional delete shared by kvDelete and kvBatch
+   */
+  private removeKv(key: string, condition?: KvPrecondition): { ok: true; deleted: boolean } | KvPreconditionFailed {
+    this.expireKvKey(key);
+    if (condition?.ifMatch !== undefined || condition?.ifNoneMatch !== undefined) {
+      const current = this.kvVersion(key);
+      if (!kvPreconditionHolds(current, condition)) {
+        return { ok: false, currentVersion: current };
+      }
+    }
+
     // DELETE is a no-op if row doesn't exist - just run it directly
     const result = this.sql.exec("DELETE FROM kv WHERE key = ?", key);
-    return { deleted: result.rowsWritten > 0 };
+    const deleted = result.rowsWritten > 0;
+    if (deleted) this.notifyKvWatchers();
+    return { ok: true, deleted };
   }
 
-  async kvList(options?: { prefix?: string; limit?: number }): Promise<
-    Array<{
+  async kvSet(
+    key: string,
+    value: string,
+    options?: { metadata?: Record<string, unknown>; ttl?: number } & KvPrecondition
+  ): Promise<{ ok: true; key: string; created: boolean; version: number } | KvPreconditionFailed | StorageQuotaExceeded> {
+    const result = this.withinQuota("kv", () => this.putKv(key, value, options));
+    if (options?.ttl) await this.scheduleSweep();
+    return result;
+  }
+
+  /**
+   * Atomically add `delta` to an integer value, creating it at `delta` when
+   * missing. A ttl resets the expiry; without one the existing expiry is kept.
+   */
+  async kvIncr(key: string, delta: number, options?: { ttl?: number }): Promise<
+    | { ok: true; key: string; value: number; created: boolean; version: number }
+    | { ok: false; error: string }
+    | StorageQuotaExceeded
+  > {
+    const result = this.withinQuota("kv", () => this.incrKv(key, delta, options));
+    if (options?.ttl) await this.scheduleSweep();
+    return result;
+  }
+
+  private incrKv(key: string, delta: number, options?: { ttl?: number }):
+    | { ok: true; key: string; value: number; created: boolean; version: number }
+    | { ok: false; error: string } {
+    const now = new Date().toISOString();
+    this.expireKvKey(key);
+    const rows = this.sql.exec("SELECT value, version, expires_at FROM kv WHERE key = ?", key).toArray();
+
+    let current = 0;
+    if (rows.length > 0) {
+      const raw = (rows[0].value as string).trim();
+      current = /^-?\d+$/.test(raw) ? Number(raw) : NaN;
+      if (!Number.isSafeInteger(current)) {
+        return { ok: false, error: `Value of '${key}' is not an integer` };
+      }
+    }
+    const value = current + delta;
+    if (!Number.isSafeInteger(value)) {
+      return { ok: false, error: `Incrementing '${key}' would overflow` };
+    }
+
+    const created = rows.length === 0;
+    const version = created ? 1 : (rows[0].version as number) + 1;
+    const expiresAt = options?.ttl
+      ? new Date(Date.now() + options.ttl * 1000).toISOString()
+      : created ? null : (rows[0].expires_at as string | null);
+
+    this.sql.exec(
+      `INSERT INTO kv (key, value, metadata, expires_at, created_at, updated_at, version)
+       VALUES (?, ?, NULL, ?, ?, ?, ?)
+       ON CONFLICT(key) DO UPDATE SET
+         value = excluded.value,
+         expires_at = excluded.expires_at,
+         updated_at = excluded.updated_at,
+         version = excluded.version`,
+      key, String(value), expiresAt, now, now, version
+    );
+    this.notifyKvWatchers();
+
+    return { ok: true, key, value, created, version };
+  }
+
+  async kvGet(key: string): Promise<KvEntry | null> {
+    return this.readKv(key);
+  }
+
+  async kvDelete(key: string, condition?: KvPrecondition): Promise<{ ok: true; deleted: boolean } | KvPreconditionFailed> {
+    return this.removeKv(key, condition);
+  }
+
+  /**
+   * Run get/set/delete operations in order inside one transaction. If any
+   * precondition fails, every write in the batch is rolled back.
+   */
+  async kvBatch(operations: KvBatchOperation[]): Promise<
+    | { ok: true; results: KvBatchResult[] }
+    | { ok: false; failedIndex: number; currentVersion: number | null }
+    | StorageQuotaExceeded
+  > {
+    try {
+      const results = this.ctx.storage.transactionSync(() => {
+        const before = this.readUsage("kv");
+        const results = operations.map((operation, index): KvBatchResult => {
+          if (operation.op === "get") {
+            const entry = this.readKv(operation.key);
+            return entry ? { op: "get", found: true, ...entry } : { op: "get", key: operation.key, found: false };
+          }
+          if (operation.op === "set") {
+            const result = this.putKv(operation.key, operation.value, operation);
+            if (!result.ok) throw new KvBatchPreconditionError(index, result.currentVersion);
+            return { op: "set", key: operation.key, created: result.created, version: result.version };
+          }
+          const result = this.removeKv(operation.key, operation);
+          if (!result.ok) throw new KvBatchPreconditionError(index, result.currentVersion);
+          return { op: "delete", key: operation.key, deleted: result.deleted };
+        });
+        this.enforceQuota("kv", before);
+        return results;
+      });
+      if (operations.some((operation) => operation.op === "set" && operation.ttl)) await this.scheduleSweep();
+      return { ok: true, results };
+    } catch (e) {
+      if (e instanceof KvBatchPreconditionError) {
+        return { ok: false, failedIndex: e.failedIndex, currentVersion: e.currentVersion };
+      }
+      if (e instanceof StorageQuotaError) return e.exceeded;
+      throw e;
+    }
+  }
+
+  /**
+   * List live keys in key order. Pass the previous page's nextKey as `after`
+   * to continue; nextKey is null on the last page.
+   */
+  async kvList(options?: { prefix?: string; limit?: number; after?: string; includeValues?: boolean }): Promise<{
+    keys: Array<{
       key: string;
+      value?: string;
       metadata: Record<string, unknown> | null;
+      version: number;
       updatedAt: string;
-    }>
-  > {
-    this.cleanupExpired('kv');
+    }>;
+    nextKey: string | null;
+  }> {
     const limit = Math.min(options?.limit || 100, 1000);
 
-    let query = "SELECT key, metadata, updated_at FROM kv";
-    const params: unknown[] = [];
+    const columns = options?.includeValues ? "key, value, metadata, version, updated_at" : "key, metadata, version, updated_at";
+    let query = `SELECT ${columns} FROM kv`;
+    const conditions: string[] = [LIVE_ROW];
+    const params: unknown[] = [new Date().toISOString()];
 
     if (options?.prefix) {
-      query += " WHERE key LIKE ? ESCAPE '\\'";
+      conditions.push("key LIKE ? ESCAPE '\\'");
       const escapedPrefix = options.prefix.replace(/[%_\\]/g, '\\$&');
       params.push(`${escapedPrefix}%`);
     }
+    if (options?.after !== undefined) {
+      conditions.push("key > ?");
+      params.push(options.after);
+    }
+    query += ` WHERE ${conditions.join(" AND ")}`;
+    // Fetch one extra row to know whether another page exists
     query += " ORDER BY key LIMIT ?";
-    params.push(limit);
+    params.push(limit + 1);
 
     const results = this.sql.exec(query, ...params).toArray();
+    const page = results.slice(0, limit);
 
-    return results.map((row) => ({
-      key: row.key as string,
-      metadata: parseJsonField(row.metadata),
-      updatedAt: row.updated_at as string,
-    }));
+    return {
+      keys: page.map((row) => ({
+        key: row.key as string,
+        ...(options?.includeValues ? { value: row.value as string } : {}),
+        metadata: parseJsonField(row.metadata),
+        version: row.version as number,
+        updatedAt: row.updated_at as string,
+      })),
+      nextKey: results.length > limit ? (page[page.length - 1].key as string) : null,
+    };
+  }
+
+  // ===========================================================================
+  // KV Change Feed
+  // ===========================================================================
+
+  private notifyKvWatchers(): void {
+    this.wakeAll(this.kvWatchers);
+  }
+
+  /**
+   * Change events for a key, a prefix, or all keys, after sequence `since`
+   * (default: now). Waits up to `timeoutMs` for the first matching event.
+   * `seq` is where the next watch should resume; `truncated` means events
+   * after `since` were already trimmed from the feed.
+   */
+  async kvWatch(options: {
+    key?: string;
+    prefix?: string;
+    since?: number;
+    timeoutMs: number;
+    limit: number;
+  }): Promise<{ events: KvChangeEvent[]; seq: number; truncated: boolean }> {
+    const deadline = Date.now() + options.timeoutMs;
+
+    const bounds = this.sql
+      .exec("SELECT COALESCE(MIN(seq), 0) AS first, COALESCE(MAX(seq), 0) AS last FROM kv_changes")
+      .toArray()[0];
+    const since = options.since ?? (bounds.last as number);
+    const truncated = (bounds.first as number) > since + 1;
+
+    let filter = "";
+    const params: SqlStorageValue[] = [since];
+    if (options.key !== undefined) {
+      filter = " AND c.key = ?";
+      params.push(options.key);
+    } else if (options.prefix) {
+      // Case-sensitive prefix match (LIKE would ignore ASCII case)
+      filter = " AND substr(c.key, 1, length(?)) = ?";
+      params.push(options.prefix, options.prefix);
+    }
+
+    for (;;) {
+      // A set event's value is the key's current value while that write is
+      // still current (same version and time, so a re-created key won't match)
+      const rows = this.sql
+        .exec(
+          `SELECT c.seq, c.key, c.op, c.version, c.at, kv.value FROM kv_changes c
+           LEFT JOIN kv ON c.op = 'set' AND kv.key = c.key AND kv.version = c.version AND kv.updated_at = c.at
+           WHERE c.seq > ?${filter} ORDER BY c.seq LIMIT ?`,
+          ...params, options.limit
+        )
+        .toArray();
+
+      const remaining = deadline - Date.now();
+      if (rows.length > 0 || remaining <= 0) {
+        const events = rows.map((row) => ({
+          seq: row.seq as number,
+          key: row.key as string,
+          op: row.op as "set" | "delete",
+          value: row.value as string | null,
+          version: row.version as number,
+          at: row.at as string,
+        }));
+        // With no matching events, resume after everything seen so far
+        const head = this.sql.exec("SELECT COALESCE(MAX(seq), 0) AS last FROM kv_changes").toArray()[0];
+        const seq = events.length > 0 ? events[events.length - 1].seq : Math.max(since, head.last as number);
+        return { events, seq, truncated };
+      }
+
+      await this.waitForWake(this.kvWatchers, remaining);
+    }
   }
 
   // ===========================================================================
   // Paste Operations
   // ===========================================================================
 
+  /**
+   * Create a paste. Unlisted and public pastes get long random IDs, since
+   * the ID is all another payer needs to read them; `maxReads` caps those
+   * shared reads (the paste is deleted after the last one).
+   */
   async pasteCreate(
     content: string,
-    options?: { title?: string; language?: string; ttl?: number }
-  ): Promise<{ id: string; createdAt: string; expiresAt: string | null }> {
+    options?: { title?: string; language?: string; ttl?: number; visibility?: PasteVisibility; maxReads?: number }
+  ): Promise<{ id: string; createdAt: string; expiresAt: string | null } | StorageQuotaExceeded> {
     const now = new Date().toISOString();
-    const id = generateRandomString(8);
+    const visibility = options?.visibility ?? "private";
+    const id = generateRandomString(visibility === "private" ? PRIVATE_PASTE_ID_LENGTH : SHARED_PASTE_ID_LENGTH);
     const expiresAt = options?.ttl
       ? new Date(Date.now() + options.ttl * 1000).toISOString()
       : null;
 
-    this.sql.exec(
-      `INSERT INTO pastes (id, content, title, language, expires_at, created_at)
-       VALUES (?, ?, ?, ?, ?, ?)`,
-      id, content, options?.title || null, options?.language || null, expiresAt, now
-    );
+    const written = this.withinQuota("paste", () => {
+      this.sql.exec(
+        `INSERT INTO pastes (id, content, title, language, visibility, max_reads, expires_at, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        id, content, options?.title || null, options?.language || null, visibility,
+        options?.maxReads ?? null, expiresAt, now
+      );
+    });
+    if (isStorageQuotaExceeded(written)) return written;
+    if (expiresAt) await this.scheduleSweep();
 
     return { id, createdAt: now, expiresAt };
   }
 
-  async pasteGet(id: string): Promise<{
-    id: string;
-    content: string;
-    title: string | null;
-    language: string | null;
-    createdAt: string;
-    expiresAt: string | null;
-  } | null> {
-    this.cleanupExpired('pastes');
-
+  /**
+   * Get a paste at its current version, or at an earlier `version` from its history
+   */
+  async pasteGet(id: string, version?: number): Promise<PasteEntry | null> {
     const result = this.sql
-      .exec("SELECT content, title, language, created_at, expires_at FROM pastes WHERE id = ?", id)
+      .exec(
+        `SELECT ${PASTE_ROW_COLUMNS} FROM pastes WHERE id = ? AND ${LIVE_ROW}`,
+        id, new Date().toISOString()
+      )
       .toArray();
 
     if (result.length === 0) return null;
 
-    const row = result[0];
+    const current = pasteEntryFromRow(id, result[0]);
+    if (version === undefined || version === current.version) return current;
+
+    const revision = this.sql
+      .exec(
+        "SELECT content, title, language, saved_at FROM paste_revisions WHERE paste_id = ? AND version = ?",
+        id, version
+      )
+      .toArray()[0];
+    if (!revision) return null;
+
+    return {
+      ...current,
+      content: revision.content as string,
+      title: revision.title as string | null,
+      language: revision.language as string | null,
+      version,
+      updatedAt: revision.saved_at as string,
+    };
+  }
+
+  /**
+   * Replace a paste's content, keeping the previous version in its history.
+   * Omitted title/language keep their current values; a ttl resets the expiry.
+   * With `ifMatch`, the update only applies at that current version.
+   */
+  async pasteUpdate(
+    id: string,
+    content: string,
+    options?: { title?: string; language?: string; ttl?: number; ifMatch?: number }
+  ): Promise<
+    | {
+        ok: true;
+        id: string;
+        version: number;
+        title: string | null;
+        language: string | null;
+        visibility: PasteVisibility;
+        createdAt: string;
+        updatedAt: string;
+        expiresAt: string | null;
+      }
+    | { ok: false; currentVersion: number }
+    | StorageQuotaExceeded
+    | null
+  > {
+    this.expireRows("pastes", { where: "id = ?", params: [id] });
+
+    const existing = this.sql
+      .exec(
+        "SELECT content, title, language, version, visibility, created_at, updated_at, expires_at FROM pastes WHERE id = ?",
+        id
+      )
+      .toArray()[0];
+    if (!existing) return null;
+
+    const currentVersion = existing.version as number;
+    if (options?.ifMatch !== undefined && options.ifMatch !== currentVersion) {
+      return { ok: false, currentVersion };
+    }
+
+    const now = new Date().toISOString();
+    const version = currentVersion + 1;
+    const title = options?.title !== undefined ? options.title || null : (existing.title as string | null);
+    const language = options?.language !== undefined
+      ? options.language || null
+      : (existing.language as string | null);
+    const expiresAt = options?.ttl
+      ? new Date(Date.now() + options.ttl * 1000).toISOString()
+      : (existing.expires_at as string | null);
+
+    const written = this.withinQuota("paste", () => {
+      this.sql.exec(
+        `INSERT INTO paste_revisions (paste_id, version, content, title, language, saved_at)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        id, currentVersion, existing.content, existing.title, existing.language,
+        existing.updated_at ?? existing.created_at
+      );
+      this.sql.exec(
+        `UPDATE pastes SET content = ?, title = ?, language = ?, version = ?, updated_at = ?, expires_at = ?
+         WHERE id = ?`,
+        content, title, language, version, now, expiresAt, id
+      );
+      this.sql.exec(
+        "DELETE FROM paste_revisions WHERE paste_id = ? AND version <= ?",
+        id, version - 1 - MAX_PASTE_REVISIONS
+      );
+    });
+    if (isStorageQuotaExceeded(written)) return written;
+    if (options?.ttl) await this.scheduleSweep();
+
     return {
+      ok: true,
       id,
-      content: row.content as string,
+      version,
+      title,
+      language,
+      visibility: existing.visibility as PasteVisibility,
+      createdAt: existing.created_at as string,
+      updatedAt: now,
+      expiresAt,
+    };
+  }
+
+  /**
+   * All stored versions of a paste, newest first (null if the paste does not exist)
+   */
+  async pasteRevisions(id: string): Promise<PasteRevision[] | null> {
+    const rows = this.sql
+      .exec(
+        `SELECT version, title, language, length(CAST(content AS BLOB)) AS size,
+                COALESCE(updated_at, created_at) AS saved_at, 1 AS current
+         FROM pastes WHERE id = ? AND ${LIVE_ROW}
+         UNION ALL
+         SELECT version, title, language, length(CAST(content AS BLOB)) AS size, saved_at, 0 AS current
+         FROM paste_revisions WHERE paste_id = ?
+         ORDER BY version DESC`,
+        id, new Date().toISOString(), id
+      )
+      .toArray();
+    if (rows.length === 0 || rows[0].current !== 1) return null;
+
+    return rows.map((row) => ({
+      version: row.version as number,
       title: row.title as string | null,
       language: row.language as string | null,
-      createdAt: row.created_at as string,
-      expiresAt: row.expires_at as string | null,
-    };
+      size: row.size as number,
+      savedAt: row.saved_at as string,
+      current: row.current === 1,
+    }));
+  }
+
+  /**
+   * Read an unlisted or public paste on behalf of another payer (or anyone).
+   * Counts against `maxReads`; the read that uses up the last one deletes
+   * the paste and reports `burned`.
+   */
+  async pasteReadShared(id: string): Promise<(PasteEntry & { burned: boolean }) | null> {
+    const row = this.sql
+      .exec(
+        `SELECT ${PASTE_ROW_COLUMNS} FROM pastes WHERE id = ? AND visibility != 'private' AND ${LIVE_ROW}`,
+        id, new Date().toISOString()
+      )
+      .toArray()[0];
+    if (!row) return null;
+
+    const entry = pasteEntryFromRow(id, { ...row, read_count: (row.read_count as number) + 1 });
+    const burned = entry.maxReads !== null && entry.readCount >= entry.maxReads;
+    if (burned) {
+      this.sql.exec("DELETE FROM pastes WHERE id = ?", id);
+    } else {
+      this.sql.exec("UPDATE pastes SET read_count = read_count + 1 WHERE id = ?", id);
+    }
+
+    return { ...entry, burned };
   }
 
-  async pasteDelete(id: string): Promise<{ deleted: boolean }> {
+  async pasteDelete(id: string): Promise<{ deleted: boolean; shared: boolean }> {
     // DELETE is a no-op if row doesn't exist - just run it directly
-    const result = this.sql.exec("DELETE FROM pastes WHERE id = ?", id);
-    return { deleted: result.rowsWritten > 0 };
+    const rows = this.sql.exec("DELETE FROM pastes WHERE id = ? RETURNING visibility", id).toArray();
+    return { deleted: rows.length > 0, shared: rows.some((row) => row.visibility !== "private") };
   }
 
   // ===========================================================================
   // SQL Database Operations
   // ===========================================================================
 
-  async sqlQuery(query: string, params: unknown[] = []): Promise<{
+  /**
+   * Run a read statement. `delegated` callers (grantees) may not touch this
+   * DO's own tables at all: a db grant must not expose kv, pastes, memories
+   * or the grants themselves.
+   */
+  async sqlQuery(query: string, params: unknown[] = [], delegated = false): Promise<{
     rows: unknown[];
     rowCount: number;
     columns: string[];
   }> {
-
-    // Security: Only allow SELECT queries
-    const normalizedQuery = query.trim().toUpperCase();
-    if (!normalizedQuery.startsWith("SELECT")) {
-      throw new Error("Only SELECT queries are allowed");
-    }
-
-    // Prevent dangerous patterns
-    const dangerous = ["DROP", "DELETE", "INSERT", "UPDATE", "CREATE", "ALTER", "PRAGMA"];
-    for (const keyword of dangerous) {
-      if (normalizedQuery.includes(keyword)) {
-        throw new Error(`Query contains forbidden keyword: ${keyword}`);
-      }
-    }
+    authorizeStatement(query, { allow: ["read"], protectedNames: SYSTEM_SQL_OBJECTS, protectReads: delegated });
 
     const cursor = this.sql.exec(query, ...params);
     const rows = cursor.toArray();
@@ -363,34 +1888,74 @@ export class StorageDO extends DurableObject<Env> {
     return { rows, rowCount: rows.length, columns };
   }
 
-  async sqlExecute(query: string, params: unknown[] = []): Promise<{
-    success: boolean;
-    rowsAffected: number;
-  }> {
-
-    // Security: Prevent modification of system tables
-    const normalizedQuery = query.trim().toUpperCase();
-    const systemTables = ["KV", "PASTES", "LOCKS", "JOBS", "MEMORIES", "CONTENT_SCANS"];
+  /**
+   * Run a read or write statement (see sqlQuery for `delegated`)
+   */
+  async sqlExecute(query: string, params: unknown[] = [], delegated = false): Promise<
+    | { success: boolean; rowsAffected: number }
+    | StorageQuotaExceeded
+  > {
+    const statement = authorizeStatement(query, {
+      allow: ["read", "write"],
+      protectedNames: SYSTEM_SQL_OBJECTS,
+      protectReads: delegated,
+    });
 
-    for (const table of systemTables) {
-      if ((normalizedQuery.includes("DROP") || normalizedQuery.includes("ALTER")) &&
-          normalizedQuery.includes(table)) {
-        throw new Error(`Cannot modify system table: ${table.toLowerCase()}`);
-      }
-    }
+    return this.withinQuota("db", () => {
+      const cursor = this.sql.exec(query, ...params);
+      if (statement.kind === "write") this.refreshDbUsage(statement);
+      return { success: true, rowsAffected: cursor.rowsWritten };
+    });
+  }
 
-    if (normalizedQuery.startsWith("PRAGMA") && normalizedQuery.includes("=")) {
-      throw new Error("Cannot modify PRAGMA settings");
+  /**
+   * Run statements in order inside one transaction. The first failure rolls
+   * back every statement and is reported with its index.
+   * Statements that return columns (SELECT, RETURNING) include their rows.
+   * See sqlQuery for `delegated`.
+   */
+  async sqlBatch(statements: Array<{ query: string; params?: unknown[] }>, delegated = false): Promise<
+    | { ok: true; results: Array<{ rowsAffected: number; rows?: Record<string, SqlStorageValue>[] }> }
+    | { ok: false; failedIndex: number; error: string }
+    | StorageQuotaExceeded
+  > {
+    let index = 0;
+    try {
+      const results = this.ctx.storage.transactionSync(() => {
+        const before = this.readUsage("db");
+        const results = statements.map((statement, i) => {
+          index = i;
+          const authorized = authorizeStatement(statement.query, {
+            allow: ["read", "write"],
+            protectedNames: SYSTEM_SQL_OBJECTS,
+            protectReads: delegated,
+          });
+          const cursor = this.sql.exec(statement.query, ...(statement.params ?? []));
+          const rows = cursor.toArray();
+          if (authorized.kind === "write") this.refreshDbUsage(authorized);
+          return cursor.columnNames.length > 0
+            ? { rowsAffected: cursor.rowsWritten, rows }
+            : { rowsAffected: cursor.rowsWritten };
+        });
+        this.enforceQuota("db", before);
+        return results;
+      });
+      return { ok: true, results };
+    } catch (e) {
+      if (e instanceof StorageQuotaError) return e.exceeded;
+      return { ok: false, failedIndex: index, error: e instanceof Error ? e.message : String(e) };
     }
-
-    const cursor = this.sql.exec(query, ...params);
-    return { success: true, rowsAffected: cursor.rowsWritten };
   }
 
+  /**
+   * Tables created through /storage/db, with their CREATE statements. The
+   * DO's own tables are not part of the database and stay hidden.
+   */
   async sqlSchema(): Promise<{ tables: Array<{ name: string; sql: string }> }> {
     const tables = this.sql
       .exec("SELECT name, sql FROM sqlite_master WHERE type = 'table' ORDER BY name")
-      .toArray();
+      .toArray()
+      .filter((row) => isUserSqlName(row.name as string));
 
     return {
       tables: tables.map((row) => ({
@@ -404,55 +1969,214 @@ export class StorageDO extends DurableObject<Env> {
   // Lock Operations (Sync)
   // ===========================================================================
 
-  private cleanupExpiredLocks(): void {
-    this.sql.exec("DELETE FROM locks WHERE expires_at < ?", new Date().toISOString());
+  /**
+   * Whether a new hold fits alongside the current holders of `name`:
+   * exclusive needs no holders, shared needs only shared holders, and a
+   * semaphore needs only semaphore holders with enough free permits.
+   */
+  private lockAvailable(name: string, mode: LockMode, permits: number, limit: number): boolean {
+    const holders = this.sql
+      .exec("SELECT mode, permits FROM lock_holders WHERE name = ?", name)
+      .toArray();
+    if (holders.length === 0) return permits <= limit;
+    if (mode === "exclusive" || holders.some((row) => row.mode !== mode)) return false;
+    if (mode === "shared") return true;
+    const used = holders.reduce((sum, row) => sum + (row.permits as number), 0);
+    return used + permits <= limit;
   }
 
-  async syncLock(name: string, options?: { ttl?: number }): Promise<{
-    acquired: boolean;
-    token: string | null;
-    expiresAt: string | null;
-    heldUntil?: string;
-  }> {
-    this.cleanupExpiredLocks();
-
+  /**
+   * Record a hold and issue its fencing token (strictly increasing per name)
+   */
+  private grantLock(
+    name: string,
+    token: string,
+    hold: { mode: LockMode; permits: number; limit: number; ttl: number }
+  ): { fence: number; expiresAt: string } {
     const now = new Date();
-    const ttl = Math.min(Math.max(options?.ttl ?? 60, 10), 300);
-    const expiresAt = new Date(now.getTime() + ttl * 1000).toISOString();
+    const expiresAt = new Date(now.getTime() + hold.ttl * 1000).toISOString();
+    const fence = this.sql
+      .exec(
+        `INSERT INTO lock_fences (name, fence) VALUES (?, 1)
+         ON CONFLICT(name) DO UPDATE SET fence = fence + 1
+         RETURNING fence`,
+        name
+      )
+      .one().fence as number;
+    this.sql.exec(
+      `INSERT INTO lock_holders (token, name, mode, permits, lock_limit, depth, fence, expires_at, acquired_at)
+       VALUES (?, ?, ?, ?, ?, 1, ?, ?, ?)`,
+      token, name, hold.mode, hold.permits, hold.limit, fence, expiresAt, now.toISOString()
+    );
+    return { fence, expiresAt };
+  }
 
-    const existing = this.sql
-      .exec("SELECT token, expires_at FROM locks WHERE name = ?", name)
+  /**
+   * Grant queued waiters for `name` in arrival order, stopping at the first
+   * one that does not fit (later waiters never jump the queue).
+   */
+  private promoteLockWaiters(name: string): void {
+    const waiters = this.sql
+      .exec("SELECT id, token, mode, permits, lock_limit, ttl FROM lock_waiters WHERE name = ? ORDER BY id", name)
       .toArray();
+    let granted = 0;
+    for (const waiter of waiters) {
+      const mode = waiter.mode as LockMode;
+      const permits = waiter.permits as number;
+      const limit = waiter.lock_limit as number;
+      if (!this.lockAvailable(name, mode, permits, limit)) break;
+      this.grantLock(name, waiter.token as string, { mode, permits, limit, ttl: waiter.ttl as number });
+      this.sql.exec("DELETE FROM lock_waiters WHERE id = ?", waiter.id);
+      granted++;
+    }
+    if (granted > 0) this.wakeAll(this.lockWaiters);
+  }
 
-    if (existing.length > 0) {
-      const lock = existing[0];
-      const lockExpiresAt = lock.expires_at as string;
-      if (new Date(lockExpiresAt) > now) {
-        return { acquired: false, token: null, expiresAt: null, heldUntil: lockExpiresAt };
-      }
-      this.sql.exec("DELETE FROM locks WHERE name = ?", name);
+  /**
+   * Drop expired holds and hand their locks to queued waiters
+   */
+  private sweepLocks(): void {
+    const now = new Date().toISOString();
+    const expired = this.sql
+      .exec("DELETE FROM lock_holders WHERE expires_at <= ? RETURNING name", now)
+      .toArray();
+    if (expired.length === 0) return;
+    for (const row of expired) this.logChange("sync", null, row.name as string, "expired", now);
+    const names = new Set(expired.map((row) => row.name as string));
+    for (const name of names) this.promoteLockWaiters(name);
+  }
+
+  /**
+   * Earliest expiry among holds that have waiters queued behind them
+   */
+  private nextLockExpiry(): number | null {
+    const row = this.sql
+      .exec(
+        `SELECT MIN(expires_at) AS next FROM lock_holders
+         WHERE name IN (SELECT name FROM lock_waiters)`
+      )
+      .one();
+    return row.next === null ? null : new Date(row.next as string).getTime();
+  }
+
+  /**
+   * Latest expiry among the current holders of `name`
+   */
+  private lockHeldUntil(name: string): string | null {
+    return this.sql
+      .exec("SELECT MAX(expires_at) AS until FROM lock_holders WHERE name = ?", name)
+      .one().until as string | null;
+  }
+
+  /**
+   * Acquire a lock. With `waitMs`, joins a FIFO queue and waits up to that
+   * long for the lock; otherwise tries once. Passing the `token` of a
+   * current hold re-enters it (depth + 1, TTL refreshed, same fence).
+   */
+  async syncLock(name: string, options?: LockAcquireOptions): Promise<LockAcquireResult> {
+    this.sweepLocks();
+
+    const mode = options?.mode ?? "exclusive";
+    const permits = mode === "semaphore" ? options?.permits ?? 1 : 1;
+    const limit = mode === "semaphore" ? options?.limit ?? 1 : 1;
+    const ttl = Math.min(Math.max(options?.ttl ?? 60, 10), 300);
+    const notAcquired = { acquired: false as const, token: null, expiresAt: null, fence: null, mode };
+    if (permits > limit) return { ...notAcquired, error: "permits exceeds limit" };
+
+    // Reentrant acquire of a hold the caller already owns
+    if (options?.token) {
+      const held = this.sql
+        .exec("SELECT mode, depth, fence FROM lock_holders WHERE name = ? AND token = ?", name, options.token)
+        .toArray()[0];
+      if (!held) return { ...notAcquired, error: "Lock not held by this token" };
+      if (held.mode !== mode) return { ...notAcquired, error: `Lock is held in ${held.mode} mode` };
+      const expiresAt = new Date(Date.now() + ttl * 1000).toISOString();
+      this.sql.exec(
+        "UPDATE lock_holders SET depth = depth + 1, expires_at = ? WHERE token = ?",
+        expiresAt, options.token
+      );
+      return {
+        acquired: true,
+        token: options.token,
+        expiresAt,
+        fence: held.fence as number,
+        mode,
+        depth: (held.depth as number) + 1,
+      };
     }
 
     const token = generateRandomString(32);
+    const queued = this.sql.exec("SELECT 1 FROM lock_waiters WHERE name = ? LIMIT 1", name).toArray().length > 0;
+    if (!queued && this.lockAvailable(name, mode, permits, limit)) {
+      const { fence, expiresAt } = this.grantLock(name, token, { mode, permits, limit, ttl });
+      await this.scheduleSweep();
+      return { acquired: true, token, expiresAt, fence, mode, depth: 1 };
+    }
+
+    const waitMs = options?.waitMs ?? 0;
+    if (waitMs <= 0) {
+      return { ...notAcquired, heldUntil: this.lockHeldUntil(name) ?? undefined };
+    }
+
+    // Queue up; promoteLockWaiters() grants the hold while this request sleeps
+    const deadline = Date.now() + waitMs;
     this.sql.exec(
-      `INSERT INTO locks (name, token, expires_at, acquired_at) VALUES (?, ?, ?, ?)`,
-      name, token, expiresAt, now.toISOString()
+      `INSERT INTO lock_waiters (name, token, mode, permits, lock_limit, ttl, deadline)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      name, token, mode, permits, limit, ttl, new Date(deadline).toISOString()
     );
+    await this.scheduleSweep();
+
+    for (;;) {
+      const granted = this.sql
+        .exec("SELECT fence, expires_at FROM lock_holders WHERE token = ?", token)
+        .toArray()[0];
+      if (granted) {
+        return {
+          acquired: true,
+          token,
+          expiresAt: granted.expires_at as string,
+          fence: granted.fence as number,
+          mode,
+          depth: 1,
+        };
+      }
 
-    return { acquired: true, token, expiresAt };
-  }
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        this.sql.exec("DELETE FROM lock_waiters WHERE token = ?", token);
+        // Leaving the head of the queue may unblock compatible waiters behind it
+        this.promoteLockWaiters(name);
+        return { ...notAcquired, heldUntil: this.lockHeldUntil(name) ?? undefined };
+      }
 
-  async syncUnlock(name: string, token: string): Promise<{ released: boolean; error?: string }> {
+      await this.waitForWake(this.lockWaiters, remaining);
+    }
+  }
 
-    const existing = this.sql
-      .exec("SELECT token FROM locks WHERE name = ?", name)
-      .toArray();
+  /**
+   * Release one level of a hold. The lock is freed (and handed to the next
+   * waiter) once `depth` reaches 0.
+   */
+  async syncUnlock(name: string, token: string): Promise<{ released: boolean; depth?: number; error?: string }> {
+    const held = this.sql
+      .exec("SELECT depth FROM lock_holders WHERE name = ? AND token = ?", name, token)
+      .toArray()[0];
+    if (!held) {
+      const locked = this.sql.exec("SELECT 1 FROM lock_holders WHERE name = ? LIMIT 1", name).toArray().length > 0;
+      return { released: false, error: locked ? "Invalid token" : "Lock not found" };
+    }
 
-    if (existing.length === 0) return { released: false, error: "Lock not found" };
-    if (existing[0].token !== token) return { released: false, error: "Invalid token" };
+    const depth = (held.depth as number) - 1;
+    if (depth > 0) {
+      this.sql.exec("UPDATE lock_holders SET depth = ? WHERE token = ?", depth, token);
+      return { released: true, depth };
+    }
 
-    this.sql.exec("DELETE FROM locks WHERE name = ? AND token = ?", name, token);
-    return { released: true };
+    this.sql.exec("DELETE FROM lock_holders WHERE token = ?", token);
+    this.promoteLockWaiters(name);
+    await this.scheduleSweep();
+    return { released: true, depth: 0 };
   }
 
   async syncExtend(name: string, token: string, options?: { ttl?: number }): Promise<{
@@ -460,21 +2184,23 @@ export class StorageDO extends DurableObject<Env> {
     expiresAt: string | null;
     error?: string;
   }> {
-
-    const existing = this.sql
-      .exec("SELECT token, expires_at FROM locks WHERE name = ?", name)
-      .toArray();
-
-    if (existing.length === 0) return { extended: false, expiresAt: null, error: "Lock not found" };
-    if (existing[0].token !== token) return { extended: false, expiresAt: null, error: "Invalid token" };
-    if (new Date(existing[0].expires_at as string) < new Date()) {
-      this.sql.exec("DELETE FROM locks WHERE name = ?", name);
+    const held = this.sql
+      .exec("SELECT expires_at FROM lock_holders WHERE name = ? AND token = ?", name, token)
+      .toArray()[0];
+    if (!held) {
+      const locked = this.sql.exec("SELECT 1 FROM lock_holders WHERE name = ? LIMIT 1", name).toArray().length > 0;
+      return { extended: false, expiresAt: null, error: locked ? "Invalid token" : "Lock not found" };
+    }
+    if (new Date(held.expires_at as string) < new Date()) {
+      this.sql.exec("DELETE FROM lock_holders WHERE token = ?", token);
+      this.promoteLockWaiters(name);
       return { extended: false, expiresAt: null, error: "Lock has expired" };
     }
 
     const ttl = Math.min(Math.max(options?.ttl ?? 60, 10), 300);
     const newExpiresAt = new Date(Date.now() + ttl * 1000).toISOString();
-    this.sql.exec("UPDATE locks SET expires_at = ? WHERE name = ? AND token = ?", newExpiresAt, name, token);
+    this.sql.exec("UPDATE lock_holders SET expires_at = ? WHERE token = ?", newExpiresAt, token);
+    await this.scheduleSweep();
 
     return { extended: true, expiresAt: newExpiresAt };
   }
@@ -483,69 +2209,196 @@ export class StorageDO extends DurableObject<Env> {
     locked: boolean;
     expiresAt: string | null;
     acquiredAt: string | null;
+    mode: LockMode | null;
+    holders: number;
+    permitsUsed: number;
+    waiters: number;
+    fence: number | null;
   }> {
-    this.cleanupExpiredLocks();
-
-    const existing = this.sql
-      .exec("SELECT expires_at, acquired_at FROM locks WHERE name = ?", name)
-      .toArray();
-
-    if (existing.length === 0) return { locked: false, expiresAt: null, acquiredAt: null };
+    const holders = this.sql
+      .exec(
+        `SELECT mode, COUNT(*) AS holders, SUM(permits) AS permits,
+                MAX(expires_at) AS expires_at, MIN(acquired_at) AS acquired_at
+         FROM lock_holders WHERE name = ? AND expires_at > ? GROUP BY mode`,
+        name, new Date().toISOString()
+      )
+      .toArray()[0];
+    const waiters = this.sql
+      .exec("SELECT COUNT(*) AS count FROM lock_waiters WHERE name = ?", name)
+      .one().count as number;
+    const fence = this.sql
+      .exec("SELECT fence FROM lock_fences WHERE name = ?", name)
+      .toArray()[0]?.fence as number | undefined;
 
     return {
-      locked: true,
-      expiresAt: existing[0].expires_at as string,
-      acquiredAt: existing[0].acquired_at as string,
+      locked: holders !== undefined,
+      expiresAt: (holders?.expires_at as string | undefined) ?? null,
+      acquiredAt: (holders?.acquired_at as string | undefined) ?? null,
+      mode: (holders?.mode as LockMode | undefined) ?? null,
+      holders: (holders?.holders as number | undefined) ?? 0,
+      permitsUsed: (holders?.permits as number | undefined) ?? 0,
+      waiters,
+      fence: fence ?? null,
     };
   }
 
-  async syncList(): Promise<Array<{ name: string; expiresAt: string; acquiredAt: string }>> {
-    this.cleanupExpiredLocks();
+  async syncList(): Promise<Array<{
+    name: string;
+    expiresAt: string;
+    acquiredAt: string;
+    mode: LockMode;
+    holders: number;
+    waiters: number;
+  }>> {
+    return this.sql
+      .exec(
+        `SELECT h.name, h.mode, COUNT(*) AS holders, MAX(h.expires_at) AS expires_at,
+                MIN(h.acquired_at) AS acquired_at,
+                (SELECT COUNT(*) FROM lock_waiters w WHERE w.name = h.name) AS waiters
+         FROM lock_holders h WHERE h.expires_at > ? GROUP BY h.name ORDER BY acquired_at DESC`,
+        new Date().toISOString()
+      )
+      .toArray()
+      .map((row) => ({
+        name: row.name as string,
+        expiresAt: row.expires_at as string,
+        acquiredAt: row.acquired_at as string,
+        mode: row.mode as LockMode,
+        holders: row.holders as number,
+        waiters: row.waiters as number,
+      }));
+  }
+
+  // ===========================================================================
+  // Queue Operations
+  // ===========================================================================
+
+  /**
+   * Release expired leases (in one queue, or all of them): jobs with attempts
+   * left go back to pending, jobs that have used all their attempts are moved
+   * to the dead-letter state
+   */
+  private cleanupVisibilityTimeouts(queue?: string): void {
+    const now = new Date().toISOString();
+    const inQueue = queue === undefined ? "" : " AND queue = ?";
+    const queueParams = queue === undefined ? [] : [queue];
+    const dead = this.sql
+      .exec(
+        `UPDATE jobs SET status = 'dead', visibility_timeout = NULL, failed_at = ?, updated_at = ?,
+           error = ?, ${APPEND_FAILED_ATTEMPT}
+         WHERE status = 'processing' AND visibility_timeout < ? AND attempt >= max_attempts${inQueue}
+         RETURNING id, queue`,
+        now, now, LEASE_EXPIRED_ERROR, LEASE_EXPIRED_ERROR, now, now, ...queueParams
+      )
+      .toArray();
+    const released = this.sql
+      .exec(
+        `UPDATE jobs SET status = 'pending', visibility_timeout = NULL, updated_at = ?,
+           error = ?, ${APPEND_FAILED_ATTEMPT}
+         WHERE status = 'processing' AND visibility_timeout < ?${inQueue}
+         RETURNING id, queue`,
+        now, LEASE_EXPIRED_ERROR, LEASE_EXPIRED_ERROR, now, now, ...queueParams
+      )
+      .toArray();
+    for (const row of dead) this.logChange("queue", row.queue as string, row.id as string, "dead_lettered", now);
+    for (const row of released) this.logChange("queue", row.queue as string, row.id as string, "lease_expired", now);
+  }
+
+  /**
+   * Clamp a requested visibility timeout (seconds) to the supported range
+   */
+  private clampVisibilityTimeout(seconds?: number): number {
+    return Math.min(Math.max(seconds ?? DEFAULT_VISIBILITY_TIMEOUT, 1), MAX_VISIBILITY_TIMEOUT);
+  }
+
+  /**
+   * Return the subset of ids that are currently leased (status 'processing') in a queue
+   */
+  private getLeasedJobs(queue: string, ids: string[]): Array<{ id: string; attempt: number; maxAttempts: number }> {
+    if (ids.length === 0) return [];
 
+    const placeholders = ids.map(() => '?').join(',');
     return this.sql
-      .exec("SELECT name, expires_at, acquired_at FROM locks ORDER BY acquired_at DESC")
+      .exec(
+        `SELECT id, attempt, max_attempts FROM jobs
+         WHERE queue = ? AND status = 'processing' AND id IN (${placeholders})`,
+        queue, ...ids
+      )
       .toArray()
       .map((row) => ({
-        name: row.name as string,
-        expiresAt: row.expires_at as string,
-        acquiredAt: row.acquired_at as string,
+        id: row.id as string,
+        attempt: row.attempt as number,
+        maxAttempts: row.max_attempts as number,
       }));
   }
 
-  // ===========================================================================
-  // Queue Operations
-  // ===========================================================================
-
-  private cleanupVisibilityTimeouts(queue: string): void {
-    const now = new Date().toISOString();
-    this.sql.exec(
-      `UPDATE jobs SET status = 'pending', visibility_timeout = NULL, updated_at = ?, attempt = attempt + 1
-       WHERE queue = ? AND status = 'processing' AND visibility_timeout < ?`,
-      now, queue, now
-    );
+  /**
+   * Enqueue jobs. Jobs whose dedupKey matches a pending or processing job in
+   * the same queue are skipped and report the existing job's id instead.
+   */
+  async queuePush(queue: string, jobs: QueueJobInput[]): Promise<
+    | { pushed: number; queue: string; ids: string[]; duplicates: number }
+    | StorageQuotaExceeded
+  > {
+    return this.withinQuota("queue", () => this.pushJobs(queue, jobs));
   }
 
-  async queuePush(queue: string, items: unknown[], options?: {
-    priority?: number;
-  }): Promise<{ pushed: number; queue: string }> {
+  private pushJobs(queue: string, jobs: QueueJobInput[]): {
+    pushed: number;
+    queue: string;
+    ids: string[];
+    duplicates: number;
+  } {
     const now = new Date();
     const nowStr = now.toISOString();
-    const priority = options?.priority ?? 0;
+    const ids: string[] = [];
+    let pushed = 0;
+
+    for (const job of jobs) {
+      if (job.dedupKey) {
+        const existing = this.sql
+          .exec(
+            `SELECT id FROM jobs WHERE queue = ? AND dedup_key = ? AND status IN ('pending', 'processing') LIMIT 1`,
+            queue, job.dedupKey
+          )
+          .toArray();
+        if (existing.length > 0) {
+          ids.push(existing[0].id as string);
+          continue;
+        }
+      }
+
+      let availableAt: number;
+      if (job.runAt) {
+        availableAt = Math.max(Date.parse(job.runAt), now.getTime());
+      } else {
+        const delay = Math.min(Math.max(job.delaySeconds ?? 0, 0), MAX_JOB_DELAY_SECONDS);
+        availableAt = now.getTime() + delay * 1000;
+      }
+      const maxAttempts = Math.min(Math.max(job.maxAttempts ?? DEFAULT_MAX_ATTEMPTS, 1), MAX_MAX_ATTEMPTS);
 
-    for (const item of items) {
       const jobId = generateRandomString(16, "job_");
       this.sql.exec(
-        `INSERT INTO jobs (id, queue, payload, priority, status, max_attempts, available_at, created_at, updated_at)
-         VALUES (?, ?, ?, ?, 'pending', 3, ?, ?, ?)`,
-        jobId, queue, JSON.stringify(item), priority, nowStr, nowStr, nowStr
+        `INSERT INTO jobs (id, queue, payload, priority, status, max_attempts, available_at, dedup_key, created_at, updated_at)
+         VALUES (?, ?, ?, ?, 'pending', ?, ?, ?, ?, ?)`,
+        jobId, queue, JSON.stringify(job.data), job.priority ?? 0, maxAttempts,
+        new Date(availableAt).toISOString(), job.dedupKey ?? null, nowStr, nowStr
       );
+      ids.push(jobId);
+      pushed++;
     }
 
-    return { pushed: items.length, queue };
+    return { pushed, queue, ids, duplicates: jobs.length - pushed };
   }
 
-  async queuePop(queue: string, count: number = 1): Promise<{
-    items: Array<{ id: string; data: unknown }>;
+  /**
+   * Lease up to `count` pending jobs. Leased jobs stay in the queue with status
+   * 'processing' until acked, nacked, or their visibility timeout expires.
+   */
+  async queuePop(queue: string, count: number = 1, options?: {
+    visibilityTimeout?: number;
+  }): Promise<{
+    items: Array<{ id: string; data: unknown; attempt: number; maxAttempts: number; leaseExpiresAt: string }>;
     count: number;
   }> {
     this.cleanupVisibilityTimeouts(queue);
@@ -553,10 +2406,12 @@ export class StorageDO extends DurableObject<Env> {
     const now = new Date();
     const nowStr = now.toISOString();
     const safeCount = Math.min(Math.max(count, 1), 100);
+    const visibilityTimeout = this.clampVisibilityTimeout(options?.visibilityTimeout);
+    const leaseExpiresAt = new Date(now.getTime() + visibilityTimeout * 1000).toISOString();
 
     const jobs = this.sql
       .exec(
-        `SELECT id, payload FROM jobs
+        `SELECT id, payload, attempt, max_attempts FROM jobs
          WHERE queue = ? AND status = 'pending' AND available_at <= ?
          ORDER BY priority DESC, created_at ASC
          LIMIT ?`,
@@ -564,31 +2419,123 @@ export class StorageDO extends DurableObject<Env> {
       )
       .toArray();
 
-    const items: Array<{ id: string; data: unknown }> = [];
+    const items: Array<{ id: string; data: unknown; attempt: number; maxAttempts: number; leaseExpiresAt: string }> = [];
 
     for (const job of jobs) {
       const jobId = job.id as string;
-      // Delete the job (pop = remove from queue)
-      this.sql.exec("DELETE FROM jobs WHERE id = ?", jobId);
+      this.sql.exec(
+        `UPDATE jobs SET status = 'processing', attempt = attempt + 1, visibility_timeout = ?, updated_at = ?
+         WHERE id = ?`,
+        leaseExpiresAt, nowStr, jobId
+      );
 
       let data: unknown;
       try { data = JSON.parse(job.payload as string); } catch { data = job.payload; }
-      items.push({ id: jobId, data });
+      items.push({
+        id: jobId,
+        data,
+        attempt: (job.attempt as number) + 1,
+        maxAttempts: job.max_attempts as number,
+        leaseExpiresAt,
+      });
     }
+    if (items.length > 0) await this.scheduleSweep();
 
     return { items, count: items.length };
   }
 
+  /**
+   * Acknowledge leased jobs as successfully processed. Finished jobs are
+   * deleted, as pop did before leases.
+   */
+  async queueAck(queue: string, ids: string[]): Promise<{ queue: string; acked: number; ids: string[] }> {
+    this.cleanupVisibilityTimeouts(queue);
+
+    const leased = this.getLeasedJobs(queue, ids);
+    if (leased.length === 0) return { queue, acked: 0, ids: [] };
+
+    const leasedIds = leased.map((job) => job.id);
+    const placeholders = leasedIds.map(() => '?').join(',');
+    this.sql.exec(`DELETE FROM jobs WHERE id IN (${placeholders})`, ...leasedIds);
+
+    return { queue, acked: leasedIds.length, ids: leasedIds };
+  }
+
+  /**
+   * Return leased jobs to the queue after a failed attempt. Jobs that have
+   * reached max_attempts are moved to the dead-letter state instead.
+   */
+  async queueNack(queue: string, ids: string[], options?: {
+    error?: string;
+    delaySeconds?: number;
+  }): Promise<{ queue: string; requeued: string[]; deadLettered: string[] }> {
+    this.cleanupVisibilityTimeouts(queue);
+
+    const now = new Date();
+    const nowStr = now.toISOString();
+    const delaySeconds = Math.min(Math.max(options?.delaySeconds ?? 0, 0), MAX_VISIBILITY_TIMEOUT);
+    const availableAt = new Date(now.getTime() + delaySeconds * 1000).toISOString();
+    const error = options?.error ?? null;
+
+    const requeued: string[] = [];
+    const deadLettered: string[] = [];
+
+    for (const job of this.getLeasedJobs(queue, ids)) {
+      if (job.attempt >= job.maxAttempts) {
+        this.sql.exec(
+          `UPDATE jobs SET status = 'dead', visibility_timeout = NULL, failed_at = ?, updated_at = ?, error = ?,
+             ${APPEND_FAILED_ATTEMPT}
+           WHERE id = ?`,
+          nowStr, nowStr, error, error, nowStr, job.id
+        );
+        deadLettered.push(job.id);
+      } else {
+        this.sql.exec(
+          `UPDATE jobs SET status = 'pending', visibility_timeout = NULL, available_at = ?, updated_at = ?, error = ?,
+             ${APPEND_FAILED_ATTEMPT}
+           WHERE id = ?`,
+          availableAt, nowStr, error, error, nowStr, job.id
+        );
+        requeued.push(job.id);
+      }
+    }
+
+    return { queue, requeued, deadLettered };
+  }
+
+  /**
+   * Extend the visibility timeout of leased jobs (heartbeat for long-running work)
+   */
+  async queueExtend(queue: string, ids: string[], options?: {
+    visibilityTimeout?: number;
+  }): Promise<{ queue: string; extended: number; ids: string[]; leaseExpiresAt: string | null }> {
+    this.cleanupVisibilityTimeouts(queue);
+
+    const leased = this.getLeasedJobs(queue, ids);
+    if (leased.length === 0) return { queue, extended: 0, ids: [], leaseExpiresAt: null };
+
+    const now = new Date();
+    const visibilityTimeout = this.clampVisibilityTimeout(options?.visibilityTimeout);
+    const leaseExpiresAt = new Date(now.getTime() + visibilityTimeout * 1000).toISOString();
+    const leasedIds = leased.map((job) => job.id);
+    const placeholders = leasedIds.map(() => '?').join(',');
+    this.sql.exec(
+      `UPDATE jobs SET visibility_timeout = ?, updated_at = ? WHERE id IN (${placeholders})`,
+      leaseExpiresAt, now.toISOString(), ...leasedIds
+    );
+    await this.scheduleSweep();
+
+    return { queue, extended: leasedIds.length, ids: leasedIds, leaseExpiresAt };
+  }
+
   async queuePeek(queue: string, count: number = 10): Promise<{
-    items: Array<{ id: string; data: unknown; priority: number }>;
+    items: Array<{ id: string; data: unknown; priority: number; availableAt: string }>;
     count: number;
   }> {
-    this.cleanupVisibilityTimeouts(queue);
-
     const safeCount = Math.min(Math.max(count, 1), 100);
     const jobs = this.sql
       .exec(
-        `SELECT id, payload, priority FROM jobs
+        `SELECT id, payload, priority, available_at FROM jobs
          WHERE queue = ? AND status = 'pending'
          ORDER BY priority DESC, created_at ASC
          LIMIT ?`,
@@ -603,6 +2550,7 @@ export class StorageDO extends DurableObject<Env> {
         id: row.id as string,
         data,
         priority: row.priority as number,
+        availableAt: row.available_at as string,
       };
     });
 
@@ -613,16 +2561,20 @@ export class StorageDO extends DurableObject<Env> {
     queue: string;
     pending: number;
     processing: number;
-    completed: number;
-    failed: number;
+    dead: number;
+    delayed: number;
   }> {
-    this.cleanupVisibilityTimeouts(queue);
-
     const counts = this.sql
       .exec(`SELECT status, COUNT(*) as count FROM jobs WHERE queue = ? GROUP BY status`, queue)
       .toArray();
+    const delayedResult = this.sql
+      .exec(
+        `SELECT COUNT(*) as count FROM jobs WHERE queue = ? AND status = 'pending' AND available_at > ?`,
+        queue, new Date().toISOString()
+      )
+      .toArray();
 
-    const statusCounts: Record<string, number> = { pending: 0, processing: 0, completed: 0, failed: 0, dead: 0 };
+    const statusCounts: Record<string, number> = { pending: 0, processing: 0, dead: 0 };
     for (const row of counts) {
       statusCounts[row.status as string] = row.count as number;
     }
@@ -631,113 +2583,832 @@ export class StorageDO extends DurableObject<Env> {
       queue,
       pending: statusCounts.pending,
       processing: statusCounts.processing,
-      completed: statusCounts.completed,
-      failed: statusCounts.failed + statusCounts.dead,
+      dead: statusCounts.dead,
+      delayed: (delayedResult[0]?.count as number) || 0,
     };
   }
 
+  /**
+   * List dead-lettered jobs with their final error and failure history
+   */
+  async queueDead(queue: string, options?: { limit?: number; offset?: number }): Promise<{
+    queue: string;
+    items: Array<{
+      id: string;
+      data: unknown;
+      attempt: number;
+      maxAttempts: number;
+      error: string | null;
+      history: JobHistoryEntry[];
+      createdAt: string;
+      failedAt: string | null;
+    }>;
+    total: number;
+  }> {
+    const limit = Math.min(Math.max(options?.limit ?? 100, 1), 1000);
+    const offset = Math.max(options?.offset ?? 0, 0);
+
+    const countResult = this.sql
+      .exec("SELECT COUNT(*) as count FROM jobs WHERE queue = ? AND status = 'dead'", queue)
+      .toArray();
+    const total = (countResult[0]?.count as number) || 0;
+
+    const jobs = this.sql
+      .exec(
+        `SELECT id, payload, attempt, max_attempts, error, history, created_at, failed_at FROM jobs
+         WHERE queue = ? AND status = 'dead'
+         ORDER BY failed_at DESC
+         LIMIT ? OFFSET ?`,
+        queue, limit, offset
+      )
+      .toArray();
+
+    const items = jobs.map((row) => {
+      let data: unknown;
+      try { data = JSON.parse(row.payload as string); } catch { data = row.payload; }
+      return {
+        id: row.id as string,
+        data,
+        attempt: row.attempt as number,
+        maxAttempts: row.max_attempts as number,
+        error: row.error as string | null,
+        history: row.history ? (JSON.parse(row.history as string) as JobHistoryEntry[]) : [],
+        createdAt: row.created_at as string,
+        failedAt: row.failed_at as string | null,
+      };
+    });
+
+    return { queue, items, total };
+  }
+
+  /**
+   * Move dead-lettered jobs back to pending with a fresh attempt budget.
+   * Redrives the given ids, or every dead job in the queue when ids is omitted.
+   */
+  async queueRedrive(queue: string, options?: { ids?: string[]; targetQueue?: string }): Promise<{
+    queue: string;
+    targetQueue: string;
+    redriven: number;
+    ids: string[];
+  }> {
+    this.cleanupVisibilityTimeouts(queue);
+
+    const targetQueue = options?.targetQueue ?? queue;
+    let query = "SELECT id FROM jobs WHERE queue = ? AND status = 'dead'";
+    const params: unknown[] = [queue];
+    if (options?.ids) {
+      if (options.ids.length === 0) return { queue, targetQueue, redriven: 0, ids: [] };
+      query += ` AND id IN (${options.ids.map(() => '?').join(',')})`;
+      params.push(...options.ids);
+    }
+
+    const deadIds = this.sql.exec(query, ...params).toArray().map((row) => row.id as string);
+    if (deadIds.length === 0) return { queue, targetQueue, redriven: 0, ids: [] };
+
+    const now = new Date().toISOString();
+    const placeholders = deadIds.map(() => '?').join(',');
+    this.sql.exec(
+      `UPDATE jobs SET queue = ?, status = 'pending', attempt = 0, available_at = ?, visibility_timeout = NULL,
+         failed_at = NULL, error = NULL, updated_at = ?,
+         history = json_insert(COALESCE(history, '[]'), '$[#]', json_object('event', 'redriven', 'queue', queue, 'at', ?))
+       WHERE id IN (${placeholders})`,
+      targetQueue, now, now, now, ...deadIds
+    );
+
+    return { queue, targetQueue, redriven: deadIds.length, ids: deadIds };
+  }
+
   async queueClear(queue: string, options?: { status?: string }): Promise<{ cleared: number }> {
 
-    let result;
-    if (options?.status) {
-      result = this.sql.exec("DELETE FROM jobs WHERE queue = ? AND status = ?", queue, options.status);
-    } else {
-      result = this.sql.exec("DELETE FROM jobs WHERE queue = ?", queue);
+    let result;
+    if (options?.status) {
+      result = this.sql.exec("DELETE FROM jobs WHERE queue = ? AND status = ?", queue, options.status);
+    } else {
+      result = this.sql.exec("DELETE FROM jobs WHERE queue = ?", queue);
+    }
+
+    return { cleared: result.rowsWritten };
+  }
+
+  // ===========================================================================
+  // Memory Operations
+  // ===========================================================================
+
+  /**
+   * Embedding model and vector size of a collection. Collections that were never
+   * declared (including data stored before collections existed) use the default model.
+   */
+  async memoryGetCollection(name: string): Promise<{
+    name: string;
+    model: CollectionModel;
+    dimensions: number | null;
+    exists: boolean;
+  }> {
+    const rows = this.sql.exec("SELECT model, dimensions FROM memory_collections WHERE name = ?", name).toArray();
+    if (rows.length > 0) {
+      const model = rows[0].model as CollectionModel;
+      return { name, model, dimensions: this.collectionDimensions(model, rows[0].dimensions), exists: true };
+    }
+    const items = this.sql.exec("SELECT 1 FROM memories WHERE collection = ? LIMIT 1", name).toArray();
+    return {
+      name,
+      model: DEFAULT_EMBEDDING_MODEL,
+      dimensions: EMBEDDING_MODELS[DEFAULT_EMBEDDING_MODEL].dimensions,
+      exists: items.length > 0,
+    };
+  }
+
+  /** Vector size for a collection: fixed by a Workers AI model, declared for custom vectors */
+  private collectionDimensions(model: CollectionModel, declared: SqlStorageValue): number | null {
+    if (model === CUSTOM_EMBEDDING_MODEL) return (declared as number | null) ?? null;
+    return EMBEDDING_MODELS[model].dimensions;
+  }
+
+  /**
+   * Get or declare a collection's embedding model before storing into it.
+   * A model can only be declared while the collection is empty; custom
+   * collections also declare their vector size.
+   */
+  async memoryEnsureCollection(name: string, model?: CollectionModel, dimensions?: number): Promise<
+    | { ok: true; name: string; model: CollectionModel; dimensions: number | null; created: boolean }
+    | { ok: false; error: string; model: CollectionModel }
+  > {
+    const existing = await this.memoryGetCollection(name);
+    if (existing.exists) {
+      if (model && model !== existing.model) {
+        return {
+          ok: false,
+          error: `Collection "${name}" uses model ${existing.model}; clear it to change models`,
+          model: existing.model,
+        };
+      }
+      return { ok: true, name, model: existing.model, dimensions: existing.dimensions, created: false };
+    }
+
+    const declared = model ?? DEFAULT_EMBEDDING_MODEL;
+    const declaredDimensions = declared === CUSTOM_EMBEDDING_MODEL ? dimensions ?? null : null;
+    this.sql.exec(
+      `INSERT INTO memory_collections (name, model, dimensions, created_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT(name) DO UPDATE SET model = excluded.model, dimensions = excluded.dimensions`,
+      name, declared, declaredDimensions, new Date().toISOString()
+    );
+    return {
+      ok: true,
+      name,
+      model: declared,
+      dimensions: this.collectionDimensions(declared, declaredDimensions),
+      created: true,
+    };
+  }
+
+  /**
+   * List collections with their models and item counts
+   */
+  async memoryCollections(): Promise<{
+    collections: Array<{
+      name: string;
+      model: CollectionModel;
+      dimensions: number | null;
+      count: number;
+      createdAt: string | null;
+    }>;
+  }> {
+    const rows = this.sql
+      .exec(
+        `SELECT names.name, c.model, c.dimensions, c.created_at,
+                (SELECT COUNT(*) FROM memories m WHERE m.collection = names.name AND ${LIVE_ROW}) AS count
+         FROM (SELECT name FROM memory_collections UNION SELECT DISTINCT collection FROM memories) names
+         LEFT JOIN memory_collections c ON c.name = names.name
+         ORDER BY names.name`,
+        new Date().toISOString()
+      )
+      .toArray();
+
+    return {
+      collections: rows.map((row) => {
+        const model = (row.model as CollectionModel | null) ?? DEFAULT_EMBEDDING_MODEL;
+        return {
+          name: row.name as string,
+          model,
+          dimensions: this.collectionDimensions(model, row.dimensions),
+          count: row.count as number,
+          createdAt: row.created_at as string | null,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Store one or more items with embeddings into a collection (batch operation)
+   *
+   * Embeddings are normalized and packed as Float32 BLOBs, and assigned to
+   * their nearest IVF cluster when the collection has an index.
+   */
+  async memoryStore(collection: string, items: MemoryItemInput[]): Promise<
+    { stored: number; items: string[] } | StorageQuotaExceeded
+  > {
+    const now = new Date().toISOString();
+    const storedIds: string[] = [];
+
+    const written = this.withinQuota("memory", () => {
+      for (const item of items) {
+        const vector = normalizeVector(item.embedding);
+        const { clusterId, nextClusterId } = this.assignClusters(collection, vector);
+        const metadataStr = item.metadata ? JSON.stringify(item.metadata) : null;
+        const expiresAt = item.ttl
+          ? new Date(Date.now() + item.ttl * 1000).toISOString()
+          : null;
+
+        // Use upsert pattern to eliminate one SQL round-trip per item
+        this.sql.exec(
+          `INSERT INTO memories (collection, key, content, tags, type, importance, summary, source, embedding_vec,
+                                 cluster_id, next_cluster_id, expires_at, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT(collection, key) DO UPDATE SET
+             content = excluded.content,
+             tags = excluded.tags,
+             type = excluded.type,
+             importance = excluded.importance,
+             summary = excluded.summary,
+             source = excluded.source,
+             embedding = NULL,
+             embedding_vec = excluded.embedding_vec,
+             cluster_id = excluded.cluster_id,
+             next_cluster_id = excluded.next_cluster_id,
+             expires_at = excluded.expires_at,
+             updated_at = excluded.updated_at`,
+          collection, item.id, item.text, metadataStr,
+          item.type ?? DEFAULT_MEMORY_TYPE, item.importance ?? DEFAULT_MEMORY_IMPORTANCE,
+          item.summary ?? null, item.source ?? null, packVector(vector),
+          clusterId, nextClusterId, expiresAt, now, now
+        );
+        storedIds.push(item.id);
+      }
+    });
+    if (isStorageQuotaExceeded(written)) return written;
+
+    await this.scheduleMemoryIndexMaintenance(collection);
+    if (items.some((item) => item.ttl)) await this.scheduleSweep();
+    return { stored: storedIds.length, items: storedIds };
+  }
+
+  /**
+   * Search a collection by vector similarity, keywords, or both.
+   *
+   * - Vector: cosine similarity to `queryEmbedding`. With an active IVF index,
+   *   only the IVF_DEFAULT_NPROBE closest clusters (plus any not-yet-indexed
+   *   rows) are scored, bounding the rows read per query. Without one, or when
+   *   a filter narrows the set enough, every candidate is scored exactly.
+   * - Keyword: FTS5 bm25 ranking over content.
+   * - Hybrid (both given): the two rankings are fused with RRF or a weighted sum.
+   *
+   * The threshold applies to vector matches; keyword matches are kept regardless.
+   * With `weights`, scores are normalized to the best hit and blended with
+   * importance and recency (see weightedMemoryScore).
+   */
+  async memorySearch(collection: string, queryEmbedding: number[] | null, options?: {
+    limit?: number;
+    threshold?: number;
+    filter?: MemoryFilter;
+    keywords?: string;
+    keywordMatch?: KeywordMatch;
+    fusion?: FusionMode;
+    vectorWeight?: number;
+    weights?: RankingWeights;
+  }): Promise<{ results: MemorySearchResult[] }> {
+    const limit = Math.min(options?.limit ?? 10, 100);
+    const threshold = options?.threshold ?? 0.5;
+    const filter = compileMemoryFilter(options?.filter);
+    const query = queryEmbedding ? normalizeVector(queryEmbedding) : null;
+    const ftsQuery = options?.keywords ? buildFtsQuery(options.keywords, options.keywordMatch) : null;
+
+    const rows = new Map<string, Record<string, SqlStorageValue>>();
+    const candidates = new Map<string, FusionCandidate>();
+
+    // Vector ranking
+    if (query && queryEmbedding) {
+      const scored: Array<{ id: string; similarity: number }> = [];
+      for (const row of this.vectorCandidateRows(collection, query, filter)) {
+        const similarity = this.scoreMemoryRow(row, query, queryEmbedding);
+        if (similarity === null || similarity < threshold) continue;
+        rows.set(row.key as string, row);
+        scored.push({ id: row.key as string, similarity });
+      }
+      scored.sort((a, b) => b.similarity - a.similarity);
+      scored.forEach(({ id, similarity }, rank) => {
+        candidates.set(id, { id, similarity, vectorRank: rank });
+      });
+    }
+
+    // Keyword ranking
+    if (ftsQuery) {
+      const keywordRows = this.sql
+        .exec(
+          `SELECT m.key, m.content, m.tags, m.type, m.importance, m.summary, m.source, m.created_at, m.expires_at,
+                  m.embedding, m.embedding_vec, bm25(memories_fts) AS bm25
+           FROM memories_fts JOIN memories m ON m.rowid = memories_fts.rowid
+           WHERE memories_fts MATCH ? AND m.collection = ? AND (${filter.sql}) AND ${LIVE_ROW}
+           ORDER BY bm25 LIMIT ?`,
+          ftsQuery, collection, ...filter.params, new Date().toISOString(), KEYWORD_CANDIDATE_LIMIT
+        )
+        .toArray();
+      keywordRows.forEach((row, rank) => {
+        const id = row.key as string;
+        const candidate = candidates.get(id) ?? { id };
+        candidate.bm25 = row.bm25 as number;
+        candidate.keywordRank = rank;
+        if (query && queryEmbedding && candidate.similarity === undefined) {
+          candidate.similarity = this.scoreMemoryRow(row, query, queryEmbedding) ?? undefined;
+        }
+        candidates.set(id, candidate);
+        if (!rows.has(id)) rows.set(id, row);
+      });
+    }
+
+    let scores: Map<string, number>;
+    if (query && ftsQuery) {
+      scores = fuseScores([...candidates.values()], options?.fusion ?? "rrf", options?.vectorWeight ?? 0.5);
+    } else if (ftsQuery) {
+      scores = fuseScores([...candidates.values()], "weighted", 0);
+    } else {
+      scores = new Map([...candidates.values()].map((c) => [c.id, c.similarity ?? 0]));
+    }
+
+    const weights = options?.weights;
+    const bestScore = Math.max(0, ...scores.values());
+    const now = Date.now();
+
+    const results: MemorySearchResult[] = [...candidates.values()].map((c) => {
+      const row = rows.get(c.id)!;
+      const fields = memoryItemFields(row);
+      let score = scores.get(c.id) ?? 0;
+      if (weights && (weights.importance || weights.recency)) {
+        const relevance = bestScore > 0 ? score / bestScore : 0;
+        score = weightedMemoryScore(relevance, fields.importance, fields.createdAt, weights, now);
+      }
+      return {
+        id: c.id,
+        text: row.content as string,
+        metadata: parseJsonField(row.tags),
+        ...fields,
+        similarity: c.similarity ?? null,
+        score,
+      };
+    });
+    results.sort((a, b) => b.score - a.score);
+
+    await this.scheduleMemoryIndexMaintenance(collection);
+    return { results: results.slice(0, limit) };
+  }
+
+  /**
+   * Rows to score for a vector query: the probed IVF clusters when an index
+   * applies, otherwise every row with an embedding. Both honour the filter
+   * and skip expired rows.
+   */
+  private vectorCandidateRows(
+    collection: string,
+    query: Float32Array,
+    filter: CompiledFilter
+  ): Record<string, SqlStorageValue>[] {
+    const now = new Date().toISOString();
+    const state = this.getMemoryIndexState(collection);
+    const centroids = state?.activeVersion ? this.loadCentroids(collection, state.activeVersion) : [];
+    let useIndex = centroids.length > 0 && centroids[0].length === query.length;
+
+    if (useIndex && filter.sql !== "1") {
+      // A selective filter can leave the probed clusters empty; score its matches exactly instead
+      const matching = this.sql
+        .exec(
+          `SELECT COUNT(*) as count FROM memories WHERE collection = ? AND (${filter.sql})`,
+          collection, ...filter.params
+        )
+        .toArray();
+      useIndex = ((matching[0]?.count as number) || 0) > EXACT_FILTERED_SEARCH_MAX;
+    }
+
+    if (useIndex) {
+      const probes = topCentroids(query, centroids, IVF_DEFAULT_NPROBE);
+      const placeholders = probes.map(() => '?').join(',');
+      return this.sql
+        .exec(
+          `SELECT ${MEMORY_ROW_COLUMNS}, embedding, embedding_vec FROM memories
+           WHERE collection = ?
+             AND (cluster_id IN (${placeholders}) OR cluster_id IS NULL OR cluster_id = ?)
+             AND (embedding_vec IS NOT NULL OR embedding IS NOT NULL)
+             AND (${filter.sql}) AND ${LIVE_ROW}`,
+          collection, ...probes, UNINDEXED_CLUSTER, ...filter.params, now
+        )
+        .toArray();
+    }
+
+    return this.sql
+      .exec(
+        `SELECT ${MEMORY_ROW_COLUMNS}, embedding, embedding_vec FROM memories
+         WHERE collection = ? AND (embedding_vec IS NOT NULL OR embedding IS NOT NULL) AND (${filter.sql})
+           AND ${LIVE_ROW}`,
+        collection, ...filter.params, now
+      )
+      .toArray();
+  }
+
+  /**
+   * Cosine similarity between the query and a stored row, or null if the row
+   * has no usable embedding
+   */
+  private scoreMemoryRow(
+    row: Record<string, SqlStorageValue>,
+    query: Float32Array,
+    queryEmbedding: number[]
+  ): number | null {
+    if (row.embedding_vec) {
+      return dotProduct(query, unpackVector(row.embedding_vec as ArrayBuffer));
+    }
+    if (!row.embedding) return null;
+    // Legacy JSON embedding not yet migrated by the maintenance alarm
+    let storedEmbedding: number[];
+    try { storedEmbedding = JSON.parse(row.embedding as string); } catch { return null; }
+    return this.cosineSimilarity(queryEmbedding, storedEmbedding);
+  }
+
+  private cosineSimilarity(a: number[], b: number[]): number {
+    if (a.length !== b.length) return 0;
+    let dotProduct = 0, normA = 0, normB = 0;
+    for (let i = 0; i < a.length; i++) {
+      dotProduct += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    const magnitude = Math.sqrt(normA) * Math.sqrt(normB);
+    return magnitude === 0 ? 0 : dotProduct / magnitude;
+  }
+
+  // ===========================================================================
+  // Memory Index (IVF) Maintenance
+  // ===========================================================================
+
+  private getMemoryIndexState(collection: string): {
+    activeVersion: number | null;
+    buildingVersion: number | null;
+    trainedCount: number;
+  } | null {
+    const rows = this.sql
+      .exec(
+        "SELECT active_version, building_version, trained_count FROM memory_index WHERE collection = ?",
+        collection
+      )
+      .toArray();
+    if (rows.length === 0) return null;
+    return {
+      activeVersion: rows[0].active_version as number | null,
+      buildingVersion: rows[0].building_version as number | null,
+      trainedCount: rows[0].trained_count as number,
+    };
+  }
+
+  private loadCentroids(collection: string, version: number): Float32Array[] {
+    const cacheKey = `${collection}:${version}`;
+    const cached = this.centroidCache.get(cacheKey);
+    if (cached) return cached;
+
+    const centroids = this.sql
+      .exec(
+        "SELECT vector FROM memory_centroids WHERE collection = ? AND version = ? ORDER BY id",
+        collection, version
+      )
+      .toArray()
+      .map((row) => unpackVector(row.vector as ArrayBuffer));
+    this.centroidCache.set(cacheKey, centroids);
+    return centroids;
+  }
+
+  private dropCachedCentroids(collection: string): void {
+    for (const key of this.centroidCache.keys()) {
+      if (key.startsWith(`${collection}:`)) this.centroidCache.delete(key);
+    }
+  }
+
+  /**
+   * Nearest cluster under the collection's active index and, during a rebuild,
+   * under the index being built. Null means "not assigned yet" (picked up by maintenance).
+   */
+  private assignClusters(
+    collection: string,
+    vector: Float32Array
+  ): { clusterId: number | null; nextClusterId: number | null } {
+    const state = this.getMemoryIndexState(collection);
+    const assign = (version: number | null): number | null => {
+      if (!version) return null;
+      const centroids = this.loadCentroids(collection, version);
+      if (centroids.length === 0) return null;
+      if (centroids[0].length !== vector.length) return UNINDEXED_CLUSTER;
+      return nearestCentroid(vector, centroids);
+    };
+    return {
+      clusterId: assign(state?.activeVersion ?? null),
+      nextClusterId: assign(state?.buildingVersion ?? null),
+    };
+  }
+
+  private countCollectionMemories(collection: string): number {
+    const result = this.sql
+      .exec("SELECT COUNT(*) as count FROM memories WHERE collection = ?", collection)
+      .toArray();
+    return (result[0]?.count as number) || 0;
+  }
+
+  /** Whether a collection has outgrown its index (or has none and is large enough for one) */
+  private needsTraining(collection: string, count: number): boolean {
+    if (count < IVF_MIN_VECTORS) return false;
+    const state = this.getMemoryIndexState(collection);
+    if (state?.buildingVersion) return false;
+    // Retrain when the collection has doubled since the active index was trained
+    return !state?.activeVersion || count >= state.trainedCount * 2;
+  }
+
+  private needsMemoryIndexMaintenance(collection: string): boolean {
+    if (!this.legacyEmbeddingsMigrated) {
+      const legacy = this.sql
+        .exec("SELECT 1 FROM memories WHERE embedding_vec IS NULL AND embedding IS NOT NULL LIMIT 1")
+        .toArray();
+      if (legacy.length > 0) return true;
+      this.legacyEmbeddingsMigrated = true;
     }
 
-    return { cleared: result.rowsWritten };
+    const building = this.sql
+      .exec("SELECT 1 FROM memory_index WHERE building_version IS NOT NULL LIMIT 1")
+      .toArray();
+    if (building.length > 0) return true;
+
+    return this.needsTraining(collection, this.countCollectionMemories(collection));
   }
 
-  // ===========================================================================
-  // Memory Operations
-  // ===========================================================================
+  /**
+   * Arm the DO alarm if the memory index has pending work
+   */
+  private async scheduleMemoryIndexMaintenance(collection: string): Promise<void> {
+    if (!this.needsMemoryIndexMaintenance(collection)) return;
+    await this.armAlarm(Date.now());
+  }
 
   /**
-   * Store one or more items with embeddings (batch operation)
+   * Run one bounded pass of index maintenance, in priority order:
+   * 1. Convert a batch of legacy JSON embeddings to packed BLOBs
+   * 2. Assign a batch of rows to an index being built; swap it in when done
+   * 3. Train a new index version for a collection that outgrew its active one
+   *
+   * Returns true when more work remains.
    */
-  async memoryStore(items: Array<{
-    id: string;
-    text: string;
-    embedding: number[];
-    metadata?: Record<string, unknown>;
-  }>): Promise<{ stored: number; items: string[] }> {
+  private runMemoryIndexMaintenance(): boolean {
     const now = new Date().toISOString();
-    const storedIds: string[] = [];
 
-    for (const item of items) {
-      const embeddingStr = JSON.stringify(item.embedding);
-      const metadataStr = item.metadata ? JSON.stringify(item.metadata) : null;
+    // 1. Legacy JSON embeddings → normalized Float32 BLOBs
+    if (!this.legacyEmbeddingsMigrated) {
+      const legacyRows = this.sql
+        .exec(
+          "SELECT collection, key, embedding FROM memories WHERE embedding_vec IS NULL AND embedding IS NOT NULL LIMIT ?",
+          LEGACY_EMBEDDING_BATCH
+        )
+        .toArray();
+      for (const row of legacyRows) {
+        let embedding: number[] | null = null;
+        try { embedding = JSON.parse(row.embedding as string); } catch { /* unparseable: drop below */ }
+        if (!Array.isArray(embedding)) {
+          this.sql.exec(
+            "UPDATE memories SET embedding = NULL WHERE collection = ? AND key = ?",
+            row.collection, row.key
+          );
+          continue;
+        }
+        const vector = normalizeVector(embedding);
+        const { clusterId, nextClusterId } = this.assignClusters(row.collection as string, vector);
+        this.sql.exec(
+          `UPDATE memories SET embedding_vec = ?, embedding = NULL, cluster_id = ?, next_cluster_id = ?
+           WHERE collection = ? AND key = ?`,
+          packVector(vector), clusterId, nextClusterId, row.collection, row.key
+        );
+      }
+      if (legacyRows.length === LEGACY_EMBEDDING_BATCH) return true;
+      this.legacyEmbeddingsMigrated = true;
+    }
+
+    // 2. Assign rows to an index being built, then swap it in
+    const buildingRows = this.sql
+      .exec("SELECT collection FROM memory_index WHERE building_version IS NOT NULL LIMIT 1")
+      .toArray();
+    if (buildingRows.length > 0) {
+      const collection = buildingRows[0].collection as string;
+      const state = this.getMemoryIndexState(collection)!;
+      const building = state.buildingVersion!;
+      const centroids = this.loadCentroids(collection, building);
+      const rows = this.sql
+        .exec(
+          `SELECT key, embedding_vec FROM memories
+           WHERE collection = ? AND embedding_vec IS NOT NULL AND next_cluster_id IS NULL LIMIT ?`,
+          collection, CLUSTER_ASSIGN_BATCH
+        )
+        .toArray();
+      for (const row of rows) {
+        const vector = unpackVector(row.embedding_vec as ArrayBuffer);
+        const clusterId = vector.length === centroids[0]?.length
+          ? nearestCentroid(vector, centroids)
+          : UNINDEXED_CLUSTER;
+        this.sql.exec(
+          "UPDATE memories SET next_cluster_id = ? WHERE collection = ? AND key = ?",
+          clusterId, collection, row.key
+        );
+      }
+      if (rows.length === CLUSTER_ASSIGN_BATCH) return true;
+
+      this.ctx.storage.transactionSync(() => {
+        this.sql.exec(
+          "UPDATE memories SET cluster_id = next_cluster_id, next_cluster_id = NULL WHERE collection = ?",
+          collection
+        );
+        if (state.activeVersion) {
+          this.sql.exec(
+            "DELETE FROM memory_centroids WHERE collection = ? AND version = ?",
+            collection, state.activeVersion
+          );
+        }
+        this.sql.exec(
+          "UPDATE memory_index SET active_version = ?, building_version = NULL, updated_at = ? WHERE collection = ?",
+          building, now, collection
+        );
+      });
+      if (state.activeVersion) this.centroidCache.delete(`${collection}:${state.activeVersion}`);
+      // Other collections may still need training
+      return true;
+    }
+
+    // 3. Train a new index version for the first collection that needs one
+    const collectionCounts = this.sql
+      .exec("SELECT collection, COUNT(*) as count FROM memories GROUP BY collection")
+      .toArray();
+    const target = collectionCounts.find((row) =>
+      this.needsTraining(row.collection as string, row.count as number)
+    );
+    if (!target) return false;
 
-      // Use upsert pattern to eliminate one SQL round-trip per item
+    const collection = target.collection as string;
+    const count = target.count as number;
+    const state = this.getMemoryIndexState(collection);
+    const sample = this.sql
+      .exec(
+        `SELECT embedding_vec FROM memories
+         WHERE collection = ? AND embedding_vec IS NOT NULL ORDER BY RANDOM() LIMIT ?`,
+        collection, IVF_TRAINING_SAMPLE
+      )
+      .toArray()
+      .map((row) => unpackVector(row.embedding_vec as ArrayBuffer));
+    if (sample.length === 0) return false;
+    // Train on the dominant dimension (vectors of any other size stay unindexed)
+    const dims = sample[0].length;
+    const centroids = trainCentroids(sample.filter((v) => v.length === dims), ivfListCount(count));
+
+    const version = (state?.activeVersion ?? 0) + 1;
+    this.ctx.storage.transactionSync(() => {
+      this.sql.exec("DELETE FROM memory_centroids WHERE collection = ? AND version = ?", collection, version);
+      centroids.forEach((centroid, id) => {
+        this.sql.exec(
+          "INSERT INTO memory_centroids (collection, version, id, vector) VALUES (?, ?, ?, ?)",
+          collection, version, id, packVector(centroid)
+        );
+      });
+      this.sql.exec("UPDATE memories SET next_cluster_id = NULL WHERE collection = ?", collection);
       this.sql.exec(
-        `INSERT INTO memories (key, content, tags, type, importance, embedding, created_at, updated_at)
-         VALUES (?, ?, ?, 'embedding', 5, ?, ?, ?)
-         ON CONFLICT(key) DO UPDATE SET
-           content = excluded.content,
-           tags = excluded.tags,
-           embedding = excluded.embedding,
+        `INSERT INTO memory_index (collection, active_version, building_version, trained_count, updated_at)
+         VALUES (?, NULL, ?, ?, ?)
+         ON CONFLICT(collection) DO UPDATE SET
+           building_version = excluded.building_version,
+           trained_count = excluded.trained_count,
            updated_at = excluded.updated_at`,
-        item.id, item.text, metadataStr, embeddingStr, now, now
+        collection, version, count, now
       );
-      storedIds.push(item.id);
-    }
-
-    return { stored: storedIds.length, items: storedIds };
+    });
+    this.centroidCache.delete(`${collection}:${version}`);
+    return true;
   }
 
-  async memorySearch(queryEmbedding: number[], options?: {
-    limit?: number;
-    threshold?: number;
-  }): Promise<{ results: Array<{ id: string; text: string; metadata: Record<string, unknown> | null; similarity: number }> }> {
-    this.cleanupExpired('memories');
+  /**
+   * Durable Object alarm: continues memory index maintenance in bounded passes,
+   * and sweeps expired rows, locks and job leases. The next sweep is set for
+   * the earliest remaining expiry, at most every MIN_SWEEP_INTERVAL_MS, except
+   * that a hold with waiters queued behind it is released on time.
+   */
+  async alarm(): Promise<void> {
+    let next: number | null = null;
+    try {
+      if (this.runMemoryIndexMaintenance()) next = Date.now() + 1_000;
+    } catch (err) {
+      console.error("[StorageDO] memory index maintenance error:", err);
+    }
 
-    const limit = Math.min(options?.limit ?? 10, 100);
-    const threshold = options?.threshold ?? 0.5;
+    try {
+      if (this.sweepExpired()) next = earliest(next, Date.now() + 1_000);
+      const expiry = this.nextExpiry();
+      if (expiry !== null) next = earliest(next, Math.max(expiry, Date.now() + MIN_SWEEP_INTERVAL_MS));
+      next = earliest(next, this.nextLockExpiry());
+    } catch (err) {
+      console.error("[StorageDO] expiry sweep error:", err);
+    }
 
-    const results = this.sql
-      .exec("SELECT key, content, tags, embedding FROM memories WHERE embedding IS NOT NULL")
-      .toArray();
+    if (next !== null) await this.ctx.storage.setAlarm(next);
+  }
 
-    const scored: Array<{ id: string; text: string; metadata: Record<string, unknown> | null; similarity: number }> = [];
+  /**
+   * Find groups of similar old, low-importance memories to consolidate.
+   * Scans the oldest eligible items (up to `scanLimit`) and groups them by
+   * cosine similarity; the caller summarizes each group and passes it to
+   * memoryConsolidateGroup.
+   */
+  async memoryConsolidationGroups(collection: string, options: {
+    olderThan: string;
+    maxImportance: number;
+    similarity: number;
+    minGroupSize: number;
+    maxGroups: number;
+    scanLimit: number;
+  }): Promise<{ scanned: number; groups: Array<{ ids: string[]; texts: string[] }> }> {
+    const rows = this.sql
+      .exec(
+        `SELECT key, content, embedding_vec FROM memories
+         WHERE collection = ? AND created_at < ? AND importance <= ? AND embedding_vec IS NOT NULL AND ${LIVE_ROW}
+         ORDER BY created_at ASC LIMIT ?`,
+        collection, options.olderThan, options.maxImportance, new Date().toISOString(), options.scanLimit
+      )
+      .toArray();
 
-    for (const row of results) {
-      let storedEmbedding: number[];
-      try { storedEmbedding = JSON.parse(row.embedding as string); } catch { continue; }
+    const vectors = rows.map((row) => unpackVector(row.embedding_vec as ArrayBuffer));
+    const groups = groupBySimilarity(vectors, options.similarity, options.minGroupSize)
+      .slice(0, options.maxGroups)
+      .map((members) => ({
+        ids: members.map((i) => rows[i].key as string),
+        texts: members.map((i) => rows[i].content as string),
+      }));
 
-      const similarity = this.cosineSimilarity(queryEmbedding, storedEmbedding);
-      if (similarity < threshold) continue;
+    return { scanned: rows.length, groups };
+  }
 
-      scored.push({
-        id: row.key as string,
-        text: row.content as string,
-        metadata: parseJsonField(row.tags),
-        similarity,
-      });
-    }
+  /**
+   * Replace a group of memories with one consolidated entry.
+   *
+   * The entry's vector is the centroid of the members' vectors (so it stays in
+   * the collection's embedding space), its importance is the members' highest,
+   * its createdAt the newest member's, and it expires only if every member did.
+   * Returns null if fewer than two members still exist.
+   */
+  async memoryConsolidateGroup(collection: string, group: { ids: string[]; text: string }): Promise<{
+    id: string;
+    replaced: string[];
+  } | null> {
+    const placeholders = group.ids.map(() => '?').join(',');
+    const rows = this.sql
+      .exec(
+        `SELECT key, importance, created_at, expires_at, embedding_vec FROM memories
+         WHERE collection = ? AND key IN (${placeholders}) AND embedding_vec IS NOT NULL`,
+        collection, ...group.ids
+      )
+      .toArray();
+    if (rows.length < 2) return null;
+
+    const vectors = rows.map((row) => unpackVector(row.embedding_vec as ArrayBuffer));
+    const dims = vectors[0].length;
+    const vector = meanVector(vectors.filter((v) => v.length === dims));
+    const replaced = rows.map((row) => row.key as string);
+    const importance = Math.max(...rows.map((row) => (row.importance as number | null) ?? DEFAULT_MEMORY_IMPORTANCE));
+    const createdAt = rows.map((row) => row.created_at as string).sort().at(-1)!;
+    const expiries = rows.map((row) => row.expires_at as string | null);
+    const expiresAt = expiries.every((e) => e !== null) ? (expiries as string[]).sort().at(-1)! : null;
+
+    const id = `consolidated-${crypto.randomUUID()}`;
+    const { clusterId, nextClusterId } = this.assignClusters(collection, vector);
+    const now = new Date().toISOString();
 
-    scored.sort((a, b) => b.similarity - a.similarity);
-    return { results: scored.slice(0, limit) };
-  }
+    this.ctx.storage.transactionSync(() => {
+      this.sql.exec(
+        `INSERT INTO memories (collection, key, content, tags, type, importance, source, embedding_vec,
+                               cluster_id, next_cluster_id, expires_at, created_at, updated_at)
+         VALUES (?, ?, ?, ?, 'consolidated', ?, 'consolidation', ?, ?, ?, ?, ?, ?)`,
+        collection, id, group.text, JSON.stringify({ consolidatedFrom: replaced }), importance,
+        packVector(vector), clusterId, nextClusterId, expiresAt, createdAt, now
+      );
+      this.sql.exec(
+        `DELETE FROM memories WHERE collection = ? AND key IN (${replaced.map(() => '?').join(',')})`,
+        collection, ...replaced
+      );
+    });
 
-  private cosineSimilarity(a: number[], b: number[]): number {
-    if (a.length !== b.length) return 0;
-    let dotProduct = 0, normA = 0, normB = 0;
-    for (let i = 0; i < a.length; i++) {
-      dotProduct += a[i] * b[i];
-      normA += a[i] * a[i];
-      normB += b[i] * b[i];
-    }
-    const magnitude = Math.sqrt(normA) * Math.sqrt(normB);
-    return magnitude === 0 ? 0 : dotProduct / magnitude;
+    return { id, replaced };
   }
 
-  async memoryDelete(ids: string[]): Promise<{ deleted: number; ids: string[] }> {
+  async memoryDelete(collection: string, ids: string[]): Promise<{ deleted: number; ids: string[] }> {
     if (ids.length === 0) return { deleted: 0, ids: [] };
 
     // Find which IDs actually exist before deleting
     const placeholders = ids.map(() => '?').join(',');
     const existingRows = this.sql
-      .exec(`SELECT key FROM memories WHERE key IN (${placeholders})`, ...ids)
+      .exec(`SELECT key FROM memories WHERE collection = ? AND key IN (${placeholders})`, collection, ...ids)
       .toArray();
 
     const existingIds = existingRows.map((row) => row.key as string);
@@ -745,44 +3416,57 @@ export class StorageDO extends DurableObject<Env> {
       return { deleted: 0, ids: [] };
     }
 
-    // Delete only existing IDs
+    // Delete only existing IDs (rowsWritten would also count FTS trigger writes)
     const deletePlaceholders = existingIds.map(() => '?').join(',');
-    const result = this.sql.exec(
-      `DELETE FROM memories WHERE key IN (${deletePlaceholders})`,
-      ...existingIds
+    this.sql.exec(
+      `DELETE FROM memories WHERE collection = ? AND key IN (${deletePlaceholders})`,
+      collection, ...existingIds
     );
 
-    return { deleted: result.rowsWritten, ids: existingIds };
+    return { deleted: existingIds.length, ids: existingIds };
   }
 
-  async memoryList(options?: { limit?: number; offset?: number }): Promise<{
-    items: Array<{ id: string; text: string; metadata: Record<string, unknown> | null; createdAt: string }>;
+  async memoryList(collection: string, options?: { limit?: number; offset?: number }): Promise<{
+    items: Array<{ id: string; text: string; metadata: Record<string, unknown> | null } & MemoryItemFields>;
     total: number;
   }> {
-    this.cleanupExpired('memories');
     const limit = Math.min(options?.limit ?? 100, 1000);
     const offset = options?.offset ?? 0;
+    const now = new Date().toISOString();
 
-    const countResult = this.sql.exec("SELECT COUNT(*) as count FROM memories").toArray();
-    const total = (countResult[0]?.count as number) || 0;
+    const total = this.sql
+      .exec(`SELECT COUNT(*) AS count FROM memories WHERE collection = ? AND ${LIVE_ROW}`, collection, now)
+      .one().count as number;
 
     const results = this.sql
-      .exec("SELECT key, content, tags, created_at FROM memories ORDER BY created_at DESC LIMIT ? OFFSET ?", limit, offset)
+      .exec(
+        `SELECT ${MEMORY_ROW_COLUMNS} FROM memories WHERE collection = ? AND ${LIVE_ROW}
+         ORDER BY created_at DESC LIMIT ? OFFSET ?`,
+        collection, now, limit, offset
+      )
       .toArray();
 
     const items = results.map((row) => ({
       id: row.key as string,
       text: row.content as string,
       metadata: parseJsonField(row.tags),
-      createdAt: row.created_at as string,
+      ...memoryItemFields(row),
     }));
 
     return { items, total };
   }
 
-  async memoryClear(): Promise<{ cleared: number }> {
-    const result = this.sql.exec("DELETE FROM memories");
-    return { cleared: result.rowsWritten };
+  /**
+   * Delete every item in a collection, along with its index and model declaration
+   */
+  async memoryClear(collection: string): Promise<{ cleared: number }> {
+    const cleared = this.countCollectionMemories(collection);
+    this.sql.exec("DELETE FROM memories WHERE collection = ?", collection);
+    this.sql.exec("DELETE FROM memory_centroids WHERE collection = ?", collection);
+    this.sql.exec("DELETE FROM memory_index WHERE collection = ?", collection);
+    this.sql.exec("DELETE FROM memory_collections WHERE name = ?", collection);
+    this.dropCachedCentroids(collection);
+    return { cleared };
   }
 
   // ===========================================================================
@@ -890,4 +3574,720 @@ export class StorageDO extends DurableObject<Env> {
       scannedAt: row.scanned_at as string,
     }));
   }
+
+  // ===========================================================================
+  // Access Grants
+  // ===========================================================================
+
+  private grantFromRow(row: Record<string, SqlStorageValue>): StoredGrant {
+    return {
+      grantor: row.grantor as string,
+      grantee: row.grantee as string,
+      scope: row.scope as StoredGrant["scope"],
+      subsystems: parseStringArray(row.subsystems) as StoredGrant["subsystems"],
+      prefix: row.prefix as string,
+      expiresAt: row.expires_at as number | null,
+      nonce: row.nonce as number,
+      signature: row.signature as string,
+      createdAt: row.created_at as string,
+      revokedAt: row.revoked_at as string | null,
+    };
+  }
+
+  /**
+   * Store a grant whose signature the caller has verified. Resubmitting the
+   * same signed grant is a no-op; a nonce cannot be reused, even once revoked.
+   */
+  async grantRegister(grant: StorageGrant, signature: string): Promise<GrantRegisterResult> {
+    const existing = this.sql.exec("SELECT * FROM storage_grants WHERE nonce = ?", grant.nonce).toArray()[0];
+    if (existing) {
+      const stored = this.grantFromRow(existing);
+      if (stored.revokedAt) {
+        return { ok: false, error: `Grant ${grant.nonce} was revoked; sign a new grant with another nonce`, status: 409 };
+      }
+      if (stored.signature !== signature) {
+        return { ok: false, error: `Nonce ${grant.nonce} is already used by another grant`, status: 409 };
+      }
+      return { ok: true, created: false, grant: stored };
+    }
+
+    const createdAt = new Date().toISOString();
+    this.sql.exec(
+      `INSERT INTO storage_grants (nonce, grantor, grantee, scope, subsystems, prefix, expires_at, signature, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      grant.nonce, grant.grantor, grant.grantee, grant.scope, JSON.stringify(grant.subsystems),
+      grant.prefix, grant.expiresAt, signature, createdAt
+    );
+    return { ok: true, created: true, grant: { ...grant, signature, createdAt, revokedAt: null } };
+  }
+
+  /**
+   * Grants issued by this payer, newest first (revoked ones only if asked)
+   */
+  async grantList(options?: { includeRevoked?: boolean }): Promise<StoredGrant[]> {
+    const where = options?.includeRevoked ? "" : "WHERE revoked_at IS NULL";
+    return this.sql
+      .exec(`SELECT * FROM storage_grants ${where} ORDER BY created_at DESC, nonce DESC`)
+      .toArray()
+      .map((row) => this.grantFromRow(row));
+  }
+
+  /**
+   * Revoke a grant by nonce. Returns false if it does not exist or was already revoked.
+   */
+  async grantRevoke(nonce: number): Promise<boolean> {
+    const result = this.sql.exec(
+      "UPDATE storage_grants SET revoked_at = ? WHERE nonce = ? AND revoked_at IS NULL",
+      new Date().toISOString(), nonce
+    );
+    return result.rowsWritten > 0;
+  }
+
+  /**
+   * Whether any live grant lets `grantee` make a request on this storage
+   */
+  async grantCheck(grantee: string, request: StorageAccessRequest): Promise<boolean> {
+    const now = Date.now();
+    return this.sql
+      .exec("SELECT * FROM storage_grants WHERE grantee = ? AND revoked_at IS NULL", grantee)
+      .toArray()
+      .some((row) => grantAllows(this.grantFromRow(row), request, now));
+  }
+
+  // ===========================================================================
+  // Export & Import
+  // ===========================================================================
+
+  /**
+   * Stream the payer's storage as an NDJSON archive (see utils/storage-archive).
+   * Pages are read as the stream is consumed, so writes made during a long
+   * export may or may not be included: it is not a point-in-time snapshot.
+   */
+  async exportArchive(options: { owner: string | null; sections: ArchiveSection[] }): Promise<ReadableStream<Uint8Array>> {
+    // Archives never carry expired rows, so sweep any the alarm has not reached yet
+    for (const table of Object.keys(EXPIRING_TABLES) as ExpiringTable[]) this.expireRows(table);
+
+    const lines = this.archiveLines(options.owner, options.sections);
+    const encoder = new TextEncoder();
+    return new ReadableStream<Uint8Array>({
+      pull(controller) {
+        let chunk = "";
+        while (chunk.length < EXPORT_CHUNK_CHARS) {
+          const next = lines.next();
+          if (next.done) {
+            if (chunk) controller.enqueue(encoder.encode(chunk));
+            controller.close();
+            return;
+          }
+          chunk += next.value;
+        }
+        controller.enqueue(encoder.encode(chunk));
+      },
+      cancel() {
+        lines.return(undefined);
+      },
+    });
+  }
+
+  /**
+   * Archive lines in import order: header, sections, then the end line.
+   * User tables are followed by their rows; indexes, triggers and views come
+   * last so triggers do not fire while rows are restored.
+   */
+  private *archiveLines(owner: string | null, sections: ArchiveSection[]): Generator<string> {
+    const counts: Record<string, number> = {};
+    const emit = (record: ArchiveRecord): string => {
+      counts[record.type] = (counts[record.type] ?? 0) + 1;
+      return archiveLine(record);
+    };
+
+    yield archiveLine({
+      type: "header",
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      exportedAt: new Date().toISOString(),
+      owner,
+      sections,
+    });
+
+    if (sections.includes("kv")) {
+      const columns = ["key", "value", "metadata", "version", "expires_at", "created_at", "updated_at"];
+      for (const row of this.pagedRows("kv", columns)) {
+        yield emit({
+          type: "kv",
+          key: row.key as string,
+          value: row.value as string,
+          metadata: row.metadata as string | null,
+          version: row.version as number,
+          expiresAt: row.expires_at as string | null,
+          createdAt: row.created_at as string,
+          updatedAt: row.updated_at as string,
+        });
+      }
+    }
+
+    if (sections.includes("paste")) {
+      for (const row of this.pagedRows("pastes", ["id", ...PASTE_ROW_COLUMNS.split(", ")])) {
+        yield emit({ type: "paste", ...pasteEntryFromRow(row.id as string, row) });
+      }
+      const columns = ["paste_id", "version", "content", "title", "language", "saved_at"];
+      for (const row of this.pagedRows("paste_revisions", columns)) {
+        yield emit({
+          type: "paste_revision",
+          pasteId: row.paste_id as string,
+          version: row.version as number,
+          content: row.content as string,
+          title: row.title as string | null,
+          language: row.language as string | null,
+          savedAt: row.saved_at as string,
+        });
+      }
+    }
+
+    if (sections.includes("queue")) {
+      const columns = [
+        "id", "queue", "payload", "priority", "status", "attempt", "max_attempts", "available_at",
+        "created_at", "updated_at", "completed_at", "failed_at", "error", "dedup_key", "history",
+      ];
+      for (const row of this.pagedRows("jobs", columns)) {
+        yield emit({
+          type: "job",
+          id: row.id as string,
+          queue: row.queue as string,
+          payload: row.payload as string,
+          priority: row.priority as number,
+          status: row.status as string,
+          attempt: row.attempt as number,
+          maxAttempts: row.max_attempts as number,
+          availableAt: row.available_at as string,
+          createdAt: row.created_at as string,
+          updatedAt: row.updated_at as string,
+          completedAt: row.completed_at as string | null,
+          failedAt: row.failed_at as string | null,
+          error: row.error as string | null,
+          dedupKey: row.dedup_key as string | null,
+          history: row.history as string | null,
+        });
+      }
+    }
+
+    // Only fencing counters: held locks are leases of running clients and stay behind
+    if (sections.includes("lock")) {
+      for (const row of this.pagedRows("lock_fences", ["name", "fence"])) {
+        yield emit({ type: "lock", name: row.name as string, fence: row.fence as number });
+      }
+    }
+
+    // Embeddings are exported packed; the IVF index is rebuilt after import
+    if (sections.includes("memory")) {
+      for (const row of this.pagedRows("memory_collections", ["name", "model", "dimensions", "created_at"])) {
+        yield emit({
+          type: "memory_collection",
+          name: row.name as string,
+          model: row.model as string,
+          dimensions: row.dimensions as number | null,
+          createdAt: row.created_at as string,
+        });
+      }
+      const columns = [
+        "collection", "key", "content", "summary", "tags", "type", "importance", "source",
+        "embedding", "embedding_vec", "expires_at", "created_at", "updated_at",
+      ];
+      for (const row of this.pagedRows("memories", columns)) {
+        yield emit({
+          type: "memory",
+          collection: row.collection as string,
+          key: row.key as string,
+          content: row.content as string,
+          summary: row.summary as string | null,
+          metadata: row.tags as string | null,
+          memoryType: row.type as string | null,
+          importance: row.importance as number | null,
+          source: row.source as string | null,
+          embedding: this.archivedEmbedding(row.embedding_vec, row.embedding),
+          expiresAt: row.expires_at as string | null,
+          createdAt: row.created_at as string,
+          updatedAt: row.updated_at as string,
+        });
+      }
+    }
+
+    if (sections.includes("db")) {
+      const objects = this.userSqlObjects();
+      for (const table of objects.filter((object) => object.objectType === "table")) {
+        yield emit({ type: "db_object", ...table });
+        const columns = this.sql
+          .exec(`PRAGMA table_info(${quoteIdentifier(table.name)})`)
+          .toArray()
+          .map((col) => col.name as string);
+        const withoutRowid = /\bWITHOUT\s+ROWID\b/i.test(table.sql);
+        for (const row of this.pagedRows(table.name, columns, withoutRowid)) {
+          const values: Record<string, ArchiveValue> = {};
+          for (const column of columns) {
+            values[column] = encodeArchiveValue(row[column] as ArrayBuffer | string | number | null);
+          }
+          yield emit({ type: "db_row", table: table.name, values });
+        }
+      }
+      for (const object of objects.filter((object) => object.objectType !== "table")) {
+        yield emit({ type: "db_object", ...object });
+      }
+    }
+
+    yield archiveLine({ type: "end", counts });
+  }
+
+  /**
+   * Rows of a table in rowid order, one query per page so nothing is held
+   * open between reads. WITHOUT ROWID tables page by offset instead.
+   */
+  private *pagedRows(
+    table: string,
+    columns: string[],
+    withoutRowid = false
+  ): Generator<Record<string, SqlStorageValue>> {
+    const select = columns.map(quoteIdentifier).join(", ");
+    const from = quoteIdentifier(table);
+    let after: number | null = null;
+
+    for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+      let rows: Record<string, SqlStorageValue>[];
+      if (withoutRowid) {
+        rows = this.sql.exec(`SELECT ${select} FROM ${from} LIMIT ? OFFSET ?`, EXPORT_PAGE_SIZE, offset).toArray();
+      } else {
+        const where = after === null ? "" : "WHERE rowid > ?";
+        const params = after === null ? [] : [after];
+        rows = this.sql
+          .exec(
+            `SELECT rowid AS "__archive_rowid", ${select} FROM ${from} ${where} ORDER BY rowid LIMIT ?`,
+            ...params, EXPORT_PAGE_SIZE
+          )
+          .toArray();
+        if (rows.length > 0) after = rows[rows.length - 1].__archive_rowid as number;
+      }
+
+      yield* rows;
+      if (rows.length < EXPORT_PAGE_SIZE) return;
+    }
+  }
+
+  /**
+   * Packed embedding for an archive; legacy JSON embeddings are converted
+   */
+  private archivedEmbedding(packed: SqlStorageValue, legacy: SqlStorageValue): string | null {
+    if (packed instanceof ArrayBuffer) return encodeBinary(packed);
+    if (typeof legacy !== "string") return null;
+    try {
+      const embedding: unknown = JSON.parse(legacy);
+      return Array.isArray(embedding) ? encodeBinary(packVector(normalizeVector(embedding))) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Tables, indexes, triggers and views created through /storage/db, in
+   * creation order. Shadow tables of virtual tables are left out (their
+   * CREATE VIRTUAL TABLE recreates them), as are automatic indexes.
+   */
+  private userSqlObjects(): Array<{ objectType: "table" | "index" | "trigger" | "view"; name: string; sql: string }> {
+    const shadowTables = new Set(
+      this.sql
+        .exec("PRAGMA table_list")
+        .toArray()
+        .filter((row) => row.type === "shadow")
+        .map((row) => row.name as string)
+    );
+    return this.sql
+      .exec("SELECT type, name, tbl_name, sql FROM sqlite_master WHERE sql IS NOT NULL ORDER BY rowid")
+      .toArray()
+      .filter((row) =>
+        isUserSqlName(row.name as string) && isUserSqlName(row.tbl_name as string) && !shadowTables.has(row.name as string)
+      )
+      .map((row) => ({
+        objectType: row.type as "table" | "index" | "trigger" | "view",
+        name: row.name as string,
+        sql: row.sql as string,
+      }));
+  }
+
+  /**
+   * Restore an archive from /storage/export.
+   *
+   * The whole archive is applied in one transaction: a malformed or truncated
+   * archive (counts not matching its end line), a rejected record or a broken
+   * quota leaves storage untouched. Replace mode first clears the sections
+   * the archive contains; merge mode upserts over existing data, with the
+   * archive winning on conflicts (KV versions still move forward, and
+   * /storage/db objects that already exist are kept). Lock fences only ever
+   * increase, and held locks are not affected in either mode.
+   */
+  async importArchive(body: ReadableStream<Uint8Array>, mode: ArchiveImportMode): Promise<StorageImportResult> {
+    const text = await this.readArchiveText(body);
+    if (text === null) {
+      return {
+        ok: false,
+        error: `Archive is larger than ${MAX_IMPORT_BYTES} bytes; export and import it in parts with ?sections=`,
+        status: 413,
+      };
+    }
+
+    let applied: ReturnType<StorageDO["applyArchive"]>;
+    try {
+      applied = this.ctx.storage.transactionSync(() => this.applyArchive(text, mode));
+    } catch (e) {
+      if (e instanceof StorageQuotaError) return e.exceeded;
+      if (e instanceof ArchiveFormatError) return { ok: false, error: e.message, status: 400, line: e.line };
+      throw e;
+    } finally {
+      if (mode === "replace") this.centroidCache.clear();
+    }
+
+    const { header, counts, collections, sharedPastes, removedSharedPastes } = applied;
+    if (header.sections.includes("kv")) this.notifyKvWatchers();
+    for (const collection of collections) {
+      await this.scheduleMemoryIndexMaintenance(collection);
+    }
+    await this.scheduleSweep();
+
+    return { ok: true, mode, sections: header.sections, counts, sharedPastes, removedSharedPastes };
+  }
+
+  /**
+   * Read a request body as text, or null once it passes MAX_IMPORT_BYTES
+   */
+  private async readArchiveText(body: ReadableStream<Uint8Array>): Promise<string | null> {
+    const reader = body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.byteLength;
+      if (size > MAX_IMPORT_BYTES) {
+        await reader.cancel();
+        return null;
+      }
+      chunks.push(value);
+    }
+
+    const bytes = new Uint8Array(size);
+    let offset = 0;
+    for (const chunk of chunks) {
+      bytes.set(chunk, offset);
+      offset += chunk.byteLength;
+    }
+    return new TextDecoder().decode(bytes);
+  }
+
+  /**
+   * Apply archive lines in order (runs inside the import transaction).
+   * Record errors are rethrown as ArchiveFormatError with their line.
+   */
+  private applyArchive(text: string, mode: ArchiveImportMode): {
+    header: ArchiveHeader;
+    counts: Record<string, number>;
+    collections: Set<string>;
+    sharedPastes: Array<Omit<SharedPasteEntry, "owner">>;
+    removedSharedPastes: string[];
+  } {
+    const before = new Map(STORAGE_SUBSYSTEMS.map((subsystem) => [subsystem, this.readUsage(subsystem)]));
+    const sharedIds = () => new Set(
+      this.sql.exec("SELECT id FROM pastes WHERE visibility != 'private'").toArray().map((row) => row.id as string)
+    );
+    const sharedBefore = sharedIds();
+
+    let header: ArchiveHeader | null = null;
+    let end: ArchiveEnd | null = null;
+    const counts: Record<string, number> = {};
+    const collections = new Set<string>();
+    const importedPastes = new Set<string>();
+
+    let lineNumber = 0;
+    for (let start = 0; start < text.length;) {
+      const newline = text.indexOf("\n", start);
+      const stop = newline === -1 ? text.length : newline;
+      const line = text.slice(start, stop).trim();
+      start = stop + 1;
+      lineNumber++;
+      if (!line) continue;
+
+      if (!header) {
+        header = parseArchiveHeader(line);
+        if (lineNumber !== 1) throw new ArchiveFormatError("Header must be the first line", lineNumber);
+        if (mode === "replace") this.clearArchiveSections(header.sections);
+        continue;
+      }
+      if (end) throw new ArchiveFormatError("Unexpected data after the end line", lineNumber);
+
+      const record = parseArchiveLine(line, lineNumber);
+      if (record.type === "end") {
+        end = record;
+        if (!archiveCountsMatch(end.counts, counts)) {
+          throw new ArchiveFormatError("Record counts do not match the end line (archive is incomplete)", lineNumber);
+        }
+        continue;
+      }
+      if (!header.sections.includes(ARCHIVE_RECORD_SECTIONS[record.type])) {
+        throw new ArchiveFormatError(`${record.type} record outside the sections listed in the header`, lineNumber);
+      }
+
+      try {
+        this.applyArchiveRecord(record, mode);
+      } catch (e) {
+        throw new ArchiveFormatError(e instanceof Error ? e.message : String(e), lineNumber);
+      }
+      counts[record.type] = (counts[record.type] ?? 0) + 1;
+      if (record.type === "memory") collections.add(record.collection);
+      if (record.type === "paste") importedPastes.add(record.id);
+    }
+
+    if (!header) throw new ArchiveFormatError("Archive is empty", 1);
+    if (!end) throw new ArchiveFormatError("Archive is truncated (no end line)", lineNumber);
+
+    if (header.sections.includes("db")) this.refreshDbUsage(null);
+    for (const [subsystem, usage] of before) {
+      this.enforceQuota(subsystem, usage);
+    }
+
+    const sharedAfter = sharedIds();
+    const sharedPastes = this.sql
+      .exec(
+        "SELECT id, visibility, title, language, created_at, expires_at FROM pastes WHERE visibility != 'private'"
+      )
+      .toArray()
+      .filter((row) => importedPastes.has(row.id as string))
+      .map((row) => ({
+        id: row.id as string,
+        visibility: row.visibility as "unlisted" | "public",
+        title: row.title as string | null,
+        language: row.language as string | null,
+        createdAt: row.created_at as string,
+        expiresAt: row.expires_at as string | null,
+      }));
+
+    return {
+      header,
+      counts,
+      collections,
+      sharedPastes,
+      removedSharedPastes: [...sharedBefore].filter((id) => !sharedAfter.has(id)),
+    };
+  }
+
+  /**
+   * Replace mode: delete everything an archive's sections will restore
+   */
+  private clearArchiveSections(sections: ArchiveSection[]): void {
+    if (sections.includes("kv")) {
+      this.sql.exec("DELETE FROM kv");
+      this.sql.exec("DELETE FROM content_scans WHERE content_type = 'kv'");
+    }
+    if (sections.includes("paste")) {
+      this.sql.exec("DELETE FROM pastes");
+      this.sql.exec("DELETE FROM content_scans WHERE content_type = 'paste'");
+    }
+    if (sections.includes("queue")) {
+      this.sql.exec("DELETE FROM jobs");
+    }
+    if (sections.includes("memory")) {
+      this.sql.exec("DELETE FROM memories");
+      this.sql.exec("DELETE FROM memory_collections");
+      this.sql.exec("DELETE FROM memory_centroids");
+      this.sql.exec("DELETE FROM memory_index");
+      this.sql.exec("DELETE FROM content_scans WHERE content_type = 'memory'");
+    }
+    if (sections.includes("db")) {
+      // Foreign keys are checked at commit, once every table is back
+      this.sql.exec("PRAGMA defer_foreign_keys = ON");
+      for (const object of this.userSqlObjects().reverse()) {
+        this.sql.exec(`DROP ${object.objectType.toUpperCase()} IF EXISTS ${quoteIdentifier(object.name)}`);
+      }
+    }
+  }
+
+  private applyArchiveRecord(record: ArchiveRecord, mode: ArchiveImportMode): void {
+    switch (record.type) {
+      case "kv":
+        this.sql.exec(
+          `INSERT INTO kv (key, value, metadata, version, expires_at, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT(key) DO UPDATE SET
+             value = excluded.value,
+             metadata = excluded.metadata,
+             version = MAX(kv.version + 1, excluded.version),
+             expires_at = excluded.expires_at,
+             created_at = excluded.created_at,
+             updated_at = excluded.updated_at`,
+          record.key, record.value, record.metadata ?? null, record.version, record.expiresAt ?? null,
+          record.createdAt, record.updatedAt
+        );
+        return;
+
+      case "paste":
+        if (!["private", "unlisted", "public"].includes(record.visibility)) {
+          throw new Error(`Invalid paste visibility "${record.visibility}"`);
+        }
+        // The archive carries the paste's full history
+        this.sql.exec("DELETE FROM paste_revisions WHERE paste_id = ?", record.id);
+        this.sql.exec(
+          `INSERT INTO pastes (id, content, title, language, version, visibility, max_reads, read_count,
+                               created_at, updated_at, expires_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT(id) DO UPDATE SET
+             content = excluded.content,
+             title = excluded.title,
+             language = excluded.language,
+             version = excluded.version,
+             visibility = excluded.visibility,
+             max_reads = excluded.max_reads,
+             read_count = excluded.read_count,
+             created_at = excluded.created_at,
+             updated_at = excluded.updated_at,
+             expires_at = excluded.expires_at`,
+          record.id, record.content, record.title ?? null, record.language ?? null, record.version, record.visibility,
+          record.maxReads ?? null, record.readCount ?? 0, record.createdAt, record.updatedAt ?? null, record.expiresAt ?? null
+        );
+        return;
+
+      case "paste_revision":
+        if (this.sql.exec("SELECT 1 FROM pastes WHERE id = ?", record.pasteId).toArray().length === 0) {
+          throw new Error(`Revision of unknown paste "${record.pasteId}"`);
+        }
+        this.sql.exec(
+          `INSERT INTO paste_revisions (paste_id, version, content, title, language, saved_at)
+           VALUES (?, ?, ?, ?, ?, ?)
+           ON CONFLICT(paste_id, version) DO UPDATE SET
+             content = excluded.content,
+             title = excluded.title,
+             language = excluded.language,
+             saved_at = excluded.saved_at`,
+          record.pasteId, record.version, record.content, record.title ?? null, record.language ?? null, record.savedAt
+        );
+        return;
+
+      case "job": {
+        if (!JOB_STATUSES.has(record.status)) throw new Error(`Invalid job status "${record.status}"`);
+        if (record.history != null && !isJsonArray(record.history)) {
+          throw new Error(`Job ${record.id} history must be a JSON array`);
+        }
+        // Leases do not survive a move: in-flight jobs become pending again
+        const status = record.status === "processing" ? "pending" : record.status;
+        this.sql.exec(
+          `INSERT INTO jobs (id, queue, payload, priority, status, attempt, max_attempts, available_at,
+                             created_at, updated_at, completed_at, failed_at, error, dedup_key, history)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT(id) DO UPDATE SET
+             queue = excluded.queue,
+             payload = excluded.payload,
+             priority = excluded.priority,
+             status = excluded.status,
+             attempt = excluded.attempt,
+             max_attempts = excluded.max_attempts,
+             available_at = excluded.available_at,
+             visibility_timeout = NULL,
+             created_at = excluded.created_at,
+             updated_at = excluded.updated_at,
+             completed_at = excluded.completed_at,
+             failed_at = excluded.failed_at,
+             error = excluded.error,
+             dedup_key = excluded.dedup_key,
+             history = excluded.history`,
+          record.id, record.queue, record.payload, record.priority ?? 0, status, record.attempt ?? 0,
+          record.maxAttempts ?? DEFAULT_MAX_ATTEMPTS, record.availableAt, record.createdAt, record.updatedAt,
+          record.completedAt ?? null, record.failedAt ?? null, record.error ?? null, record.dedupKey ?? null,
+          record.history ?? null
+        );
+        return;
+      }
+
+      case "lock":
+        this.sql.exec(
+          `INSERT INTO lock_fences (name, fence) VALUES (?, ?)
+           ON CONFLICT(name) DO UPDATE SET fence = MAX(lock_fences.fence, excluded.fence)`,
+          record.name, record.fence
+        );
+        return;
+
+      case "memory_collection": {
+        if (!isCollectionModel(record.model)) throw new Error(`Unknown embedding model "${record.model}"`);
+        const declared = this.sql
+          .exec("SELECT model, dimensions FROM memory_collections WHERE name = ?", record.name)
+          .toArray()[0];
+        const hasItems = this.sql
+          .exec("SELECT 1 FROM memories WHERE collection = ? LIMIT 1", record.name)
+          .toArray().length > 0;
+        const currentModel = declared?.model ?? (hasItems ? DEFAULT_EMBEDDING_MODEL : null);
+        const dimensions = record.model === CUSTOM_EMBEDDING_MODEL ? record.dimensions ?? null : null;
+        if (currentModel !== null && (currentModel !== record.model || (declared?.dimensions ?? null) !== dimensions)) {
+          throw new Error(
+            `Collection "${record.name}" uses model ${String(currentModel)}; clear it or import in replace mode`
+          );
+        }
+        this.sql.exec(
+          `INSERT INTO memory_collections (name, model, dimensions, created_at) VALUES (?, ?, ?, ?)
+           ON CONFLICT(name) DO NOTHING`,
+          record.name, record.model, dimensions, record.createdAt
+        );
+        return;
+      }
+
+      case "memory": {
+        const vector = record.embedding ? unpackVector(decodeBinary(record.embedding)) : null;
+        const { clusterId, nextClusterId } = vector
+          ? this.assignClusters(record.collection, vector)
+          : { clusterId: null, nextClusterId: null };
+        this.sql.exec(
+          `INSERT INTO memories (collection, key, content, tags, type, importance, summary, source, embedding_vec,
+                                 cluster_id, next_cluster_id, expires_at, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT(collection, key) DO UPDATE SET
+             content = excluded.content,
+             tags = excluded.tags,
+             type = excluded.type,
+             importance = excluded.importance,
+             summary = excluded.summary,
+             source = excluded.source,
+             embedding = NULL,
+             embedding_vec = excluded.embedding_vec,
+             cluster_id = excluded.cluster_id,
+             next_cluster_id = excluded.next_cluster_id,
+             expires_at = excluded.expires_at,
+             created_at = excluded.created_at,
+             updated_at = excluded.updated_at`,
+          record.collection, record.key, record.content, record.metadata ?? null,
+          record.memoryType ?? DEFAULT_MEMORY_TYPE, record.importance ?? DEFAULT_MEMORY_IMPORTANCE,
+          record.summary ?? null, record.source ?? null, vector ? packVector(vector) : null,
+          clusterId, nextClusterId, record.expiresAt ?? null, record.createdAt, record.updatedAt
+        );
+        return;
+      }
+
+      case "db_object": {
+        // Archived SQL gets the same checks as /storage/db, and may only create objects
+        const statement = authorizeStatement(record.sql, { allow: ["write"], protectedNames: SYSTEM_SQL_OBJECTS });
+        if (statement.verb !== "CREATE") throw new Error("db_object SQL must be a CREATE statement");
+        const exists = this.sql
+          .exec("SELECT 1 FROM sqlite_master WHERE lower(name) = lower(?)", record.name)
+          .toArray().length > 0;
+        if (exists && mode === "merge") return;
+        this.sql.exec(record.sql);
+        return;
+      }
+
+      case "db_row": {
+        const table = this.userTables().find((name) => name.toLowerCase() === record.table.toLowerCase());
+        if (!table) throw new Error(`Unknown table "${record.table}"`);
+        const columns = Object.keys(record.values);
+        if (columns.length === 0) throw new Error("db_row has no values");
+        // Merge: rows replace those with the same primary key or unique values
+        this.sql.exec(
+          `INSERT ${mode === "merge" ? "OR REPLACE " : ""}INTO ${quoteIdentifier(table)}
+           (${columns.map(quoteIdentifier).join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`,
+          ...columns.map((column) => decodeArchiveValue(record.values[column]))
+        );
+        return;
+      }
+    }
+  }
 }
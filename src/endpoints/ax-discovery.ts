@@ -53,17 +53,22 @@ Canonical public payment lifecycle:
 | Tier     | Cost          | Endpoints                                    |
 |----------|---------------|----------------------------------------------|
 | free     | 0             | GET /inference/*/models, /, /health, /topics |
-| standard | 0.001 STX     | All paid endpoints (hashing, stacks, storage)|
+| standard | 0.001 STX+    | Paid endpoints, priced per route (see below) |
 | dynamic  | varies        | OpenRouter LLM (cost + 20% margin)           |
 
 **Token types:** STX, sBTC, USDCx (Circle USDC via xReserve)
 Use \`X-PAYMENT-TOKEN-TYPE\` header to select token (default: STX).
 
-Approximate standard pricing:
+Approximate standard pricing (sBTC and USDCx amounts follow the live STX rate,
+reported in each 402 under \`extra.rate\`):
 - 0.001 STX ≈ $0.0005 USD at $0.50/STX
 - 0.001 STX ≈ 0.05 satoshis sBTC equivalent
 - 0.001 STX ≈ 0.001 USDCx equivalent
 
+Large writes cost more: bytes written beyond 64 KB, queue items or batch
+operations beyond 10 and generated embeddings beyond 5 are added to the base price before
+you pay (breakdown in the 402 under \`extra.pricing.components\`).
+
 ## How to Make a Paid Request (x402 v2 Flow)
 
 **Step 1 — Send request without payment:**
@@ -115,6 +120,8 @@ The easiest way to handle this flow: use the AIBTC MCP server's \`execute_x402_e
 | stacks      | /stacks/* (address, decode, profile, verify)       | standard |
 | hashing     | /hashing/* (sha256, sha512, keccak256, hash160...) | standard |
 | storage     | /storage/kv, paste, db, sync, queue, memory        | standard |
+| usage       | /usage/me/* (your own spend, signed challenge)     | free     |
+| credits     | /credits/topup (prepay once, call many times)      | dynamic  |
 
 **Safety:** Storage write operations (KV set, paste create, memory store) are
 background-scanned for safety using Cloudflare AI (Llama 3.1 8B). Scanning is
@@ -224,6 +231,13 @@ ${PAYMENT_PUBLIC_LIFECYCLE}
         "pricing": {
           "type": "fixed",
           "tier": "standard"
+        },
+        "rate": {
+          "token": "STX",
+          "usd": 0.62,
+          "source": "coingecko",
+          "observedAt": 1767225600000,
+          "stale": false
         }
       }
     }
@@ -249,6 +263,31 @@ relay URL, and payment lifecycle metadata. Use this to auto-configure x402-stack
 | sBTC  | 1 satoshi     | ~$0.001         |
 | USDCx | 1000 micro    | ~$0.001         |
 
+### Per-Route Pricing
+
+Standard endpoints are priced per route and method. The base is 0.001 STX,
+except:
+
+| Route                              | Base      |
+|------------------------------------|-----------|
+| POST /inference/cloudflare/chat    | 0.003 STX |
+| POST /storage/memory/consolidate   | 0.003 STX |
+| GET  /stacks/profile/:address      | 0.002 STX |
+
+Writes add size-based components, measured on the request before settlement:
+
+| Component            | Routes                                              | Charge                                   |
+|----------------------|-----------------------------------------------------|------------------------------------------|
+| bytes written        | kv (value), paste create/update (content), kv/batch, queue/push, memory/store, import (whole body) | +0.001 STX per started 64 KB beyond 64 KB |
+| items pushed         | queue/push (items or jobs), kv/batch (operations), db/batch (statements) | +0.0001 STX per item beyond 10 |
+| embeddings generated | memory/store (items without an embedding)           | +0.0002 STX per embedding beyond 5       |
+
+A 1 MB paste costs 0.016 STX; storing 100 memories costs 0.02 STX (items that
+bring their own embedding are not counted). The 402
+lists the breakdown in \`accepts[0].extra.pricing\`:
+\`{ "type": "fixed", "tier": "standard", "route": "POST /storage/paste", "components": [{ "measure": "bytes", "quantity": 1048576, "billable": 983040, "stx": 0.015 }] }\`.
+Routes measured by the whole body need a \`Content-Length\` header (411 without).
+
 ### Dynamic Tier (OpenRouter LLM only)
 
 OpenRouter cost + 20% margin. Minimum $0.001 USD equivalent.
@@ -260,13 +299,55 @@ is pre-verified in the 402 response — clients sign the exact quoted amount.
 
 Estimated output tokens = min(max_tokens, input_tokens * 2).
 
-### Token Exchange Rates (approximate, embedded in pricing)
+After the completion the charge is reconciled with the actual usage. An
+overcharge is credited to your prepaid balance (see Prepaid Credits) in the
+payment token; an undercharge is absorbed by the house up to $0.05 per payer
+and token in any 24 hours, and recorded as unrecovered beyond that (your
+credit balance is never debited for it). See /usage/me/reconciliation.
+
+### Token Exchange Rates (live oracle)
+
+USD prices are converted to STX and sBTC at live market rates, refreshed every
+minute from several price feeds. Quotes more than 5% off the median are
+dropped; when only two feeds answer and they disagree, the one nearer the
+last rate is used. A move of more than 25% needs two agreeing feeds. If the feeds
+fail, the last rate is used for up to 15 minutes, then these fixed rates:
 
-| Token | Rate      |
-|-------|-----------|
+| Token | Fallback rate |
+|-------|---------------|
 | STX   | $0.50 USD |
 | sBTC  | $100,000 USD (1 BTC) |
-| USDCx | $1.00 USD |
+| USDCx | $1.00 USD (pegged, never quoted) |
+
+Every 402 reports the rate its amount was converted at in
+\`accepts[0].extra.rate\`: \`{ token, usd, source, observedAt, stale }\`.
+
+## Prepaid Credits
+
+Settling every 0.001 STX call adds relay latency and a chain transaction. To
+avoid that, prepay once and spend from a balance:
+
+\`\`\`
+POST /credits/topup            — Pay { "amount": "<base units>", "sessionTtl": 3600 } via x402
+                                 → { "sessionToken": "x402cs_SP....<hex>", "sessionExpiresAt": ..., "balance": {...} }
+GET  /credits/balance          — Balances, session expiry, recent ledger entries (free)
+POST /credits/session          — Pay a standard call for a new session on your existing balance
+                                 { "sessionTtl": 3600 } → { "sessionToken": ..., "balances": [...] }
+DELETE /credits/session        — End the session early (free)
+\`\`\`
+Use \`POST /credits/session\` to spend refunded LLM overcharges or a balance whose
+session has ended without topping up again.
+
+Send \`Authorization: Bearer <sessionToken>\` instead of \`payment-signature\` on any
+paid endpoint: the price is debited from your balance in the same token
+(\`X-PAYMENT-TOKEN-TYPE\`) and the response carries \`X-Credit-Balance\`. If the
+balance is too low you get the usual 402 (with an \`error\`) and can pay directly.
+
+- Minimum top-up: 100 standard calls (100000 microSTX, 100 sats, 100000 micro USDCx)
+- Sessions last 60 s to 24 h (default 1 h); each top-up returns a new one
+- A balance expires 30 days after its last top-up
+- Overcharges on dynamically priced LLM calls are credited to the balance, even
+  when the call was paid directly
 
 ## Free Endpoints (No Payment Required)
 
@@ -284,7 +365,25 @@ GET  /topics/:topic                 — Topic sub-docs
 GET  /.well-known/agent.json        — A2A agent card
 GET  /inference/openrouter/models   — List available OpenRouter models
 GET  /inference/cloudflare/models   — List available Cloudflare AI models
-\`\`\`
+GET  /paste                         — List public pastes
+GET  /paste/:id                     — Read an unlisted or public paste
+GET  /paste/:id/raw                 — Raw content of an unlisted or public paste
+GET  /usage/me/challenge            — Challenge to sign for /usage/me (?address=SP...)
+GET  /usage/me                      — Your spend totals (signed challenge headers)
+GET  /usage/me/endpoints            — Your spend per endpoint
+GET  /usage/me/models               — Your spend per model
+GET  /usage/me/daily                — Your spend per day
+GET  /usage/me/recent               — Your most recent paid requests
+GET  /usage/me/reconciliation       — Your estimated vs actual LLM charges
+GET  /credits/balance               — Your prepaid balance (Authorization: Bearer <session>)
+DELETE /credits/session             — End a credit session
+\`\`\`
+
+Every settled paid request is recorded against the payer address. /usage/me
+reads your own records back: fetch a challenge, sign it with the payer's key
+(Stacks signed message, or SIP-018 with \`X-Usage-Scheme: sip018\`), then send
+\`X-Usage-Address\`, \`X-Usage-Issued-At\` and \`X-Usage-Signature\`. A challenge
+stays valid for 300 seconds. Amounts are in the payment token's base units.
 
 ## Inference Endpoints
 
@@ -486,28 +585,43 @@ POST   /storage/kv              — Set value
 GET    /storage/kv/:key         — Get value
 DELETE /storage/kv/:key         — Delete value
 GET    /storage/kv              — List keys
+POST   /storage/kv/incr         — Atomic counter increment/decrement
+POST   /storage/kv/batch        — Many gets/sets/deletes in one call
+POST   /storage/kv/watch        — Long-poll for changes to a key or prefix
 
 POST /storage/kv
 { "key": "my-key", "value": "my-value", "metadata": {}, "ttl": 3600 }
-Response: { "ok": true, "key": "my-key", "created": true, "tokenType": "STX" }
+Response: { "ok": true, "key": "my-key", "created": true, "version": 1, "tokenType": "STX" }
 
 GET /storage/kv/:key
 Response: { "ok": true, "key": "my-key", "value": "my-value", "metadata": {}, "tokenType": "STX" }
 
-GET /storage/kv
-Response: { "ok": true, "keys": [{ "key": "...", "metadata": {} }], "tokenType": "STX" }
+GET /storage/kv?limit=100&cursor=...
+Response: { "ok": true, "keys": [{ "key": "...", "metadata": {} }], "nextCursor": "...", "tokenType": "STX" }
 \`\`\`
 
 ### Paste Bin
 
 \`\`\`
-POST   /storage/paste           — Create paste
-GET    /storage/paste/:id       — Get paste
-DELETE /storage/paste/:id       — Delete paste
+POST   /storage/paste                 — Create paste
+GET    /storage/paste/:id             — Get paste (?version=N for an older version)
+PUT    /storage/paste/:id             — Update paste, keeping history
+GET    /storage/paste/:id/revisions   — List versions
+GET    /storage/paste/:id/diff        — Unified diff (?from=N&to=M, default previous → current)
+GET    /storage/paste/:id/raw         — Content only, Content-Type from language
+DELETE /storage/paste/:id             — Delete paste and its history
+GET    /paste                         — Public pastes (free)
+GET    /paste/:id                     — Unlisted/public paste by ID (free)
+GET    /paste/:id/raw                 — Unlisted/public raw content (free)
 
 POST /storage/paste
-{ "content": "...", "title": "optional", "language": "typescript", "ttl": 86400 }
-Response: { "ok": true, "id": "paste-uuid", "createdAt": "...", "expiresAt": "...", "tokenType": "STX" }
+{ "content": "...", "title": "optional", "language": "typescript", "ttl": 86400,
+  "visibility": "unlisted", "maxReads": 5 }  // visibility: private (default) | unlisted | public
+Response: { "ok": true, "id": "paste-id", "visibility": "unlisted", "url": "https://.../paste/paste-id", ... }
+
+PUT /storage/paste/:id
+{ "content": "...", "ifMatch": 3 }  // ifMatch optional: 412 if the paste moved on
+Response: { "ok": true, "id": "paste-uuid", "version": 4, "updatedAt": "...", ... }
 \`\`\`
 
 ### SQL Database
@@ -515,6 +629,7 @@ Response: { "ok": true, "id": "paste-uuid", "createdAt": "...", "expiresAt": "..
 \`\`\`
 POST /storage/db/query          — Read-only SQL query
 POST /storage/db/execute        — Mutating SQL statement
+POST /storage/db/batch          — Several statements in one transaction
 GET  /storage/db/schema         — Schema introspection
 
 POST /storage/db/query
@@ -524,6 +639,10 @@ Response: { "ok": true, "rows": [...], "rowCount": 1, "tokenType": "STX" }
 POST /storage/db/execute
 { "sql": "INSERT INTO items (name) VALUES (?)", "params": ["test"] }
 Response: { "ok": true, "rowsAffected": 1, "lastInsertRowid": 1, "tokenType": "STX" }
+
+POST /storage/db/batch
+{ "statements": [{ "query": "CREATE TABLE t (x)" }, { "query": "INSERT INTO t VALUES (?)", "params": [1] }] }
+Response: { "ok": true, "results": [{ "rowsAffected": 0 }, { "rowsAffected": 1 }], "rowsAffected": 1, "tokenType": "STX" }
 \`\`\`
 SQLite-compatible. Each payer has their own isolated SQLite database.
 
@@ -537,30 +656,38 @@ GET  /storage/sync/status/:name — Check lock status
 GET  /storage/sync/list         — List active locks
 
 POST /storage/sync/lock
-{ "name": "my-resource", "ttl": 60 }  // ttl: 10-300 seconds, default 60
-Response: { "ok": true, "acquired": true, "token": "lock-token-uuid", ... }
+{ "name": "my-resource", "ttl": 60, "wait": 30 }  // ttl: 10-300s; wait: 0-60s queue time
+Response: { "ok": true, "acquired": true, "token": "lock-token-uuid", "fence": 7, ... }
 
 POST /storage/sync/unlock
 { "name": "my-resource", "token": "lock-token-uuid" }
 Response: { "ok": true, "released": true, ... }
 \`\`\`
 Used to coordinate concurrent agent processes. Lock tokens prevent unauthorized unlocks.
+Modes: exclusive (default), shared (readers), semaphore (limit/permits). Waiters are
+served first come, first served. fence increases on every new hold of a name.
 
 ### Job Queue
 
 \`\`\`
-POST /storage/queue/push        — Enqueue job
-POST /storage/queue/pop         — Dequeue job (removes from queue)
+POST /storage/queue/push        — Enqueue jobs (optional delaySeconds, runAt, maxAttempts, dedupKey)
+POST /storage/queue/pop         — Lease jobs (visibility timeout, ack/nack to finish)
+POST /storage/queue/ack         — Delete leased jobs once processed
+POST /storage/queue/nack        — Return leased jobs for retry (dead-letter after maxAttempts)
+POST /storage/queue/extend      — Extend the lease on leased jobs
+GET  /storage/queue/dead        — List dead-lettered jobs (last error, attempt history)
+POST /storage/queue/redrive     — Move dead jobs back to pending (optionally to another queue)
 GET  /storage/queue/peek        — View next job (does not remove)
 GET  /storage/queue/status      — Queue stats
 POST /storage/queue/clear       — Clear all queued jobs
 
 POST /storage/queue/push
-{ "data": { "taskId": "abc", "type": "email" }, "priority": 5 }
-Response: { "ok": true, "id": "job-uuid", "position": 1, ... }
+{ "name": "tasks", "items": [{ "taskId": "abc", "type": "email" }], "priority": 5, "delaySeconds": 60 }
+Response: { "ok": true, "pushed": 1, "queue": "tasks", "ids": ["job_..."], ... }
 
 POST /storage/queue/pop
-Response: { "ok": true, "job": { "id": "...", "data": {...} }, ... }
+{ "name": "tasks", "visibilityTimeout": 60 }
+Response: { "ok": true, "items": [{ "id": "job_...", "data": {...}, "leaseExpiresAt": "..." }], ... }
 \`\`\`
 
 ### Vector Memory (Semantic Search)
@@ -570,7 +697,9 @@ POST /storage/memory/store      — Store items with embeddings
 POST /storage/memory/search     — Semantic similarity search
 POST /storage/memory/delete     — Delete items by id
 GET  /storage/memory/list       — List stored items
-POST /storage/memory/clear      — Delete all items
+POST /storage/memory/clear      — Delete all items in a collection
+GET  /storage/memory/collections — List collections (model, item count)
+POST /storage/memory/consolidate — Summarize old, low-importance memories
 
 POST /storage/memory/store
 {
@@ -584,7 +713,50 @@ POST /storage/memory/search
 { "query": "What is the capital of France?", "topK": 5 }
 Response: { "ok": true, "results": [{ "id": "doc-1", "text": "...", "score": 0.92 }], ... }
 \`\`\`
-Uses Cloudflare AI (BAAI/bge-base-en-v1.5) for embeddings. Cosine similarity search.
+Uses Cloudflare AI (BAAI/bge-base-en-v1.5 by default) for embeddings. Cosine similarity search.
+Every endpoint takes an optional "collection" (default "default"); a collection's first store
+can declare "model": bge-small | bge-base | bge-large | bge-m3 (multilingual) | custom.
+Pass precomputed vectors as items[].embedding (store) or "vector" (search) to skip server-side embedding.
+Also supports "mode": "keyword" | "hybrid" (full-text + vector) and metadata "filter".
+
+### Usage & Quotas
+
+\`\`\`
+GET /storage/usage              — Rows and bytes per subsystem, with quotas
+
+Response: { "ok": true, "subsystems": { "kv": { "rows": 42, "bytes": 18230,
+            "quota": { "rows": 100000, "bytes": 52428800 } }, ... },
+            "total": { "rows": 307, "bytes": 95310 }, "databaseBytes": 270336 }
+\`\`\`
+Writes that would take a subsystem (kv, paste, queue, memory, db) past its row
+or byte quota are rolled back: 413 when the write alone exceeds the quota, 507
+when the payer's existing data leaves no room. Delete data to free space.
+
+### Export & Import
+
+\`\`\`
+GET  /storage/export            — NDJSON archive of all storage (?sections=kv,paste,...)
+POST /storage/import            — Restore an archive (?mode=merge|replace, body = archive)
+
+Response (import): { "ok": true, "mode": "merge", "sections": ["kv", "paste"],
+                     "counts": { "kv": 42, "paste": 3, "paste_revision": 5 }, "pasteIndexConflicts": [] }
+\`\`\`
+Archives cover KV, pastes with revisions, queued jobs, lock fencing counters,
+memories with embeddings and /storage/db tables. Imports are all-or-nothing;
+use them for backups or to move storage to another address or network.
+
+### Access Grants
+
+\`\`\`
+POST   /storage/grants          — Register a signed grant { grant, signature }
+GET    /storage/grants          — Grants you issued (?includeRevoked=true)
+DELETE /storage/grants/:nonce   — Revoke a grant
+
+Grant: { "grantor": "SP...", "grantee": "SP...", "scope": "read" | "read-write",
+         "subsystems": ["kv", "queue"], "prefix": "shared/", "expiresAt": null, "nonce": 1 }
+\`\`\`
+The grantee then sends \`X-Storage-Owner: <grantor>\` on storage requests to
+use the grantor's storage; requests no grant allows get 403.
 
 Topic doc: https://x402.aibtc.com/topics/storage
 
@@ -598,6 +770,7 @@ Scanning does not block writes or affect response time — it runs after the res
 | Endpoint               | Scanned |
 |------------------------|---------|
 | POST /storage/paste    | Yes (content field) |
+| PUT /storage/paste/:id | Yes (content field) |
 | POST /storage/kv       | Yes (value field) |
 | POST /storage/memory/store | Yes (item text fields) |
 | GET, DELETE operations | No |
@@ -610,6 +783,7 @@ Scanning does not block writes or affect response time — it runs after the res
 - **Flag-first:** content is stored regardless of scan verdict
 - **Non-blocking:** writes never fail due to safety scan results
 - **Isolated:** verdicts stored in the agent's own Durable Object (\`content_scans\` table)
+- **Scoped to content:** a verdict is removed when its content is deleted or expires
 
 ### Flag Categories
 
@@ -658,9 +832,14 @@ All endpoints return structured errors:
 | Status | Meaning                                          |
 |--------|--------------------------------------------------|
 | 400    | Bad request (missing required fields, etc.)      |
+| 401    | Invalid usage challenge or credit session        |
 | 402    | Payment required (x402 challenge response)       |
+| 403    | X-Storage-Owner not allowed by a grant           |
 | 404    | Not found (key, paste, job, lock does not exist) |
+| 411    | Content-Length needed to price a metered write   |
+| 413    | Too large for a storage quota (or 32 MB import)  |
 | 500    | Server error (upstream API, Durable Object, etc) |
+| 507    | Storage quota exceeded (see GET /storage/usage)  |
 
 ### Payment Error Hints
 
@@ -808,8 +987,15 @@ curl -X POST https://x402.aibtc.com/inference/openrouter/chat \\
 ## PnL Tracking
 
 After each OpenRouter completion, the actual token usage from OpenRouter is
-compared to the pre-estimated amount. Differences are logged for margin analysis.
-The 20% margin covers estimation variance and provides sustainability.
+compared to the pre-estimated amount and the difference is reconciled per payment:
+
+- Overcharge: credited to the payer's prepaid balance in the payment token,
+  spendable through a session from \`POST /credits/session\` or \`POST /credits/topup\`
+- Undercharge: absorbed by the house up to $0.05 per payer and token in any 24
+  hours; beyond the cap it is recorded as unrecovered, never debited from credit
+
+Signed \`GET /usage/me/reconciliation\` lists totals per token and recent
+reconciliations. The 20% margin covers estimation variance and provides sustainability.
 
 ## Token Type Selection
 
@@ -951,7 +1137,8 @@ OpenAPI spec: https://x402.aibtc.com/openapi.json
 
 ## Overview
 
-Six storage systems, all backed by Cloudflare Durable Objects with SQLite.
+Six storage systems, all backed by Cloudflare Durable Objects with SQLite,
+with per-payer quotas reported by GET /storage/usage.
 All storage is **scoped to the paying agent's Stacks address** — each payer
 gets completely isolated storage.
 
@@ -972,6 +1159,9 @@ POST   /storage/kv              — Set value
 GET    /storage/kv/:key         — Get value
 DELETE /storage/kv/:key         — Delete value
 GET    /storage/kv              — List all keys
+POST   /storage/kv/incr         — Atomically add to an integer counter
+POST   /storage/kv/batch        — Up to 100 gets/sets/deletes in one payment
+POST   /storage/kv/watch        — Wait for set/delete events (long-poll)
 \`\`\`
 
 **Set:**
@@ -984,23 +1174,90 @@ Response: { "ok": true, "key": "config", "created": true, "tokenType": "STX" }
 **Get:**
 \`\`\`json
 GET /storage/kv/config
-Response: { "ok": true, "key": "config", "value": "production", "metadata": {...}, "tokenType": "STX" }
+Response: { "ok": true, "key": "config", "value": "production", "metadata": {...}, "version": 3, "tokenType": "STX" }
+\`\`\`
+
+**Compare-and-swap:** every write bumps the key's version. Pass "ifMatch" (a
+version, or "*" for any existing key) or "ifNoneMatch" ("*" = only if the key
+does not exist) on set, or as query parameters on delete. A failed condition
+returns 412 with the key's currentVersion (null when missing) and writes nothing.
+\`\`\`json
+POST /storage/kv
+{ "key": "leader", "value": "agent-a", "ifNoneMatch": "*", "ttl": 30 }
+POST /storage/kv
+{ "key": "leader", "value": "agent-a", "ifMatch": 1, "ttl": 30 }
+DELETE /storage/kv/leader?ifMatch=2
+\`\`\`
+
+**Counters:**
+\`\`\`json
+POST /storage/kv/incr
+{ "key": "page-views", "delta": 1, "ttl": 86400 }
+Response: { "ok": true, "key": "page-views", "value": 42, "created": false, "version": 42, "tokenType": "STX" }
 \`\`\`
+Missing keys start at 0; a negative delta decrements. ttl resets the expiry,
+otherwise the existing expiry is kept. Non-integer values return 409.
 
 **List:**
 \`\`\`json
-GET /storage/kv
-Response: { "ok": true, "keys": [{ "key": "config", "metadata": {...} }], "tokenType": "STX" }
+GET /storage/kv?prefix=user:&limit=100&includeValues=true
+Response: { "ok": true, "keys": [{ "key": "user:1", "value": "...", "metadata": {...}, "version": 2 }], "count": 100, "nextCursor": "eyJrIjoi..." }
 \`\`\`
+Keys come back in key order. Pass nextCursor as ?cursor= to fetch the next
+page (same prefix); it is null on the last page. Cursors are opaque.
+
+**Batch:**
+\`\`\`json
+POST /storage/kv/batch
+{
+  "operations": [
+    { "op": "set", "key": "a", "value": "1", "ttl": 3600 },
+    { "op": "get", "key": "b" },
+    { "op": "delete", "key": "c", "ifMatch": 4 }
+  ]
+}
+Response: { "ok": true, "results": [
+  { "op": "set", "key": "a", "created": true, "version": 1 },
+  { "op": "get", "key": "b", "found": false },
+  { "op": "delete", "key": "c", "deleted": true }
+] }
+\`\`\`
+Operations run in order in one transaction, for one payment. If a precondition
+fails, nothing is written: 412 with failedIndex and currentVersion.
+
+**Watch (change feed):**
+\`\`\`json
+POST /storage/kv/watch
+{ "prefix": "jobs/", "since": 120, "timeout": 25 }
+Response: { "ok": true, "events": [
+  { "seq": 121, "key": "jobs/7", "op": "set", "value": "done", "version": 2, "at": "..." }
+], "seq": 121, "truncated": false }
+\`\`\`
+Returns as soon as a matching event exists, or with an empty list after
+timeout seconds (max 60), so one payment covers the whole wait. Pass the
+returned seq as since on the next call to continue without gaps; omit since to
+start from now. Watch one key, a prefix, or (neither) every key. Every write
+path emits events, including incr, batch and expired keys (as deletes). A set
+event carries the value while it is still the key's latest write; sets already
+replaced by a later write have value null (a later event follows). The feed
+keeps the last ~10,000 events; truncated: true means events after since were
+dropped, so re-read current state.
 
 ## Paste Bin (/storage/paste)
 
 Store and retrieve text pastes with optional syntax highlighting metadata.
 
 \`\`\`
-POST   /storage/paste           — Create paste → returns UUID
-GET    /storage/paste/:id       — Get paste by UUID
-DELETE /storage/paste/:id       — Delete paste
+POST   /storage/paste                 — Create paste → returns UUID
+GET    /storage/paste/:id             — Get paste by UUID (?version=N for history)
+PUT    /storage/paste/:id             — Update paste under the same ID
+GET    /storage/paste/:id/revisions   — List versions, newest first
+GET    /storage/paste/:id/diff        — Line diff between two versions
+GET    /storage/paste/:id/raw         — Raw content with a language-based Content-Type
+DELETE /storage/paste/:id             — Delete paste
+GET    /paste                         — List public pastes (free, ?limit&cursor)
+GET    /paste/:id                     — Read an unlisted/public paste (free)
+GET    /paste/:id/raw                 — Raw unlisted/public content (free)
 \`\`\`
 
 **Create:**
@@ -1010,14 +1267,54 @@ POST /storage/paste
 Response: { "ok": true, "id": "550e8400-e29b...", "createdAt": "...", "expiresAt": "...", "tokenType": "STX" }
 \`\`\`
 
+**Update (versioned):**
+\`\`\`json
+PUT /storage/paste/550e8400-e29b...
+{ "content": "const x = 43;", "ifMatch": 1 }
+Response: { "ok": true, "id": "550e8400-e29b...", "version": 2, "updatedAt": "...", "expiresAt": "..." }
+\`\`\`
+Each update bumps \`version\`; earlier versions stay readable (the last 100 are kept).
+Omitted title/language keep their values; ttl resets the expiry. With \`ifMatch\`, a
+paste that has moved past that version is left alone and 412 returns currentVersion.
+
+**Diff:**
+\`\`\`json
+GET /storage/paste/550e8400-e29b.../diff?from=1&to=2
+Response: { "ok": true, "from": 1, "to": 2, "added": 1, "removed": 1,
+            "diff": "--- id@1\\n+++ id@2\\n@@ -1,1 +1,1 @@\\n-const x = 42;\\n+const x = 43;\\n" }
+\`\`\`
+
+**Raw:** \`GET /storage/paste/:id/raw\` returns just the content, typed by language
+(json → application/json, markdown → text/markdown, html → text/html, otherwise
+text/plain). Responses carry \`Content-Security-Policy: sandbox\` so pasted HTML never runs.
+
+**Sharing:** pastes are private to the paying address by default. Create with
+\`"visibility": "unlisted"\` to let anyone holding the ID read it for free at
+\`GET /paste/:id\` (unlisted IDs are 22 random characters), or \`"public"\` to also
+list it at \`GET /paste\`. Only the owner can update or delete it, through the paid
+/storage/paste routes.
+\`\`\`json
+POST /storage/paste
+{ "content": "one-time secret", "visibility": "unlisted", "burnAfterRead": true }
+Response: { "ok": true, "id": "Xy3kQ9mV2aLpR7tN0bWc4e", "visibility": "unlisted",
+            "url": "https://x402.aibtc.com/paste/Xy3kQ9mV2aLpR7tN0bWc4e", ... }
+
+GET /paste/Xy3kQ9mV2aLpR7tN0bWc4e
+Response: { "ok": true, "content": "one-time secret", "readsRemaining": 0, "burned": true, ... }
+\`\`\`
+\`maxReads\` (1-1000) deletes the paste after that many shared reads;
+\`burnAfterRead\` is the same as \`maxReads: 1\`. Reads by the owner through
+/storage/paste do not count.
+
 ## SQL Database (/storage/db)
 
 Per-agent SQLite database accessible via parameterized queries.
 
 \`\`\`
-POST /storage/db/query          — SELECT (read-only)
+POST /storage/db/query          — SELECT, WITH ... SELECT, VALUES, EXPLAIN (read-only)
 POST /storage/db/execute        — INSERT/UPDATE/DELETE/CREATE TABLE
-GET  /storage/db/schema         — List tables and columns
+POST /storage/db/batch          — Up to 100 statements in one transaction
+GET  /storage/db/schema         — List your tables and columns
 \`\`\`
 
 **Query:**
@@ -1034,8 +1331,41 @@ POST /storage/db/execute
 Response: { "ok": true, "rowsAffected": 0, "lastInsertRowid": 0, "tokenType": "STX" }
 \`\`\`
 
+**Batch (atomic):**
+\`\`\`json
+POST /storage/db/batch
+{
+  "statements": [
+    { "query": "CREATE TABLE IF NOT EXISTS tasks (id INTEGER PRIMARY KEY, name TEXT, done BOOLEAN)" },
+    { "query": "INSERT INTO tasks (name, done) VALUES (?, ?)", "params": ["deploy", false] },
+    { "query": "SELECT COUNT(*) AS n FROM tasks" }
+  ]
+}
+Response: { "ok": true, "results": [{ "rowsAffected": 0 }, { "rowsAffected": 1 }, { "rowsAffected": 0, "rows": [{ "n": 1 }] }], "rowsAffected": 1 }
+\`\`\`
+Statements run in order in one transaction, for one payment. Statements that
+return columns (SELECT, RETURNING) include rows. If any statement fails,
+everything is rolled back: \`{ "ok": false, "error": "Statement 1 failed: ...", "failedIndex": 1, "rolledBack": true }\`
+(400).
+
+**Statement policy:** one statement per query/execute call (trailing ";" is
+fine). Built-in tables (kv, pastes, locks, jobs, memories, content_scans,
+change_log, ...) can be read but not written, dropped or altered, and their
+indexes and triggers are off limits. Transaction control, ATTACH/DETACH and PRAGMA
+assignments are rejected. Errors give the character position, e.g.
+\`Cannot modify system table: kv (at position 12)\`.
+
 Lifecycle: CREATE TABLE → INSERT → SELECT → UPDATE → DELETE
 
+**Expiry log:** expired KV keys, pastes, memories and lock holds, and job
+leases that timed out, are swept in the background (reads hide them until
+then). Each is recorded in \`change_log\` (seq, subsystem, namespace, name,
+event: expired | lease_expired | dead_lettered, at); the latest 10000 events are kept:
+\`\`\`
+POST /storage/db/query
+{ "query": "SELECT * FROM change_log WHERE seq > ? ORDER BY seq", "params": [0] }
+\`\`\`
+
 ## Sync / Distributed Locks (/storage/sync)
 
 Named distributed locks for coordinating concurrent agent processes.
@@ -1052,9 +1382,28 @@ GET  /storage/sync/list         — List all active locks
 \`\`\`json
 POST /storage/sync/lock
 { "name": "deploy-job", "ttl": 120 }
-Response: { "ok": true, "acquired": true, "token": "lock-token-uuid", "expiresAt": "..." }
+Response: { "ok": true, "acquired": true, "token": "lock-token-uuid", "expiresAt": "...",
+            "fence": 7, "mode": "exclusive", "depth": 1 }
 \`\`\`
-If lock is held: \`{ "ok": true, "acquired": false, "holder": "...", "expiresAt": "..." }\`
+If lock is held: \`{ "ok": true, "acquired": false, "token": null, "heldUntil": "..." }\`
+
+**Waiting:** pass \`"wait": 30\` (seconds, max 60) to queue for the lock instead of
+retrying. Waiters are granted strictly in arrival order, including when a holder's TTL
+runs out; if the wait ends first the response is \`acquired: false\`.
+
+**Modes:**
+- \`exclusive\` (default): one holder.
+- \`shared\`: any number of shared holders, no exclusive holder (read/write locks).
+- \`semaphore\`: holders share \`limit\` permits; each takes \`permits\` (default 1).
+  \`{ "name": "api-slots", "mode": "semaphore", "limit": 5 }\`
+
+**Fencing tokens:** \`fence\` increases with every new hold of a name. Send it with
+writes to downstream systems and have them reject any fence lower than the highest
+seen, so a holder whose lock expired mid-operation cannot overwrite newer work.
+
+**Re-entry:** pass \`"token"\` of a hold you own (same mode) to re-acquire it: depth
+goes up, the TTL is refreshed and the fence stays the same. Each unlock releases one
+level; the lock is freed when unlock returns \`depth: 0\`.
 
 **Unlock:**
 \`\`\`json
@@ -1071,36 +1420,112 @@ Persistent FIFO job queue with priority support.
 
 \`\`\`
 POST /storage/queue/push        — Enqueue (returns position)
-POST /storage/queue/pop         — Dequeue and remove (atomic)
+POST /storage/queue/pop         — Lease jobs (hidden until acked, nacked, or timed out)
+POST /storage/queue/ack         — Delete leased jobs once processed
+POST /storage/queue/nack        — Return leased jobs for retry
+POST /storage/queue/extend      — Extend lease on jobs still in progress
+GET  /storage/queue/dead        — List dead-lettered jobs
+POST /storage/queue/redrive     — Retry dead-lettered jobs
 GET  /storage/queue/peek        — View next without removing
-GET  /storage/queue/status      — Queue statistics
+GET  /storage/queue/status      — Job counts (pending, processing, dead, delayed)
 POST /storage/queue/clear       — Remove all jobs
 \`\`\`
 
 **Push:**
 \`\`\`json
 POST /storage/queue/push
-{ "data": { "type": "email", "to": "agent@example.com" }, "priority": 5 }
-Response: { "ok": true, "id": "job-uuid", "position": 3, "tokenType": "STX" }
+{ "name": "emails", "items": [{ "type": "email", "to": "agent@example.com" }], "priority": 5 }
+Response: { "ok": true, "pushed": 1, "queue": "emails", "ids": ["job_..."], "duplicates": 0, "tokenType": "STX" }
 \`\`\`
 
+**Scheduled push:** use \`jobs\` for per-job options.
+\`\`\`json
+POST /storage/queue/push
+{
+  "name": "tx-checks",
+  "jobs": [
+    { "data": { "txid": "0xabc" }, "delaySeconds": 600, "maxAttempts": 5, "dedupKey": "check-0xabc" },
+    { "data": { "report": "daily" }, "runAt": "2025-01-02T00:00:00Z" }
+  ]
+}
+\`\`\`
+Delayed jobs stay pending (counted as \`delayed\` in status) until they become available.
+A job whose \`dedupKey\` matches a pending or in-flight job is skipped and reports the existing id.
+
 **Pop:**
 \`\`\`json
 POST /storage/queue/pop
-Response: { "ok": true, "job": { "id": "...", "data": {...}, "priority": 5 }, "remaining": 2, "tokenType": "STX" }
+{ "name": "emails", "count": 1, "visibilityTimeout": 60 }
+Response: { "ok": true, "items": [{ "id": "job_...", "data": {...}, "attempt": 1, "maxAttempts": 3, "leaseExpiresAt": "..." }], "count": 1, "tokenType": "STX" }
 \`\`\`
 
-## Vector Memory (/storage/memory)
+**Ack / Nack:**
+\`\`\`json
+POST /storage/queue/ack
+{ "name": "emails", "ids": ["job_..."] }
+Response: { "ok": true, "queue": "emails", "acked": 1, "ids": ["job_..."], "tokenType": "STX" }
 
-Semantic memory with vector embeddings for similarity search.
-Embeddings generated by Cloudflare AI: BAAI/bge-base-en-v1.5 (768-dim).
+POST /storage/queue/nack
+{ "name": "emails", "ids": ["job_..."], "error": "SMTP timeout", "delaySeconds": 30 }
+Response: { "ok": true, "queue": "emails", "requeued": ["job_..."], "deadLettered": [], "tokenType": "STX" }
+\`\`\`
+
+Popped jobs are leased, not removed. Ack deletes them; if a lease expires before
+ack, the job returns to pending. Jobs that fail \`maxAttempts\` times (default 3) move to the \`dead\` state,
+reported separately by /storage/queue/status.
 
+**Dead letters:**
+\`\`\`json
+GET /storage/queue/dead?name=emails
+Response: { "ok": true, "items": [{ "id": "job_...", "attempt": 3, "maxAttempts": 3, "error": "SMTP timeout", "history": [{ "event": "failed", "attempt": 1, "error": "SMTP timeout", "at": "..." }, ...], "failedAt": "..." }], "total": 1 }
+
+POST /storage/queue/redrive
+{ "name": "emails", "all": true, "targetQueue": "emails-retry" }
+Response: { "ok": true, "queue": "emails", "targetQueue": "emails-retry", "redriven": 1, "ids": ["job_..."] }
 \`\`\`
-POST /storage/memory/store      — Store items with auto-generated embeddings
-POST /storage/memory/search     — Semantic similarity search (cosine)
-POST /storage/memory/delete     — Delete items by ID
-GET  /storage/memory/list       — List stored items (no embeddings)
-POST /storage/memory/clear      — Delete all items
+Redriven jobs restart with a fresh attempt budget. \`history\` keeps every failed attempt
+(from nack or an expired lease) and a \`redriven\` entry for each redrive.
+
+## Vector Memory (/storage/memory)
+
+Semantic memory with vector embeddings for similarity search.
+Embeddings generated by Cloudflare AI: BAAI/bge-base-en-v1.5 (768-dim) by default.
+
+\`\`\`
+POST /storage/memory/store       — Store items with auto-generated embeddings
+POST /storage/memory/search      — Semantic similarity search (cosine)
+POST /storage/memory/delete      — Delete items by ID
+GET  /storage/memory/list        — List stored items (no embeddings)
+POST /storage/memory/clear       — Delete all items in a collection
+GET  /storage/memory/collections — List collections with model and item count
+POST /storage/memory/consolidate — Summarize clusters of old, low-importance memories
+\`\`\`
+
+**Collections:** Items live in named collections ("collection" in the body, or
+?collection= for list; default "default"). Search, list, delete and clear only
+touch one collection, and the same id can exist in several. Each collection has
+one embedding model, declared by the first store into it:
+
+| model     | Workers AI model           | Dims | Notes        |
+|-----------|----------------------------|------|--------------|
+| bge-small | @cf/baai/bge-small-en-v1.5 | 384  | English      |
+| bge-base  | @cf/baai/bge-base-en-v1.5  | 768  | Default      |
+| bge-large | @cf/baai/bge-large-en-v1.5 | 1024 | English      |
+| bge-m3    | @cf/baai/bge-m3            | 1024 | Multilingual |
+
+Storing with a different model than the collection's returns 409. Clearing a
+collection also forgets its model.
+
+**Bring your own embeddings:** items may include a precomputed "embedding"
+array, and search accepts a "vector" instead of embedding "query" server-side.
+Vectors must match the collection's dimensions (e.g. 768 for bge-base). A
+collection declared with "model": "custom" (optionally "dimensions") holds only
+caller-supplied vectors; its size defaults to the first embedding stored.
+\`\`\`json
+POST /storage/memory/store
+{ "collection": "notes", "model": "custom", "items": [{ "id": "n1", "text": "...", "embedding": [0.12, -0.03, ...] }] }
+POST /storage/memory/search
+{ "collection": "notes", "vector": [0.11, -0.02, ...], "limit": 5 }
 \`\`\`
 
 **Store:**
@@ -1128,7 +1553,156 @@ Response: {
 }
 \`\`\`
 
-Score is cosine similarity (0-1, higher = more similar).
+In the default vector mode, score is cosine similarity (0-1, higher = more similar).
+
+**Filters and hybrid search:**
+\`\`\`json
+POST /storage/memory/search
+{
+  "query": "token swap",
+  "mode": "hybrid",
+  "keywords": "swap",
+  "filter": {
+    "metadata.wallet": "SP2...",
+    "createdAt": { "$gte": "2026-01-01T00:00:00Z" }
+  }
+}
+\`\`\`
+- mode: vector (default), keyword (FTS5 full-text, no embedding), hybrid (both)
+- keywords: full-text terms (default: query); keywordMatch: any (default) or all
+- fusion: rrf (reciprocal rank fusion, default) or weighted (with vectorWeight 0-1)
+- filter keys: metadata.<path>, id, type, importance, source, createdAt,
+  updatedAt, expiresAt; all must match
+- filter operators: plain value (equals), $eq, $in, $gt, $gte, $lt, $lte, $exists
+- weights: { importance, recency, halfLifeHours } blend importance and recency
+  into the score (shares 0-1, default 0; recency halves every halfLifeHours,
+  default 168)
+- Results include similarity (null in keyword mode) and score (the ranking score)
+
+**Item fields:** each stored item may set type (default "embedding"),
+importance (1-10, default 5), summary, source and ttl (seconds). Expired items
+disappear from search and list. Search and list return these fields along with
+createdAt and expiresAt.
+
+**Consolidation:**
+\`\`\`json
+POST /storage/memory/consolidate
+{ "olderThanDays": 30, "maxImportance": 3, "similarity": 0.8, "minGroupSize": 3, "dryRun": true }
+Response: { "ok": true, "scanned": 120, "groups": [{ "ids": ["n1", "n7", "n9"], "texts": ["..."] }] }
+\`\`\`
+Groups similar memories older than olderThanDays with importance at most
+maxImportance, and replaces each group (up to maxGroups, default 5) with one
+summary written by Llama 3.1 8B. The new item has type "consolidated", the
+group's highest importance, and metadata.consolidatedFrom listing the replaced
+ids. Without dryRun the response lists consolidated and skipped groups.
+
+Collections above ~1,000 items are searched through an approximate
+nearest-neighbour index (IVF clusters, rebuilt in the background as the
+collection grows), so latency stays bounded. Recall is approximate.
+
+## Usage & Quotas (/storage/usage)
+
+Each payer's storage is capped per subsystem, in rows and in bytes:
+
+| Subsystem | Counts                              | Rows      | Bytes  |
+|-----------|-------------------------------------|-----------|--------|
+| kv        | keys (key + value + metadata)       | 100,000   | 50 MB  |
+| paste     | pastes and their saved revisions    | 20,000    | 50 MB  |
+| queue     | jobs in any state, until cleared    | 100,000   | 50 MB  |
+| memory    | items (text, metadata, embeddings)  | 50,000    | 250 MB |
+| db        | rows in your /storage/db tables     | 1,000,000 | 100 MB |
+
+Bytes are the stored size of keys and values, not SQLite page overhead
+(\`databaseBytes\` reports the whole file, indexes included).
+
+\`\`\`json
+GET /storage/usage
+Response: { "ok": true,
+            "subsystems": { "kv": { "rows": 42, "bytes": 18230, "quota": { "rows": 100000, "bytes": 52428800 } }, ... },
+            "total": { "rows": 307, "bytes": 95310 }, "databaseBytes": 270336, "tokenType": "STX" }
+\`\`\`
+
+A write that would take a subsystem past a quota is rolled back entirely
+(batches included) and returns:
+\`\`\`json
+{ "ok": false, "error": "Storage quota exceeded: kv bytes would reach 52430000 of 52428800",
+  "quota": { "subsystem": "kv", "limit": "bytes", "used": 52420000, "requested": 10000, "quota": 52428800 } }
+\`\`\`
+Status 413 means the write alone is larger than the quota; 507 means existing
+data leaves no room. Deletes always succeed, so free space and retry.
+
+## Export & Import (/storage/export, /storage/import)
+
+\`GET /storage/export\` streams everything the payer has stored as NDJSON: a
+header line, one JSON record per line, and an end line with per-type counts.
+\`?sections=\` limits it to some of: kv, paste, queue, lock, memory, db.
+
+\`\`\`
+{"type":"header","format":"x402-storage-archive","version":1,"exportedAt":"...","owner":"SP...","sections":["kv","paste"]}
+{"type":"kv","key":"config","value":"...","metadata":null,"version":3,"expiresAt":null,"createdAt":"...","updatedAt":"..."}
+{"type":"paste","id":"aB3dE5fG","content":"...","version":2,"visibility":"private",...}
+{"type":"paste_revision","pasteId":"aB3dE5fG","version":1,"content":"...",...}
+{"type":"end","counts":{"kv":1,"paste":1,"paste_revision":1}}
+\`\`\`
+
+Other record types: \`job\`, \`lock\` (fencing counter only; held locks are
+not exported), \`memory_collection\`, \`memory\` (embedding as base64 Float32),
+\`db_object\` (CREATE statement of a table, index, trigger or view) and
+\`db_row\` (BLOB values as \`{ "$base64": "..." }\`). The export is read
+page by page while streaming, so it is not a point-in-time snapshot of a
+store that is being written to.
+
+\`POST /storage/import?mode=merge|replace\` takes an archive as the request
+body (up to 32 MB; split larger stores with \`?sections=\`) and applies it in
+one transaction. A malformed or truncated archive, a rejected record (400,
+with the failing \`line\`) or a broken quota (413/507) changes nothing.
+
+- **merge** (default): records are upserted, the archive winning on conflicts.
+  KV versions still move forward, existing /storage/db objects are kept and
+  rows with the same primary key are replaced. A memory collection declared
+  with a different model is an error.
+- **replace**: the sections listed in the archive header are cleared first.
+
+In both modes held locks are untouched and fencing counters only increase;
+in-flight queue jobs come back as pending. Unlisted and public pastes are
+re-registered for /paste/:id under the importing payer; IDs still shared by
+their previous owner are listed in \`pasteIndexConflicts\`. Imported content
+is not re-scanned.
+
+## Access Grants (/storage/grants)
+
+Storage belongs to the paying address. To share it, the owner (grantor)
+signs a SIP-018 structured data message granting another address (grantee)
+access, and anyone registers it with \`POST /storage/grants\`:
+
+\`\`\`
+domain:  { name: "x402-storage", version: "1", chain-id: u1 (mainnet) | u2147483648 (testnet) }
+message: { action: "grant-storage-access", grantor: principal, grantee: principal,
+           scope: "read" | "read-write", subsystems: (list string-ascii),
+           prefix: string-utf8, expires-at: (optional uint), nonce: uint }
+
+POST /storage/grants
+{ "grant": { "grantor": "SP...", "grantee": "SP...", "scope": "read-write",
+             "subsystems": ["kv", "queue"], "prefix": "shared/", "expiresAt": null, "nonce": 1 },
+  "signature": "<RSV hex>" }
+\`\`\`
+
+The grantee pays for its own requests and adds \`X-Storage-Owner: <grantor>\`
+to act on the grantor's storage. Subsystems are kv, paste, db, sync, queue
+and memory; \`read\` scope allows only reads (including /storage/kv/watch and
+memory searches). A non-empty \`prefix\` limits KV keys, lock names, queue
+names and memory collection names, every one of which must start with it;
+requests that name none (listing all collections or locks, paste and db
+access) need a grant without a prefix. \`expiresAt\` is in unix seconds.
+Through a db grant, SQL may only use the grantor's own tables: statements
+that name a table of another subsystem (kv, pastes, memories, jobs, ...) or
+of the grant system are rejected with 400.
+
+Requests no live grant allows are rejected with 403. Usage, export, import
+and grant management only act on the payer's own storage. \`DELETE
+/storage/grants/:nonce\` revokes a grant immediately; its nonce stays used,
+so the same signed grant cannot be registered again. Shared pastes created
+by a grantee are indexed under the grantor.
 
 ## Safety Scanning
 
@@ -1140,6 +1714,7 @@ Cloudflare Workers AI (Llama 3.1 8B). Scanning is non-blocking and flag-first.
 | Operation                  | Scanned | Field          |
 |----------------------------|---------|----------------|
 | POST /storage/paste        | Yes     | content        |
+| PUT /storage/paste/:id     | Yes     | content        |
 | POST /storage/kv           | Yes     | value          |
 | POST /storage/memory/store | Yes     | items[].text   |
 | All GET / DELETE ops       | No      | —              |
@@ -1151,6 +1726,7 @@ Cloudflare Workers AI (Llama 3.1 8B). Scanning is non-blocking and flag-first.
 - Scan runs **after** the write response is sent (fire-and-forget via \`waitUntil()\`)
 - Write operations **always succeed** regardless of scan verdict
 - Verdicts are stored in the agent's Durable Object (\`content_scans\` table)
+  and removed with their content (deleted or expired)
 - Not a billable service — no extra payment or separate endpoint
 
 ### Flags
@@ -1170,7 +1746,8 @@ will not trigger spurious flags.
 2. Retrieve memory:  POST /storage/memory/search (semantic query + topK)
 3. Check inventory:  GET  /storage/memory/list
 4. Remove outdated:  POST /storage/memory/delete (ids array)
-5. Full reset:       POST /storage/memory/clear
+5. Compact old:      POST /storage/memory/consolidate (dryRun first)
+6. Full reset:       POST /storage/memory/clear (one collection)
 \`\`\`
 
 ## Related
@@ -1239,6 +1816,13 @@ The \`payment-required\` header is a base64-encoded JSON object:
         "pricing": {
           "type": "fixed",
           "tier": "standard"
+        },
+        "rate": {
+          "token": "STX",
+          "usd": 0.62,
+          "source": "coingecko",
+          "observedAt": 1767225600000,
+          "stale": false
         }
       }
     }
@@ -1253,6 +1837,7 @@ Fields:
 - \`accepts[0].asset\`: \`STX\` for the native token, or contract principal for sBTC/USDCx
 - \`accepts[0].network\`: "stacks:1" (mainnet), "stacks:2147483648" (testnet)
 - \`accepts[0].extra.pricing\`: Pricing metadata (fixed or dynamic)
+- \`accepts[0].extra.rate\`: USD rate of the payment token the amount was converted at
 
 ## Step 3: Build Payment Payload
 
@@ -1405,6 +1990,24 @@ if (!response.ok) {
 }
 \`\`\`
 
+## Prepaid Credits (Skip Per-Call Settlement)
+
+Every paid call above settles on-chain through the relay. For many small calls,
+prepay once with \`POST /credits/topup\` (body \`{ "amount": "<base units>" }\`,
+paid through the flow above) and keep the returned \`sessionToken\`. Then:
+
+\`\`\`
+POST /hashing/sha256
+Authorization: Bearer x402cs_SP...<hex>
+X-PAYMENT-TOKEN-TYPE: STX
+
+→ 200, X-Credit-Balance: 99000
+\`\`\`
+No payment-signature is needed; the price is debited from the balance in the
+requested token. Errors: 401 \`INVALID_CREDIT_SESSION\` (expired or revoked
+session; open a new one with \`POST /credits/session\` or top up again), or the normal 402 challenge with an
+\`error\` when the balance is too low. Check balances with \`GET /credits/balance\`.
+
 ## Token Types
 
 ### STX (default)
@@ -1553,7 +2156,7 @@ function buildAgentCard(requestUrl: string) {
     tiers: {
       free: {
         amount: "0",
-        description: "Model listings, health, docs",
+        description: "Model listings, shared pastes, health, docs",
         endpoints: [
           "GET /inference/openrouter/models",
           "GET /inference/cloudflare/models",
@@ -1568,6 +2171,9 @@ function buildAgentCard(requestUrl: string) {
           "GET /topics",
           "GET /topics/:topic",
           "GET /.well-known/agent.json",
+          "GET /paste",
+          "GET /paste/:id",
+          "GET /paste/:id/raw",
         ],
       },
       standard: {
@@ -1664,7 +2270,8 @@ function buildAgentCard(requestUrl: string) {
       description:
         "Isolated key-value storage scoped to paying agent's Stacks address. " +
         "CRUD operations: GET/POST/DELETE /storage/kv. " +
-        "Optional metadata and TTL. Standard pricing (0.001 STX).",
+        "Optional metadata and TTL, compare-and-swap (ifMatch/ifNoneMatch), " +
+        "atomic counters via POST /storage/kv/incr. Standard pricing (0.001 STX).",
       tags: ["storage", "kv", "key-value", "cache", "durable-object"],
       examples: [
         "Store agent configuration",
@@ -1679,9 +2286,11 @@ function buildAgentCard(requestUrl: string) {
       name: "Agent Paste Bin",
       description:
         "Store and retrieve text pastes with optional syntax metadata and TTL. " +
-        "POST /storage/paste → returns UUID for retrieval. Standard pricing (0.001 STX).",
+        "POST /storage/paste → returns UUID for retrieval. PUT keeps a revision history " +
+        "with diffs between versions; /raw serves the content directly. Unlisted/public pastes " +
+        "(optionally burn-after-read) are readable by anyone for free at /paste/:id. Standard pricing (0.001 STX).",
       tags: ["storage", "paste", "text", "share"],
-      examples: ["Store a code snippet", "Share text between agent sessions"],
+      examples: ["Store a code snippet", "Share text between agent sessions", "Publish an evolving report"],
       inputModes: ["application/json"],
       outputModes: ["application/json"],
     },
@@ -1691,6 +2300,7 @@ function buildAgentCard(requestUrl: string) {
       description:
         "Per-agent isolated SQLite database. " +
         "POST /storage/db/query (SELECT), POST /storage/db/execute (mutating), " +
+        "POST /storage/db/batch (atomic multi-statement), " +
         "GET /storage/db/schema. Parameterized queries. Standard pricing (0.001 STX).",
       tags: ["storage", "database", "sql", "sqlite", "query"],
       examples: [
@@ -1706,7 +2316,8 @@ function buildAgentCard(requestUrl: string) {
       name: "Distributed Sync Locks",
       description:
         "Named distributed locks for coordinating concurrent agent processes. " +
-        "POST /storage/sync/lock → returns token. Unlock with token. " +
+        "POST /storage/sync/lock → returns token and fencing number. Unlock with token. " +
+        "Exclusive, shared and semaphore modes; optional FIFO wait up to 60s. " +
         "TTL: 10-300 seconds. Standard pricing (0.001 STX).",
       tags: ["storage", "sync", "lock", "mutex", "coordination"],
       examples: [
@@ -1733,6 +2344,70 @@ function buildAgentCard(requestUrl: string) {
       inputModes: ["application/json"],
       outputModes: ["application/json"],
     },
+    {
+      id: "storage-archive",
+      name: "Storage Export & Import",
+      description:
+        "Back up or move an agent's storage. GET /storage/export streams an NDJSON archive " +
+        "of KV, pastes, queues, lock fences, memories and database tables; " +
+        "POST /storage/import restores it atomically (mode=merge or replace). Standard pricing (0.001 STX).",
+      tags: ["storage", "backup", "export", "import", "migration"],
+      examples: [
+        "Back up all agent storage to a file",
+        "Move storage from testnet to mainnet",
+        "Restore storage after data loss",
+      ],
+      inputModes: ["application/json", "application/x-ndjson"],
+      outputModes: ["application/json", "application/x-ndjson"],
+    },
+    {
+      id: "storage-grants",
+      name: "Delegated Storage Access",
+      description:
+        "Share storage between agents paying from different wallets. The owner signs a SIP-018 grant " +
+        "(read or read-write, per subsystem, optionally limited to a key prefix) and registers it with " +
+        "POST /storage/grants; the grantee sends X-Storage-Owner on storage requests. Standard pricing (0.001 STX).",
+      tags: ["storage", "grants", "delegation", "sip-018", "multi-agent"],
+      examples: [
+        "Let a worker agent read my KV keys under shared/",
+        "Give another wallet read-write access to a job queue",
+        "Revoke a teammate's access to my storage",
+      ],
+      inputModes: ["application/json"],
+      outputModes: ["application/json"],
+    },
+    {
+      id: "usage-me",
+      name: "Payer Usage Reports",
+      description:
+        "See what a wallet has spent. Sign the challenge from GET /usage/me/challenge with the payer's key " +
+        "(signed message or SIP-018), then read totals, per-endpoint, per-model, daily and recent usage " +
+        "from GET /usage/me. Free.",
+      tags: ["usage", "billing", "spend", "sip-018"],
+      examples: [
+        "How much has my agent spent this month?",
+        "Which models cost my wallet the most?",
+        "List my last 20 paid requests",
+      ],
+      inputModes: ["application/json"],
+      outputModes: ["application/json"],
+    },
+    {
+      id: "prepaid-credits",
+      name: "Prepaid Credits",
+      description:
+        "Pay once, call many times. POST /credits/topup prepays a balance with one x402 payment and returns " +
+        "a bearer session token; paid endpoints called with Authorization: Bearer <token> debit the balance " +
+        "instead of settling each call on-chain. Dynamic pricing (the amount you choose).",
+      tags: ["payments", "credits", "sessions", "prepaid"],
+      examples: [
+        "Prepay 0.1 STX for a batch of hashing calls",
+        "Check my remaining credit balance",
+        "Avoid a chain transaction per KV read",
+      ],
+      inputModes: ["application/json"],
+      outputModes: ["application/json"],
+    },
     {
       id: "vector-memory",
       name: "Vector Memory (Semantic Search)",
@@ -4,15 +4,32 @@
  * All paid endpoints extend this class to get:
  * - Token type validation
  * - Payer address extraction
+ * - Storage owner resolution (X-Storage-Owner, checked against grants)
+ * - Usage access for free /usage/me routes (signed challenge)
+ * - Credit ledger access for free /credits routes (session token)
  * - Standardized error responses
  * - Pricing tier configuration
  */
 
 import { OpenAPIRoute } from "chanfana";
+import { validateStacksAddress } from "@stacks/transactions";
 import { validateTokenType } from "../services/pricing";
 import type { AppContext, TokenType, PricingTier } from "../types";
 import type { ContentfulStatusCode } from "hono/utils/http-status";
 import type { StorageDO } from "../durable-objects/StorageDO";
+import type { StorageQuotaExceeded } from "../utils/storage-quota";
+import type { PasteIndexDO } from "../durable-objects/PasteIndexDO";
+import type { StorageAccessRequest } from "../utils/storage-grants";
+import type { UsageDO } from "../durable-objects/UsageDO";
+import { parseUsageAuth, verifyUsageAuth } from "../utils/usage-auth";
+import type { CreditLedgerDO } from "../durable-objects/CreditLedgerDO";
+import { bearerToken, parseSessionToken } from "../utils/credit-session";
+
+/** Name of the singleton PasteIndexDO instance */
+const PASTE_INDEX_NAME = "global-paste-index";
+
+/** Header naming another payer whose storage a request uses (under a grant) */
+export const STORAGE_OWNER_HEADER = "X-Storage-Owner";
 
 /**
  * Base class for all API endpoints
@@ -69,19 +86,56 @@ export class BaseEndpoint extends OpenAPIRoute {
   }
 
   /**
-   * Get the Storage DO stub for the current payer
+   * 413/507 response for a write rolled back by a storage quota
+   */
+  protected quotaExceededResponse(c: AppContext, result: StorageQuotaExceeded): Response {
+    const { subsystem, limit, used, requested, quota } = result.quotaExceeded;
+    const error = result.status === 413
+      ? `Write is larger than the ${subsystem} ${limit} quota (${requested} > ${quota})`
+      : `Storage quota exceeded: ${subsystem} ${limit} would reach ${used + requested} of ${quota}`;
+    return this.errorResponse(c, error, result.status, { quota: result.quotaExceeded });
+  }
+
+  /**
+   * Address whose storage the request uses: the X-Storage-Owner header if
+   * set, otherwise the payer. Only meaningful after requireStorageDO() has
+   * checked the caller's grants.
+   */
+  protected getStorageOwner(c: AppContext): string | null {
+    return c.req.header(STORAGE_OWNER_HEADER) || this.getPayerAddress(c);
+  }
+
+  /**
+   * Whether the request acts on another address's storage through a grant
+   * (X-Storage-Owner naming someone other than the payer)
+   */
+  protected isDelegated(c: AppContext): boolean {
+    const owner = c.req.header(STORAGE_OWNER_HEADER);
+    return !!owner && owner !== this.getPayerAddress(c);
+  }
+
+  /**
+   * Get the Storage DO stub for an address (the current payer by default)
    * Returns null if no payer address available
    */
-  protected getStorageDO(c: AppContext): DurableObjectStub<StorageDO> | null {
-    const payerAddress = this.getPayerAddress(c);
-    if (!payerAddress) {
+  protected getStorageDO(c: AppContext, address?: string): DurableObjectStub<StorageDO> | null {
+    const owner = address ?? this.getPayerAddress(c);
+    if (!owner) {
       return null;
     }
 
-    const id = c.env.STORAGE_DO.idFromName(payerAddress);
+    const id = c.env.STORAGE_DO.idFromName(owner);
     return c.env.STORAGE_DO.get(id);
   }
 
+  /**
+   * Get the global index of unlisted/public pastes
+   */
+  protected getPasteIndex(c: AppContext): DurableObjectStub<PasteIndexDO> {
+    const id = c.env.PASTE_INDEX_DO.idFromName(PASTE_INDEX_NAME);
+    return c.env.PASTE_INDEX_DO.get(id);
+  }
+
   /**
    * Parse JSON request body with error handling
    * Returns parsed body or error response
@@ -103,19 +157,98 @@ export class BaseEndpoint extends OpenAPIRoute {
    * Get Storage DO stub with error handling
    * Returns StorageDO stub or error response
    *
+   * With an X-Storage-Owner header, returns the owner's storage if one of
+   * its grants to the payer allows `access`. Endpoints that pass no `access`
+   * only ever act on the payer's own storage.
+   *
    * Usage:
-   *   const storageDO = this.requireStorageDO(c);
+   *   const storageDO = await this.requireStorageDO(c, { subsystem: "kv", access: "read", names: [key] });
    *   if (storageDO instanceof Response) return storageDO;
    *   // storageDO is now DurableObjectStub<StorageDO>
    */
-  protected requireStorageDO(c: AppContext): DurableObjectStub<StorageDO> | Response {
-    const storageDO = this.getStorageDO(c);
-    if (!storageDO) {
-      return this.errorResponse(c, "Storage not available", 500);
+  protected async requireStorageDO(
+    c: AppContext,
+    access?: StorageAccessRequest
+  ): Promise<DurableObjectStub<StorageDO> | Response> {
+    const payerAddress = this.getPayerAddress(c);
+    const owner = c.req.header(STORAGE_OWNER_HEADER);
+    if (!payerAddress || !owner || owner === payerAddress) {
+      const storageDO = this.getStorageDO(c);
+      if (!storageDO) {
+        return this.errorResponse(c, "Storage not available", 500);
+      }
+      return storageDO;
+    }
+
+    if (!validateStacksAddress(owner)) {
+      return this.errorResponse(c, `${STORAGE_OWNER_HEADER} must be a Stacks address`, 400);
+    }
+    if (!access) {
+      return this.errorResponse(c, `${STORAGE_OWNER_HEADER} is not supported by this endpoint`, 403);
+    }
+
+    const storageDO = this.getStorageDO(c, owner)!;
+    if (!(await storageDO.grantCheck(payerAddress, access))) {
+      return this.errorResponse(
+        c,
+        `No grant from ${owner} allows ${access.access} access to ${access.subsystem}` +
+          (access.names?.length ? ` (${access.names.join(", ")})` : ""),
+        403,
+        { owner }
+      );
     }
     return storageDO;
   }
 
+  /**
+   * Get the UsageDO stub of the address that signed the request's usage
+   * challenge (see utils/usage-auth). Returns 401 without a valid one.
+   *
+   * Usage:
+   *   const usage = await this.requireUsageDO(c);
+   *   if (usage instanceof Response) return usage;
+   *   // usage.address signed the challenge; usage.usageDO is its UsageDO
+   */
+  protected async requireUsageDO(
+    c: AppContext
+  ): Promise<{ address: string; usageDO: DurableObjectStub<UsageDO> } | Response> {
+    const auth = parseUsageAuth((name) => c.req.header(name));
+    if (typeof auth === "string") {
+      return this.errorResponse(c, auth, 401);
+    }
+
+    const network = c.env.X402_NETWORK === "mainnet" ? "mainnet" : "testnet";
+    const error = await verifyUsageAuth(auth, network, Date.now());
+    if (error) {
+      return this.errorResponse(c, error, 401);
+    }
+
+    const id = c.env.USAGE_DO.idFromName(auth.address);
+    return { address: auth.address, usageDO: c.env.USAGE_DO.get(id) };
+  }
+
+  /**
+   * Get the CreditLedgerDO stub of the payer named by the request's credit
+   * session token (Authorization: Bearer). Returns 401 without one; the
+   * ledger itself decides whether the session is still live.
+   *
+   * Usage:
+   *   const credits = await this.requireCreditLedger(c);
+   *   if (credits instanceof Response) return credits;
+   *   const balance = await credits.ledger.getBalance(credits.sessionToken);
+   */
+  protected requireCreditLedger(
+    c: AppContext
+  ): { address: string; sessionToken: string; ledger: DurableObjectStub<CreditLedgerDO> } | Response {
+    const sessionToken = bearerToken(c.req.header("Authorization"));
+    const address = sessionToken ? parseSessionToken(sessionToken) : null;
+    if (!sessionToken || !address) {
+      return this.errorResponse(c, "Send a credit session token from /credits/topup as Authorization: Bearer <token>", 401);
+    }
+
+    const id = c.env.CREDIT_LEDGER_DO.idFromName(address);
+    return { address, sessionToken, ledger: c.env.CREDIT_LEDGER_DO.get(id) };
+  }
 }
 
 /**
@@ -126,7 +259,7 @@ export class FreeEndpoint extends BaseEndpoint {
 }
 
 /**
- * Base class for standard paid endpoints (0.001 STX)
+ * Base class for standard paid endpoints (priced per route, 0.001 STX base)
  */
 export class StandardEndpoint extends BaseEndpoint {
   protected readonly pricingTier: PricingTier = "standard";
@@ -135,13 +268,13 @@ export class StandardEndpoint extends BaseEndpoint {
 /**
  * Semantic aliases for StandardEndpoint
  *
- * All these aliases map to StandardEndpoint (0.001 STX pricing).
- * They exist for code clarity - making it obvious what type of
- * operation an endpoint performs without affecting actual pricing.
+ * All these aliases map to StandardEndpoint. They exist for code clarity -
+ * making it obvious what type of operation an endpoint performs.
  *
- * Note: Despite the names suggesting different tiers, all paid
- * endpoints use the same "standard" pricing. Dynamic pricing is
- * only used for LLM endpoints that calculate cost based on tokens.
+ * Note: The aliases don't set prices. Standard endpoints are priced per
+ * route and method by ROUTE_PRICES (services/route-pricing), including
+ * size-based components for large writes. Dynamic pricing is only used for
+ * LLM endpoints that calculate cost based on tokens.
  */
 export const SimpleEndpoint = StandardEndpoint;
 export const AIEndpoint = StandardEndpoint;
@@ -0,0 +1,51 @@
+/**
+ * Credit Balance Endpoint
+ */
+import { FreeEndpoint } from "../base";
+import { okProp, stringProp } from "../schema";
+import type { AppContext } from "../../types";
+import { creditBalanceSchema, creditSessionParam, response401 } from "./credit-schema";
+
+export class CreditBalanceGet extends FreeEndpoint {
+  schema = {
+    tags: ["Credits"],
+    summary: "(free, session) Prepaid balances of the session's payer",
+    description: "Balances per token with their expiry, the session's own expiry, and the latest ledger entries (top-ups, debits and expiries), newest first.",
+    parameters: [creditSessionParam],
+    responses: {
+      "200": {
+        description: "Credit balances",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object" as const,
+              properties: {
+                ok: okProp,
+                address: stringProp,
+                balances: { type: "array" as const, items: creditBalanceSchema },
+                session: {
+                  type: "object" as const,
+                  properties: { expiresAt: { type: "string" as const, format: "date-time" } },
+                },
+                recent: { type: "array" as const, items: { type: "object" as const } },
+              },
+            },
+          },
+        },
+      },
+      "401": response401,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const credits = this.requireCreditLedger(c);
+    if (credits instanceof Response) return credits;
+
+    const result = await credits.ledger.getBalance(credits.sessionToken);
+    if (!result) {
+      return this.errorResponse(c, "Credit session is expired or revoked", 401);
+    }
+
+    return c.json({ ok: true, address: credits.address, ...result });
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * OpenAPI schemas shared by the /credits endpoints
+ */
+import { CREDIT_SESSION_PREFIX } from "../../utils/credit-session";
+
+/** Credit session token (from /credits/topup) */
+export const creditSessionParam = {
+  name: "Authorization",
+  in: "header" as const,
+  required: true,
+  schema: { type: "string" as const },
+  description: `Bearer <session token>, where the token (${CREDIT_SESSION_PREFIX}...) comes from /credits/topup`,
+};
+
+export const response401 = { description: "Missing, expired or revoked credit session token" };
+
+/** Prepaid balance in one token */
+export const creditBalanceSchema = {
+  type: "object" as const,
+  properties: {
+    token: { type: "string" as const, enum: ["STX", "sBTC", "USDCx"] },
+    balance: { type: "integer" as const, description: "Base units of the token" },
+    expiresAt: { type: "string" as const, format: "date-time", description: "When an unspent balance expires" },
+  },
+};
@@ -0,0 +1,4 @@
+export { CreditTopup } from "./topup";
+export { CreditBalanceGet } from "./balance";
+export { CreditSessionOpen } from "./session-open";
+export { CreditSessionRevoke } from "./session-revoke";
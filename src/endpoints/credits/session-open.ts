@@ -0,0 +1,87 @@
+/**
+ * Credit Session Open Endpoint
+ */
+import { StandardEndpoint } from "../base";
+import { tokenTypeParam, response402, okProp, stringProp, tokenTypeProp } from "../schema";
+import {
+  CREDIT_SESSION_DEFAULT_TTL_S,
+  CREDIT_SESSION_MAX_TTL_S,
+  CREDIT_SESSION_MIN_TTL_S,
+  clampSessionTtl,
+} from "../../utils/credit-session";
+import type { AppContext } from "../../types";
+import { creditBalanceSchema } from "./credit-schema";
+
+export class CreditSessionOpen extends StandardEndpoint {
+  schema = {
+    tags: ["Credits"],
+    summary: "(paid) Open a session on the existing credit balance",
+    description:
+      "Returns a new bearer session token for the payer's existing balances, without topping up. Use it to spend credit from an earlier top-up whose session has ended, or overcharges on LLM calls that reconciliation credited back. The x402 payment proves the payer; the balances are returned as they are, even if empty.",
+    requestBody: {
+      required: false,
+      content: {
+        "application/json": {
+          schema: {
+            type: "object" as const,
+            properties: {
+              sessionTtl: {
+                type: "integer" as const,
+                minimum: CREDIT_SESSION_MIN_TTL_S,
+                maximum: CREDIT_SESSION_MAX_TTL_S,
+                default: CREDIT_SESSION_DEFAULT_TTL_S,
+                description: "Session lifetime in seconds (clamped to the allowed range)",
+              },
+            },
+          },
+        },
+      },
+    },
+    parameters: [tokenTypeParam],
+    responses: {
+      "200": {
+        description: "Session opened",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object" as const,
+              properties: {
+                ok: okProp,
+                address: stringProp,
+                sessionToken: stringProp,
+                sessionExpiresAt: { type: "string" as const, format: "date-time" },
+                balances: { type: "array" as const, items: creditBalanceSchema },
+                tokenType: tokenTypeProp,
+              },
+            },
+          },
+        },
+      },
+      "402": response402,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const tokenType = this.getTokenType(c);
+    const payerAddress = this.getPayerAddress(c);
+    if (!payerAddress) {
+      return this.errorResponse(c, "Opening a session must be paid with x402", 402);
+    }
+
+    // The body is optional and the payment has settled, so a missing or bad one falls back to the default
+    const body = (await c.req.json().catch(() => null)) as { sessionTtl?: unknown } | null;
+    const sessionTtlS = clampSessionTtl(body?.sessionTtl);
+
+    const ledger = c.env.CREDIT_LEDGER_DO.get(c.env.CREDIT_LEDGER_DO.idFromName(payerAddress));
+    const { session, balances } = await ledger.openSession({ payerAddress, sessionTtlS });
+
+    return c.json({
+      ok: true,
+      address: payerAddress,
+      sessionToken: session.sessionToken,
+      sessionExpiresAt: session.expiresAt,
+      balances,
+      tokenType,
+    });
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Credit Session Revoke Endpoint
+ */
+import { FreeEndpoint } from "../base";
+import { boolProp, okProp } from "../schema";
+import type { AppContext } from "../../types";
+import { creditSessionParam, response401 } from "./credit-schema";
+
+export class CreditSessionRevoke extends FreeEndpoint {
+  schema = {
+    tags: ["Credits"],
+    summary: "(free, session) End the credit session",
+    description: "The token stops working immediately. The balance is kept and can be spent through a new session from POST /credits/session or the next top-up.",
+    parameters: [creditSessionParam],
+    responses: {
+      "200": {
+        description: "Session ended",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object" as const,
+              properties: { ok: okProp, revoked: boolProp },
+            },
+          },
+        },
+      },
+      "401": response401,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const credits = this.requireCreditLedger(c);
+    if (credits instanceof Response) return credits;
+
+    if (!(await credits.ledger.revokeSession(credits.sessionToken))) {
+      return this.errorResponse(c, "Credit session is expired or revoked", 401);
+    }
+
+    return c.json({ ok: true, revoked: true });
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Credit Top-Up Endpoint
+ */
+import { BaseEndpoint } from "../base";
+import { tokenTypeParam, response400, response402, okProp, stringProp, tokenTypeProp } from "../schema";
+import {
+  CREDIT_BALANCE_TTL_S,
+  CREDIT_MIN_TOPUP_CALLS,
+  CREDIT_SESSION_DEFAULT_TTL_S,
+  CREDIT_SESSION_MAX_TTL_S,
+  CREDIT_SESSION_MIN_TTL_S,
+  clampSessionTtl,
+} from "../../utils/credit-session";
+import type { AppContext, PricingTier } from "../../types";
+import { creditBalanceSchema } from "./credit-schema";
+
+export class CreditTopup extends BaseEndpoint {
+  protected readonly pricingTier: PricingTier = "dynamic";
+
+  schema = {
+    tags: ["Credits"],
+    summary: "(paid, dynamic) Prepay a credit balance and open a session",
+    description:
+      `Pays \`amount\` (base units of the payment token) into the payer's credit balance with one x402 payment, and returns a bearer session token. Paid endpoints called with \`Authorization: Bearer <sessionToken>\` and no payment-signature debit the balance in the same token instead of settling a payment each. The minimum top-up is ${CREDIT_MIN_TOPUP_CALLS} standard calls. A balance expires ${CREDIT_BALANCE_TTL_S / 86400} days after its last top-up; each top-up extends it and returns a new session. To spend an existing balance (e.g. overcharges credited back on LLM calls) without topping up, open a session with \`POST /credits/session\`.`,
+    requestBody: {
+      required: true,
+      content: {
+        "application/json": {
+          schema: {
+            type: "object" as const,
+            required: ["amount"],
+            properties: {
+              amount: { type: "string" as const, description: "Amount to prepay, in base units of the payment token" },
+              sessionTtl: {
+                type: "integer" as const,
+                minimum: CREDIT_SESSION_MIN_TTL_S,
+                maximum: CREDIT_SESSION_MAX_TTL_S,
+                default: CREDIT_SESSION_DEFAULT_TTL_S,
+                description: "Session lifetime in seconds (clamped to the allowed range)",
+              },
+            },
+          },
+        },
+      },
+    },
+    parameters: [tokenTypeParam],
+    responses: {
+      "200": {
+        description: "Balance credited",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object" as const,
+              properties: {
+                ok: okProp,
+                address: stringProp,
+                sessionToken: stringProp,
+                sessionExpiresAt: { type: "string" as const, format: "date-time" },
+                balance: creditBalanceSchema,
+                tokenType: tokenTypeProp,
+              },
+            },
+          },
+        },
+      },
+      "400": response400,
+      "402": response402,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const tokenType = this.getTokenType(c);
+    const x402 = c.get("x402");
+    const payerAddress = this.getPayerAddress(c);
+    if (!x402 || !payerAddress) {
+      return this.errorResponse(c, "Top-ups must be paid with x402", 402);
+    }
+
+    // The payment has settled by now, so a bad sessionTtl is clamped rather than rejected
+    const sessionTtlS = clampSessionTtl((x402.parsedBody as { sessionTtl?: unknown } | undefined)?.sessionTtl);
+
+    const ledger = c.env.CREDIT_LEDGER_DO.get(c.env.CREDIT_LEDGER_DO.idFromName(payerAddress));
+    const { session, balance } = await ledger.topup({
+      payerAddress,
+      token: x402.priceEstimate.tokenType,
+      amount: Number(x402.priceEstimate.amountInToken),
+      txid: x402.settleResult.transaction || null,
+      sessionTtlS,
+    });
+
+    // A top-up is prepayment, not usage: the debits against it are recorded instead
+    c.set("usageRecorded", true);
+
+    return c.json({
+      ok: true,
+      address: payerAddress,
+      sessionToken: session.sessionToken,
+      sessionExpiresAt: session.expiresAt,
+      balance,
+      tokenType,
+    });
+  }
+}
@@ -204,6 +204,7 @@ export class CloudflareChat extends AIEndpoint {
      */
     const recordUsage = (usedModel: string, durationMs: number) => {
       if (x402?.payerAddress && c.env.USAGE_DO) {
+        c.set("usageRecorded", true);
         c.executionCtx.waitUntil(
           (async () => {
             try {
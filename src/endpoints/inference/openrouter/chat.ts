@@ -3,14 +3,26 @@
  *
  * Dynamic pricing based on model and estimated tokens.
  * Supports both streaming and non-streaming responses.
+ *
+ * After completion the up-front charge is reconciled with the actual cost in
+ * the payer's CreditLedgerDO: overcharges become reusable credit, and
+ * undercharges are tracked as house risk up to HOUSE_RISK_CAP_USD per
+ * HOUSE_RISK_WINDOW_S, and as unrecovered beyond it.
  */
 
 import { BaseEndpoint } from "../../base";
 import { OpenRouterClient, OpenRouterError } from "../../../services/openrouter";
-import { logPnL } from "../../../services/pricing";
+import {
+  HOUSE_RISK_CAP_USD,
+  HOUSE_RISK_WINDOW_S,
+  estimateActualCost,
+  logPnL,
+  reconcileChatCharge,
+  usdToTokenAmount,
+} from "../../../services/pricing";
 import { lookupModel, getSimilarModels } from "../../../services/model-cache";
 import { response402, tokenTypeParam } from "../../schema";
-import type { AppContext, ChatCompletionRequest, UsageRecord } from "../../../types";
+import type { AppContext, ChatCompletionRequest, UsageInfo, UsageRecord, X402Context } from "../../../types";
 
 export class OpenRouterChat extends BaseEndpoint {
   schema = {
@@ -150,6 +162,7 @@ export class OpenRouterChat extends BaseEndpoint {
       );
     }
 
+    const registryPricing = modelResult.valid ? modelResult.pricing : undefined;
     const client = new OpenRouterClient(c.env.OPENROUTER_API_KEY, log);
 
     try {
@@ -158,18 +171,20 @@ export class OpenRouterChat extends BaseEndpoint {
         const { stream, usagePromise } = await client.createChatCompletionStream(request);
 
         // Record usage after stream completes (in background)
+        c.set("usageRecorded", true);
         c.executionCtx.waitUntil(
           usagePromise.then(async (usage) => {
             const durationMs = Date.now() - startTime;
 
             if (usage && x402.priceEstimate) {
-              logPnL(
-                x402.priceEstimate,
-                usage.estimatedCostUsd,
+              const actualCostUsd = estimateActualCost(
                 usage.promptTokens,
                 usage.completionTokens,
-                log
+                usage.model,
+                registryPricing
               );
+              logPnL(x402.priceEstimate, actualCostUsd, usage.promptTokens, usage.completionTokens, log);
+              await this.reconcileCharge(c, x402, usage, actualCostUsd);
             }
 
             // Record usage in DO
@@ -228,19 +243,21 @@ export class OpenRouterChat extends BaseEndpoint {
           });
         }
 
-        // Log PnL
+        // Log PnL and reconcile the charge with the actual cost
         if (x402.priceEstimate) {
-          logPnL(
-            x402.priceEstimate,
-            usage.estimatedCostUsd,
+          const actualCostUsd = estimateActualCost(
             usage.promptTokens,
             usage.completionTokens,
-            log
+            usage.model,
+            registryPricing
           );
+          logPnL(x402.priceEstimate, actualCostUsd, usage.promptTokens, usage.completionTokens, log);
+          c.executionCtx.waitUntil(this.reconcileCharge(c, x402, usage, actualCostUsd));
         }
 
         // Record usage in DO
         if (x402.payerAddress && c.env.USAGE_DO) {
+          c.set("usageRecorded", true);
           c.executionCtx.waitUntil(
             (async () => {
               try {
@@ -295,4 +312,51 @@ export class OpenRouterChat extends BaseEndpoint {
       return this.errorResponse(c, "Chat completion failed", 500);
     }
   }
+
+  /**
+   * Record the actual vs estimated charge in the payer's credit ledger, which
+   * credits an overcharge back and tracks an undercharge as house risk.
+   * Never throws: a failed reconciliation only loses the adjustment.
+   */
+  private async reconcileCharge(
+    c: AppContext,
+    x402: X402Context,
+    usage: UsageInfo,
+    actualCostUsd: number
+  ): Promise<void> {
+    const log = c.var.logger;
+    if (!c.env.CREDIT_LEDGER_DO || !x402.payerAddress) return;
+
+    const estimate = x402.priceEstimate;
+    const { charged, actual } = reconcileChatCharge(estimate, actualCostUsd);
+
+    try {
+      const ledger = c.env.CREDIT_LEDGER_DO.get(c.env.CREDIT_LEDGER_DO.idFromName(x402.payerAddress));
+      const result = await ledger.reconcile({
+        requestId: c.var.requestId,
+        model: usage.model,
+        token: estimate.tokenType,
+        inputTokens: usage.promptTokens,
+        outputTokens: usage.completionTokens,
+        estimatedCostUsd: estimate.estimatedCostUsd,
+        actualCostUsd,
+        charged: Number(charged),
+        actual: Number(actual),
+        houseRiskCap: Number(usdToTokenAmount(HOUSE_RISK_CAP_USD, estimate.tokenType)),
+        houseRiskWindowS: HOUSE_RISK_WINDOW_S,
+      });
+      log.info("Charge reconciled", {
+        payerAddress: x402.payerAddress,
+        model: usage.model,
+        token: estimate.tokenType,
+        charged: result.charged,
+        actual: result.actual,
+        credited: result.credited,
+        houseRisk: result.houseRisk,
+        unrecovered: result.unrecovered,
+      });
+    } catch (err) {
+      log.error("Failed to reconcile charge", { error: String(err) });
+    }
+  }
 }
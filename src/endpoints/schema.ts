@@ -125,6 +125,10 @@ export const response402 = {
 /** Standard 400 Bad Request response */
 export const response400 = { description: "Invalid request" };
 
+export const response413 = { description: "Write is larger than the storage quota (see /storage/usage)" };
+
+export const response507 = { description: "Storage quota exceeded (see /storage/usage)" };
+
 // =============================================================================
 // Common Property Schemas
 // =============================================================================
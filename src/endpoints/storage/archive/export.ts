@@ -0,0 +1,52 @@
+/**
+ * Storage Export Endpoint
+ */
+import { StorageReadEndpoint } from "../../base";
+import { tokenTypeParam, queryParamString, response400, response402 } from "../../schema";
+import { ARCHIVE_SECTIONS, type ArchiveSection } from "../../../utils/storage-archive";
+import type { AppContext } from "../../../types";
+
+export class StorageExport extends StorageReadEndpoint {
+  schema = {
+    tags: ["Storage - Archive"],
+    summary: "(paid, storage_read) Export all storage as an NDJSON archive",
+    description:
+      "Streams a versioned NDJSON archive: a header line, one record per line (KV entries, pastes with revisions, queued jobs, lock fencing counters, memory collections and items with packed embeddings, /storage/db tables with rows, indexes, triggers and views), and an end line with record counts. Restore it with POST /storage/import. Pages are read as the stream is consumed, so writes made during the export may or may not be included.",
+    parameters: [
+      queryParamString("sections", `Comma-separated sections to export (default: all): ${ARCHIVE_SECTIONS.join(", ")}`),
+      tokenTypeParam,
+    ],
+    responses: {
+      "200": {
+        description: "NDJSON archive",
+        content: { "application/x-ndjson": { schema: { type: "string" as const } } },
+      },
+      "400": response400,
+      "402": response402,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const raw = c.req.query("sections");
+    const sections = raw
+      ? [...new Set(raw.split(",").map((section) => section.trim()).filter(Boolean))]
+      : [...ARCHIVE_SECTIONS];
+    const unknown = sections.filter((section) => !ARCHIVE_SECTIONS.includes(section as ArchiveSection));
+    if (unknown.length > 0 || sections.length === 0) {
+      return this.errorResponse(c, `sections must be a comma-separated list of: ${ARCHIVE_SECTIONS.join(", ")}`, 400);
+    }
+
+    const storageDO = await this.requireStorageDO(c);
+    if (storageDO instanceof Response) return storageDO;
+
+    const owner = this.getPayerAddress(c);
+    const stream = await storageDO.exportArchive({ owner, sections: sections as ArchiveSection[] });
+    const date = new Date().toISOString().slice(0, 10);
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "application/x-ndjson; charset=utf-8",
+        "Content-Disposition": `attachment; filename="storage-${owner}-${date}.ndjson"`,
+      },
+    });
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Storage Import Endpoint
+ */
+import { StorageWriteLargeEndpoint } from "../../base";
+import {
+  tokenTypeParam,
+  queryParamString,
+  response402,
+  response507,
+  intProp,
+  okProp,
+  stringProp,
+  tokenTypeProp,
+} from "../../schema";
+import { ARCHIVE_IMPORT_MODES, type ArchiveImportMode } from "../../../utils/storage-archive";
+import { isStorageQuotaExceeded } from "../../../utils/storage-quota";
+import type { AppContext } from "../../../types";
+
+export class StorageImport extends StorageWriteLargeEndpoint {
+  schema = {
+    tags: ["Storage - Archive"],
+    summary: "(paid, storage_write_large) Restore storage from an NDJSON archive",
+    description:
+      "Applies an archive from GET /storage/export (request body, up to 32 MB) in one transaction: a malformed or truncated archive, a rejected record or a broken quota changes nothing. mode=merge (default) upserts records over existing data, the archive winning on conflicts (KV versions keep increasing; existing /storage/db objects are kept and rows with the same key replaced). mode=replace first clears the sections the archive contains. Held locks are never touched and lock fencing counters only increase. Shared pastes are re-registered for /paste/:id under the importing payer.",
+    parameters: [
+      queryParamString("mode", `How to apply the archive: ${ARCHIVE_IMPORT_MODES.join(" or ")} (default: merge)`),
+      tokenTypeParam,
+    ],
+    requestBody: {
+      content: { "application/x-ndjson": { schema: { type: "string" as const } } },
+    },
+    responses: {
+      "200": {
+        description: "Import result",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object" as const,
+              properties: {
+                ok: okProp,
+                mode: stringProp,
+                sections: { type: "array" as const, items: stringProp },
+                counts: { type: "object" as const, additionalProperties: intProp },
+                pasteIndexConflicts: { type: "array" as const, items: stringProp },
+                tokenType: tokenTypeProp,
+              },
+            },
+          },
+        },
+      },
+      "400": { description: "Invalid archive (error names the line)" },
+      "402": response402,
+      "413": { description: "Archive over 32 MB, or larger than a storage quota" },
+      "503": { description: "Archive applied, but the shared paste index could not be updated" },
+      "507": response507,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const tokenType = this.getTokenType(c);
+
+    const mode = c.req.query("mode") ?? "merge";
+    if (!ARCHIVE_IMPORT_MODES.includes(mode as ArchiveImportMode)) {
+      return this.errorResponse(c, `mode must be one of: ${ARCHIVE_IMPORT_MODES.join(", ")}`, 400);
+    }
+    const body = c.req.raw.body;
+    if (!body) {
+      return this.errorResponse(c, "Request body must be an NDJSON archive from /storage/export", 400);
+    }
+
+    const storageDO = await this.requireStorageDO(c);
+    if (storageDO instanceof Response) return storageDO;
+
+    const result = await storageDO.importArchive(body, mode as ArchiveImportMode);
+    if (isStorageQuotaExceeded(result)) return this.quotaExceededResponse(c, result);
+    if (!result.ok) {
+      return this.errorResponse(c, result.error, result.status, result.line ? { line: result.line } : {});
+    }
+
+    // The archive may come from another payer (or network): shared pastes are re-indexed
+    // under this payer. IDs still indexed for their previous owner stay unreachable here.
+    const owner = this.getPayerAddress(c)!;
+    let pasteIndexConflicts: string[] = [];
+    try {
+      const index = this.getPasteIndex(c);
+      if (result.removedSharedPastes.length > 0) {
+        await index.removeAll(result.removedSharedPastes, owner);
+      }
+      if (result.sharedPastes.length > 0) {
+        pasteIndexConflicts = await index.registerAll(result.sharedPastes.map((paste) => ({ ...paste, owner })));
+      }
+    } catch (error) {
+      c.var.logger.error("Failed to index imported pastes", { error: String(error) });
+      return this.errorResponse(
+        c,
+        "Archive imported, but shared pastes could not be indexed; import again in merge mode to retry",
+        503,
+        { counts: result.counts }
+      );
+    }
+
+    return c.json({
+      ok: true,
+      mode: result.mode,
+      sections: result.sections,
+      counts: result.counts,
+      pasteIndexConflicts,
+      tokenType,
+    });
+  }
+}
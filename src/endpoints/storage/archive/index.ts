@@ -0,0 +1,2 @@
+export { StorageExport } from "./export";
+export { StorageImport } from "./import";
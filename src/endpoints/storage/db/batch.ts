@@ -0,0 +1,92 @@
+/**
+ * DB Batch Endpoint
+ */
+import { StorageWriteEndpoint } from "../../base";
+import { tokenTypeParam, response400, response402, response413, response507 } from "../../schema";
+import type { AppContext } from "../../../types";
+import { isStorageQuotaExceeded } from "../../../utils/storage-quota";
+
+/** Maximum statements in one batch */
+const MAX_BATCH_STATEMENTS = 100;
+
+export class DbBatch extends StorageWriteEndpoint {
+  schema = {
+    tags: ["Storage - DB"],
+    summary: "(paid, storage_write) Execute SQL statements in one transaction",
+    description:
+      "Runs statements in order inside a single transaction. If any statement fails, all of them are rolled back and the failing index is returned.",
+    requestBody: {
+      required: true,
+      content: {
+        "application/json": {
+          schema: {
+            type: "object" as const,
+            required: ["statements"],
+            properties: {
+              statements: {
+                type: "array" as const,
+                description: `Statements to run in order (max ${MAX_BATCH_STATEMENTS})`,
+                items: {
+                  type: "object" as const,
+                  required: ["query"],
+                  properties: {
+                    query: { type: "string" as const, description: "SQL statement" },
+                    params: { type: "array" as const, description: "Query parameters" },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    parameters: [tokenTypeParam],
+    responses: {
+      "200": { description: "Per-statement results" },
+      "400": response400,
+      "402": response402,
+      "413": response413,
+      "507": response507,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const tokenType = this.getTokenType(c);
+    const body = await this.parseBody<{ statements?: Array<{ query?: string; params?: unknown[] }> }>(c);
+    if (body instanceof Response) return body;
+
+    const { statements } = body;
+    if (!Array.isArray(statements) || statements.length === 0) {
+      return this.errorResponse(c, "statements array is required", 400);
+    }
+    if (statements.length > MAX_BATCH_STATEMENTS) {
+      return this.errorResponse(c, `statements supports at most ${MAX_BATCH_STATEMENTS} entries`, 400);
+    }
+    for (const [index, statement] of statements.entries()) {
+      if (!statement || typeof statement.query !== "string" || !statement.query) {
+        return this.errorResponse(c, `statements[${index}].query is required`, 400);
+      }
+      if (statement.params !== undefined && !Array.isArray(statement.params)) {
+        return this.errorResponse(c, `statements[${index}].params must be an array`, 400);
+      }
+    }
+
+    const storageDO = await this.requireStorageDO(c, { subsystem: "db", access: "write" });
+    if (storageDO instanceof Response) return storageDO;
+
+    const result = await storageDO.sqlBatch(
+      statements.map((statement) => ({ query: statement.query!, params: statement.params ?? [] })),
+      this.isDelegated(c)
+    );
+    if (isStorageQuotaExceeded(result)) return this.quotaExceededResponse(c, result);
+    if (!result.ok) {
+      return this.errorResponse(c, `Statement ${result.failedIndex} failed: ${result.error}`, 400, {
+        failedIndex: result.failedIndex,
+        rolledBack: true,
+      });
+    }
+
+    const rowsAffected = result.results.reduce((sum, r) => sum + r.rowsAffected, 0);
+    return c.json({ ok: true, results: result.results, rowsAffected, tokenType });
+  }
+}
@@ -2,8 +2,9 @@
  * DB Execute Endpoint
  */
 import { StorageWriteEndpoint } from "../../base";
-import { tokenTypeParam, response400, response402 } from "../../schema";
+import { tokenTypeParam, response400, response402, response413, response507 } from "../../schema";
 import type { AppContext } from "../../../types";
+import { isStorageQuotaExceeded } from "../../../utils/storage-quota";
 
 export class DbExecute extends StorageWriteEndpoint {
   schema = {
@@ -29,6 +30,8 @@ export class DbExecute extends StorageWriteEndpoint {
       "200": { description: "Execution result" },
       "400": response400,
       "402": response402,
+      "413": response413,
+      "507": response507,
     },
   };
 
@@ -40,11 +43,12 @@ export class DbExecute extends StorageWriteEndpoint {
     const { query, params = [] } = body;
     if (!query) return this.errorResponse(c, "query is required", 400);
 
-    const storageDO = this.requireStorageDO(c);
+    const storageDO = await this.requireStorageDO(c, { subsystem: "db", access: "write" });
     if (storageDO instanceof Response) return storageDO;
 
     try {
-      const result = await storageDO.sqlExecute(query, params);
+      const result = await storageDO.sqlExecute(query, params, this.isDelegated(c));
+      if (isStorageQuotaExceeded(result)) return this.quotaExceededResponse(c, result);
       return c.json({ ok: true, ...result, tokenType });
     } catch (e) {
       return this.errorResponse(c, String(e), 400);
@@ -1,3 +1,4 @@
 export { DbQuery } from "./query";
 export { DbExecute } from "./execute";
+export { DbBatch } from "./batch";
 export { DbSchema } from "./schema";
@@ -17,7 +17,7 @@ export class DbQuery extends StorageReadEndpoint {
             type: "object" as const,
             required: ["query"],
             properties: {
-              query: { type: "string" as const, description: "SQL SELECT query" },
+              query: { type: "string" as const, description: "SQL read statement (SELECT, WITH ... SELECT, VALUES, EXPLAIN)" },
               params: { type: "array" as const, description: "Query parameters" },
             },
           },
@@ -40,11 +40,11 @@ export class DbQuery extends StorageReadEndpoint {
     const { query, params = [] } = body;
     if (!query) return this.errorResponse(c, "query is required", 400);
 
-    const storageDO = this.requireStorageDO(c);
+    const storageDO = await this.requireStorageDO(c, { subsystem: "db", access: "read" });
     if (storageDO instanceof Response) return storageDO;
 
     try {
-      const result = await storageDO.sqlQuery(query, params) as { rows: unknown[]; rowCount: number; columns: string[] };
+      const result = await storageDO.sqlQuery(query, params, this.isDelegated(c)) as { rows: unknown[]; rowCount: number; columns: string[] };
       return c.json({ ok: true, rows: result.rows, rowCount: result.rowCount, columns: result.columns, tokenType });
     } catch (e) {
       return this.errorResponse(c, String(e), 400);
@@ -0,0 +1,108 @@
+/**
+ * Storage Grant Create Endpoint
+ */
+import { StorageWriteEndpoint } from "../../base";
+import { tokenTypeParam, response400, response402, boolProp, okProp, tokenTypeProp } from "../../schema";
+import {
+  GRANT_SCOPES,
+  GRANT_SUBSYSTEMS,
+  GRANT_DOMAIN_NAME,
+  GRANT_DOMAIN_VERSION,
+  validateGrant,
+  verifyGrantSignature,
+  type StorageGrant,
+} from "../../../utils/storage-grants";
+import type { AppContext } from "../../../types";
+import { grantSchema, storedGrantSchema } from "./grant-schema";
+
+export class StorageGrantCreate extends StorageWriteEndpoint {
+  schema = {
+    tags: ["Storage - Grants"],
+    summary: "(paid, storage_write) Register a signed grant to another payer's storage",
+    description:
+      `Registers a grant signed by its grantor: the grantee may then call storage endpoints with an X-Storage-Owner: <grantor> header. The grantor signs the SIP-018 structured data message { action: "grant-storage-access", grantor, grantee (principals), scope, subsystems (list of string-ascii), prefix (string-utf8), expires-at (optional uint, unix seconds), nonce (uint) } under the domain { name: "${GRANT_DOMAIN_NAME}", version: "${GRANT_DOMAIN_VERSION}", chain-id } of this server's network. Any payer may submit it (usually the grantor or grantee). A non-empty prefix limits KV keys, lock, queue and collection names, and excludes paste and db access. Resubmitting the same grant is a no-op; nonces cannot be reused.`,
+    requestBody: {
+      required: true,
+      content: {
+        "application/json": {
+          schema: {
+            type: "object" as const,
+            required: ["grant", "signature"],
+            properties: {
+              grant: grantSchema,
+              signature: { type: "string" as const, description: "RSV signature (hex) of the SIP-018 message by the grantor" },
+            },
+          },
+        },
+      },
+    },
+    parameters: [tokenTypeParam],
+    responses: {
+      "200": {
+        description: "Grant registered",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object" as const,
+              properties: { ok: okProp, created: boolProp, grant: storedGrantSchema, tokenType: tokenTypeProp },
+            },
+          },
+        },
+      },
+      "400": response400,
+      "401": { description: "Signature is not the grantor's" },
+      "402": response402,
+      "409": { description: "Nonce already used by another (or a revoked) grant" },
+    },
+  };
+
+  async handle(c: AppContext) {
+    const tokenType = this.getTokenType(c);
+
+    const body = await this.parseBody<{ grant?: Partial<StorageGrant>; signature?: string }>(c);
+    if (body instanceof Response) return body;
+
+    const { grant, signature } = body;
+    if (!grant || typeof grant !== "object") {
+      return this.errorResponse(
+        c,
+        `grant is required: { grantor, grantee, scope (${GRANT_SCOPES.join(" | ")}), subsystems (${GRANT_SUBSYSTEMS.join(", ")}), prefix, expiresAt, nonce }`,
+        400
+      );
+    }
+    if (!signature || typeof signature !== "string") {
+      return this.errorResponse(c, "signature is required", 400);
+    }
+    const grantError = validateGrant(grant);
+    if (grantError) return this.errorResponse(c, grantError, 400);
+
+    // Only the signed fields are kept
+    const signed: StorageGrant = {
+      grantor: grant.grantor!,
+      grantee: grant.grantee!,
+      scope: grant.scope!,
+      subsystems: grant.subsystems!,
+      prefix: grant.prefix!,
+      expiresAt: grant.expiresAt!,
+      nonce: grant.nonce!,
+    };
+    if (signed.expiresAt !== null && signed.expiresAt * 1000 <= Date.now()) {
+      return this.errorResponse(c, "Grant has already expired", 400);
+    }
+
+    const network = c.env.X402_NETWORK === "mainnet" ? "mainnet" : "testnet";
+    if (!(await verifyGrantSignature(signed, signature, network))) {
+      return this.errorResponse(c, `Signature is not a ${network} SIP-018 signature by the grantor`, 401);
+    }
+
+    const storageDO = this.getStorageDO(c, signed.grantor);
+    if (!storageDO) {
+      return this.errorResponse(c, "Storage not available", 500);
+    }
+
+    const result = await storageDO.grantRegister(signed, signature);
+    if (!result.ok) return this.errorResponse(c, result.error, result.status);
+
+    return c.json({ ok: true, created: result.created, grant: result.grant, tokenType });
+  }
+}
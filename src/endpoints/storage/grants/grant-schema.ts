@@ -0,0 +1,33 @@
+/**
+ * OpenAPI schemas of grants, shared by the grant endpoints
+ */
+import { GRANT_SCOPES, GRANT_SUBSYSTEMS } from "../../../utils/storage-grants";
+import { intProp, stringProp } from "../../schema";
+
+const grantProperties = {
+  grantor: { type: "string" as const, description: "Address whose storage is shared (the signer)" },
+  grantee: { type: "string" as const, description: "Address allowed to use it" },
+  scope: { type: "string" as const, enum: [...GRANT_SCOPES] },
+  subsystems: { type: "array" as const, items: { type: "string" as const, enum: [...GRANT_SUBSYSTEMS] } },
+  prefix: { type: "string" as const, description: 'Names covered must start with this ("" = all)' },
+  expiresAt: { ...intProp, nullable: true, description: "Unix seconds (null = until revoked)" },
+  nonce: { ...intProp, description: "Unique per grantor; also used to revoke" },
+};
+
+/** The signed grant fields */
+export const grantSchema = {
+  type: "object" as const,
+  required: ["grantor", "grantee", "scope", "subsystems", "prefix", "expiresAt", "nonce"],
+  properties: grantProperties,
+};
+
+/** A registered grant */
+export const storedGrantSchema = {
+  type: "object" as const,
+  properties: {
+    ...grantProperties,
+    signature: stringProp,
+    createdAt: stringProp,
+    revokedAt: { ...stringProp, nullable: true },
+  },
+};
@@ -0,0 +1,3 @@
+export { StorageGrantCreate } from "./create";
+export { StorageGrantList } from "./list";
+export { StorageGrantRevoke } from "./revoke";
@@ -0,0 +1,45 @@
+/**
+ * Storage Grant List Endpoint
+ */
+import { StorageReadEndpoint } from "../../base";
+import { tokenTypeParam, queryParamString, response402, okProp, tokenTypeProp } from "../../schema";
+import type { AppContext } from "../../../types";
+import { storedGrantSchema } from "./grant-schema";
+
+export class StorageGrantList extends StorageReadEndpoint {
+  schema = {
+    tags: ["Storage - Grants"],
+    summary: "(paid, storage_read) List grants issued by the payer",
+    description: "Grants to the payer's storage, newest first. Expired grants are listed until revoked.",
+    parameters: [queryParamString("includeRevoked", "Set to true to include revoked grants"), tokenTypeParam],
+    responses: {
+      "200": {
+        description: "Issued grants",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object" as const,
+              properties: {
+                ok: okProp,
+                grants: { type: "array" as const, items: storedGrantSchema },
+                tokenType: tokenTypeProp,
+              },
+            },
+          },
+        },
+      },
+      "402": response402,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const tokenType = this.getTokenType(c);
+    const includeRevoked = c.req.query("includeRevoked") === "true";
+
+    const storageDO = await this.requireStorageDO(c);
+    if (storageDO instanceof Response) return storageDO;
+
+    const grants = await storageDO.grantList({ includeRevoked });
+    return c.json({ ok: true, grants, tokenType });
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Storage Grant Revoke Endpoint
+ */
+import { StorageWriteEndpoint } from "../../base";
+import { tokenTypeParam, pathParam, response400, response402, boolProp, intProp, okProp, tokenTypeProp } from "../../schema";
+import type { AppContext } from "../../../types";
+
+export class StorageGrantRevoke extends StorageWriteEndpoint {
+  schema = {
+    tags: ["Storage - Grants"],
+    summary: "(paid, storage_write) Revoke a grant issued by the payer",
+    description: "Takes effect on the grantee's next request. The nonce stays used, so the signed grant cannot be registered again.",
+    parameters: [pathParam("nonce", "Nonce of the grant"), tokenTypeParam],
+    responses: {
+      "200": {
+        description: "Grant revoked",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object" as const,
+              properties: { ok: okProp, nonce: intProp, revoked: boolProp, tokenType: tokenTypeProp },
+            },
+          },
+        },
+      },
+      "400": response400,
+      "402": response402,
+      "404": { description: "No active grant with this nonce" },
+    },
+  };
+
+  async handle(c: AppContext) {
+    const tokenType = this.getTokenType(c);
+    const nonce = Number(c.req.param("nonce"));
+
+    if (!Number.isSafeInteger(nonce) || nonce < 0) {
+      return this.errorResponse(c, "nonce must be a non-negative integer", 400);
+    }
+
+    const storageDO = await this.requireStorageDO(c);
+    if (storageDO instanceof Response) return storageDO;
+
+    if (!(await storageDO.grantRevoke(nonce))) {
+      return this.errorResponse(c, `No active grant with nonce ${nonce}`, 404);
+    }
+
+    return c.json({ ok: true, nonce, revoked: true, tokenType });
+  }
+}
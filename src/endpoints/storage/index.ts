@@ -1,17 +1,26 @@
 // KV Storage
-export { KvGet, KvSet, KvDelete, KvList } from "./kv";
+export { KvGet, KvSet, KvDelete, KvList, KvIncr, KvBatch, KvWatch } from "./kv";
 
 // Paste Storage
-export { PasteCreate, PasteGet, PasteDelete } from "./paste";
+export { PasteCreate, PasteGet, PasteUpdate, PasteDelete, PasteRevisions, PasteDiff, PasteRaw, SharedPasteGet, SharedPasteRaw, SharedPasteList } from "./paste";
 
 // Database Storage
-export { DbQuery, DbExecute, DbSchema } from "./db";
+export { DbQuery, DbExecute, DbBatch, DbSchema } from "./db";
 
 // Sync (Distributed Locks)
 export { SyncLock, SyncUnlock, SyncExtend, SyncStatus, SyncList } from "./sync";
 
 // Queue
-export { QueuePush, QueuePop, QueuePeek, QueueStatus, QueueClear } from "./queue";
+export { QueuePush, QueuePop, QueuePeek, QueueStatus, QueueClear, QueueAck, QueueNack, QueueExtend, QueueDead, QueueRedrive } from "./queue";
 
 // Memory (Vector Storage)
-export { MemoryStore, MemorySearch, MemoryDelete, MemoryList, MemoryClear } from "./memory";
+export { MemoryStore, MemorySearch, MemoryDelete, MemoryList, MemoryClear, MemoryCollections, MemoryConsolidate } from "./memory";
+
+// Usage and quotas
+export { StorageUsageGet } from "./usage";
+
+// Export and import
+export { StorageExport, StorageImport } from "./archive";
+
+// Access grants
+export { StorageGrantCreate, StorageGrantList, StorageGrantRevoke } from "./grants";
@@ -0,0 +1,170 @@
+/**
+ * KV Batch Endpoint
+ */
+
+import { StorageWriteEndpoint } from "../../base";
+import { tokenTypeParam, response400, response402, response413, response507, stringProp, objectProp, intProp, okProp, tokenTypeProp } from "../../schema";
+import type { AppContext } from "../../../types";
+import type { KvBatchOperation } from "../../../durable-objects/StorageDO";
+import { scanAndStore } from "../../../services/safety-scan";
+import { ifMatchProperty, ifNoneMatchProperty, parseKvPrecondition } from "./precondition";
+import { isStorageQuotaExceeded } from "../../../utils/storage-quota";
+
+/** Maximum operations in one batch */
+const MAX_BATCH_OPERATIONS = 100;
+
+const BATCH_OPS = ["get", "set", "delete"] as const;
+
+export class KvBatch extends StorageWriteEndpoint {
+  schema = {
+    tags: ["Storage - KV"],
+    summary: "(paid, storage_write) Get, set and delete many keys in one call",
+    description:
+      "Runs operations in order inside one transaction. If any ifMatch/ifNoneMatch precondition fails, no writes are applied and 412 is returned with the failing index.",
+    requestBody: {
+      required: true,
+      content: {
+        "application/json": {
+          schema: {
+            type: "object" as const,
+            required: ["operations"],
+            properties: {
+              operations: {
+                type: "array" as const,
+                description: `Operations to run in order (max ${MAX_BATCH_OPERATIONS})`,
+                items: {
+                  type: "object" as const,
+                  required: ["op", "key"],
+                  properties: {
+                    op: { type: "string" as const, enum: [...BATCH_OPS] },
+                    key: { ...stringProp, description: "Key" },
+                    value: { ...stringProp, description: "Value (set only)" },
+                    metadata: { ...objectProp, description: "Optional metadata (set only)" },
+                    ttl: { ...intProp, description: "TTL in seconds (set only)" },
+                    ifMatch: ifMatchProperty,
+                    ifNoneMatch: ifNoneMatchProperty,
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    parameters: [tokenTypeParam],
+    responses: {
+      "200": {
+        description: "Per-operation results",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object" as const,
+              properties: {
+                ok: okProp,
+                results: { type: "array" as const, items: objectProp },
+                tokenType: tokenTypeProp,
+              },
+            },
+          },
+        },
+      },
+      "400": response400,
+      "402": response402,
+      "412": { description: "A precondition failed; nothing was written" },
+      "413": response413,
+      "507": response507,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const tokenType = this.getTokenType(c);
+
+    const body = await this.parseBody<{
+      operations?: Array<{
+        op?: string;
+        key?: string;
+        value?: string;
+        metadata?: Record<string, unknown>;
+        ttl?: number;
+        ifMatch?: number | string;
+        ifNoneMatch?: number | string;
+      }>;
+    }>(c);
+    if (body instanceof Response) return body;
+
+    const { operations } = body;
+    if (!Array.isArray(operations) || operations.length === 0) {
+      return this.errorResponse(c, "operations array is required", 400);
+    }
+    if (operations.length > MAX_BATCH_OPERATIONS) {
+      return this.errorResponse(c, `operations supports at most ${MAX_BATCH_OPERATIONS} entries`, 400);
+    }
+
+    // Validate and normalize operations
+    const batch: KvBatchOperation[] = [];
+    for (const [index, operation] of operations.entries()) {
+      const label = `operations[${index}]`;
+      if (!operation || !BATCH_OPS.includes(operation.op as (typeof BATCH_OPS)[number])) {
+        return this.errorResponse(c, `${label}.op must be one of: ${BATCH_OPS.join(", ")}`, 400);
+      }
+      if (!operation.key || typeof operation.key !== "string") {
+        return this.errorResponse(c, `${label}.key is required`, 400);
+      }
+      if (operation.op === "get") {
+        batch.push({ op: "get", key: operation.key });
+        continue;
+      }
+
+      const precondition = parseKvPrecondition(operation.ifMatch, operation.ifNoneMatch);
+      if (typeof precondition === "string") {
+        return this.errorResponse(c, `${label}: ${precondition}`, 400);
+      }
+      if (operation.op === "delete") {
+        batch.push({ op: "delete", key: operation.key, ...precondition });
+        continue;
+      }
+
+      if (!operation.value || typeof operation.value !== "string") {
+        return this.errorResponse(c, `${label}.value is required`, 400);
+      }
+      batch.push({
+        op: "set",
+        key: operation.key,
+        value: operation.value,
+        metadata: operation.metadata,
+        ttl: operation.ttl,
+        ...precondition,
+      });
+    }
+
+    const storageDO = await this.requireStorageDO(c, {
+      subsystem: "kv",
+      access: batch.some((operation) => operation.op !== "get") ? "write" : "read",
+      names: batch.map((operation) => operation.key),
+    });
+    if (storageDO instanceof Response) return storageDO;
+
+    const result = await storageDO.kvBatch(batch);
+    if (isStorageQuotaExceeded(result)) return this.quotaExceededResponse(c, result);
+    if (!result.ok) {
+      return this.errorResponse(c, `Precondition failed for operations[${result.failedIndex}]`, 412, {
+        failedIndex: result.failedIndex,
+        currentVersion: result.currentVersion,
+      });
+    }
+
+    // Fire-and-forget safety scans for written values — never block the response
+    const written = batch.filter((operation) => operation.op === "set");
+    if (written.length > 0) {
+      c.executionCtx.waitUntil(
+        Promise.all(
+          written.map((operation) =>
+            scanAndStore(c.env.AI, storageDO, operation.key, "kv", operation.value, c.var.logger)
+          )
+        )
+      );
+    }
+
+    return c.json({ ok: true, results: result.results, tokenType });
+  }
+}
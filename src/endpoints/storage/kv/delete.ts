@@ -3,14 +3,20 @@
  */
 
 import { StorageWriteEndpoint } from "../../base";
-import { tokenTypeParam, pathParam, response402, stringProp, boolProp, okProp, tokenTypeProp } from "../../schema";
+import { tokenTypeParam, pathParam, queryParamString, response402, stringProp, boolProp, okProp, tokenTypeProp } from "../../schema";
 import type { AppContext } from "../../../types";
+import { parseKvPrecondition } from "./precondition";
 
 export class KvDelete extends StorageWriteEndpoint {
   schema = {
     tags: ["Storage - KV"],
     summary: "(paid, storage_write) Delete key from KV store",
-    parameters: [pathParam("key", "Key to delete"), tokenTypeParam],
+    parameters: [
+      pathParam("key", "Key to delete"),
+      queryParamString("ifMatch", "Only delete if the key is at this version (\"*\" = exists); otherwise 412"),
+      queryParamString("ifNoneMatch", "Only delete if the key is not at this version; otherwise 412"),
+      tokenTypeParam,
+    ],
     responses: {
       "200": {
         description: "Delete result",
@@ -24,6 +30,7 @@ export class KvDelete extends StorageWriteEndpoint {
         },
       },
       "402": response402,
+      "412": { description: "ifMatch / ifNoneMatch precondition failed" },
     },
   };
 
@@ -35,10 +42,20 @@ export class KvDelete extends StorageWriteEndpoint {
       return this.errorResponse(c, "key parameter is required", 400);
     }
 
-    const storageDO = this.requireStorageDO(c);
+    const precondition = parseKvPrecondition(c.req.query("ifMatch"), c.req.query("ifNoneMatch"));
+    if (typeof precondition === "string") {
+      return this.errorResponse(c, precondition, 400);
+    }
+
+    const storageDO = await this.requireStorageDO(c, { subsystem: "kv", access: "write", names: [key] });
     if (storageDO instanceof Response) return storageDO;
 
-    const result = await storageDO.kvDelete(key);
+    const result = await storageDO.kvDelete(key, precondition);
+    if (!result.ok) {
+      return this.errorResponse(c, `Precondition failed for key '${key}'`, 412, {
+        currentVersion: result.currentVersion,
+      });
+    }
 
     return c.json({
       ok: true,
@@ -3,7 +3,7 @@
  */
 
 import { StorageReadEndpoint } from "../../base";
-import { tokenTypeParam, pathParam, response402, stringProp, objectProp, okProp, tokenTypeProp } from "../../schema";
+import { tokenTypeParam, pathParam, response402, stringProp, objectProp, intProp, okProp, tokenTypeProp } from "../../schema";
 import type { AppContext } from "../../../types";
 
 export class KvGet extends StorageReadEndpoint {
@@ -18,7 +18,7 @@ export class KvGet extends StorageReadEndpoint {
           "application/json": {
             schema: {
               type: "object" as const,
-              properties: { ok: okProp, key: stringProp, value: stringProp, metadata: objectProp, createdAt: stringProp, updatedAt: stringProp, tokenType: tokenTypeProp },
+              properties: { ok: okProp, key: stringProp, value: stringProp, metadata: objectProp, version: intProp, createdAt: stringProp, updatedAt: stringProp, tokenType: tokenTypeProp },
             },
           },
         },
@@ -36,13 +36,14 @@ export class KvGet extends StorageReadEndpoint {
       return this.errorResponse(c, "key parameter is required", 400);
     }
 
-    const storageDO = this.requireStorageDO(c);
+    const storageDO = await this.requireStorageDO(c, { subsystem: "kv", access: "read", names: [key] });
     if (storageDO instanceof Response) return storageDO;
 
     const result = await storageDO.kvGet(key) as {
       key: string;
       value: string;
       metadata: Record<string, unknown> | null;
+      version: number;
       createdAt: string;
       updatedAt: string;
     } | null;
@@ -56,6 +57,7 @@ export class KvGet extends StorageReadEndpoint {
       key: result.key,
       value: result.value,
       metadata: result.metadata,
+      version: result.version,
       createdAt: result.createdAt,
       updatedAt: result.updatedAt,
       tokenType,
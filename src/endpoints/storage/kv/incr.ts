@@ -0,0 +1,96 @@
+/**
+ * KV Increment Endpoint
+ */
+
+import { StorageWriteEndpoint } from "../../base";
+import { tokenTypeParam, response400, response402, response413, response507, stringProp, boolProp, intProp, okProp, tokenTypeProp } from "../../schema";
+import type { AppContext } from "../../../types";
+import { isStorageQuotaExceeded } from "../../../utils/storage-quota";
+
+export class KvIncr extends StorageWriteEndpoint {
+  schema = {
+    tags: ["Storage - KV"],
+    summary: "(paid, storage_write) Atomically increment or decrement a counter",
+    description:
+      "Adds delta (default 1, negative to decrement) to an integer value. Missing keys start at 0. A ttl resets the expiry; otherwise the current expiry is kept.",
+    requestBody: {
+      required: true,
+      content: {
+        "application/json": {
+          schema: {
+            type: "object" as const,
+            required: ["key"],
+            properties: {
+              key: { ...stringProp, description: "Counter key" },
+              delta: { ...intProp, description: "Amount to add (negative to decrement)", default: 1 },
+              ttl: { ...intProp, description: "TTL in seconds (optional)" },
+            },
+          },
+        },
+      },
+    },
+    parameters: [tokenTypeParam],
+    responses: {
+      "200": {
+        description: "New value",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object" as const,
+              properties: {
+                ok: okProp,
+                key: stringProp,
+                value: intProp,
+                created: boolProp,
+                version: intProp,
+                tokenType: tokenTypeProp,
+              },
+            },
+          },
+        },
+      },
+      "400": response400,
+      "402": response402,
+      "409": { description: "Existing value is not an integer" },
+      "413": response413,
+      "507": response507,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const tokenType = this.getTokenType(c);
+
+    const body = await this.parseBody<{ key?: string; delta?: number; ttl?: number }>(c);
+    if (body instanceof Response) return body;
+
+    const { key, delta = 1, ttl } = body;
+
+    if (!key || typeof key !== "string") {
+      return this.errorResponse(c, "key is required", 400);
+    }
+    if (!Number.isSafeInteger(delta)) {
+      return this.errorResponse(c, "delta must be an integer", 400);
+    }
+    if (ttl !== undefined && (!Number.isInteger(ttl) || ttl <= 0)) {
+      return this.errorResponse(c, "ttl must be a positive integer (seconds)", 400);
+    }
+
+    const storageDO = await this.requireStorageDO(c, { subsystem: "kv", access: "write", names: [key] });
+    if (storageDO instanceof Response) return storageDO;
+
+    const result = await storageDO.kvIncr(key, delta, { ttl });
+    if (isStorageQuotaExceeded(result)) return this.quotaExceededResponse(c, result);
+    if (!result.ok) {
+      return this.errorResponse(c, result.error, 409);
+    }
+
+    return c.json({
+      ok: true,
+      key: result.key,
+      value: result.value,
+      created: result.created,
+      version: result.version,
+      tokenType,
+    });
+  }
+}
@@ -2,3 +2,6 @@ export { KvGet } from "./get";
 export { KvSet } from "./set";
 export { KvDelete } from "./delete";
 export { KvList } from "./list";
+export { KvIncr } from "./incr";
+export { KvBatch } from "./batch";
+export { KvWatch } from "./watch";
@@ -3,8 +3,9 @@
  */
 
 import { StorageReadEndpoint } from "../../base";
-import { tokenTypeParam, queryParamString, queryParamInt, response402, stringProp, objectProp, intProp, okProp, tokenTypeProp } from "../../schema";
+import { tokenTypeParam, queryParamString, queryParamInt, response400, response402, stringProp, objectProp, intProp, okProp, tokenTypeProp } from "../../schema";
 import type { AppContext } from "../../../types";
+import { decodeCursor, encodeCursor } from "../../../utils/cursor";
 
 export class KvList extends StorageReadEndpoint {
   schema = {
@@ -12,7 +13,9 @@ export class KvList extends StorageReadEndpoint {
     summary: "(paid, storage_read) List keys in KV store",
     parameters: [
       queryParamString("prefix", "Filter by key prefix"),
-      queryParamInt("limit", "Max results to return", 100),
+      queryParamInt("limit", "Max results to return (max 1000)", 100),
+      queryParamString("cursor", "nextCursor from the previous page"),
+      queryParamString("includeValues", "Set to true to include each key's value"),
       tokenTypeParam,
     ],
     responses: {
@@ -28,16 +31,18 @@ export class KvList extends StorageReadEndpoint {
                   type: "array" as const,
                   items: {
                     type: "object" as const,
-                    properties: { key: stringProp, metadata: objectProp, updatedAt: stringProp },
+                    properties: { key: stringProp, value: stringProp, metadata: objectProp, version: intProp, updatedAt: stringProp },
                   },
                 },
                 count: intProp,
+                nextCursor: { type: "string" as const, nullable: true, description: "Cursor for the next page (null on the last page)" },
                 tokenType: tokenTypeProp,
               },
             },
           },
         },
       },
+      "400": response400,
       "402": response402,
     },
   };
@@ -46,20 +51,38 @@ export class KvList extends StorageReadEndpoint {
     const tokenType = this.getTokenType(c);
     const prefix = c.req.query("prefix");
     const limit = parseInt(c.req.query("limit") || "100", 10);
+    const includeValues = c.req.query("includeValues") === "true";
 
-    const storageDO = this.requireStorageDO(c);
+    // Cursors are opaque to clients: { k: last key of the previous page }
+    let after: string | undefined;
+    const cursor = c.req.query("cursor");
+    if (cursor) {
+      const position = decodeCursor(cursor);
+      if (!position || typeof position.k !== "string") {
+        return this.errorResponse(c, "Invalid cursor", 400);
+      }
+      after = position.k;
+    }
+
+    const storageDO = await this.requireStorageDO(c, { subsystem: "kv", access: "read", names: [prefix ?? ""] });
     if (storageDO instanceof Response) return storageDO;
 
-    const keys = await storageDO.kvList({ prefix, limit }) as Array<{
-      key: string;
-      metadata: Record<string, unknown> | null;
-      updatedAt: string;
-    }>;
+    const { keys, nextKey } = await storageDO.kvList({ prefix, limit, after, includeValues }) as {
+      keys: Array<{
+        key: string;
+        value?: string;
+        metadata: Record<string, unknown> | null;
+        version: number;
+        updatedAt: string;
+      }>;
+      nextKey: string | null;
+    };
 
     return c.json({
       ok: true,
       keys,
       count: keys.length,
+      nextCursor: nextKey === null ? null : encodeCursor({ k: nextKey }),
       tokenType,
     });
   }
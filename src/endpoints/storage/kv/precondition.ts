@@ -0,0 +1,43 @@
+/**
+ * KV Precondition Helpers
+ *
+ * Shared schema fragments and parsing for the ifMatch / ifNoneMatch
+ * compare-and-swap options on /storage/kv writes.
+ */
+import type { KvPrecondition } from "../../../durable-objects/StorageDO";
+
+/** Request body properties for conditional writes */
+export const ifMatchProperty = {
+  type: "string" as const,
+  description: "Only write if the key exists at this version (\"*\" = any version); otherwise 412",
+};
+
+export const ifNoneMatchProperty = {
+  type: "string" as const,
+  description: "Only write if the key does not exist (\"*\") or is not at this version; otherwise 412",
+};
+
+/**
+ * Parse one precondition value: a version number (or numeric string) or "*".
+ */
+function parseVersion(value: unknown, label: string): number | "*" | undefined | { error: string } {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (value === "*") return "*";
+  const version = typeof value === "string" ? Number(value) : value;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    return { error: `${label} must be a positive integer version or "*"` };
+  }
+  return version;
+}
+
+/**
+ * Parse ifMatch / ifNoneMatch from a body or query string.
+ * Returns the precondition, or an error message.
+ */
+export function parseKvPrecondition(ifMatch: unknown, ifNoneMatch: unknown): KvPrecondition | string {
+  const match = parseVersion(ifMatch, "ifMatch");
+  if (typeof match === "object") return match.error;
+  const noneMatch = parseVersion(ifNoneMatch, "ifNoneMatch");
+  if (typeof noneMatch === "object") return noneMatch.error;
+  return { ifMatch: match, ifNoneMatch: noneMatch };
+}
@@ -3,9 +3,11 @@
  */
 
 import { StorageWriteEndpoint } from "../../base";
-import { tokenTypeParam, response400, response402, stringProp, boolProp, objectProp, intProp, okProp, tokenTypeProp } from "../../schema";
+import { tokenTypeParam, response400, response402, response413, response507, stringProp, boolProp, objectProp, intProp, okProp, tokenTypeProp } from "../../schema";
 import type { AppContext } from "../../../types";
 import { scanAndStore } from "../../../services/safety-scan";
+import { ifMatchProperty, ifNoneMatchProperty, parseKvPrecondition } from "./precondition";
+import { isStorageQuotaExceeded } from "../../../utils/storage-quota";
 
 export class KvSet extends StorageWriteEndpoint {
   schema = {
@@ -23,6 +25,8 @@ export class KvSet extends StorageWriteEndpoint {
               value: { ...stringProp, description: "Value to store" },
               metadata: { ...objectProp, description: "Optional metadata" },
               ttl: { ...intProp, description: "TTL in seconds (optional)" },
+              ifMatch: ifMatchProperty,
+              ifNoneMatch: ifNoneMatchProperty,
             },
           },
         },
@@ -36,20 +40,30 @@ export class KvSet extends StorageWriteEndpoint {
           "application/json": {
             schema: {
               type: "object" as const,
-              properties: { ok: okProp, key: stringProp, created: boolProp, tokenType: tokenTypeProp },
+              properties: { ok: okProp, key: stringProp, created: boolProp, version: intProp, tokenType: tokenTypeProp },
             },
           },
         },
       },
       "400": response400,
       "402": response402,
+      "412": { description: "ifMatch / ifNoneMatch precondition failed" },
+      "413": response413,
+      "507": response507,
     },
   };
 
   async handle(c: AppContext) {
     const tokenType = this.getTokenType(c);
 
-    const body = await this.parseBody<{ key?: string; value?: string; metadata?: Record<string, unknown>; ttl?: number }>(c);
+    const body = await this.parseBody<{
+      key?: string;
+      value?: string;
+      metadata?: Record<string, unknown>;
+      ttl?: number;
+      ifMatch?: number | string;
+      ifNoneMatch?: number | string;
+    }>(c);
     if (body instanceof Response) return body;
 
     const { key, value, metadata, ttl } = body;
@@ -60,11 +74,21 @@ export class KvSet extends StorageWriteEndpoint {
     if (!value || typeof value !== "string") {
       return this.errorResponse(c, "value is required", 400);
     }
+    const precondition = parseKvPrecondition(body.ifMatch, body.ifNoneMatch);
+    if (typeof precondition === "string") {
+      return this.errorResponse(c, precondition, 400);
+    }
 
-    const storageDO = this.requireStorageDO(c);
+    const storageDO = await this.requireStorageDO(c, { subsystem: "kv", access: "write", names: [key] });
     if (storageDO instanceof Response) return storageDO;
 
-    const result = await storageDO.kvSet(key, value, { metadata, ttl });
+    const result = await storageDO.kvSet(key, value, { metadata, ttl, ...precondition });
+    if (isStorageQuotaExceeded(result)) return this.quotaExceededResponse(c, result);
+    if (!result.ok) {
+      return this.errorResponse(c, `Precondition failed for key '${key}'`, 412, {
+        currentVersion: result.currentVersion,
+      });
+    }
 
     // Fire-and-forget safety scan — never blocks response
     c.executionCtx.waitUntil(
@@ -75,6 +99,7 @@ export class KvSet extends StorageWriteEndpoint {
       ok: true,
       key: result.key,
       created: result.created,
+      version: result.version,
       tokenType,
     });
   }
@@ -0,0 +1,126 @@
+/**
+ * KV Watch Endpoint
+ *
+ * Long-poll change feed: one paid call waits (bounded) for set/delete events
+ * on a key or prefix instead of polling KvGet.
+ */
+
+import { StorageReadEndpoint } from "../../base";
+import { tokenTypeParam, response400, response402, stringProp, boolProp, intProp, okProp, tokenTypeProp } from "../../schema";
+import type { AppContext } from "../../../types";
+
+const DEFAULT_WATCH_TIMEOUT_SECONDS = 25;
+const MAX_WATCH_TIMEOUT_SECONDS = 60;
+const DEFAULT_WATCH_LIMIT = 100;
+const MAX_WATCH_LIMIT = 1000;
+
+export class KvWatch extends StorageReadEndpoint {
+  schema = {
+    tags: ["Storage - KV"],
+    summary: "(paid, storage_read) Wait for changes to a key or prefix",
+    description:
+      "Returns set/delete events after sequence `since`, waiting up to `timeout` seconds for the first one. Pass the returned `seq` as `since` on the next call to continue without gaps. Omit `since` to wait for changes from now on.",
+    requestBody: {
+      required: false,
+      content: {
+        "application/json": {
+          schema: {
+            type: "object" as const,
+            properties: {
+              key: { ...stringProp, description: "Watch a single key" },
+              prefix: { ...stringProp, description: "Watch keys with this prefix (omit key and prefix to watch everything)" },
+              since: { ...intProp, description: "Sequence number to resume after (default: now)" },
+              timeout: {
+                ...intProp,
+                description: `Seconds to wait for an event (0-${MAX_WATCH_TIMEOUT_SECONDS})`,
+                default: DEFAULT_WATCH_TIMEOUT_SECONDS,
+              },
+              limit: { ...intProp, description: `Max events returned (max ${MAX_WATCH_LIMIT})`, default: DEFAULT_WATCH_LIMIT },
+            },
+          },
+        },
+      },
+    },
+    parameters: [tokenTypeParam],
+    responses: {
+      "200": {
+        description: "Change events (empty when the wait timed out)",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object" as const,
+              properties: {
+                ok: okProp,
+                events: {
+                  type: "array" as const,
+                  items: {
+                    type: "object" as const,
+                    properties: {
+                      seq: intProp,
+                      key: stringProp,
+                      op: stringProp,
+                      value: stringProp,
+                      version: intProp,
+                      at: stringProp,
+                    },
+                  },
+                },
+                seq: intProp,
+                truncated: boolProp,
+                tokenType: tokenTypeProp,
+              },
+            },
+          },
+        },
+      },
+      "400": response400,
+      "402": response402,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const tokenType = this.getTokenType(c);
+
+    // Body is optional: an empty request watches every key from now on
+    let body: { key?: string; prefix?: string; since?: number; timeout?: number; limit?: number } = {};
+    if (c.req.header("content-type")?.includes("application/json")) {
+      const parsed = await this.parseBody<typeof body>(c);
+      if (parsed instanceof Response) return parsed;
+      body = parsed;
+    }
+
+    const { key, prefix, since, timeout = DEFAULT_WATCH_TIMEOUT_SECONDS, limit = DEFAULT_WATCH_LIMIT } = body;
+
+    if (key !== undefined && (typeof key !== "string" || !key)) {
+      return this.errorResponse(c, "key must be a non-empty string", 400);
+    }
+    if (prefix !== undefined && typeof prefix !== "string") {
+      return this.errorResponse(c, "prefix must be a string", 400);
+    }
+    if (key !== undefined && prefix !== undefined) {
+      return this.errorResponse(c, "Use key or prefix, not both", 400);
+    }
+    if (since !== undefined && (!Number.isInteger(since) || since < 0)) {
+      return this.errorResponse(c, "since must be a non-negative integer", 400);
+    }
+    if (typeof timeout !== "number" || timeout < 0 || timeout > MAX_WATCH_TIMEOUT_SECONDS) {
+      return this.errorResponse(c, `timeout must be between 0 and ${MAX_WATCH_TIMEOUT_SECONDS} seconds`, 400);
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_WATCH_LIMIT) {
+      return this.errorResponse(c, `limit must be an integer between 1 and ${MAX_WATCH_LIMIT}`, 400);
+    }
+
+    const storageDO = await this.requireStorageDO(c, { subsystem: "kv", access: "read", names: [key ?? prefix ?? ""] });
+    if (storageDO instanceof Response) return storageDO;
+
+    const result = await storageDO.kvWatch({ key, prefix, since, timeoutMs: timeout * 1000, limit });
+
+    return c.json({
+      ok: true,
+      events: result.events,
+      seq: result.seq,
+      truncated: result.truncated,
+      tokenType,
+    });
+  }
+}
@@ -4,11 +4,26 @@
 import { StorageWriteEndpoint } from "../../base";
 import { tokenTypeParam, response402 } from "../../schema";
 import type { AppContext } from "../../../types";
+import { DEFAULT_COLLECTION, collectionProperty, validateCollectionName } from "./collection-param";
 
 export class MemoryClear extends StorageWriteEndpoint {
   schema = {
     tags: ["Storage - Memory"],
-    summary: "(paid, storage_write) Clear all memory items",
+    summary: "(paid, storage_write) Clear all items in a memory collection",
+    description: "Deletes every item in the collection, its search index and its declared embedding model.",
+    requestBody: {
+      required: false,
+      content: {
+        "application/json": {
+          schema: {
+            type: "object" as const,
+            properties: {
+              collection: collectionProperty,
+            },
+          },
+        },
+      },
+    },
     parameters: [tokenTypeParam],
     responses: {
       "200": { description: "Clear result" },
@@ -19,10 +34,20 @@ export class MemoryClear extends StorageWriteEndpoint {
   async handle(c: AppContext) {
     const tokenType = this.getTokenType(c);
 
-    const storageDO = this.requireStorageDO(c);
+    // Body is optional: an empty request clears the default collection
+    let collection = DEFAULT_COLLECTION;
+    if (c.req.header("content-type")?.includes("application/json")) {
+      const body = await this.parseBody<{ collection?: string }>(c);
+      if (body instanceof Response) return body;
+      collection = body.collection ?? DEFAULT_COLLECTION;
+    }
+    const collectionError = validateCollectionName(collection);
+    if (collectionError) return this.errorResponse(c, collectionError, 400);
+
+    const storageDO = await this.requireStorageDO(c, { subsystem: "memory", access: "write", names: [collection] });
     if (storageDO instanceof Response) return storageDO;
 
-    const result = await storageDO.memoryClear();
-    return c.json({ ok: true, ...result, tokenType });
+    const result = await storageDO.memoryClear(collection);
+    return c.json({ ok: true, collection, ...result, tokenType });
   }
 }
@@ -0,0 +1,36 @@
+/**
+ * Memory Collection Helpers
+ *
+ * Shared schema fragments and validation for the collection parameter
+ * accepted by every /storage/memory/* endpoint.
+ */
+
+/** Collection used when a request does not name one (and for pre-collection data) */
+export const DEFAULT_COLLECTION = "default";
+
+const COLLECTION_NAME = /^[A-Za-z0-9_-]{1,64}$/;
+
+/** Request body property for memory endpoints */
+export const collectionProperty = {
+  type: "string" as const,
+  description: "Collection name (letters, digits, _ and -, max 64)",
+  default: DEFAULT_COLLECTION,
+};
+
+/** Query parameter for GET memory endpoints */
+export const collectionQueryParam = {
+  name: "collection",
+  in: "query" as const,
+  required: false,
+  schema: collectionProperty,
+};
+
+/**
+ * Validate a collection name. Returns an error message, or null when valid.
+ */
+export function validateCollectionName(name: unknown): string | null {
+  if (typeof name !== "string" || !COLLECTION_NAME.test(name)) {
+    return "collection must be 1-64 characters of letters, digits, _ or -";
+  }
+  return null;
+}
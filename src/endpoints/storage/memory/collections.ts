@@ -0,0 +1,29 @@
+/**
+ * Memory Collections Endpoint
+ */
+import { StorageReadEndpoint } from "../../base";
+import { tokenTypeParam, response402 } from "../../schema";
+import type { AppContext } from "../../../types";
+
+export class MemoryCollections extends StorageReadEndpoint {
+  schema = {
+    tags: ["Storage - Memory"],
+    summary: "(paid, storage_read) List memory collections",
+    description: "Lists collections with their embedding model and item count.",
+    parameters: [tokenTypeParam],
+    responses: {
+      "200": { description: "Memory collections" },
+      "402": response402,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const tokenType = this.getTokenType(c);
+
+    const storageDO = await this.requireStorageDO(c, { subsystem: "memory", access: "read" });
+    if (storageDO instanceof Response) return storageDO;
+
+    const result = await storageDO.memoryCollections();
+    return c.json({ ok: true, ...result, tokenType });
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Memory Consolidate Endpoint
+ *
+ * Finds clusters of old, low-importance memories and replaces each cluster
+ * with a single summarized entry (Workers AI).
+ */
+import { StorageWriteEndpoint } from "../../base";
+import { tokenTypeParam, response402 } from "../../schema";
+import type { AppContext } from "../../../types";
+import { summarizeMemories } from "../../../services/memory-consolidation";
+import { MAX_IMPORTANCE, MIN_IMPORTANCE } from "../../../utils/memory-query";
+import { DEFAULT_COLLECTION, collectionProperty, validateCollectionName } from "./collection-param";
+
+/** Memories scanned per request (oldest first) */
+const CONSOLIDATION_SCAN_LIMIT = 500;
+const MAX_CONSOLIDATION_GROUPS = 20;
+const MAX_MIN_GROUP_SIZE = 50;
+
+export class MemoryConsolidate extends StorageWriteEndpoint {
+  schema = {
+    tags: ["Storage - Memory"],
+    summary: "(paid, storage_write) Consolidate old, low-importance memories",
+    description:
+      "Groups similar memories older than olderThanDays with importance <= maxImportance and replaces each group with one AI-written summary (type \"consolidated\"). Use dryRun to preview the groups without changing anything.",
+    requestBody: {
+      required: false,
+      content: {
+        "application/json": {
+          schema: {
+            type: "object" as const,
+            properties: {
+              collection: collectionProperty,
+              olderThanDays: { type: "number" as const, description: "Only memories older than this", default: 30 },
+              maxImportance: {
+                type: "integer" as const,
+                description: `Only memories with importance at or below this (${MIN_IMPORTANCE}-${MAX_IMPORTANCE})`,
+                default: 3,
+              },
+              similarity: {
+                type: "number" as const,
+                description: "Cosine similarity needed to join a group (0-1)",
+                default: 0.8,
+              },
+              minGroupSize: { type: "integer" as const, description: "Smallest group worth consolidating", default: 3 },
+              maxGroups: {
+                type: "integer" as const,
+                description: `Groups to consolidate per request (max ${MAX_CONSOLIDATION_GROUPS})`,
+                default: 5,
+              },
+              dryRun: { type: "boolean" as const, description: "Return the groups without consolidating", default: false },
+            },
+          },
+        },
+      },
+    },
+    parameters: [tokenTypeParam],
+    responses: {
+      "200": { description: "Consolidation result" },
+      "402": response402,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const tokenType = this.getTokenType(c);
+
+    // Body is optional: an empty request uses the defaults on the default collection
+    let body: {
+      collection?: string;
+      olderThanDays?: number;
+      maxImportance?: number;
+      similarity?: number;
+      minGroupSize?: number;
+      maxGroups?: number;
+      dryRun?: boolean;
+    } = {};
+    if (c.req.header("content-type")?.includes("application/json")) {
+      const parsed = await this.parseBody<typeof body>(c);
+      if (parsed instanceof Response) return parsed;
+      body = parsed;
+    }
+
+    const {
+      collection = DEFAULT_COLLECTION,
+      olderThanDays = 30,
+      maxImportance = 3,
+      similarity = 0.8,
+      minGroupSize = 3,
+      maxGroups = 5,
+      dryRun = false,
+    } = body;
+
+    const collectionError = validateCollectionName(collection);
+    if (collectionError) return this.errorResponse(c, collectionError, 400);
+    if (typeof olderThanDays !== "number" || !Number.isFinite(olderThanDays) || olderThanDays < 0) {
+      return this.errorResponse(c, "olderThanDays must be a non-negative number", 400);
+    }
+    if (!Number.isInteger(maxImportance) || maxImportance < MIN_IMPORTANCE || maxImportance > MAX_IMPORTANCE) {
+      return this.errorResponse(c, `maxImportance must be an integer between ${MIN_IMPORTANCE} and ${MAX_IMPORTANCE}`, 400);
+    }
+    if (typeof similarity !== "number" || similarity <= 0 || similarity > 1) {
+      return this.errorResponse(c, "similarity must be a number between 0 and 1", 400);
+    }
+    if (!Number.isInteger(minGroupSize) || minGroupSize < 2 || minGroupSize > MAX_MIN_GROUP_SIZE) {
+      return this.errorResponse(c, `minGroupSize must be an integer between 2 and ${MAX_MIN_GROUP_SIZE}`, 400);
+    }
+    if (!Number.isInteger(maxGroups) || maxGroups < 1 || maxGroups > MAX_CONSOLIDATION_GROUPS) {
+      return this.errorResponse(c, `maxGroups must be an integer between 1 and ${MAX_CONSOLIDATION_GROUPS}`, 400);
+    }
+
+    const storageDO = await this.requireStorageDO(c, { subsystem: "memory", access: dryRun ? "read" : "write", names: [collection] });
+    if (storageDO instanceof Response) return storageDO;
+
+    const target = await storageDO.memoryGetCollection(collection);
+    if (!target.exists && collection !== DEFAULT_COLLECTION) {
+      return this.errorResponse(c, `Collection "${collection}" not found`, 404);
+    }
+
+    const olderThan = new Date(Date.now() - olderThanDays * 86_400_000).toISOString();
+    const { scanned, groups } = await storageDO.memoryConsolidationGroups(collection, {
+      olderThan,
+      maxImportance,
+      similarity,
+      minGroupSize,
+      maxGroups,
+      scanLimit: CONSOLIDATION_SCAN_LIMIT,
+    });
+
+    if (dryRun) {
+      return c.json({ ok: true, collection, dryRun: true, scanned, groups, tokenType });
+    }
+
+    const consolidated: Array<{ id: string; replaced: string[]; text: string }> = [];
+    const skipped: Array<{ ids: string[]; error: string }> = [];
+    for (const group of groups) {
+      try {
+        const { summary, used } = await summarizeMemories(c.env.AI, group.texts);
+        const result = await storageDO.memoryConsolidateGroup(collection, {
+          ids: group.ids.slice(0, used),
+          text: summary,
+        });
+        if (result) {
+          consolidated.push({ ...result, text: summary });
+        } else {
+          skipped.push({ ids: group.ids, error: "Memories changed during consolidation" });
+        }
+      } catch (err) {
+        skipped.push({ ids: group.ids, error: String(err) });
+      }
+    }
+
+    return c.json({ ok: true, collection, scanned, consolidated, skipped, tokenType });
+  }
+}
@@ -4,6 +4,7 @@
 import { StorageWriteEndpoint } from "../../base";
 import { tokenTypeParam, response402 } from "../../schema";
 import type { AppContext } from "../../../types";
+import { DEFAULT_COLLECTION, collectionProperty, validateCollectionName } from "./collection-param";
 
 export class MemoryDelete extends StorageWriteEndpoint {
   schema = {
@@ -17,6 +18,7 @@ export class MemoryDelete extends StorageWriteEndpoint {
             type: "object" as const,
             required: ["ids"],
             properties: {
+              collection: collectionProperty,
               ids: {
                 type: "array" as const,
                 items: { type: "string" as const },
@@ -36,19 +38,21 @@ export class MemoryDelete extends StorageWriteEndpoint {
 
   async handle(c: AppContext) {
     const tokenType = this.getTokenType(c);
-    const body = await this.parseBody<{ ids?: string[] }>(c);
+    const body = await this.parseBody<{ collection?: string; ids?: string[] }>(c);
 
     if (body instanceof Response) return body;
 
-    const { ids } = body;
+    const { collection = DEFAULT_COLLECTION, ids } = body;
     if (!ids || !Array.isArray(ids) || ids.length === 0) {
       return this.errorResponse(c, "ids array is required", 400);
     }
+    const collectionError = validateCollectionName(collection);
+    if (collectionError) return this.errorResponse(c, collectionError, 400);
 
-    const storageDO = this.requireStorageDO(c);
+    const storageDO = await this.requireStorageDO(c, { subsystem: "memory", access: "write", names: [collection] });
     if (storageDO instanceof Response) return storageDO;
 
-    const result = await storageDO.memoryDelete(ids);
-    return c.json({ ok: true, ...result, tokenType });
+    const result = await storageDO.memoryDelete(collection, ids);
+    return c.json({ ok: true, collection, ...result, tokenType });
   }
 }
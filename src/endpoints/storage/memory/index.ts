@@ -3,3 +3,5 @@ export { MemorySearch } from "./search";
 export { MemoryDelete } from "./delete";
 export { MemoryList } from "./list";
 export { MemoryClear } from "./clear";
+export { MemoryCollections } from "./collections";
+export { MemoryConsolidate } from "./consolidate";
@@ -4,12 +4,15 @@
 import { StorageReadEndpoint } from "../../base";
 import { tokenTypeParam, response402 } from "../../schema";
 import type { AppContext } from "../../../types";
+import type { MemoryItemFields } from "../../../durable-objects/StorageDO";
+import { DEFAULT_COLLECTION, collectionQueryParam, validateCollectionName } from "./collection-param";
 
 export class MemoryList extends StorageReadEndpoint {
   schema = {
     tags: ["Storage - Memory"],
     summary: "(paid, storage_read) List stored memory items",
     parameters: [
+      collectionQueryParam,
       { name: "limit", in: "query" as const, required: false, schema: { type: "integer" as const, default: 100 } },
       { name: "offset", in: "query" as const, required: false, schema: { type: "integer" as const, default: 0 } },
       tokenTypeParam,
@@ -24,14 +27,17 @@ export class MemoryList extends StorageReadEndpoint {
     const tokenType = this.getTokenType(c);
     const limit = parseInt(c.req.query("limit") || "100", 10);
     const offset = parseInt(c.req.query("offset") || "0", 10);
+    const collection = c.req.query("collection") || DEFAULT_COLLECTION;
+    const collectionError = validateCollectionName(collection);
+    if (collectionError) return this.errorResponse(c, collectionError, 400);
 
-    const storageDO = this.requireStorageDO(c);
+    const storageDO = await this.requireStorageDO(c, { subsystem: "memory", access: "read", names: [collection] });
     if (storageDO instanceof Response) return storageDO;
 
-    const result = await storageDO.memoryList({ limit, offset }) as {
-      items: Array<{ id: string; text: string; metadata: Record<string, unknown> | null; createdAt: string }>;
+    const result = await storageDO.memoryList(collection, { limit, offset }) as {
+      items: Array<{ id: string; text: string; metadata: Record<string, unknown> | null } & MemoryItemFields>;
       total: number;
     };
-    return c.json({ ok: true, items: result.items, total: result.total, tokenType });
+    return c.json({ ok: true, collection, items: result.items, total: result.total, tokenType });
   }
 }
@@ -5,22 +5,90 @@
 import { StorageReadEndpoint } from "../../base";
 import { tokenTypeParam, response402 } from "../../schema";
 import type { AppContext } from "../../../types";
+import type { MemorySearchResult } from "../../../durable-objects/StorageDO";
+import {
+  compileMemoryFilter,
+  MemoryFilterError,
+  type FusionMode,
+  type KeywordMatch,
+  type MemoryFilter,
+  type RankingWeights,
+  validateRankingWeights,
+} from "../../../utils/memory-query";
+import { CUSTOM_EMBEDDING_MODEL, embedTexts, validateEmbedding } from "../../../services/embeddings";
+import { DEFAULT_COLLECTION, collectionProperty, validateCollectionName } from "./collection-param";
+
+type SearchMode = "vector" | "keyword" | "hybrid";
+
+const SEARCH_MODES: SearchMode[] = ["vector", "keyword", "hybrid"];
+const FUSION_MODES: FusionMode[] = ["rrf", "weighted"];
+const KEYWORD_MATCHES: KeywordMatch[] = ["any", "all"];
 
 export class MemorySearch extends StorageReadEndpoint {
   schema = {
     tags: ["Storage - Memory"],
-    summary: "(paid, storage_read) Search memory by semantic similarity",
+    summary: "(paid, storage_read) Search memory by semantic similarity, keywords, or both",
     requestBody: {
       required: true,
       content: {
         "application/json": {
           schema: {
             type: "object" as const,
-            required: ["query"],
             properties: {
-              query: { type: "string" as const, description: "Search query" },
+              collection: collectionProperty,
+              query: {
+                type: "string" as const,
+                description: "Search query (embedded for vector/hybrid modes unless vector is given)",
+              },
+              vector: {
+                type: "array" as const,
+                items: { type: "number" as const },
+                description: "Precomputed query embedding (must match the collection's dimensions); skips server-side embedding",
+              },
+              mode: {
+                type: "string" as const,
+                enum: SEARCH_MODES,
+                description: "vector (semantic), keyword (full-text), or hybrid (both, fused)",
+                default: "vector",
+              },
+              keywords: {
+                type: "string" as const,
+                description: "Full-text terms for keyword/hybrid modes (defaults to query)",
+              },
+              keywordMatch: {
+                type: "string" as const,
+                enum: KEYWORD_MATCHES,
+                description: "Match any or all keyword terms",
+                default: "any",
+              },
+              fusion: {
+                type: "string" as const,
+                enum: FUSION_MODES,
+                description: "Hybrid ranking: reciprocal rank fusion or weighted score",
+                default: "rrf",
+              },
+              vectorWeight: {
+                type: "number" as const,
+                description: "Weight of similarity vs keyword score in weighted fusion (0-1)",
+                default: 0.5,
+              },
+              filter: {
+                type: "object" as const,
+                description:
+                  'Conditions on metadata.<path>, id, createdAt, updatedAt. Values or operators $eq, $in, $gt, $gte, $lt, $lte, $exists. Example: {"metadata.wallet": "SP...", "createdAt": {"$gte": "2026-01-01T00:00:00Z"}}',
+              },
+              weights: {
+                type: "object" as const,
+                description:
+                  "Blend importance and recency into the ranking: { importance: 0-1, recency: 0-1, halfLifeHours } (shares of the final score; default 0)",
+                properties: {
+                  importance: { type: "number" as const },
+                  recency: { type: "number" as const },
+                  halfLifeHours: { type: "number" as const, default: 168 },
+                },
+              },
               limit: { type: "integer" as const, description: "Max results", default: 10 },
-              threshold: { type: "number" as const, description: "Minimum similarity (0-1)", default: 0.5 },
+              threshold: { type: "number" as const, description: "Minimum similarity for vector matches (0-1)", default: 0.5 },
             },
           },
         },
@@ -35,28 +103,107 @@ export class MemorySearch extends StorageReadEndpoint {
 
   async handle(c: AppContext) {
     const tokenType = this.getTokenType(c);
-    const body = await this.parseBody<{ query?: string; limit?: number; threshold?: number }>(c);
+    const body = await this.parseBody<{
+      collection?: string;
+      query?: string;
+      vector?: number[];
+      mode?: SearchMode;
+      keywords?: string;
+      keywordMatch?: KeywordMatch;
+      fusion?: FusionMode;
+      vectorWeight?: number;
+      filter?: MemoryFilter;
+      weights?: RankingWeights;
+      limit?: number;
+      threshold?: number;
+    }>(c);
     if (body instanceof Response) return body;
 
-    const { query, limit = 10, threshold = 0.5 } = body;
-    if (!query) return this.errorResponse(c, "query is required", 400);
+    const {
+      collection = DEFAULT_COLLECTION,
+      query,
+      vector,
+      mode = "vector",
+      keywordMatch,
+      fusion,
+      vectorWeight,
+      filter,
+      weights,
+      limit = 10,
+      threshold = 0.5,
+    } = body;
+    const keywords = body.keywords ?? query;
 
-    const storageDO = this.requireStorageDO(c);
-    if (storageDO instanceof Response) return storageDO;
-
-    // Generate embedding for query
-    const env = c.env;
-    let queryEmbedding: number[];
+    const collectionError = validateCollectionName(collection);
+    if (collectionError) return this.errorResponse(c, collectionError, 400);
+    if (!SEARCH_MODES.includes(mode)) {
+      return this.errorResponse(c, `mode must be one of: ${SEARCH_MODES.join(", ")}`, 400);
+    }
+    if (mode !== "keyword" && !query && vector === undefined) {
+      return this.errorResponse(c, "query or vector is required", 400);
+    }
+    if (mode === "hybrid" && !keywords) return this.errorResponse(c, "query or keywords is required", 400);
+    if (vector !== undefined) {
+      const vectorError = validateEmbedding(vector, null, "vector");
+      if (vectorError) return this.errorResponse(c, vectorError, 400);
+    }
+    if (mode === "keyword" && !keywords) return this.errorResponse(c, "query or keywords is required", 400);
+    if (keywordMatch !== undefined && !KEYWORD_MATCHES.includes(keywordMatch)) {
+      return this.errorResponse(c, `keywordMatch must be one of: ${KEYWORD_MATCHES.join(", ")}`, 400);
+    }
+    if (fusion !== undefined && !FUSION_MODES.includes(fusion)) {
+      return this.errorResponse(c, `fusion must be one of: ${FUSION_MODES.join(", ")}`, 400);
+    }
+    if (vectorWeight !== undefined && (typeof vectorWeight !== "number" || vectorWeight < 0 || vectorWeight > 1)) {
+      return this.errorResponse(c, "vectorWeight must be a number between 0 and 1", 400);
+    }
+    if (weights !== undefined) {
+      const weightsError = validateRankingWeights(weights);
+      if (weightsError) return this.errorResponse(c, weightsError, 400);
+    }
     try {
-      const result = await env.AI.run("@cf/baai/bge-base-en-v1.5", { text: [query] }) as { data: number[][] };
-      queryEmbedding = result.data[0];
+      compileMemoryFilter(filter);
     } catch (err) {
-      return this.errorResponse(c, `Embedding generation failed: ${String(err)}`, 500);
+      if (err instanceof MemoryFilterError) return this.errorResponse(c, err.message, 400);
+      throw err;
+    }
+
+    const storageDO = await this.requireStorageDO(c, { subsystem: "memory", access: "read", names: [collection] });
+    if (storageDO instanceof Response) return storageDO;
+
+    const target = await storageDO.memoryGetCollection(collection);
+    if (!target.exists && collection !== DEFAULT_COLLECTION) {
+      return this.errorResponse(c, `Collection "${collection}" not found`, 404);
+    }
+
+    // Use the caller's vector, or embed the query with the collection's model
+    // (neither is needed for keyword-only search)
+    let queryEmbedding: number[] | null = null;
+    if (mode !== "keyword" && vector !== undefined) {
+      const vectorError = validateEmbedding(vector, target.dimensions, "vector");
+      if (vectorError) return this.errorResponse(c, vectorError, 400);
+      queryEmbedding = vector;
+    } else if (mode !== "keyword") {
+      if (target.model === CUSTOM_EMBEDDING_MODEL) {
+        return this.errorResponse(c, `Collection "${collection}" holds custom embeddings; pass a query vector`, 400);
+      }
+      try {
+        [queryEmbedding] = await embedTexts(c.env.AI, target.model, [query!]);
+      } catch (err) {
+        return this.errorResponse(c, `Embedding generation failed: ${String(err)}`, 500);
+      }
     }
 
-    const result = await storageDO.memorySearch(queryEmbedding, { limit, threshold }) as {
-      results: Array<{ id: string; text: string; metadata: Record<string, unknown> | null; similarity: number }>;
-    };
-    return c.json({ ok: true, query, results: result.results, tokenType });
+    const result = await storageDO.memorySearch(collection, queryEmbedding, {
+      limit,
+      threshold,
+      filter,
+      keywords: mode === "vector" ? undefined : keywords,
+      keywordMatch,
+      fusion,
+      vectorWeight,
+      weights,
+    }) as { results: MemorySearchResult[] };
+    return c.json({ ok: true, collection, query, mode, results: result.results, tokenType });
   }
 }
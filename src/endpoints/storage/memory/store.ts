@@ -1,11 +1,58 @@
 /**
  * Memory Store Endpoint
- * Store text with vector embeddings for semantic search
+ * Store text with vector embeddings for semantic search.
+ * Items may carry precomputed embeddings; the rest are embedded with the collection's model.
  */
 import { StorageWriteLargeEndpoint } from "../../base";
-import { tokenTypeParam, response402 } from "../../schema";
+import { tokenTypeParam, response402, response413, response507 } from "../../schema";
 import type { AppContext } from "../../../types";
 import { scanAndStore } from "../../../services/safety-scan";
+import {
+  CUSTOM_EMBEDDING_MODEL,
+  EMBEDDING_MODELS,
+  MAX_EMBEDDING_DIMENSIONS,
+  embedTexts,
+  isCollectionModel,
+  validateEmbedding,
+  type CollectionModel,
+} from "../../../services/embeddings";
+
+const COLLECTION_MODELS = [...Object.keys(EMBEDDING_MODELS), CUSTOM_EMBEDDING_MODEL];
+
+const MAX_TYPE_LENGTH = 64;
+const MAX_SUMMARY_LENGTH = 2000;
+const MAX_SOURCE_LENGTH = 256;
+
+type StoreItem = Omit<MemoryItemInput, "embedding"> & { embedding?: number[] };
+
+/**
+ * Validate the optional descriptive fields of an item.
+ * Returns an error message, or null when valid.
+ */
+function validateItemFields(item: StoreItem, label: string): string | null {
+  const { type, importance, summary, source, ttl } = item;
+  if (type !== undefined && (typeof type !== "string" || type.length === 0 || type.length > MAX_TYPE_LENGTH)) {
+    return `${label}.type must be a non-empty string (max ${MAX_TYPE_LENGTH} chars)`;
+  }
+  if (importance !== undefined &&
+      (!Number.isInteger(importance) || importance < MIN_IMPORTANCE || importance > MAX_IMPORTANCE)) {
+    return `${label}.importance must be an integer between ${MIN_IMPORTANCE} and ${MAX_IMPORTANCE}`;
+  }
+  if (summary !== undefined && (typeof summary !== "string" || summary.length > MAX_SUMMARY_LENGTH)) {
+    return `${label}.summary must be a string (max ${MAX_SUMMARY_LENGTH} chars)`;
+  }
+  if (source !== undefined && (typeof source !== "string" || source.length > MAX_SOURCE_LENGTH)) {
+    return `${label}.source must be a string (max ${MAX_SOURCE_LENGTH} chars)`;
+  }
+  if (ttl !== undefined && (typeof ttl !== "number" || !Number.isFinite(ttl) || ttl <= 0)) {
+    return `${label}.ttl must be a positive number of seconds`;
+  }
+  return null;
+}
+import { MAX_IMPORTANCE, MIN_IMPORTANCE } from "../../../utils/memory-query";
+import type { MemoryItemInput } from "../../../durable-objects/StorageDO";
+import { DEFAULT_COLLECTION, collectionProperty, validateCollectionName } from "./collection-param";
+import { isStorageQuotaExceeded } from "../../../utils/storage-quota";
 
 export class MemoryStore extends StorageWriteLargeEndpoint {
   schema = {
@@ -19,6 +66,17 @@ export class MemoryStore extends StorageWriteLargeEndpoint {
             type: "object" as const,
             required: ["items"],
             properties: {
+              collection: collectionProperty,
+              model: {
+                type: "string" as const,
+                enum: COLLECTION_MODELS,
+                description:
+                  'Embedding model, declared when the collection is created (default bge-base). Must match an existing collection\'s model. "custom" collections only accept precomputed embeddings.',
+              },
+              dimensions: {
+                type: "integer" as const,
+                description: `Vector size for a new custom collection (1-${MAX_EMBEDDING_DIMENSIONS}; default: length of the first embedding)`,
+              },
               items: {
                 type: "array" as const,
                 items: {
@@ -26,8 +84,24 @@ export class MemoryStore extends StorageWriteLargeEndpoint {
                   required: ["id", "text"],
                   properties: {
                     id: { type: "string" as const, description: "Unique identifier" },
-                    text: { type: "string" as const, description: "Text to embed and store" },
+                    text: { type: "string" as const, description: "Text to store (embedded unless embedding is given)" },
+                    embedding: {
+                      type: "array" as const,
+                      items: { type: "number" as const },
+                      description: "Precomputed embedding (must match the collection's dimensions)",
+                    },
                     metadata: { type: "object" as const, description: "Optional metadata" },
+                    type: {
+                      type: "string" as const,
+                      description: "Memory type, e.g. fact, preference, episode (default: embedding)",
+                    },
+                    importance: {
+                      type: "integer" as const,
+                      description: `Importance ${MIN_IMPORTANCE}-${MAX_IMPORTANCE} (default: 5)`,
+                    },
+                    summary: { type: "string" as const, description: "Optional short summary" },
+                    source: { type: "string" as const, description: "Optional origin (agent, URL, conversation id)" },
+                    ttl: { type: "integer" as const, description: "TTL in seconds (optional)" },
                   },
                 },
                 description: "Items to store",
@@ -41,48 +115,101 @@ export class MemoryStore extends StorageWriteLargeEndpoint {
     responses: {
       "200": { description: "Store result" },
       "402": response402,
+      "413": response413,
+      "507": response507,
     },
   };
 
   async handle(c: AppContext) {
     const tokenType = this.getTokenType(c);
-    const body = await this.parseBody<{ items?: Array<{ id: string; text: string; metadata?: Record<string, unknown> }> }>(c);
+    const body = await this.parseBody<{
+      collection?: string;
+      model?: CollectionModel;
+      dimensions?: number;
+      items?: StoreItem[];
+    }>(c);
     if (body instanceof Response) return body;
 
-    const { items } = body;
+    const { collection = DEFAULT_COLLECTION, model, items } = body;
     if (!items || !Array.isArray(items) || items.length === 0) {
       return this.errorResponse(c, "items array is required", 400);
     }
 
     // Validate items
-    for (const item of items) {
+    for (const [index, item] of items.entries()) {
       if (!item.id || !item.text) {
         return this.errorResponse(c, "Each item must have id and text", 400);
       }
+      if (item.embedding !== undefined) {
+        const embeddingError = validateEmbedding(item.embedding, null, `items[${index}].embedding`);
+        if (embeddingError) return this.errorResponse(c, embeddingError, 400);
+      }
+      const fieldsError = validateItemFields(item, `items[${index}]`);
+      if (fieldsError) return this.errorResponse(c, fieldsError, 400);
+    }
+
+    const collectionError = validateCollectionName(collection);
+    if (collectionError) return this.errorResponse(c, collectionError, 400);
+    if (model !== undefined && !isCollectionModel(model)) {
+      return this.errorResponse(c, `model must be one of: ${COLLECTION_MODELS.join(", ")}`, 400);
+    }
+
+    // Custom collections take their vector size from the request (or its first embedding)
+    let dimensions: number | undefined;
+    if (model === CUSTOM_EMBEDDING_MODEL) {
+      if (items.some((item) => item.embedding === undefined)) {
+        return this.errorResponse(c, "Every item needs an embedding in a custom collection", 400);
+      }
+      dimensions = body.dimensions ?? items[0].embedding!.length;
+      if (!Number.isInteger(dimensions) || dimensions < 1 || dimensions > MAX_EMBEDDING_DIMENSIONS) {
+        return this.errorResponse(c, `dimensions must be an integer between 1 and ${MAX_EMBEDDING_DIMENSIONS}`, 400);
+      }
     }
 
-    const storageDO = this.requireStorageDO(c);
+    const storageDO = await this.requireStorageDO(c, { subsystem: "memory", access: "write", names: [collection] });
     if (storageDO instanceof Response) return storageDO;
 
-    // Generate embeddings using Cloudflare AI
-    const env = c.env;
-    const texts = items.map(i => i.text);
+    // Resolve (or declare) the collection's embedding model
+    const resolved = await storageDO.memoryEnsureCollection(collection, model, dimensions);
+    if (!resolved.ok) return this.errorResponse(c, resolved.error, 409);
+
+    // Precomputed embeddings must match the collection's vector size
+    for (const [index, item] of items.entries()) {
+      if (item.embedding === undefined) continue;
+      const embeddingError = validateEmbedding(item.embedding, resolved.dimensions, `items[${index}].embedding`);
+      if (embeddingError) return this.errorResponse(c, embeddingError, 400);
+    }
 
-    let embeddings: number[][];
-    try {
-      const result = await env.AI.run("@cf/baai/bge-base-en-v1.5", { text: texts }) as { data: number[][] };
-      embeddings = result.data;
-    } catch (err) {
-      return this.errorResponse(c, `Embedding generation failed: ${String(err)}`, 500);
+    // Generate embeddings using Cloudflare AI for items without one
+    const toEmbed = items.filter((item) => item.embedding === undefined);
+    const generated = new Map<StoreItem, number[]>();
+    if (toEmbed.length > 0) {
+      if (resolved.model === CUSTOM_EMBEDDING_MODEL) {
+        return this.errorResponse(c, `Collection "${collection}" only accepts precomputed embeddings`, 400);
+      }
+      try {
+        const embeddings = await embedTexts(c.env.AI, resolved.model, toEmbed.map((item) => item.text));
+        toEmbed.forEach((item, i) => generated.set(item, embeddings[i]));
+      } catch (err) {
+        return this.errorResponse(c, `Embedding generation failed: ${String(err)}`, 500);
+      }
     }
 
     // Store items with embeddings
-    const itemsWithEmbeddings = items.map((item, i) => ({
-      ...item,
-      embedding: embeddings[i],
+    const itemsWithEmbeddings: MemoryItemInput[] = items.map((item) => ({
+      id: item.id,
+      text: item.text,
+      metadata: item.metadata,
+      type: item.type,
+      importance: item.importance,
+      summary: item.summary,
+      source: item.source,
+      ttl: item.ttl,
+      embedding: item.embedding ?? generated.get(item)!,
     }));
 
-    const result = await storageDO.memoryStore(itemsWithEmbeddings);
+    const result = await storageDO.memoryStore(collection, itemsWithEmbeddings);
+    if (isStorageQuotaExceeded(result)) return this.quotaExceededResponse(c, result);
 
     // Fire-and-forget safety scan — cap at 10 concurrent to avoid AI rate limits
     const log = c.var.logger;
@@ -94,6 +221,13 @@ export class MemoryStore extends StorageWriteLargeEndpoint {
       ))
     );
 
-    return c.json({ ok: true, ...result, tokenType });
+    return c.json({
+      ok: true,
+      collection,
+      model: resolved.model,
+      ...result,
+      embedded: toEmbed.length,
+      tokenType,
+    });
   }
 }
@@ -3,14 +3,19 @@
  */
 
 import { StorageWriteLargeEndpoint } from "../../base";
-import { tokenTypeParam, response400, response402, stringProp, intProp, okProp, tokenTypeProp } from "../../schema";
+import { tokenTypeParam, response400, response402, response413, response507, stringProp, intProp, boolProp, okProp, tokenTypeProp } from "../../schema";
 import type { AppContext } from "../../../types";
+import type { PasteVisibility } from "../../../durable-objects/StorageDO";
 import { scanAndStore } from "../../../services/safety-scan";
+import { MAX_PASTE_READS, PASTE_VISIBILITIES } from "./shared";
+import { isStorageQuotaExceeded } from "../../../utils/storage-quota";
 
 export class PasteCreate extends StorageWriteLargeEndpoint {
   schema = {
     tags: ["Storage - Paste"],
     summary: "(paid, standard) Create a new paste",
+    description:
+      "Pastes are private by default. Unlisted pastes can be read by anyone with the ID via the free GET /paste/:id; public pastes are also listed at GET /paste. maxReads / burnAfterRead limit those shared reads.",
     requestBody: {
       required: true,
       content: {
@@ -23,6 +28,13 @@ export class PasteCreate extends StorageWriteLargeEndpoint {
               title: { ...stringProp, description: "Optional title" },
               language: { ...stringProp, description: "Programming language for syntax highlighting" },
               ttl: { ...intProp, description: "TTL in seconds (optional)" },
+              visibility: {
+                type: "string" as const,
+                enum: [...PASTE_VISIBILITIES],
+                description: "private (default), unlisted, or public",
+              },
+              maxReads: { ...intProp, description: `Shared reads allowed before the paste is deleted (1-${MAX_PASTE_READS})` },
+              burnAfterRead: { ...boolProp, description: "Delete after the first shared read (same as maxReads: 1)" },
             },
           },
         },
@@ -36,32 +48,84 @@ export class PasteCreate extends StorageWriteLargeEndpoint {
           "application/json": {
             schema: {
               type: "object" as const,
-              properties: { ok: okProp, id: stringProp, createdAt: stringProp, expiresAt: stringProp, tokenType: tokenTypeProp },
+              properties: { ok: okProp, id: stringProp, visibility: stringProp, url: stringProp, createdAt: stringProp, expiresAt: stringProp, tokenType: tokenTypeProp },
             },
           },
         },
       },
       "400": response400,
       "402": response402,
+      "413": response413,
+      "503": { description: "Shared paste index unavailable (nothing was stored)" },
+      "507": response507,
     },
   };
 
   async handle(c: AppContext) {
     const tokenType = this.getTokenType(c);
 
-    const body = await this.parseBody<{ content?: string; title?: string; language?: string; ttl?: number }>(c);
+    const body = await this.parseBody<{
+      content?: string;
+      title?: string;
+      language?: string;
+      ttl?: number;
+      visibility?: string;
+      maxReads?: number;
+      burnAfterRead?: boolean;
+    }>(c);
     if (body instanceof Response) return body;
 
-    const { content, title, language, ttl } = body;
+    const { content, title, language, ttl, visibility = "private", burnAfterRead } = body;
 
     if (!content || typeof content !== "string") {
       return this.errorResponse(c, "content is required", 400);
     }
+    if (!PASTE_VISIBILITIES.includes(visibility as PasteVisibility)) {
+      return this.errorResponse(c, `visibility must be one of: ${PASTE_VISIBILITIES.join(", ")}`, 400);
+    }
+    if (burnAfterRead && body.maxReads !== undefined) {
+      return this.errorResponse(c, "Use maxReads or burnAfterRead, not both", 400);
+    }
+    const maxReads = burnAfterRead ? 1 : body.maxReads;
+    if (maxReads !== undefined) {
+      if (!Number.isInteger(maxReads) || maxReads < 1 || maxReads > MAX_PASTE_READS) {
+        return this.errorResponse(c, `maxReads must be an integer between 1 and ${MAX_PASTE_READS}`, 400);
+      }
+      if (visibility === "private") {
+        return this.errorResponse(c, "Read limits apply to unlisted or public pastes", 400);
+      }
+    }
 
-    const storageDO = this.requireStorageDO(c);
+    const storageDO = await this.requireStorageDO(c, { subsystem: "paste", access: "write" });
     if (storageDO instanceof Response) return storageDO;
 
-    const result = await storageDO.pasteCreate(content, { title, language, ttl });
+    const result = await storageDO.pasteCreate(content, {
+      title,
+      language,
+      ttl,
+      visibility: visibility as PasteVisibility,
+      maxReads,
+    });
+    if (isStorageQuotaExceeded(result)) return this.quotaExceededResponse(c, result);
+
+    // Shared pastes must be in the global index to be readable; undo the create if that fails
+    if (visibility !== "private") {
+      try {
+        await this.getPasteIndex(c).register({
+          id: result.id,
+          owner: this.getStorageOwner(c)!,
+          visibility: visibility as "unlisted" | "public",
+          title: title || null,
+          language: language || null,
+          createdAt: result.createdAt,
+          expiresAt: result.expiresAt,
+        });
+      } catch (error) {
+        c.var.logger.error("Failed to index shared paste", { id: result.id, error: String(error) });
+        await storageDO.pasteDelete(result.id);
+        return this.errorResponse(c, "Shared paste index unavailable, try again", 503);
+      }
+    }
 
     // Fire-and-forget safety scan — never blocks response
     c.executionCtx.waitUntil(
@@ -71,6 +135,8 @@ export class PasteCreate extends StorageWriteLargeEndpoint {
     return c.json({
       ok: true,
       id: result.id,
+      visibility,
+      ...(visibility !== "private" ? { url: `${new URL(c.req.url).origin}/paste/${result.id}` } : {}),
       createdAt: result.createdAt,
       expiresAt: result.expiresAt,
       tokenType,
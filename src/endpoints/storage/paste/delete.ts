@@ -35,10 +35,13 @@ export class PasteDelete extends StorageWriteEndpoint {
       return this.errorResponse(c, "id parameter is required", 400);
     }
 
-    const storageDO = this.requireStorageDO(c);
+    const storageDO = await this.requireStorageDO(c, { subsystem: "paste", access: "write" });
     if (storageDO instanceof Response) return storageDO;
 
     const result = await storageDO.pasteDelete(id);
+    if (result.shared) {
+      await this.getPasteIndex(c).remove(id, this.getStorageOwner(c)!);
+    }
 
     return c.json({
       ok: true,
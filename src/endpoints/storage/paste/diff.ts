@@ -0,0 +1,93 @@
+/**
+ * Paste Diff Endpoint
+ */
+
+import { StorageReadEndpoint } from "../../base";
+import { tokenTypeParam, pathParam, response400, response402, stringProp, intProp, okProp, tokenTypeProp } from "../../schema";
+import type { AppContext } from "../../../types";
+import { diffLines, formatUnifiedDiff, splitLines } from "../../../utils/line-diff";
+import { parseVersion, versionQueryParam } from "./version";
+
+export class PasteDiff extends StorageReadEndpoint {
+  schema = {
+    tags: ["Storage - Paste"],
+    summary: "(paid, storage_read) Line diff between two versions of a paste",
+    description: "Returns a unified diff. Defaults compare the current version with the one before it.",
+    parameters: [
+      pathParam("id", "Paste ID"),
+      versionQueryParam("from", "Old version (default: to - 1)"),
+      versionQueryParam("to", "New version (default: current)"),
+      tokenTypeParam,
+    ],
+    responses: {
+      "200": {
+        description: "Unified diff",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object" as const,
+              properties: {
+                ok: okProp,
+                id: stringProp,
+                from: intProp,
+                to: intProp,
+                added: intProp,
+                removed: intProp,
+                diff: { ...stringProp, description: "Unified diff text (empty when identical)" },
+                tokenType: tokenTypeProp,
+              },
+            },
+          },
+        },
+      },
+      "400": response400,
+      "402": response402,
+      "404": { description: "Paste or version not found" },
+    },
+  };
+
+  async handle(c: AppContext) {
+    const tokenType = this.getTokenType(c);
+    const id = c.req.param("id");
+
+    if (!id) {
+      return this.errorResponse(c, "id parameter is required", 400);
+    }
+    const fromParam = parseVersion(c.req.query("from"), "from");
+    if (typeof fromParam === "object") return this.errorResponse(c, fromParam.error, 400);
+    const toParam = parseVersion(c.req.query("to"), "to");
+    if (typeof toParam === "object") return this.errorResponse(c, toParam.error, 400);
+
+    const storageDO = await this.requireStorageDO(c, { subsystem: "paste", access: "read" });
+    if (storageDO instanceof Response) return storageDO;
+
+    const newer = await storageDO.pasteGet(id, toParam);
+    if (!newer) {
+      const what = toParam === undefined ? `Paste '${id}'` : `Version ${toParam} of paste '${id}'`;
+      return this.errorResponse(c, `${what} not found`, 404);
+    }
+
+    const from = fromParam ?? newer.version - 1;
+    if (from < 1) {
+      return this.errorResponse(c, `Paste '${id}' has no version before ${newer.version}`, 400);
+    }
+    const older = await storageDO.pasteGet(id, from);
+    if (!older) {
+      return this.errorResponse(c, `Version ${from} of paste '${id}' not found`, 404);
+    }
+
+    const lines = diffLines(splitLines(older.content), splitLines(newer.content));
+    const diff = formatUnifiedDiff(lines, { from: `${id}@${from}`, to: `${id}@${newer.version}` });
+
+    return c.json({
+      ok: true,
+      id,
+      from,
+      to: newer.version,
+      added: lines.filter((line) => line.op === "+").length,
+      removed: lines.filter((line) => line.op === "-").length,
+      diff,
+      tokenType,
+    });
+  }
+}
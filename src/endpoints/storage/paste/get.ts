@@ -3,14 +3,19 @@
  */
 
 import { StorageReadEndpoint } from "../../base";
-import { tokenTypeParam, pathParam, response402, stringProp, okProp, tokenTypeProp } from "../../schema";
+import { tokenTypeParam, pathParam, response400, response402, stringProp, intProp, okProp, tokenTypeProp } from "../../schema";
 import type { AppContext } from "../../../types";
+import { parseVersion, versionQueryParam } from "./version";
 
 export class PasteGet extends StorageReadEndpoint {
   schema = {
     tags: ["Storage - Paste"],
     summary: "(paid, storage_read) Get a paste by ID",
-    parameters: [pathParam("id", "Paste ID"), tokenTypeParam],
+    parameters: [
+      pathParam("id", "Paste ID"),
+      versionQueryParam("version", "Earlier version to read (default: current)"),
+      tokenTypeParam,
+    ],
     responses: {
       "200": {
         description: "Paste retrieved",
@@ -18,13 +23,14 @@ export class PasteGet extends StorageReadEndpoint {
           "application/json": {
             schema: {
               type: "object" as const,
-              properties: { ok: okProp, id: stringProp, content: stringProp, title: stringProp, language: stringProp, createdAt: stringProp, expiresAt: stringProp, tokenType: tokenTypeProp },
+              properties: { ok: okProp, id: stringProp, content: stringProp, title: stringProp, language: stringProp, version: intProp, createdAt: stringProp, updatedAt: stringProp, expiresAt: stringProp, tokenType: tokenTypeProp },
             },
           },
         },
       },
+      "400": response400,
       "402": response402,
-      "404": { description: "Paste not found" },
+      "404": { description: "Paste or version not found" },
     },
   };
 
@@ -35,14 +41,19 @@ export class PasteGet extends StorageReadEndpoint {
     if (!id) {
       return this.errorResponse(c, "id parameter is required", 400);
     }
+    const version = parseVersion(c.req.query("version"), "version");
+    if (typeof version === "object") {
+      return this.errorResponse(c, version.error, 400);
+    }
 
-    const storageDO = this.requireStorageDO(c);
+    const storageDO = await this.requireStorageDO(c, { subsystem: "paste", access: "read" });
     if (storageDO instanceof Response) return storageDO;
 
-    const result = await storageDO.pasteGet(id);
+    const result = await storageDO.pasteGet(id, version);
 
     if (!result) {
-      return this.errorResponse(c, `Paste '${id}' not found`, 404);
+      const what = version === undefined ? `Paste '${id}'` : `Version ${version} of paste '${id}'`;
+      return this.errorResponse(c, `${what} not found`, 404);
     }
 
     return c.json({
@@ -1,3 +1,10 @@
 export { PasteCreate } from "./create";
 export { PasteGet } from "./get";
+export { PasteUpdate } from "./update";
 export { PasteDelete } from "./delete";
+export { PasteRevisions } from "./revisions";
+export { PasteDiff } from "./diff";
+export { PasteRaw } from "./raw";
+export { SharedPasteGet } from "./shared-get";
+export { SharedPasteRaw } from "./shared-raw";
+export { SharedPasteList } from "./shared-list";
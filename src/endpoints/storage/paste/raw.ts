@@ -0,0 +1,86 @@
+/**
+ * Paste Raw Endpoint
+ */
+
+import { StorageReadEndpoint } from "../../base";
+import { tokenTypeParam, pathParam, response400, response402 } from "../../schema";
+import type { AppContext } from "../../../types";
+import { parseVersion, versionQueryParam } from "./version";
+
+/** Content types by paste language (anything else is served as text/plain) */
+const LANGUAGE_CONTENT_TYPES: Record<string, string> = {
+  json: "application/json",
+  html: "text/html",
+  xml: "application/xml",
+  svg: "image/svg+xml",
+  css: "text/css",
+  csv: "text/csv",
+  markdown: "text/markdown",
+  md: "text/markdown",
+  javascript: "text/javascript",
+  js: "text/javascript",
+  typescript: "text/x-typescript",
+  ts: "text/x-typescript",
+  yaml: "application/yaml",
+  yml: "application/yaml",
+  toml: "application/toml",
+};
+
+/**
+ * Serve paste content as a document typed by its language
+ */
+export function rawPasteResponse(paste: { content: string; language: string | null; version: number }): Response {
+  const contentType = LANGUAGE_CONTENT_TYPES[paste.language?.toLowerCase() ?? ""] ?? "text/plain";
+  return new Response(paste.content, {
+    headers: {
+      "Content-Type": `${contentType}; charset=utf-8`,
+      "X-Content-Type-Options": "nosniff",
+      // Paste content is untrusted: never let HTML/SVG run scripts on this origin
+      "Content-Security-Policy": "sandbox",
+      "X-Paste-Version": String(paste.version),
+    },
+  });
+}
+
+export class PasteRaw extends StorageReadEndpoint {
+  schema = {
+    tags: ["Storage - Paste"],
+    summary: "(paid, storage_read) Get paste content as a raw document",
+    description:
+      "Returns only the content, with a Content-Type chosen from the paste's language (text/plain otherwise). Active content is sandboxed.",
+    parameters: [
+      pathParam("id", "Paste ID"),
+      versionQueryParam("version", "Earlier version to read (default: current)"),
+      tokenTypeParam,
+    ],
+    responses: {
+      "200": { description: "Raw paste content" },
+      "400": response400,
+      "402": response402,
+      "404": { description: "Paste or version not found" },
+    },
+  };
+
+  async handle(c: AppContext) {
+    const id = c.req.param("id");
+
+    if (!id) {
+      return this.errorResponse(c, "id parameter is required", 400);
+    }
+    const version = parseVersion(c.req.query("version"), "version");
+    if (typeof version === "object") {
+      return this.errorResponse(c, version.error, 400);
+    }
+
+    const storageDO = await this.requireStorageDO(c, { subsystem: "paste", access: "read" });
+    if (storageDO instanceof Response) return storageDO;
+
+    const paste = await storageDO.pasteGet(id, version);
+    if (!paste) {
+      const what = version === undefined ? `Paste '${id}'` : `Version ${version} of paste '${id}'`;
+      return this.errorResponse(c, `${what} not found`, 404);
+    }
+
+    return rawPasteResponse(paste);
+  }
+}
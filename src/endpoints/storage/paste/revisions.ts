@@ -0,0 +1,75 @@
+/**
+ * Paste Revisions Endpoint
+ */
+
+import { StorageReadEndpoint } from "../../base";
+import { tokenTypeParam, pathParam, response402, stringProp, intProp, boolProp, okProp, tokenTypeProp } from "../../schema";
+import type { AppContext } from "../../../types";
+
+export class PasteRevisions extends StorageReadEndpoint {
+  schema = {
+    tags: ["Storage - Paste"],
+    summary: "(paid, storage_read) List the versions of a paste",
+    description: "Newest first. Read an older version with GET /storage/paste/:id?version=N.",
+    parameters: [pathParam("id", "Paste ID"), tokenTypeParam],
+    responses: {
+      "200": {
+        description: "Paste versions",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object" as const,
+              properties: {
+                ok: okProp,
+                id: stringProp,
+                revisions: {
+                  type: "array" as const,
+                  items: {
+                    type: "object" as const,
+                    properties: {
+                      version: intProp,
+                      title: stringProp,
+                      language: stringProp,
+                      size: intProp,
+                      savedAt: stringProp,
+                      current: boolProp,
+                    },
+                  },
+                },
+                count: intProp,
+                tokenType: tokenTypeProp,
+              },
+            },
+          },
+        },
+      },
+      "402": response402,
+      "404": { description: "Paste not found" },
+    },
+  };
+
+  async handle(c: AppContext) {
+    const tokenType = this.getTokenType(c);
+    const id = c.req.param("id");
+
+    if (!id) {
+      return this.errorResponse(c, "id parameter is required", 400);
+    }
+
+    const storageDO = await this.requireStorageDO(c, { subsystem: "paste", access: "read" });
+    if (storageDO instanceof Response) return storageDO;
+
+    const revisions = await storageDO.pasteRevisions(id);
+    if (!revisions) {
+      return this.errorResponse(c, `Paste '${id}' not found`, 404);
+    }
+
+    return c.json({
+      ok: true,
+      id,
+      revisions,
+      count: revisions.length,
+      tokenType,
+    });
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Shared Paste Get Endpoint
+ */
+
+import { FreeEndpoint } from "../../base";
+import { pathParam, stringProp, intProp, boolProp, okProp } from "../../schema";
+import type { AppContext } from "../../../types";
+import { readSharedPaste, sharedPasteView } from "./shared";
+
+export class SharedPasteGet extends FreeEndpoint {
+  schema = {
+    tags: ["Paste - Shared"],
+    summary: "(free) Read an unlisted or public paste by ID",
+    description:
+      "Works for any caller, with or without payment. Each read counts against the paste's read limit; the last allowed read deletes it (burned: true).",
+    parameters: [pathParam("id", "Shared paste ID")],
+    responses: {
+      "200": {
+        description: "Paste content",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object" as const,
+              properties: {
+                ok: okProp,
+                id: stringProp,
+                content: stringProp,
+                title: stringProp,
+                language: stringProp,
+                version: intProp,
+                visibility: stringProp,
+                createdAt: stringProp,
+                updatedAt: stringProp,
+                expiresAt: stringProp,
+                readsRemaining: intProp,
+                burned: boolProp,
+              },
+            },
+          },
+        },
+      },
+      "404": { description: "No shared paste with this ID" },
+    },
+  };
+
+  async handle(c: AppContext) {
+    const id = c.req.param("id");
+
+    if (!id) {
+      return this.errorResponse(c, "id parameter is required", 400);
+    }
+
+    const paste = await readSharedPaste(c.env, this.getPasteIndex(c), id);
+    if (!paste) {
+      return this.errorResponse(c, `Paste '${id}' not found`, 404);
+    }
+
+    return c.json({ ok: true, ...sharedPasteView(paste) });
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Shared Paste List Endpoint
+ */
+
+import { FreeEndpoint } from "../../base";
+import { queryParamString, queryParamInt, response400, stringProp, okProp } from "../../schema";
+import type { AppContext } from "../../../types";
+import { decodeCursor, encodeCursor } from "../../../utils/cursor";
+
+const MAX_LIST_LIMIT = 100;
+
+export class SharedPasteList extends FreeEndpoint {
+  schema = {
+    tags: ["Paste - Shared"],
+    summary: "(free) List public pastes",
+    description: "Newest first. Unlisted pastes are not listed. Page with nextCursor.",
+    parameters: [
+      queryParamInt("limit", `Max results to return (max ${MAX_LIST_LIMIT})`, 20),
+      queryParamString("cursor", "nextCursor from the previous page"),
+    ],
+    responses: {
+      "200": {
+        description: "Public pastes (metadata only)",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object" as const,
+              properties: {
+                ok: okProp,
+                pastes: { type: "array" as const, items: { type: "object" as const } },
+                nextCursor: stringProp,
+              },
+            },
+          },
+        },
+      },
+      "400": response400,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const limit = parseInt(c.req.query("limit") || "20", 10);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+      return this.errorResponse(c, `limit must be between 1 and ${MAX_LIST_LIMIT}`, 400);
+    }
+
+    let before: { createdAt: string; id: string } | undefined;
+    const cursor = c.req.query("cursor");
+    if (cursor) {
+      const position = decodeCursor(cursor);
+      if (!position || typeof position.t !== "string" || typeof position.i !== "string") {
+        return this.errorResponse(c, "Invalid cursor", 400);
+      }
+      before = { createdAt: position.t, id: position.i };
+    }
+
+    const result = await this.getPasteIndex(c).listPublic({ limit, before });
+
+    return c.json({
+      ok: true,
+      pastes: result.pastes,
+      nextCursor: result.next ? encodeCursor({ t: result.next.createdAt, i: result.next.id }) : null,
+    });
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Shared Paste Raw Endpoint
+ */
+
+import { FreeEndpoint } from "../../base";
+import { pathParam } from "../../schema";
+import type { AppContext } from "../../../types";
+import { readSharedPaste } from "./shared";
+import { rawPasteResponse } from "./raw";
+
+export class SharedPasteRaw extends FreeEndpoint {
+  schema = {
+    tags: ["Paste - Shared"],
+    summary: "(free) Raw content of an unlisted or public paste",
+    description: "Like /paste/:id, but returns only the content, typed by the paste's language. Counts as a read.",
+    parameters: [pathParam("id", "Shared paste ID")],
+    responses: {
+      "200": { description: "Raw paste content" },
+      "404": { description: "No shared paste with this ID" },
+    },
+  };
+
+  async handle(c: AppContext) {
+    const id = c.req.param("id");
+
+    if (!id) {
+      return this.errorResponse(c, "id parameter is required", 400);
+    }
+
+    const paste = await readSharedPaste(c.env, this.getPasteIndex(c), id);
+    if (!paste) {
+      return this.errorResponse(c, `Paste '${id}' not found`, 404);
+    }
+
+    return rawPasteResponse(paste);
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Shared Paste Helpers
+ *
+ * Reads of unlisted/public pastes by ID, for callers who do not own them:
+ * the global PasteIndexDO names the owner, and the read goes to the owner's
+ * StorageDO (which enforces read limits).
+ */
+
+import type { Env } from "../../../types";
+import type { PasteEntry, PasteVisibility } from "../../../durable-objects/StorageDO";
+import type { PasteIndexDO } from "../../../durable-objects/PasteIndexDO";
+
+export const PASTE_VISIBILITIES = ["private", "unlisted", "public"] as const satisfies readonly PasteVisibility[];
+
+/** Largest read limit for a shared paste */
+export const MAX_PASTE_READS = 1000;
+
+/**
+ * Read a shared paste, counting the read. Returns null when the ID is not
+ * shared (or no longer exists); index entries for burned or vanished pastes
+ * are removed on the way.
+ */
+export async function readSharedPaste(
+  env: Env,
+  index: DurableObjectStub<PasteIndexDO>,
+  id: string
+): Promise<(PasteEntry & { burned: boolean }) | null> {
+  const entry = await index.lookup(id);
+  if (!entry) return null;
+
+  const ownerDO = env.STORAGE_DO.get(env.STORAGE_DO.idFromName(entry.owner));
+  const paste = await ownerDO.pasteReadShared(id);
+  if (!paste || paste.burned) {
+    await index.remove(id, entry.owner);
+  }
+  return paste;
+}
+
+/**
+ * Public view of a shared paste (no owner address, read counters as "remaining")
+ */
+export function sharedPasteView(paste: PasteEntry & { burned: boolean }) {
+  return {
+    id: paste.id,
+    content: paste.content,
+    title: paste.title,
+    language: paste.language,
+    version: paste.version,
+    visibility: paste.visibility,
+    createdAt: paste.createdAt,
+    updatedAt: paste.updatedAt,
+    expiresAt: paste.expiresAt,
+    readsRemaining: paste.maxReads === null ? null : Math.max(0, paste.maxReads - paste.readCount),
+    burned: paste.burned,
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * Paste Update Endpoint
+ */
+
+import { StorageWriteLargeEndpoint } from "../../base";
+import { tokenTypeParam, pathParam, response400, response402, response413, response507, stringProp, intProp, okProp, tokenTypeProp } from "../../schema";
+import type { AppContext } from "../../../types";
+import { scanAndStore } from "../../../services/safety-scan";
+import { isStorageQuotaExceeded } from "../../../utils/storage-quota";
+
+export class PasteUpdate extends StorageWriteLargeEndpoint {
+  schema = {
+    tags: ["Storage - Paste"],
+    summary: "(paid, standard) Update a paste, keeping its history",
+    description:
+      "Replaces the content (and optionally title/language) under the same ID. The previous version stays readable via ?version=N and /revisions. Omitted title/language keep their current values; ttl resets the expiry.",
+    requestBody: {
+      required: true,
+      content: {
+        "application/json": {
+          schema: {
+            type: "object" as const,
+            required: ["content"],
+            properties: {
+              content: { ...stringProp, description: "New paste content" },
+              title: { ...stringProp, description: "New title (empty string clears it)" },
+              language: { ...stringProp, description: "New language (empty string clears it)" },
+              ttl: { ...intProp, description: "TTL in seconds from now (optional)" },
+              ifMatch: { ...intProp, description: "Only update if the current version is this one; otherwise 412" },
+            },
+          },
+        },
+      },
+    },
+    parameters: [pathParam("id", "Paste ID"), tokenTypeParam],
+    responses: {
+      "200": {
+        description: "Paste updated",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object" as const,
+              properties: { ok: okProp, id: stringProp, version: intProp, updatedAt: stringProp, expiresAt: stringProp, tokenType: tokenTypeProp },
+            },
+          },
+        },
+      },
+      "400": response400,
+      "402": response402,
+      "404": { description: "Paste not found" },
+      "412": { description: "ifMatch did not match the current version" },
+      "413": response413,
+      "503": { description: "Paste updated (version in the body), but the shared paste index could not be refreshed" },
+      "507": response507,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const tokenType = this.getTokenType(c);
+    const id = c.req.param("id");
+
+    if (!id) {
+      return this.errorResponse(c, "id parameter is required", 400);
+    }
+
+    const body = await this.parseBody<{
+      content?: string;
+      title?: string;
+      language?: string;
+      ttl?: number;
+      ifMatch?: number;
+    }>(c);
+    if (body instanceof Response) return body;
+
+    const { content, title, language, ttl, ifMatch } = body;
+
+    if (!content || typeof content !== "string") {
+      return this.errorResponse(c, "content is required", 400);
+    }
+    if (ttl !== undefined && (!Number.isInteger(ttl) || ttl <= 0)) {
+      return this.errorResponse(c, "ttl must be a positive integer (seconds)", 400);
+    }
+    if (ifMatch !== undefined && (!Number.isInteger(ifMatch) || ifMatch < 1)) {
+      return this.errorResponse(c, "ifMatch must be a positive integer version", 400);
+    }
+
+    const storageDO = await this.requireStorageDO(c, { subsystem: "paste", access: "write" });
+    if (storageDO instanceof Response) return storageDO;
+
+    const result = await storageDO.pasteUpdate(id, content, { title, language, ttl, ifMatch });
+    if (isStorageQuotaExceeded(result)) return this.quotaExceededResponse(c, result);
+    if (!result) {
+      return this.errorResponse(c, `Paste '${id}' not found`, 404);
+    }
+    if (!result.ok) {
+      return this.errorResponse(c, `Paste '${id}' is at version ${result.currentVersion}`, 412, {
+        currentVersion: result.currentVersion,
+      });
+    }
+
+    // Keep the shared index's title/language/expiry in step. The update is
+    // already stored, so a failure is reported rather than undone.
+    if (result.visibility !== "private") {
+      try {
+        await this.getPasteIndex(c).register({
+          id,
+          owner: this.getStorageOwner(c)!,
+          visibility: result.visibility,
+          title: result.title,
+          language: result.language,
+          createdAt: result.createdAt,
+          expiresAt: result.expiresAt,
+        });
+      } catch (error) {
+        c.var.logger.error("Failed to re-index shared paste", { id, error: String(error) });
+        return this.errorResponse(
+          c,
+          "Paste updated, but the shared paste index is unavailable; update again to refresh it",
+          503,
+          { id, version: result.version }
+        );
+      }
+    }
+
+    // Fire-and-forget safety scan — never blocks response
+    c.executionCtx.waitUntil(
+      scanAndStore(c.env.AI, storageDO, id, "paste", content, c.var.logger)
+    );
+
+    return c.json({
+      ok: true,
+      id,
+      version: result.version,
+      updatedAt: result.updatedAt,
+      expiresAt: result.expiresAt,
+      tokenType,
+    });
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Paste Version Helpers
+ *
+ * Shared query parameter schema and parsing for reading a paste at an
+ * earlier version.
+ */
+
+/** Optional `?version=N` query parameter */
+export function versionQueryParam(name: string, description: string) {
+  return {
+    name,
+    in: "query" as const,
+    required: false,
+    schema: { type: "integer" as const, minimum: 1 },
+    description,
+  };
+}
+
+/**
+ * Parse a version query value. Returns undefined when absent, or an error
+ * message when it is not a positive integer.
+ */
+export function parseVersion(value: string | undefined, label: string): number | undefined | { error: string } {
+  if (value === undefined || value === "") return undefined;
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 1) {
+    return { error: `${label} must be a positive integer` };
+  }
+  return version;
+}
@@ -0,0 +1,58 @@
+/**
+ * Queue Ack Endpoint
+ */
+import { StorageWriteEndpoint } from "../../base";
+import { tokenTypeParam, response402 } from "../../schema";
+import type { AppContext } from "../../../types";
+
+export class QueueAck extends StorageWriteEndpoint {
+  schema = {
+    tags: ["Storage - Queue"],
+    summary: "(paid, storage_write) Acknowledge and delete leased items",
+    requestBody: {
+      required: true,
+      content: {
+        "application/json": {
+          schema: {
+            type: "object" as const,
+            required: ["name", "ids"],
+            properties: {
+              name: { type: "string" as const, description: "Queue name" },
+              ids: {
+                type: "array" as const,
+                items: { type: "string" as const },
+                description: "Leased job IDs returned by pop (max 100)",
+              },
+            },
+          },
+        },
+      },
+    },
+    parameters: [tokenTypeParam],
+    responses: {
+      "200": { description: "Ack result (only currently leased IDs are acked)" },
+      "402": response402,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const tokenType = this.getTokenType(c);
+    const body = await this.parseBody<{ name?: string; ids?: string[] }>(c);
+    if (body instanceof Response) return body;
+
+    const { name, ids } = body;
+    if (!name) return this.errorResponse(c, "name is required", 400);
+    if (!ids || !Array.isArray(ids) || ids.length === 0) {
+      return this.errorResponse(c, "ids array is required", 400);
+    }
+    if (ids.length > 100) {
+      return this.errorResponse(c, "Maximum 100 ids per request", 400);
+    }
+
+    const storageDO = await this.requireStorageDO(c, { subsystem: "queue", access: "write", names: [name] });
+    if (storageDO instanceof Response) return storageDO;
+
+    const result = await storageDO.queueAck(name, ids);
+    return c.json({ ok: true, ...result, tokenType });
+  }
+}
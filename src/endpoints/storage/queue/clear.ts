@@ -39,7 +39,7 @@ export class QueueClear extends StorageWriteEndpoint {
     const { name } = body;
     if (!name) return this.errorResponse(c, "name is required", 400);
 
-    const storageDO = this.requireStorageDO(c);
+    const storageDO = await this.requireStorageDO(c, { subsystem: "queue", access: "write", names: [name] });
     if (storageDO instanceof Response) return storageDO;
 
     const result = await storageDO.queueClear(name);
@@ -0,0 +1,54 @@
+/**
+ * Queue Dead-Letter List Endpoint
+ */
+import { StorageReadEndpoint } from "../../base";
+import { tokenTypeParam, response402 } from "../../schema";
+import type { AppContext } from "../../../types";
+import type { JobHistoryEntry } from "../../../durable-objects/StorageDO";
+
+export class QueueDead extends StorageReadEndpoint {
+  schema = {
+    tags: ["Storage - Queue"],
+    summary: "(paid, storage_read) List dead-lettered jobs with their attempt history",
+    parameters: [
+      { name: "name", in: "query" as const, required: true, schema: { type: "string" as const } },
+      { name: "limit", in: "query" as const, required: false, schema: { type: "integer" as const, default: 100 } },
+      { name: "offset", in: "query" as const, required: false, schema: { type: "integer" as const, default: 0 } },
+      tokenTypeParam,
+    ],
+    responses: {
+      "200": { description: "Dead-lettered jobs" },
+      "402": response402,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const tokenType = this.getTokenType(c);
+    const name = c.req.query("name");
+    const limit = parseInt(c.req.query("limit") || "100", 10);
+    const offset = parseInt(c.req.query("offset") || "0", 10);
+
+    if (!name) return this.errorResponse(c, "name is required", 400);
+    if (Number.isNaN(limit) || Number.isNaN(offset)) {
+      return this.errorResponse(c, "limit and offset must be integers", 400);
+    }
+
+    const storageDO = await this.requireStorageDO(c, { subsystem: "queue", access: "read", names: [name] });
+    if (storageDO instanceof Response) return storageDO;
+
+    const result = await storageDO.queueDead(name, { limit, offset }) as {
+      items: Array<{
+        id: string;
+        data: unknown;
+        attempt: number;
+        maxAttempts: number;
+        error: string | null;
+        history: JobHistoryEntry[];
+        createdAt: string;
+        failedAt: string | null;
+      }>;
+      total: number;
+    };
+    return c.json({ ok: true, name, items: result.items, total: result.total, tokenType });
+  }
+}
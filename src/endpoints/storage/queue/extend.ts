@@ -0,0 +1,63 @@
+/**
+ * Queue Extend Endpoint
+ */
+import { StorageWriteEndpoint } from "../../base";
+import { tokenTypeParam, response402 } from "../../schema";
+import type { AppContext } from "../../../types";
+
+export class QueueExtend extends StorageWriteEndpoint {
+  schema = {
+    tags: ["Storage - Queue"],
+    summary: "(paid, storage_write) Extend the lease on items still being processed",
+    requestBody: {
+      required: true,
+      content: {
+        "application/json": {
+          schema: {
+            type: "object" as const,
+            required: ["name", "ids"],
+            properties: {
+              name: { type: "string" as const, description: "Queue name" },
+              ids: {
+                type: "array" as const,
+                items: { type: "string" as const },
+                description: "Leased job IDs returned by pop (max 100)",
+              },
+              visibilityTimeout: {
+                type: "integer" as const,
+                description: "New lease length in seconds from now (1-43200, default 30)",
+                default: 30,
+              },
+            },
+          },
+        },
+      },
+    },
+    parameters: [tokenTypeParam],
+    responses: {
+      "200": { description: "Extend result with new lease expiry" },
+      "402": response402,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const tokenType = this.getTokenType(c);
+    const body = await this.parseBody<{ name?: string; ids?: string[]; visibilityTimeout?: number }>(c);
+    if (body instanceof Response) return body;
+
+    const { name, ids, visibilityTimeout } = body;
+    if (!name) return this.errorResponse(c, "name is required", 400);
+    if (!ids || !Array.isArray(ids) || ids.length === 0) {
+      return this.errorResponse(c, "ids array is required", 400);
+    }
+    if (ids.length > 100) {
+      return this.errorResponse(c, "Maximum 100 ids per request", 400);
+    }
+
+    const storageDO = await this.requireStorageDO(c, { subsystem: "queue", access: "write", names: [name] });
+    if (storageDO instanceof Response) return storageDO;
+
+    const result = await storageDO.queueExtend(name, ids, { visibilityTimeout });
+    return c.json({ ok: true, ...result, tokenType });
+  }
+}
@@ -3,3 +3,8 @@ export { QueuePop } from "./pop";
 export { QueuePeek } from "./peek";
 export { QueueStatus } from "./status";
 export { QueueClear } from "./clear";
+export { QueueAck } from "./ack";
+export { QueueNack } from "./nack";
+export { QueueExtend } from "./extend";
+export { QueueDead } from "./dead";
+export { QueueRedrive } from "./redrive";
@@ -0,0 +1,72 @@
+/**
+ * Queue Nack Endpoint
+ */
+import { StorageWriteEndpoint } from "../../base";
+import { tokenTypeParam, response402 } from "../../schema";
+import type { AppContext } from "../../../types";
+
+export class QueueNack extends StorageWriteEndpoint {
+  schema = {
+    tags: ["Storage - Queue"],
+    summary: "(paid, storage_write) Return leased items to the queue after a failure",
+    requestBody: {
+      required: true,
+      content: {
+        "application/json": {
+          schema: {
+            type: "object" as const,
+            required: ["name", "ids"],
+            properties: {
+              name: { type: "string" as const, description: "Queue name" },
+              ids: {
+                type: "array" as const,
+                items: { type: "string" as const },
+                description: "Leased job IDs returned by pop (max 100)",
+              },
+              error: { type: "string" as const, description: "Failure reason recorded on the job" },
+              delaySeconds: {
+                type: "integer" as const,
+                description: "Seconds before the job becomes available again (default 0)",
+                default: 0,
+              },
+            },
+          },
+        },
+      },
+    },
+    parameters: [tokenTypeParam],
+    responses: {
+      "200": { description: "Requeued and dead-lettered job IDs" },
+      "402": response402,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const tokenType = this.getTokenType(c);
+    const body = await this.parseBody<{
+      name?: string;
+      ids?: string[];
+      error?: string;
+      delaySeconds?: number;
+    }>(c);
+    if (body instanceof Response) return body;
+
+    const { name, ids, error, delaySeconds } = body;
+    if (!name) return this.errorResponse(c, "name is required", 400);
+    if (!ids || !Array.isArray(ids) || ids.length === 0) {
+      return this.errorResponse(c, "ids array is required", 400);
+    }
+    if (ids.length > 100) {
+      return this.errorResponse(c, "Maximum 100 ids per request", 400);
+    }
+    if (error !== undefined && typeof error !== "string") {
+      return this.errorResponse(c, "error must be a string", 400);
+    }
+
+    const storageDO = await this.requireStorageDO(c, { subsystem: "queue", access: "write", names: [name] });
+    if (storageDO instanceof Response) return storageDO;
+
+    const result = await storageDO.queueNack(name, ids, { error, delaySeconds });
+    return c.json({ ok: true, ...result, tokenType });
+  }
+}
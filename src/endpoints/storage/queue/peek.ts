@@ -27,11 +27,11 @@ export class QueuePeek extends StorageReadEndpoint {
 
     if (!name) return this.errorResponse(c, "name is required", 400);
 
-    const storageDO = this.requireStorageDO(c);
+    const storageDO = await this.requireStorageDO(c, { subsystem: "queue", access: "read", names: [name] });
     if (storageDO instanceof Response) return storageDO;
 
     const result = await storageDO.queuePeek(name, count) as {
-      items: Array<{ id: string; data: unknown; priority: number }>;
+      items: Array<{ id: string; data: unknown; priority: number; availableAt: string }>;
       count: number;
     };
     return c.json({ ok: true, items: result.items, count: result.count, tokenType });
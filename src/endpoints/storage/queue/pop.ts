@@ -8,7 +8,7 @@ import type { AppContext } from "../../../types";
 export class QueuePop extends StorageWriteEndpoint {
   schema = {
     tags: ["Storage - Queue"],
-    summary: "(paid, storage_write) Pop items from a queue",
+    summary: "(paid, storage_write) Lease items from a queue (ack/nack to finish)",
     requestBody: {
       required: true,
       content: {
@@ -23,6 +23,11 @@ export class QueuePop extends StorageWriteEndpoint {
                 description: "Number of items to pop",
                 default: 1,
               },
+              visibilityTimeout: {
+                type: "integer" as const,
+                description: "Seconds before unacked items return to the queue (1-43200, default 30)",
+                default: 30,
+              },
             },
           },
         },
@@ -30,24 +35,24 @@ export class QueuePop extends StorageWriteEndpoint {
     },
     parameters: [tokenTypeParam],
     responses: {
-      "200": { description: "Popped items" },
+      "200": { description: "Leased items with lease expiry" },
       "402": response402,
     },
   };
 
   async handle(c: AppContext) {
     const tokenType = this.getTokenType(c);
-    const body = await this.parseBody<{ name?: string; count?: number }>(c);
+    const body = await this.parseBody<{ name?: string; count?: number; visibilityTimeout?: number }>(c);
     if (body instanceof Response) return body;
 
-    const { name, count = 1 } = body;
+    const { name, count = 1, visibilityTimeout } = body;
     if (!name) return this.errorResponse(c, "name is required", 400);
 
-    const storageDO = this.requireStorageDO(c);
+    const storageDO = await this.requireStorageDO(c, { subsystem: "queue", access: "write", names: [name] });
     if (storageDO instanceof Response) return storageDO;
 
-    const result = await storageDO.queuePop(name, count) as {
-      items: Array<{ id: string; data: unknown }>;
+    const result = await storageDO.queuePop(name, count, { visibilityTimeout }) as {
+      items: Array<{ id: string; data: unknown; attempt: number; maxAttempts: number; leaseExpiresAt: string }>;
       count: number;
     };
     return c.json({ ok: true, items: result.items, count: result.count, tokenType });
@@ -2,8 +2,51 @@
  * Queue Push Endpoint
  */
 import { StorageWriteEndpoint } from "../../base";
-import { tokenTypeParam, response402 } from "../../schema";
+import { tokenTypeParam, response402, response413, response507 } from "../../schema";
 import type { AppContext } from "../../../types";
+import type { QueueJobInput } from "../../../durable-objects/StorageDO";
+import { isStorageQuotaExceeded } from "../../../utils/storage-quota";
+
+const MAX_DELAY_SECONDS = 30 * 24 * 60 * 60;
+const MAX_DEDUP_KEY_LENGTH = 256;
+
+type JobOptions = Omit<QueueJobInput, "data">;
+
+/**
+ * Validate scheduling/retry options shared by top-level defaults and per-job envelopes.
+ * Returns an error message, or null when valid.
+ */
+function validateJobOptions(options: JobOptions, label: string): string | null {
+  const { delaySeconds, runAt, maxAttempts, dedupKey } = options;
+
+  if (delaySeconds !== undefined) {
+    if (typeof delaySeconds !== "number" || delaySeconds < 0 || delaySeconds > MAX_DELAY_SECONDS) {
+      return `${label}delaySeconds must be a number between 0 and ${MAX_DELAY_SECONDS}`;
+    }
+  }
+  if (runAt !== undefined) {
+    if (typeof runAt !== "string" || Number.isNaN(Date.parse(runAt))) {
+      return `${label}runAt must be an ISO 8601 timestamp`;
+    }
+    if (Date.parse(runAt) > Date.now() + MAX_DELAY_SECONDS * 1000) {
+      return `${label}runAt must be within ${MAX_DELAY_SECONDS / 86400} days`;
+    }
+    if (delaySeconds !== undefined) {
+      return `${label}specify either delaySeconds or runAt, not both`;
+    }
+  }
+  if (maxAttempts !== undefined) {
+    if (!Number.isInteger(maxAttempts) || maxAttempts < 1 || maxAttempts > 100) {
+      return `${label}maxAttempts must be an integer between 1 and 100`;
+    }
+  }
+  if (dedupKey !== undefined) {
+    if (typeof dedupKey !== "string" || dedupKey.length === 0 || dedupKey.length > MAX_DEDUP_KEY_LENGTH) {
+      return `${label}dedupKey must be a non-empty string (max ${MAX_DEDUP_KEY_LENGTH} chars)`;
+    }
+  }
+  return null;
+}
 
 export class QueuePush extends StorageWriteEndpoint {
   schema = {
@@ -15,19 +58,49 @@ export class QueuePush extends StorageWriteEndpoint {
         "application/json": {
           schema: {
             type: "object" as const,
-            required: ["name", "items"],
+            required: ["name"],
             properties: {
               name: { type: "string" as const, description: "Queue name" },
               items: {
                 type: "array" as const,
                 items: {},
-                description: "Items to push (any JSON values)",
+                description: "Items to push (any JSON values). Use either items or jobs.",
+              },
+              jobs: {
+                type: "array" as const,
+                description: "Jobs with per-job scheduling options. Use either items or jobs.",
+                items: {
+                  type: "object" as const,
+                  required: ["data"],
+                  properties: {
+                    data: { description: "Job payload (any JSON value)" },
+                    priority: { type: "integer" as const },
+                    delaySeconds: { type: "integer" as const },
+                    runAt: { type: "string" as const, format: "date-time" },
+                    maxAttempts: { type: "integer" as const },
+                    dedupKey: { type: "string" as const, description: "Idempotency key" },
+                  },
+                },
               },
               priority: {
                 type: "integer" as const,
                 description: "Priority level (higher = processed first)",
                 default: 0,
               },
+              delaySeconds: {
+                type: "integer" as const,
+                description: "Seconds before jobs become available (max 30 days)",
+              },
+              runAt: {
+                type: "string" as const,
+                format: "date-time",
+                description: "Absolute time at which jobs become available (ISO 8601)",
+              },
+              maxAttempts: {
+                type: "integer" as const,
+                description: "Deliveries before a job is dead-lettered (1-100, default 3)",
+                default: 3,
+              },
             },
           },
         },
@@ -35,25 +108,64 @@ export class QueuePush extends StorageWriteEndpoint {
     },
     parameters: [tokenTypeParam],
     responses: {
-      "200": { description: "Push result" },
+      "200": { description: "Push result with job IDs" },
       "402": response402,
+      "413": response413,
+      "507": response507,
     },
   };
 
   async handle(c: AppContext) {
     const tokenType = this.getTokenType(c);
-    const body = await this.parseBody<{ name?: string; items?: unknown[]; priority?: number }>(c);
+    const body = await this.parseBody<{
+      name?: string;
+      items?: unknown[];
+      jobs?: QueueJobInput[];
+    } & JobOptions>(c);
     if (body instanceof Response) return body;
 
-    const { name, items, priority } = body;
-    if (!name || !items || !Array.isArray(items)) {
-      return this.errorResponse(c, "name and items array are required", 400);
+    const { name, items, jobs, priority, delaySeconds, runAt, maxAttempts } = body;
+    const hasItems = Array.isArray(items);
+    const hasJobs = Array.isArray(jobs);
+    if (!name || hasItems === hasJobs) {
+      return this.errorResponse(c, "name and either an items or a jobs array are required", 400);
+    }
+
+    const defaults: JobOptions = { priority, delaySeconds, runAt, maxAttempts };
+    const defaultsError = validateJobOptions(defaults, "");
+    if (defaultsError) return this.errorResponse(c, defaultsError, 400);
+
+    let normalized: QueueJobInput[];
+    if (hasJobs) {
+      normalized = [];
+      for (const [index, job] of jobs!.entries()) {
+        if (!job || typeof job !== "object" || !("data" in job)) {
+          return this.errorResponse(c, `jobs[${index}].data is required`, 400);
+        }
+        const jobError = validateJobOptions(job, `jobs[${index}].`);
+        if (jobError) return this.errorResponse(c, jobError, 400);
+
+        // Per-job scheduling overrides the request-level defaults as a unit
+        const schedule = job.delaySeconds !== undefined || job.runAt !== undefined
+          ? { delaySeconds: job.delaySeconds, runAt: job.runAt }
+          : { delaySeconds, runAt };
+        normalized.push({
+          data: job.data,
+          priority: job.priority ?? priority,
+          maxAttempts: job.maxAttempts ?? maxAttempts,
+          dedupKey: job.dedupKey,
+          ...schedule,
+        });
+      }
+    } else {
+      normalized = items!.map((data) => ({ data, ...defaults }));
     }
 
-    const storageDO = this.requireStorageDO(c);
+    const storageDO = await this.requireStorageDO(c, { subsystem: "queue", access: "write", names: [name] });
     if (storageDO instanceof Response) return storageDO;
 
-    const result = await storageDO.queuePush(name, items, { priority });
+    const result = await storageDO.queuePush(name, normalized);
+    if (isStorageQuotaExceeded(result)) return this.quotaExceededResponse(c, result);
     return c.json({ ok: true, ...result, tokenType });
   }
 }
@@ -0,0 +1,78 @@
+/**
+ * Queue Redrive Endpoint
+ */
+import { StorageWriteEndpoint } from "../../base";
+import { tokenTypeParam, response402 } from "../../schema";
+import type { AppContext } from "../../../types";
+
+export class QueueRedrive extends StorageWriteEndpoint {
+  schema = {
+    tags: ["Storage - Queue"],
+    summary: "(paid, storage_write) Move dead-lettered jobs back to pending",
+    requestBody: {
+      required: true,
+      content: {
+        "application/json": {
+          schema: {
+            type: "object" as const,
+            required: ["name"],
+            properties: {
+              name: { type: "string" as const, description: "Queue holding the dead-lettered jobs" },
+              ids: {
+                type: "array" as const,
+                items: { type: "string" as const },
+                description: "Dead job IDs to redrive (max 1000). Omit and set all=true to redrive every dead job.",
+              },
+              all: { type: "boolean" as const, description: "Redrive all dead jobs in the queue", default: false },
+              targetQueue: {
+                type: "string" as const,
+                description: "Queue to move the jobs into (default: same queue)",
+              },
+            },
+          },
+        },
+      },
+    },
+    parameters: [tokenTypeParam],
+    responses: {
+      "200": { description: "Redrive result" },
+      "402": response402,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const tokenType = this.getTokenType(c);
+    const body = await this.parseBody<{
+      name?: string;
+      ids?: string[];
+      all?: boolean;
+      targetQueue?: string;
+    }>(c);
+    if (body instanceof Response) return body;
+
+    const { name, ids, all, targetQueue } = body;
+    if (!name) return this.errorResponse(c, "name is required", 400);
+    if (ids !== undefined && (!Array.isArray(ids) || ids.length === 0)) {
+      return this.errorResponse(c, "ids must be a non-empty array", 400);
+    }
+    if (ids && ids.length > 1000) {
+      return this.errorResponse(c, "Maximum 1000 ids per request", 400);
+    }
+    if ((ids === undefined) === (all !== true)) {
+      return this.errorResponse(c, "Provide either ids or all=true", 400);
+    }
+    if (targetQueue !== undefined && (typeof targetQueue !== "string" || targetQueue.length === 0)) {
+      return this.errorResponse(c, "targetQueue must be a non-empty string", 400);
+    }
+
+    const storageDO = await this.requireStorageDO(c, {
+      subsystem: "queue",
+      access: "write",
+      names: targetQueue ? [name, targetQueue] : [name],
+    });
+    if (storageDO instanceof Response) return storageDO;
+
+    const result = await storageDO.queueRedrive(name, { ids, targetQueue });
+    return c.json({ ok: true, ...result, tokenType });
+  }
+}
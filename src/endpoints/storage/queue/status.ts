@@ -14,7 +14,7 @@ export class QueueStatus extends StorageReadEndpoint {
       tokenTypeParam,
     ],
     responses: {
-      "200": { description: "Queue status" },
+      "200": { description: "Job counts: pending, processing, dead, delayed" },
       "402": response402,
     },
   };
@@ -25,7 +25,7 @@ export class QueueStatus extends StorageReadEndpoint {
 
     if (!name) return this.errorResponse(c, "name is required", 400);
 
-    const storageDO = this.requireStorageDO(c);
+    const storageDO = await this.requireStorageDO(c, { subsystem: "queue", access: "read", names: [name] });
     if (storageDO instanceof Response) return storageDO;
 
     const result = await storageDO.queueStatus(name);
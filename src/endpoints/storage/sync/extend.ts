@@ -40,7 +40,7 @@ export class SyncExtend extends StorageWriteEndpoint {
     const { name, token, ttl } = body;
     if (!name || !token) return this.errorResponse(c, "name and token are required", 400);
 
-    const storageDO = this.requireStorageDO(c);
+    const storageDO = await this.requireStorageDO(c, { subsystem: "sync", access: "write", names: [name] });
     if (storageDO instanceof Response) return storageDO;
 
     const result = await storageDO.syncExtend(name, token, { ttl });
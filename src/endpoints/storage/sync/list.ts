@@ -18,7 +18,7 @@ export class SyncList extends StorageReadEndpoint {
 
   async handle(c: AppContext) {
     const tokenType = this.getTokenType(c);
-    const storageDO = this.requireStorageDO(c);
+    const storageDO = await this.requireStorageDO(c, { subsystem: "sync", access: "read" });
     if (storageDO instanceof Response) return storageDO;
 
     const locks = await storageDO.syncList();
@@ -4,11 +4,22 @@
 import { StorageWriteEndpoint } from "../../base";
 import { tokenTypeParam, response402 } from "../../schema";
 import type { AppContext } from "../../../types";
+import type { LockMode } from "../../../durable-objects/StorageDO";
+
+const LOCK_MODES = ["exclusive", "shared", "semaphore"] as const;
+
+/** Longest a single request may wait in the lock queue (seconds) */
+const MAX_LOCK_WAIT_SECONDS = 60;
+
+/** Largest semaphore capacity */
+const MAX_SEMAPHORE_LIMIT = 1000;
 
 export class SyncLock extends StorageWriteEndpoint {
   schema = {
     tags: ["Storage - Sync"],
     summary: "(paid, storage_write) Acquire a distributed lock",
+    description:
+      "Exclusive, shared (read) or semaphore locks. With wait > 0 the request queues (FIFO) until the lock is granted or the wait ends. Every new hold gets a fence number that increases per lock name; pass it to downstream systems so they can reject stale holders. Pass the token of a current hold to re-enter it.",
     requestBody: {
       required: true,
       content: {
@@ -19,6 +30,21 @@ export class SyncLock extends StorageWriteEndpoint {
             properties: {
               name: { type: "string" as const, description: "Lock name" },
               ttl: { type: "integer" as const, description: "TTL in seconds (10-300, default 60)" },
+              mode: {
+                type: "string" as const,
+                enum: [...LOCK_MODES],
+                description: "exclusive (default), shared, or semaphore",
+              },
+              limit: {
+                type: "integer" as const,
+                description: `Semaphore capacity (1-${MAX_SEMAPHORE_LIMIT}, default 1)`,
+              },
+              permits: { type: "integer" as const, description: "Semaphore permits to take (default 1)" },
+              wait: {
+                type: "integer" as const,
+                description: `Seconds to wait in the queue (0-${MAX_LOCK_WAIT_SECONDS}, default 0 = try once)`,
+              },
+              token: { type: "string" as const, description: "Token of a hold you own, to re-enter it" },
             },
           },
         },
@@ -26,23 +52,56 @@ export class SyncLock extends StorageWriteEndpoint {
     },
     parameters: [tokenTypeParam],
     responses: {
-      "200": { description: "Lock result with token if acquired" },
+      "200": { description: "Lock result with token and fence if acquired" },
       "402": response402,
     },
   };
 
   async handle(c: AppContext) {
     const tokenType = this.getTokenType(c);
-    const body = await this.parseBody<{ name?: string; ttl?: number }>(c);
+    const body = await this.parseBody<{
+      name?: string;
+      ttl?: number;
+      mode?: string;
+      limit?: number;
+      permits?: number;
+      wait?: number;
+      token?: string;
+    }>(c);
     if (body instanceof Response) return body;
 
-    const { name, ttl } = body;
+    const { name, ttl, mode = "exclusive", limit, permits, wait = 0, token } = body;
     if (!name) return this.errorResponse(c, "name is required", 400);
+    if (!LOCK_MODES.includes(mode as LockMode)) {
+      return this.errorResponse(c, `mode must be one of: ${LOCK_MODES.join(", ")}`, 400);
+    }
+    if (mode !== "semaphore" && (limit !== undefined || permits !== undefined)) {
+      return this.errorResponse(c, "limit and permits apply to semaphore locks only", 400);
+    }
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEMAPHORE_LIMIT)) {
+      return this.errorResponse(c, `limit must be an integer between 1 and ${MAX_SEMAPHORE_LIMIT}`, 400);
+    }
+    if (permits !== undefined && (!Number.isInteger(permits) || permits < 1 || permits > (limit ?? 1))) {
+      return this.errorResponse(c, "permits must be a positive integer no greater than limit", 400);
+    }
+    if (typeof wait !== "number" || wait < 0 || wait > MAX_LOCK_WAIT_SECONDS) {
+      return this.errorResponse(c, `wait must be between 0 and ${MAX_LOCK_WAIT_SECONDS} seconds`, 400);
+    }
+    if (token !== undefined && (typeof token !== "string" || !token)) {
+      return this.errorResponse(c, "token must be a non-empty string", 400);
+    }
 
-    const storageDO = this.requireStorageDO(c);
+    const storageDO = await this.requireStorageDO(c, { subsystem: "sync", access: "write", names: [name] });
     if (storageDO instanceof Response) return storageDO;
 
-    const result = await storageDO.syncLock(name, { ttl });
+    const result = await storageDO.syncLock(name, {
+      ttl,
+      mode: mode as LockMode,
+      limit,
+      permits,
+      waitMs: wait * 1000,
+      token,
+    });
     return c.json({ ok: true, ...result, tokenType });
   }
 }
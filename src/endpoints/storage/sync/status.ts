@@ -24,7 +24,7 @@ export class SyncStatus extends StorageReadEndpoint {
     const name = c.req.param("name");
     if (!name) return this.errorResponse(c, "name is required", 400);
 
-    const storageDO = this.requireStorageDO(c);
+    const storageDO = await this.requireStorageDO(c, { subsystem: "sync", access: "read", names: [name] });
     if (storageDO instanceof Response) return storageDO;
 
     const result = await storageDO.syncStatus(name);
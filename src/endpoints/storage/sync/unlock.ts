@@ -39,7 +39,7 @@ export class SyncUnlock extends StorageWriteEndpoint {
     const { name, token } = body;
     if (!name || !token) return this.errorResponse(c, "name and token are required", 400);
 
-    const storageDO = this.requireStorageDO(c);
+    const storageDO = await this.requireStorageDO(c, { subsystem: "sync", access: "write", names: [name] });
     if (storageDO instanceof Response) return storageDO;
 
     const result = await storageDO.syncUnlock(name, token);
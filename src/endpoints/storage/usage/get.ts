@@ -0,0 +1,57 @@
+/**
+ * Storage Usage Endpoint
+ */
+import { StorageReadEndpoint } from "../../base";
+import { tokenTypeParam, response402, intProp, okProp, tokenTypeProp } from "../../schema";
+import type { AppContext } from "../../../types";
+
+const usageProp = {
+  type: "object" as const,
+  properties: { rows: intProp, bytes: intProp },
+};
+
+export class StorageUsageGet extends StorageReadEndpoint {
+  schema = {
+    tags: ["Storage - Usage"],
+    summary: "(paid, storage_read) Storage footprint and quotas",
+    description:
+      "Rows and bytes held in each storage subsystem (kv, paste, queue, memory, db) with its quota. Bytes count stored keys and values; databaseBytes is the SQLite file size including indexes. Writes that would exceed a quota are rolled back with 413 (the write alone is too large) or 507 (no room left).",
+    parameters: [tokenTypeParam],
+    responses: {
+      "200": {
+        description: "Usage per subsystem",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object" as const,
+              properties: {
+                ok: okProp,
+                subsystems: {
+                  type: "object" as const,
+                  additionalProperties: {
+                    type: "object" as const,
+                    properties: { rows: intProp, bytes: intProp, quota: usageProp },
+                  },
+                },
+                total: usageProp,
+                databaseBytes: intProp,
+                tokenType: tokenTypeProp,
+              },
+            },
+          },
+        },
+      },
+      "402": response402,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const tokenType = this.getTokenType(c);
+
+    const storageDO = await this.requireStorageDO(c);
+    if (storageDO instanceof Response) return storageDO;
+
+    const result = await storageDO.usageReport();
+    return c.json({ ok: true, ...result, tokenType });
+  }
+}
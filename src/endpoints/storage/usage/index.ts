@@ -0,0 +1 @@
+export { StorageUsageGet } from "./get";
@@ -0,0 +1,73 @@
+/**
+ * Usage Challenge Endpoint
+ */
+import { validateStacksAddress } from "@stacks/transactions";
+import { FreeEndpoint } from "../base";
+import { queryParamString, response400, okProp, stringProp, intProp, objectProp } from "../schema";
+import type { AppContext } from "../../types";
+import {
+  USAGE_AUTH_DOMAIN_NAME,
+  USAGE_AUTH_DOMAIN_VERSION,
+  USAGE_AUTH_HEADERS,
+  USAGE_AUTH_MAX_AGE_S,
+  usageChallengeMessage,
+} from "../../utils/usage-auth";
+
+export class UsageChallenge extends FreeEndpoint {
+  schema = {
+    tags: ["Usage"],
+    summary: "(free) Get a challenge to sign for /usage/me",
+    description:
+      `Returns the challenge for an address at the current time, to be signed by that address's key and sent to the /usage/me routes in the ${USAGE_AUTH_HEADERS.address}, ${USAGE_AUTH_HEADERS.issuedAt} and ${USAGE_AUTH_HEADERS.signature} headers. Sign either the text as a Stacks signed message (scheme "message"), or the SIP-018 structured data { action: "view-usage", address (principal), issued-at (uint) } under the domain { name: "${USAGE_AUTH_DOMAIN_NAME}", version: "${USAGE_AUTH_DOMAIN_VERSION}", chain-id } of this server's network (scheme "sip018", sent in ${USAGE_AUTH_HEADERS.scheme}). Challenges are valid for ${USAGE_AUTH_MAX_AGE_S} seconds and can be built client-side without calling this endpoint.`,
+    parameters: [queryParamString("address", "Stacks address whose usage will be read")],
+    responses: {
+      "200": {
+        description: "Challenge to sign",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object" as const,
+              properties: {
+                ok: okProp,
+                address: stringProp,
+                issuedAt: intProp,
+                expiresAt: intProp,
+                message: stringProp,
+                sip018: objectProp,
+                headers: objectProp,
+              },
+            },
+          },
+        },
+      },
+      "400": response400,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const address = c.req.query("address");
+    if (!address || !validateStacksAddress(address)) {
+      return this.errorResponse(c, "address must be a Stacks address", 400);
+    }
+
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const network = c.env.X402_NETWORK === "mainnet" ? "mainnet" : "testnet";
+    return c.json({
+      ok: true,
+      address,
+      issuedAt,
+      expiresAt: issuedAt + USAGE_AUTH_MAX_AGE_S,
+      message: usageChallengeMessage(address, issuedAt),
+      sip018: {
+        domain: { name: USAGE_AUTH_DOMAIN_NAME, version: USAGE_AUTH_DOMAIN_VERSION, network },
+        message: { action: "view-usage", address, "issued-at": issuedAt },
+      },
+      headers: {
+        [USAGE_AUTH_HEADERS.address]: address,
+        [USAGE_AUTH_HEADERS.issuedAt]: String(issuedAt),
+        [USAGE_AUTH_HEADERS.signature]: "<signature>",
+        [USAGE_AUTH_HEADERS.scheme]: "message | sip018",
+      },
+    });
+  }
+}
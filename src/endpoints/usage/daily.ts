@@ -0,0 +1,55 @@
+/**
+ * Daily Usage
+ */
+import { FreeEndpoint } from "../base";
+import { queryParamInt, response400, okProp, stringProp } from "../schema";
+import type { AppContext } from "../../types";
+import { usageAuthParams, response401 } from "./usage-schema";
+
+const MAX_DAYS = 365;
+
+export class UsageDaily extends FreeEndpoint {
+  schema = {
+    tags: ["Usage"],
+    summary: "(free, signed) Daily spend of the signing payer",
+    description: "Requests and amount charged per day (UTC), category and endpoint, newest day first.",
+    parameters: [...usageAuthParams, queryParamInt("days", `Days to include (max ${MAX_DAYS})`, 30)],
+    responses: {
+      "200": {
+        description: "Daily usage",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object" as const,
+              properties: {
+                ok: okProp,
+                address: stringProp,
+                days: { type: "array" as const, items: { type: "object" as const } },
+              },
+            },
+          },
+        },
+      },
+      "400": response400,
+      "401": response401,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const days = parseInt(c.req.query("days") || "30", 10);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+      return this.errorResponse(c, `days must be between 1 and ${MAX_DAYS}`, 400);
+    }
+
+    const usage = await this.requireUsageDO(c);
+    if (usage instanceof Response) return usage;
+
+    const stats = await usage.usageDO.getDailyStats(days);
+    return c.json({
+      ok: true,
+      address: usage.address,
+      // uniquePayers is always 1 in a per-payer DO
+      days: stats.map(({ uniquePayers: _, ...day }) => day),
+    });
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Usage by Endpoint
+ */
+import { FreeEndpoint } from "../base";
+import { queryParamInt, response400, okProp, stringProp } from "../schema";
+import type { AppContext } from "../../types";
+import { usageAuthParams, response401, usageTotalsProperties } from "./usage-schema";
+
+const MAX_LIMIT = 100;
+
+export class UsageByEndpoint extends FreeEndpoint {
+  schema = {
+    tags: ["Usage"],
+    summary: "(free, signed) Spend of the signing payer per endpoint",
+    description: "Paid endpoints the address has called, most called first.",
+    parameters: [...usageAuthParams, queryParamInt("limit", `Max endpoints to return (max ${MAX_LIMIT})`, 20)],
+    responses: {
+      "200": {
+        description: "Usage per endpoint",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object" as const,
+              properties: {
+                ok: okProp,
+                address: stringProp,
+                endpoints: {
+                  type: "array" as const,
+                  items: {
+                    type: "object" as const,
+                    properties: { endpoint: stringProp, category: stringProp, ...usageTotalsProperties },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      "400": response400,
+      "401": response401,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const limit = parseInt(c.req.query("limit") || "20", 10);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return this.errorResponse(c, `limit must be between 1 and ${MAX_LIMIT}`, 400);
+    }
+
+    const usage = await this.requireUsageDO(c);
+    if (usage instanceof Response) return usage;
+
+    const endpoints = await usage.usageDO.getUsageByEndpoint(limit);
+    return c.json({ ok: true, address: usage.address, endpoints });
+  }
+}
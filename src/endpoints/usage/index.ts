@@ -0,0 +1,7 @@
+export { UsageChallenge } from "./challenge";
+export { UsageSummary } from "./summary";
+export { UsageByEndpoint } from "./endpoints";
+export { UsageByModel } from "./models";
+export { UsageDaily } from "./daily";
+export { UsageRecent } from "./recent";
+export { UsageReconciliation } from "./reconciliation";
@@ -0,0 +1,53 @@
+/**
+ * Usage by Model
+ */
+import { FreeEndpoint } from "../base";
+import { okProp, stringProp, intProp } from "../schema";
+import type { AppContext } from "../../types";
+import { usageAuthParams, response401, usageTotalsProperties } from "./usage-schema";
+
+export class UsageByModel extends FreeEndpoint {
+  schema = {
+    tags: ["Usage"],
+    summary: "(free, signed) LLM spend of the signing payer per model",
+    description: "Inference requests by model, with input and output token counts, most used first.",
+    parameters: usageAuthParams,
+    responses: {
+      "200": {
+        description: "Usage per model",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object" as const,
+              properties: {
+                ok: okProp,
+                address: stringProp,
+                models: {
+                  type: "array" as const,
+                  items: {
+                    type: "object" as const,
+                    properties: {
+                      model: stringProp,
+                      ...usageTotalsProperties,
+                      totalInputTokens: intProp,
+                      totalOutputTokens: intProp,
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      "401": response401,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const usage = await this.requireUsageDO(c);
+    if (usage instanceof Response) return usage;
+
+    const models = await usage.usageDO.getModelUsage();
+    return c.json({ ok: true, address: usage.address, models });
+  }
+}
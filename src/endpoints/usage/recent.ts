@@ -0,0 +1,50 @@
+/**
+ * Recent Usage
+ */
+import { FreeEndpoint } from "../base";
+import { queryParamInt, response400, okProp, stringProp } from "../schema";
+import type { AppContext } from "../../types";
+import { usageAuthParams, response401 } from "./usage-schema";
+
+const MAX_LIMIT = 100;
+
+export class UsageRecent extends FreeEndpoint {
+  schema = {
+    tags: ["Usage"],
+    summary: "(free, signed) Latest paid requests of the signing payer",
+    description: "One record per paid request, newest first: endpoint, amount and token charged, model and token counts for LLM calls, and duration.",
+    parameters: [...usageAuthParams, queryParamInt("limit", `Max records to return (max ${MAX_LIMIT})`, 20)],
+    responses: {
+      "200": {
+        description: "Recent requests",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object" as const,
+              properties: {
+                ok: okProp,
+                address: stringProp,
+                requests: { type: "array" as const, items: { type: "object" as const } },
+              },
+            },
+          },
+        },
+      },
+      "400": response400,
+      "401": response401,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const limit = parseInt(c.req.query("limit") || "20", 10);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return this.errorResponse(c, `limit must be between 1 and ${MAX_LIMIT}`, 400);
+    }
+
+    const usage = await this.requireUsageDO(c);
+    if (usage instanceof Response) return usage;
+
+    const requests = await usage.usageDO.getRecentUsage(limit);
+    return c.json({ ok: true, address: usage.address, requests });
+  }
+}
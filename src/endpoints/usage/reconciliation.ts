@@ -0,0 +1,53 @@
+/**
+ * Charge Reconciliation
+ */
+import { FreeEndpoint } from "../base";
+import { queryParamInt, response400, okProp, stringProp } from "../schema";
+import type { AppContext } from "../../types";
+import { usageAuthParams, response401 } from "./usage-schema";
+
+const MAX_LIMIT = 100;
+
+export class UsageReconciliation extends FreeEndpoint {
+  schema = {
+    tags: ["Usage"],
+    summary: "(free, signed) Estimated vs actual LLM charges of the signing payer",
+    description:
+      "Dynamically priced LLM calls are charged an estimate up front and reconciled with the actual cost once the response completes. Overcharges are credited to the payer's prepaid balance in the same token; undercharges are absorbed as house risk up to a cap per payer and token in any 24 hours, and recorded as unrecovered beyond it (never taken from the credit balance). Open a session on the balance with POST /credits/session to spend credited overcharges. Returns totals per token and the latest reconciliations, newest first. Amounts are in base units.",
+    parameters: [...usageAuthParams, queryParamInt("limit", `Max reconciliations to return (max ${MAX_LIMIT})`, 20)],
+    responses: {
+      "200": {
+        description: "Charge reconciliation",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object" as const,
+              properties: {
+                ok: okProp,
+                address: stringProp,
+                totals: { type: "array" as const, items: { type: "object" as const } },
+                recent: { type: "array" as const, items: { type: "object" as const } },
+              },
+            },
+          },
+        },
+      },
+      "400": response400,
+      "401": response401,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const limit = parseInt(c.req.query("limit") || "20", 10);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return this.errorResponse(c, `limit must be between 1 and ${MAX_LIMIT}`, 400);
+    }
+
+    const usage = await this.requireUsageDO(c);
+    if (usage instanceof Response) return usage;
+
+    const ledger = c.env.CREDIT_LEDGER_DO.get(c.env.CREDIT_LEDGER_DO.idFromName(usage.address));
+    const { totals, recent } = await ledger.getReconciliation(limit);
+    return c.json({ ok: true, address: usage.address, totals, recent });
+  }
+}
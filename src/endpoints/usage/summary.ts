@@ -0,0 +1,63 @@
+/**
+ * Usage Summary Endpoint
+ */
+import { FreeEndpoint } from "../base";
+import { okProp, stringProp, intProp } from "../schema";
+import type { AppContext } from "../../types";
+import { usageAuthParams, response401, usageTotalsProperties } from "./usage-schema";
+
+export class UsageSummary extends FreeEndpoint {
+  schema = {
+    tags: ["Usage"],
+    summary: "(free, signed) Spend of the signing payer address",
+    description:
+      "All-time totals of the paid requests made by the address that signed the usage challenge, with breakdowns by category and payment token. Amounts are in base units of the token paid (microSTX, sats, micro-USDCx), so totals across tokens are only a rough sum.",
+    parameters: usageAuthParams,
+    responses: {
+      "200": {
+        description: "Usage totals",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object" as const,
+              properties: {
+                ok: okProp,
+                address: stringProp,
+                totals: {
+                  type: "object" as const,
+                  properties: {
+                    ...usageTotalsProperties,
+                    totalTokens: { ...intProp, description: "LLM input + output tokens" },
+                    firstRequest: { ...stringProp, nullable: true },
+                    lastRequest: { ...stringProp, nullable: true },
+                  },
+                },
+                categories: {
+                  type: "array" as const,
+                  items: { type: "object" as const, properties: { category: stringProp, ...usageTotalsProperties } },
+                },
+                tokens: {
+                  type: "array" as const,
+                  items: { type: "object" as const, properties: { token: stringProp, ...usageTotalsProperties } },
+                },
+              },
+            },
+          },
+        },
+      },
+      "401": response401,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const usage = await this.requireUsageDO(c);
+    if (usage instanceof Response) return usage;
+
+    const [totals, categories, tokens] = await Promise.all([
+      usage.usageDO.getTotalUsage(),
+      usage.usageDO.getUsageByCategory(),
+      usage.usageDO.getTokenDistribution(),
+    ]);
+    return c.json({ ok: true, address: usage.address, totals, categories, tokens });
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * OpenAPI schemas shared by the /usage/me endpoints
+ */
+import { USAGE_AUTH_HEADERS, USAGE_AUTH_MAX_AGE_S, USAGE_AUTH_SCHEMES } from "../../utils/usage-auth";
+
+function headerParam(name: string, description: string, required = true) {
+  return {
+    name,
+    in: "header" as const,
+    required,
+    schema: { type: "string" as const },
+    description,
+  };
+}
+
+/** Headers of a signed usage challenge (see /usage/me/challenge) */
+export const usageAuthParams = [
+  headerParam(USAGE_AUTH_HEADERS.address, "Payer address whose usage to read"),
+  headerParam(USAGE_AUTH_HEADERS.issuedAt, `Challenge time (unix seconds, at most ${USAGE_AUTH_MAX_AGE_S}s old)`),
+  headerParam(USAGE_AUTH_HEADERS.signature, "RSV signature of the challenge (hex)"),
+  headerParam(USAGE_AUTH_HEADERS.scheme, `Signature scheme: ${USAGE_AUTH_SCHEMES.join(" | ")} (default message)`, false),
+];
+
+export const response401 = { description: "Missing, stale or invalid usage challenge signature" };
+
+/** Request count and amount charged (base units of each token; totals mix tokens) */
+export const usageTotalsProperties = {
+  totalRequests: { type: "integer" as const },
+  totalRevenue: { type: "integer" as const, description: "Amount charged, in token base units" },
+};
@@ -14,9 +14,10 @@
 import { fromHono } from "chanfana";
 import { Hono } from "hono";
 import { cors } from "hono/cors";
-import type { Env, AppContext, AppVariables, TokenType, PricingTier } from "./types";
+import type { Env, AppContext, AppVariables, TokenType, PricingTier, UsageRecord } from "./types";
 import type { MetricsRecord } from "./durable-objects/MetricsDO";
-import { TIER_PRICING } from "./services/pricing";
+import { TIER_PRICING, estimateCreditTopup } from "./services/pricing";
+import { getRoutePrice } from "./services/route-pricing";
 import { loggerMiddleware } from "./utils/logger";
 import { x402Middleware } from "./middleware/x402";
 
@@ -50,11 +51,22 @@ import {
   KvSet,
   KvDelete,
   KvList,
+  KvIncr,
+  KvBatch,
+  KvWatch,
   PasteCreate,
   PasteGet,
+  PasteUpdate,
   PasteDelete,
+  PasteRevisions,
+  PasteDiff,
+  PasteRaw,
+  SharedPasteGet,
+  SharedPasteRaw,
+  SharedPasteList,
   DbQuery,
   DbExecute,
+  DbBatch,
   DbSchema,
   SyncLock,
   SyncUnlock,
@@ -66,13 +78,40 @@ import {
   QueuePeek,
   QueueStatus,
   QueueClear,
+  QueueAck,
+  QueueNack,
+  QueueExtend,
+  QueueDead,
+  QueueRedrive,
   MemoryStore,
   MemorySearch,
   MemoryDelete,
   MemoryList,
   MemoryClear,
+  MemoryCollections,
+  MemoryConsolidate,
+  StorageUsageGet,
+  StorageExport,
+  StorageImport,
+  StorageGrantCreate,
+  StorageGrantList,
+  StorageGrantRevoke,
 } from "./endpoints/storage";
 
+// Usage endpoints (free, signed)
+import {
+  UsageChallenge,
+  UsageSummary,
+  UsageByEndpoint,
+  UsageByModel,
+  UsageDaily,
+  UsageRecent,
+  UsageReconciliation,
+} from "./endpoints/usage";
+
+// Credit endpoints (paid top-up, free session routes)
+import { CreditTopup, CreditBalanceGet, CreditSessionOpen, CreditSessionRevoke } from "./endpoints/credits";
+
 // Dashboard endpoint
 import { Dashboard } from "./endpoints/dashboard";
 
@@ -91,6 +130,9 @@ export { UsageDO } from "./durable-objects/UsageDO";
 export { StorageDO } from "./durable-objects/StorageDO";
 export { MetricsDO } from "./durable-objects/MetricsDO";
 export { PaymentPollingDO } from "./durable-objects/PaymentPollingDO";
+export { PasteIndexDO } from "./durable-objects/PasteIndexDO";
+export { CreditLedgerDO } from "./durable-objects/CreditLedgerDO";
+export { PriceOracleDO } from "./durable-objects/PriceOracleDO";
 
 // =============================================================================
 // Hono App
@@ -114,6 +156,13 @@ app.use(
       // Standard headers
       "Authorization",
       "Content-Type",
+      // Delegated storage access
+      "X-Storage-Owner",
+      // Signed usage challenges (/usage/me)
+      "X-Usage-Address",
+      "X-Usage-Issued-At",
+      "X-Usage-Signature",
+      "X-Usage-Scheme",
     ],
     exposeHeaders: [
       // v2 headers
@@ -123,6 +172,8 @@ app.use(
       "X-PAYMENT-RESPONSE",
       "X-PAYER-ADDRESS",
       "X-Request-ID",
+      // Balance left after a credit session debit
+      "X-Credit-Balance",
     ],
   })
 );
@@ -157,6 +208,7 @@ const ENDPOINT_CONFIG: Record<string, { tier: PricingTier; category: string }> =
   "/storage/paste": { tier: "standard", category: "storage" },
   "/storage/db/query": { tier: "standard", category: "storage" },
   "/storage/db/execute": { tier: "standard", category: "storage" },
+  "/storage/db/batch": { tier: "standard", category: "storage" },
   "/storage/db/schema": { tier: "standard", category: "storage" },
   "/storage/sync/lock": { tier: "standard", category: "storage" },
   "/storage/sync/unlock": { tier: "standard", category: "storage" },
@@ -168,11 +220,25 @@ const ENDPOINT_CONFIG: Record<string, { tier: PricingTier; category: string }> =
   "/storage/queue/peek": { tier: "standard", category: "storage" },
   "/storage/queue/status": { tier: "standard", category: "storage" },
   "/storage/queue/clear": { tier: "standard", category: "storage" },
+  "/storage/queue/ack": { tier: "standard", category: "storage" },
+  "/storage/queue/nack": { tier: "standard", category: "storage" },
+  "/storage/queue/extend": { tier: "standard", category: "storage" },
+  "/storage/queue/dead": { tier: "standard", category: "storage" },
+  "/storage/queue/redrive": { tier: "standard", category: "storage" },
   "/storage/memory/store": { tier: "standard", category: "storage" },
   "/storage/memory/search": { tier: "standard", category: "storage" },
   "/storage/memory/delete": { tier: "standard", category: "storage" },
   "/storage/memory/list": { tier: "standard", category: "storage" },
   "/storage/memory/clear": { tier: "standard", category: "storage" },
+  "/storage/memory/collections": { tier: "standard", category: "storage" },
+  "/storage/memory/consolidate": { tier: "standard", category: "storage" },
+  "/storage/usage": { tier: "standard", category: "storage" },
+  "/storage/export": { tier: "standard", category: "storage" },
+  "/storage/import": { tier: "standard", category: "storage" },
+  "/storage/grants": { tier: "standard", category: "storage" },
+  // Credits - top-up amount chosen by the payer; opening a session on the balance is standard
+  "/credits/topup": { tier: "dynamic", category: "credits" },
+  "/credits/session": { tier: "standard", category: "credits" },
 };
 
 function normalizeEndpoint(path: string): string {
@@ -297,8 +363,18 @@ app.use("*", async (c, next) => {
     return next();
   }
 
-  // Skip free route prefixes (AX discovery topic docs, payment status)
-  if (path.startsWith("/topics/") || path.startsWith("/payment-status/")) {
+  // Skip free route prefixes (AX discovery topic docs, payment status, shared pastes, signed usage,
+  // credit session routes; opening a session with POST /credits/session is paid)
+  if (
+    path.startsWith("/topics/") ||
+    path.startsWith("/payment-status/") ||
+    path === "/paste" ||
+    path.startsWith("/paste/") ||
+    path === "/usage/me" ||
+    path.startsWith("/usage/me/") ||
+    path === "/credits/balance" ||
+    (path === "/credits/session" && c.req.method === "DELETE")
+  ) {
     return next();
   }
 
@@ -326,29 +402,35 @@ app.use("*", async (c, next) => {
     return next();
   }
 
-  // Apply x402 middleware based on tier
+  // Top-ups are priced by the amount in the body, and must be real payments
+  if (path === "/credits/topup") {
+    return x402Middleware({ dynamic: true, estimator: estimateCreditTopup, acceptCredits: false })(c, next);
+  }
+
+  // Apply x402 middleware based on tier; fixed prices come from the route price table
   const isDynamic = tier === "dynamic";
   const middleware = x402Middleware({
     tier: isDynamic ? "standard" : tier,
     dynamic: isDynamic,
+    routePrice: isDynamic ? null : getRoutePrice(c.req.method, path),
   });
 
   return middleware(c, next);
 });
 
 // =============================================================================
-// Global Metrics Middleware
+// Global Metrics & Usage Middleware
 // =============================================================================
 
-// Global metrics tracking middleware
+// Global metrics tracking middleware; also records each paid request in the payer's UsageDO
 app.use("*", async (c, next) => {
   const startTime = Date.now();
 
   await next();
 
-  // Only track metrics for paid requests (check both v2 and legacy headers)
+  // Only track metrics for paid requests (check both v2 and legacy headers, and credit debits)
   const paymentSignature = c.req.header("payment-signature") || c.req.header("X-PAYMENT");
-  if (!paymentSignature) return;
+  if (!paymentSignature && !c.get("x402")?.credits) return;
 
   // Skip metrics for free endpoints
   const path = c.req.path;
@@ -388,7 +470,9 @@ app.use("*", async (c, next) => {
     errorType: isSuccess ? undefined : classifyError(statusCode),
     pricingType: tier === "dynamic" ? "dynamic" : "fixed",
     tier: tier === "dynamic" ? undefined : tier,
-    amountCharged: getAmountCharged(tier, tokenType),
+    amountCharged: x402Context?.priceEstimate
+      ? Number(x402Context.priceEstimate.amountInToken)
+      : getAmountCharged(tier, tokenType),
     token: tokenType,
     durationMs,
     responseBytes,
@@ -413,6 +497,41 @@ app.use("*", async (c, next) => {
       })()
     );
   }
+
+  // Per-payer usage, for /usage/me. The payment settled before the handler
+  // ran, so requests are recorded whatever their status.
+  if (
+    c.env.USAGE_DO &&
+    payerAddress &&
+    payerAddress !== "anonymous" &&
+    x402Context?.settleResult?.success &&
+    !c.get("usageRecorded")
+  ) {
+    const usage: UsageRecord = {
+      requestId: c.var.requestId,
+      endpoint,
+      category,
+      payerAddress,
+      pricingType: tier === "dynamic" ? "dynamic" : "fixed",
+      tier: tier === "dynamic" ? undefined : tier,
+      amountCharged: Number(x402Context.priceEstimate?.amountInToken ?? 0),
+      token: x402Context.priceEstimate?.tokenType ?? tokenType,
+      model,
+      inputTokens,
+      outputTokens,
+      durationMs,
+    };
+    c.executionCtx.waitUntil(
+      (async () => {
+        try {
+          const usageDO = c.env.USAGE_DO.get(c.env.USAGE_DO.idFromName(payerAddress));
+          await usageDO.recordUsage(usage);
+        } catch (error) {
+          c.var.logger.error("Failed to record usage", { error: String(error) });
+        }
+      })()
+    );
+  }
 });
 
 // =============================================================================
@@ -442,9 +561,17 @@ All paid endpoints use the Coinbase-compatible x402 v2 protocol:
 ## Pricing
 | Tier | STX | Description |
 |------|-----|-------------|
-| free | 0 | Model listings, health, docs |
-| standard | 0.001 | All paid endpoints |
-| dynamic | varies | OpenRouter LLM (pass-through + 20%) |
+| free | 0 | Model listings, health, docs, /usage/me, /credits balance and session revoke |
+| standard | 0.001+ | Other paid endpoints, priced per route and operation (below) |
+| dynamic | varies | OpenRouter LLM (pass-through + 20%), /credits/topup (amount you choose) |
+
+Most routes cost 0.001 STX. Workers AI routes (Cloudflare chat, memory consolidate) cost 0.003 STX and /stacks/profile 0.002 STX. Writes add size-based components, measured before settlement and listed in the 402 under \`extra.pricing.components\`:
+- Bytes written (KV values, pastes, queue pushes, memory stores, KV batches, imports): +0.001 STX per started 64 KB beyond the first 64 KB
+- Items pushed (queue jobs, KV batch operations, DB batch statements): +0.0001 STX per item beyond 10
+- Embeddings generated (memory store items): +0.0002 STX per embedding beyond 5
+
+## Prepaid Credits
+Top up once with \`POST /credits/topup\` and send the returned session token as \`Authorization: Bearer <token>\` (without \`payment-signature\`): each paid call then debits your balance instead of settling a payment. \`POST /credits/session\` opens a new session on an existing balance (e.g. overcharges credited back on LLM calls) without topping up.
       `.trim(),
     },
     tags: [
@@ -455,10 +582,16 @@ All paid endpoints use the Coinbase-compatible x402 v2 protocol:
       { name: "Hashing", description: "Clarity-compatible hashing functions" },
       { name: "Storage - KV", description: "Key-value storage" },
       { name: "Storage - Paste", description: "Text paste bin" },
+      { name: "Paste - Shared", description: "Free reads of unlisted and public pastes" },
       { name: "Storage - DB", description: "SQL database" },
       { name: "Storage - Sync", description: "Distributed locks" },
       { name: "Storage - Queue", description: "Job queue" },
       { name: "Storage - Memory", description: "Vector memory with embeddings" },
+      { name: "Storage - Usage", description: "Storage footprint and quotas" },
+      { name: "Storage - Archive", description: "Export and import of all storage" },
+      { name: "Storage - Grants", description: "Signed grants letting other payers use your storage" },
+      { name: "Usage", description: "Free per-payer spend reports, authenticated by a signed challenge" },
+      { name: "Credits", description: "Prepaid credit balances spent through bearer session tokens" },
     ],
     servers: [
       { url: "https://x402.aibtc.com", description: "Production (mainnet)" },
@@ -483,6 +616,8 @@ app.get("/", (c) => {
       stacks: "/stacks/* - Blockchain utilities",
       hashing: "/hashing/* - Clarity-compatible hashing",
       storage: "/storage/* - Stateful operations (KV, paste, DB, sync, queue, memory)",
+      usage: "/usage/me/* - Your own spend (free, signed challenge)",
+      credits: "/credits/* - Prepaid balance and session tokens (pay once, call many times)",
     },
     payment: {
       version: 2,
@@ -568,15 +703,28 @@ openapi.get("/storage/kv/:key", KvGet);
 openapi.post("/storage/kv", KvSet);
 openapi.delete("/storage/kv/:key", KvDelete);
 openapi.get("/storage/kv", KvList);
+openapi.post("/storage/kv/incr", KvIncr);
+openapi.post("/storage/kv/batch", KvBatch);
+openapi.post("/storage/kv/watch", KvWatch);
 
 // Paste (read/write tiers)
 openapi.post("/storage/paste", PasteCreate);
 openapi.get("/storage/paste/:id", PasteGet);
+openapi.put("/storage/paste/:id", PasteUpdate);
 openapi.delete("/storage/paste/:id", PasteDelete);
+openapi.get("/storage/paste/:id/revisions", PasteRevisions);
+openapi.get("/storage/paste/:id/diff", PasteDiff);
+openapi.get("/storage/paste/:id/raw", PasteRaw);
+
+// Shared pastes (free)
+openapi.get("/paste", SharedPasteList);
+openapi.get("/paste/:id", SharedPasteGet);
+openapi.get("/paste/:id/raw", SharedPasteRaw);
 
 // DB (read/write tiers)
 openapi.post("/storage/db/query", DbQuery);
 openapi.post("/storage/db/execute", DbExecute);
+openapi.post("/storage/db/batch", DbBatch);
 openapi.get("/storage/db/schema", DbSchema);
 
 // Sync/Locks (read/write tiers)
@@ -592,6 +740,11 @@ openapi.post("/storage/queue/pop", QueuePop);
 openapi.get("/storage/queue/peek", QueuePeek);
 openapi.get("/storage/queue/status", QueueStatus);
 openapi.post("/storage/queue/clear", QueueClear);
+openapi.post("/storage/queue/ack", QueueAck);
+openapi.post("/storage/queue/nack", QueueNack);
+openapi.post("/storage/queue/extend", QueueExtend);
+openapi.get("/storage/queue/dead", QueueDead);
+openapi.post("/storage/queue/redrive", QueueRedrive);
 
 // Memory/Vector (read/write_large tiers)
 openapi.post("/storage/memory/store", MemoryStore);
@@ -599,6 +752,41 @@ openapi.post("/storage/memory/search", MemorySearch);
 openapi.post("/storage/memory/delete", MemoryDelete);
 openapi.get("/storage/memory/list", MemoryList);
 openapi.post("/storage/memory/clear", MemoryClear);
+openapi.get("/storage/memory/collections", MemoryCollections);
+openapi.post("/storage/memory/consolidate", MemoryConsolidate);
+
+// Usage (read tier)
+openapi.get("/storage/usage", StorageUsageGet);
+
+// Archive (read/write_large tiers)
+openapi.get("/storage/export", StorageExport);
+openapi.post("/storage/import", StorageImport);
+
+// Access grants (read/write tiers)
+openapi.post("/storage/grants", StorageGrantCreate);
+openapi.get("/storage/grants", StorageGrantList);
+openapi.delete("/storage/grants/:nonce", StorageGrantRevoke);
+
+// =============================================================================
+// Usage Routes (free, signed challenge)
+// =============================================================================
+
+openapi.get("/usage/me/challenge", UsageChallenge);
+openapi.get("/usage/me", UsageSummary);
+openapi.get("/usage/me/endpoints", UsageByEndpoint);
+openapi.get("/usage/me/models", UsageByModel);
+openapi.get("/usage/me/daily", UsageDaily);
+openapi.get("/usage/me/recent", UsageRecent);
+openapi.get("/usage/me/reconciliation", UsageReconciliation);
+
+// =============================================================================
+// Credit Routes (paid top-up, free session routes)
+// =============================================================================
+
+openapi.post("/credits/topup", CreditTopup);
+openapi.get("/credits/balance", CreditBalanceGet);
+openapi.post("/credits/session", CreditSessionOpen);
+openapi.delete("/credits/session", CreditSessionRevoke);
 
 // =============================================================================
 // Error Handling
@@ -10,6 +10,7 @@
  *   payment.confirmed  — relay settled successfully
  *   payment.failed     — relay rejected with a terminal failure reason
  *   payment.replaced   — payment was replaced by another tx (nonce race)
+ *   payment.credited   — request paid from a prepaid credit session instead
  */
 
 import type { Context, MiddlewareHandler } from "hono";
@@ -43,6 +44,13 @@ import {
   estimateChatPayment,
 } from "../services/pricing";
 import { lookupModel } from "../services/model-cache";
+import { getTokenRate, hasCheckedTokenRates, refreshTokenRates } from "../services/price-oracle";
+import {
+  estimateRoutePayment,
+  measureRouteRequest,
+  needsRequestBody,
+  type MatchedRoutePrice,
+} from "../services/route-pricing";
 import { getEndpointMetadata, buildBazaarExtension } from "../bazaar";
 import {
   derivePaymentInstability,
@@ -50,6 +58,7 @@ import {
 } from "../utils/payment-observability";
 import { computeDerivedHints } from "../utils/payment-hints";
 import type { DerivedHints } from "../utils/payment-hints";
+import { bearerToken, parseSessionToken } from "../utils/credit-session";
 
 // =============================================================================
 // Types
@@ -60,8 +69,12 @@ export interface X402MiddlewareOptions {
   tier?: PricingTier;
   /** Set to true for dynamic pricing (LLM endpoints) */
   dynamic?: boolean;
-  /** Custom price estimator for dynamic pricing */
+  /** Custom price estimator for dynamic pricing (may throw to reject the request) */
   estimator?: (body: unknown, tokenType: TokenType, log: Logger) => PriceEstimate;
+  /** Accept a prepaid credit session (Authorization: Bearer) in place of payment (default true) */
+  acceptCredits?: boolean;
+  /** Route price table entry; replaces the tier price for fixed pricing */
+  routePrice?: MatchedRoutePrice | null;
 }
 
 // =============================================================================
@@ -283,7 +296,7 @@ function getRetryAction(code: string): string {
 export function x402Middleware(
   options: X402MiddlewareOptions = {}
 ): MiddlewareHandler<{ Bindings: Env; Variables: AppVariables }> {
-  const { tier = "standard", dynamic = false, estimator } = options;
+  const { tier = "standard", dynamic = false, estimator, acceptCredits = true, routePrice } = options;
 
   return async (c, next) => {
     const log = c.var.logger;
@@ -314,6 +327,16 @@ export function x402Middleware(
       return c.json({ error: String(err) }, 400);
     }
 
+    // Convert at the live rate of the payment token (USDCx is pegged). The
+    // isolate's rates refresh in the background; only its first request waits.
+    if (tokenType !== "USDCx" && (dynamic || tier !== "free")) {
+      if (hasCheckedTokenRates()) {
+        c.executionCtx.waitUntil(refreshTokenRates(c.env, log));
+      } else {
+        await refreshTokenRates(c.env, log);
+      }
+    }
+
     // Calculate price estimate based on pricing type
     let priceEstimate: PriceEstimate;
     let parsedBody: unknown = undefined;
@@ -327,7 +350,11 @@ export function x402Middleware(
       }
 
       if (estimator) {
-        priceEstimate = estimator(parsedBody, tokenType, log);
+        try {
+          priceEstimate = estimator(parsedBody, tokenType, log);
+        } catch (err) {
+          return c.json({ error: err instanceof Error ? err.message : String(err) }, 400);
+        }
       } else {
         // Default: assume chat completion request
         const chatRequest = parsedBody as ChatCompletionRequest;
@@ -373,6 +400,20 @@ export function x402Middleware(
           priceEstimate = estimateChatPayment(chatRequest, tokenType, log);
         }
       }
+    } else if (routePrice && tier !== "free") {
+      // Route pricing - size-based components are measured before settlement
+      if (needsRequestBody(routePrice)) {
+        try {
+          parsedBody = await c.req.json();
+        } catch {
+          // Not JSON: nothing to measure, and the handler rejects the body
+        }
+      }
+      const quantities = measureRouteRequest(routePrice, parsedBody, c.req.header("Content-Length"));
+      if (!quantities) {
+        return c.json({ error: "Content-Length is required to price this request", code: "LENGTH_REQUIRED" }, 411);
+      }
+      priceEstimate = estimateRoutePayment(routePrice, quantities, tokenType);
     } else {
       // Fixed tier pricing
       priceEstimate = getFixedTierEstimate(tier, tokenType);
@@ -417,13 +458,78 @@ export function x402Middleware(
           : {
               type: "fixed",
               tier,
+              ...(priceEstimate.route && {
+                route: priceEstimate.route,
+                components: priceEstimate.components,
+              }),
             },
+        // USD rate the amount was converted at
+        rate: getTokenRate(tokenType),
       },
     };
 
     // Check for v2 payment header
     const paymentSignature = c.req.header(X402_HEADERS.PAYMENT_SIGNATURE);
 
+    // Prepaid credits: without a payment, a credit session token spends the
+    // payer's balance instead of settling with the relay
+    const sessionToken = acceptCredits && !paymentSignature
+      ? bearerToken(c.req.header("Authorization"))
+      : null;
+    const creditPayer = sessionToken ? parseSessionToken(sessionToken) : null;
+    let creditShortfall: string | undefined;
+
+    if (sessionToken && creditPayer && c.env.CREDIT_LEDGER_DO) {
+      const ledger = c.env.CREDIT_LEDGER_DO.get(c.env.CREDIT_LEDGER_DO.idFromName(creditPayer));
+      const debit = await ledger.debit({
+        sessionToken,
+        token: tokenType,
+        amount: Number(priceEstimate.amountInToken),
+        endpoint: c.req.path,
+      });
+
+      if (!debit.ok && debit.reason === "invalid_session") {
+        return c.json({
+          error: "Credit session is expired or revoked; top up at /credits/topup for a new one",
+          code: "INVALID_CREDIT_SESSION",
+        }, 401);
+      }
+
+      if (debit.ok) {
+        logPaymentEvent(log, "info", "payment.credited", {
+          route: c.req.path,
+          status: "confirmed",
+          action: "allow_request",
+        }, {
+          payerAddress: creditPayer,
+          asset,
+          network: networkV2,
+          amount: paymentRequirements.amount,
+          balance: debit.balance.balance,
+          tier: dynamic ? "dynamic" : tier,
+        });
+
+        c.set("x402", {
+          payerAddress: creditPayer,
+          settleResult: { success: true, transaction: "", network: networkV2, payer: creditPayer },
+          paymentPayload: undefined,
+          paymentRequirements,
+          priceEstimate,
+          parsedBody,
+          credits: debit.balance,
+        } as X402Context);
+
+        c.header("X-PAYER-ADDRESS", creditPayer);
+        c.header("X-Credit-Balance", String(debit.balance.balance));
+
+        return next();
+      }
+
+      // Not enough credit: fall through to a regular 402 so the client can pay directly
+      creditShortfall = `Insufficient credit balance: ${debit.balance} ${tokenType} base units left, ` +
+        `${paymentRequirements.amount} required`;
+    }
+
     if (!paymentSignature) {
       // Return 402 with v2 payment requirements
       log.info("No payment header, returning 402", {
@@ -445,6 +551,7 @@ export function x402Middleware(
 
       const paymentRequired: PaymentRequiredV2 = {
         x402Version: 2,
+        ...(creditShortfall && { error: creditShortfall }),
         resource: {
           url: c.req.path,
           description: `x402 API - ${c.req.path}`,
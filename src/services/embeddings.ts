@@ -0,0 +1,72 @@
+/**
+ * Embeddings Service
+ *
+ * Text embedding models available to memory collections (Workers AI).
+ * Each collection declares one model; every vector in it comes from that model.
+ */
+
+/** Workers AI embedding models a memory collection can declare */
+export const EMBEDDING_MODELS = {
+  "bge-small": { model: "@cf/baai/bge-small-en-v1.5", dimensions: 384 },
+  "bge-base": { model: "@cf/baai/bge-base-en-v1.5", dimensions: 768 },
+  "bge-large": { model: "@cf/baai/bge-large-en-v1.5", dimensions: 1024 },
+  // Multilingual (100+ languages)
+  "bge-m3": { model: "@cf/baai/bge-m3", dimensions: 1024 },
+} as const;
+
+export type EmbeddingModelName = keyof typeof EMBEDDING_MODELS;
+
+/**
+ * Collections declared "custom" only hold caller-supplied vectors
+ * (bring-your-own embeddings); the server never embeds text for them.
+ */
+export const CUSTOM_EMBEDDING_MODEL = "custom";
+
+/** What a collection declares: a Workers AI model, or custom vectors */
+export type CollectionModel = EmbeddingModelName | typeof CUSTOM_EMBEDDING_MODEL;
+
+/** Model used by collections that never declared one (including pre-collection data) */
+export const DEFAULT_EMBEDDING_MODEL: EmbeddingModelName = "bge-base";
+
+/** Upper bound on caller-supplied vector dimensions */
+export const MAX_EMBEDDING_DIMENSIONS = 4096;
+
+export function isEmbeddingModelName(name: unknown): name is EmbeddingModelName {
+  return typeof name === "string" && Object.prototype.hasOwnProperty.call(EMBEDDING_MODELS, name);
+}
+
+export function isCollectionModel(name: unknown): name is CollectionModel {
+  return name === CUSTOM_EMBEDDING_MODEL || isEmbeddingModelName(name);
+}
+
+/**
+ * Validate a caller-supplied embedding. Returns an error message, or null when valid.
+ * `dimensions` is the collection's vector size, when known.
+ */
+export function validateEmbedding(embedding: unknown, dimensions: number | null, label: string): string | null {
+  if (
+    !Array.isArray(embedding) ||
+    embedding.length === 0 ||
+    embedding.length > MAX_EMBEDDING_DIMENSIONS ||
+    !embedding.every((x) => typeof x === "number" && Number.isFinite(x))
+  ) {
+    return `${label} must be an array of 1-${MAX_EMBEDDING_DIMENSIONS} finite numbers`;
+  }
+  if (dimensions !== null && embedding.length !== dimensions) {
+    return `${label} has ${embedding.length} dimensions; the collection expects ${dimensions}`;
+  }
+  return null;
+}
+
+/**
+ * Embed texts with a collection's model. Throws on model failure.
+ */
+export async function embedTexts(
+  ai: Ai,
+  modelName: EmbeddingModelName,
+  texts: string[]
+): Promise<number[][]> {
+  const { model } = EMBEDDING_MODELS[modelName];
+  const result = await ai.run(model, { text: texts }) as { data: number[][] };
+  return result.data;
+}
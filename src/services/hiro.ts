@@ -268,6 +268,42 @@ export class HiroClient {
 
     return data.results[0];
   }
+
+  /**
+   * Call a read-only contract function; returns the serialized Clarity result (hex)
+   */
+  async callReadOnly(
+    contractId: string,
+    functionName: string,
+    args: string[] = [],
+    signal?: AbortSignal
+  ): Promise<string> {
+    this.log.debug("Calling read-only function", { contractId, functionName });
+
+    const [contractAddress, contractName] = contractId.split(".");
+    const response = await fetch(
+      `${this.baseUrl}/v2/contracts/call-read/${contractAddress}/${contractName}/${functionName}`,
+      {
+        method: "POST",
+        headers: this.getHeaders(),
+        body: JSON.stringify({ sender: contractAddress, arguments: args }),
+        signal,
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      this.log.error("Failed to call read-only function", { contractId, functionName, error });
+      throw new HiroError(`Failed to call read-only function: ${response.status}`, response.status);
+    }
+
+    const data = (await response.json()) as { okay: boolean; result?: string; cause?: string };
+    if (!data.okay || !data.result) {
+      throw new HiroError(`Read-only call failed: ${data.cause ?? "no result"}`, 502);
+    }
+
+    return data.result;
+  }
 }
 
 // =============================================================================
@@ -0,0 +1,63 @@
+/**
+ * Memory Consolidation Service
+ *
+ * Summarizes a group of related memories into a single entry using
+ * Workers AI (Llama 3.1 8B), for /storage/memory/consolidate.
+ */
+
+/** Model used for summarization */
+const CONSOLIDATION_MODEL = "@cf/meta/llama-3.1-8b-instruct";
+
+/** Maximum characters of all memories in one prompt */
+const MAX_PROMPT_LENGTH = 12000;
+
+/** Max output tokens for a consolidated memory */
+const CONSOLIDATION_MAX_TOKENS = 400;
+
+/** Low temperature: faithful summaries, not creative ones */
+const CONSOLIDATION_TEMPERATURE = 0.2;
+
+const CONSOLIDATION_PROMPT = `You consolidate an AI agent's memory. You receive several related memory entries, one per line, each starting with "- ".
+
+Write ONE memory entry that preserves every distinct fact, name, identifier, number and date from the entries, merging duplicates. Write plain prose in the third person, as short as possible without losing information. Do not add commentary, headings or facts that are not in the entries.
+
+Respond with ONLY the consolidated memory text.`;
+
+/**
+ * Summarize related memories into one entry. Entries are never truncated:
+ * those that do not fit in the prompt are left out, and `used` is how many of
+ * `texts` (from the start) the summary covers, so the caller only replaces those.
+ * Throws if fewer than two entries fit, or the model fails or returns nothing.
+ */
+export async function summarizeMemories(ai: Ai, texts: string[]): Promise<{ summary: string; used: number }> {
+  let prompt = "";
+  let used = 0;
+  for (const text of texts) {
+    const line = `- ${text.replace(/\s+/g, " ")}\n`;
+    if (prompt.length + line.length > MAX_PROMPT_LENGTH) break;
+    prompt += line;
+    used++;
+  }
+  if (used < 2) {
+    throw new Error("Memories too long to consolidate in one prompt");
+  }
+
+  const response = await ai.run(
+    CONSOLIDATION_MODEL as Parameters<typeof ai.run>[0],
+    {
+      messages: [
+        { role: "system", content: CONSOLIDATION_PROMPT },
+        { role: "user", content: prompt },
+      ],
+      max_tokens: CONSOLIDATION_MAX_TOKENS,
+      temperature: CONSOLIDATION_TEMPERATURE,
+      stream: false,
+    }
+  );
+
+  const summary = ((response as { response?: string })?.response ?? "").trim();
+  if (!summary) {
+    throw new Error("Model returned an empty summary");
+  }
+  return { summary, used };
+}
@@ -0,0 +1,254 @@
+/**
+ * Price Feed Adapters
+ *
+ * Sources of USD quotes for PriceOracleDO. Every feed is asked on each
+ * refresh; a feed that fails or times out is skipped and the oracle
+ * aggregates the quotes of the rest (see utils/price-oracle).
+ */
+
+import { cvToHex, cvToJSON, hexToCV, principalCV, uintCV } from "@stacks/transactions";
+import type { Env, Logger } from "../types";
+import { HiroClient } from "./hiro";
+import { ORACLE_TOKENS, type OracleToken, type PriceQuote } from "../utils/price-oracle";
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Per-feed timeout, so one slow feed doesn't hold up a refresh */
+const FEED_TIMEOUT_MS = 3_000;
+
+const COINGECKO_API = "https://api.coingecko.com/api/v3/simple/price";
+
+/** CoinGecko coin ids (sBTC is pegged 1:1 to BTC) */
+const COINGECKO_IDS: Record<OracleToken, string> = {
+  STX: "blockstack",
+  sBTC: "bitcoin",
+};
+
+/** ALEX AMM deployer; its pools keep balances in 8-decimal fixed point */
+const ALEX_DEPLOYER = "SP102V8P0F7JX67ARQ77WEA3D3CFB5XW39REDT0AM";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface PriceFeed {
+  name: string;
+  fetchQuotes(signal: AbortSignal): Promise<PriceQuote[]>;
+}
+
+/**
+ * A constant-product DEX pool pairing a token with a USD stablecoin, read
+ * through a read-only function that returns both reserves
+ */
+export interface PricePool {
+  token: OracleToken;
+  /** Pool contract id, e.g. SP000...pool-name */
+  contract: string;
+  functionName: string;
+  /** Hex-serialized Clarity arguments of the function (default: none) */
+  args?: string[];
+  /** Names of the uint fields holding each reserve in the result tuple */
+  tokenReserve: string;
+  quoteReserve: string;
+  tokenDecimals: number;
+  quoteDecimals: number;
+}
+
+/**
+ * Pools read when PRICE_FEED_POOLS is not set: the ALEX STX/aeUSDC pool
+ * (weight factor 1.0, i.e. constant product), so STX always has a second
+ * feed to check CoinGecko against
+ */
+export const DEFAULT_PRICE_POOLS: PricePool[] = [
+  {
+    token: "STX",
+    contract: `${ALEX_DEPLOYER}.amm-pool-v2-01`,
+    functionName: "get-pool-details",
+    args: [
+      cvToHex(principalCV(`${ALEX_DEPLOYER}.token-wstx-v2`)),
+      cvToHex(principalCV(`${ALEX_DEPLOYER}.token-waeusdc`)),
+      cvToHex(uintCV(100_000_000)),
+    ],
+    tokenReserve: "balance-x",
+    quoteReserve: "balance-y",
+    tokenDecimals: 8,
+    quoteDecimals: 8,
+  },
+];
+
+// =============================================================================
+// Feeds
+// =============================================================================
+
+/**
+ * CoinGecko simple price API (public, no key)
+ */
+export function coinGeckoFeed(): PriceFeed {
+  return {
+    name: "coingecko",
+    async fetchQuotes(signal) {
+      const ids = ORACLE_TOKENS.map((token) => COINGECKO_IDS[token]).join(",");
+      const response = await fetch(`${COINGECKO_API}?ids=${ids}&vs_currencies=usd`, { signal });
+      if (!response.ok) {
+        throw new Error(`CoinGecko returned ${response.status}`);
+      }
+
+      const data = (await response.json()) as Record<string, { usd?: unknown } | undefined>;
+      const quotes: PriceQuote[] = [];
+      for (const token of ORACLE_TOKENS) {
+        const usd = data[COINGECKO_IDS[token]]?.usd;
+        if (typeof usd === "number") {
+          quotes.push({ token, usd, source: "coingecko" });
+        }
+      }
+      return quotes;
+    },
+  };
+}
+
+/**
+ * Find a uint field by name anywhere in a cvToJSON result, e.g. inside
+ * (ok (tuple ...)) or a nested tuple
+ */
+function findUint(json: unknown, field: string): bigint | null {
+  if (!json || typeof json !== "object") return null;
+  const value = (json as { value?: unknown }).value;
+  if (!value || typeof value !== "object") return null;
+
+  const entry = (value as Record<string, { type?: string; value?: unknown }>)[field];
+  if (entry?.type === "uint" && typeof entry.value === "string") {
+    return BigInt(entry.value);
+  }
+  if ("type" in value) return findUint(value, field);
+  for (const nested of Object.values(value)) {
+    const found = findUint(nested, field);
+    if (found !== null) return found;
+  }
+  return null;
+}
+
+/**
+ * Spot price from one pool's reserves (quote reserve / token reserve,
+ * adjusted for decimals)
+ */
+async function readPoolQuote(hiro: HiroClient, pool: PricePool, signal: AbortSignal): Promise<PriceQuote> {
+  const result = await hiro.callReadOnly(pool.contract, pool.functionName, pool.args ?? [], signal);
+  const json = cvToJSON(hexToCV(result));
+  const tokenReserve = findUint(json, pool.tokenReserve);
+  const quoteReserve = findUint(json, pool.quoteReserve);
+  if (!tokenReserve || !quoteReserve) {
+    throw new Error(`Pool ${pool.contract} has no reserves ${pool.tokenReserve}/${pool.quoteReserve}`);
+  }
+
+  const tokens = Number(tokenReserve) / 10 ** pool.tokenDecimals;
+  const quote = Number(quoteReserve) / 10 ** pool.quoteDecimals;
+  return { token: pool.token, usd: quote / tokens, source: `pool:${pool.contract}` };
+}
+
+/**
+ * Spot prices from DEX pool reserves, read through the Hiro API. A pool that
+ * fails to read is logged and skipped; the feed only fails when all do.
+ */
+export function hiroPoolFeed(pools: PricePool[], log: Logger, apiKey?: string): PriceFeed {
+  const hiro = new HiroClient(log, "mainnet", apiKey);
+
+  return {
+    name: "hiro-pool",
+    async fetchQuotes(signal) {
+      const results = await Promise.allSettled(pools.map((pool) => readPoolQuote(hiro, pool, signal)));
+
+      const quotes: PriceQuote[] = [];
+      results.forEach((result, i) => {
+        if (result.status === "fulfilled") {
+          quotes.push(result.value);
+        } else {
+          log.warn("Price pool read failed", {
+            contract: pools[i].contract,
+            error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+          });
+        }
+      });
+      if (quotes.length === 0 && pools.length > 0) {
+        throw new Error(`All ${pools.length} pool reads failed`);
+      }
+      return quotes;
+    },
+  };
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/** A hex-serialized Clarity value, with or without 0x */
+const HEX_ARG = /^(0x)?[0-9a-fA-F]+$/;
+
+/**
+ * Pools from the PRICE_FEED_POOLS variable: a JSON array of PricePool, e.g.
+ * [{"token":"STX","contract":"SP...stx-usdc-pool","functionName":"get-pool",
+ * "args":["0x01..."],"tokenReserve":"reserve-x","quoteReserve":"reserve-y",
+ * "tokenDecimals":6,"quoteDecimals":6}]. Malformed JSON or entries are ignored.
+ */
+export function parsePricePools(raw: string | undefined): PricePool[] {
+  if (!raw) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(parsed)) return [];
+
+  return parsed.filter((pool): pool is PricePool =>
+    !!pool &&
+    typeof pool === "object" &&
+    (ORACLE_TOKENS as readonly unknown[]).includes(pool.token) &&
+    typeof pool.contract === "string" && pool.contract.includes(".") &&
+    typeof pool.functionName === "string" &&
+    (pool.args === undefined ||
+      (Array.isArray(pool.args) && pool.args.every((arg: unknown) => typeof arg === "string" && HEX_ARG.test(arg)))) &&
+    typeof pool.tokenReserve === "string" &&
+    typeof pool.quoteReserve === "string" &&
+    Number.isInteger(pool.tokenDecimals) &&
+    Number.isInteger(pool.quoteDecimals)
+  );
+}
+
+/**
+ * Feeds configured for this deployment: CoinGecko, plus DEX pools read
+ * through Hiro -- the PRICE_FEED_POOLS pools when set ("[]" disables the
+ * pool feed), DEFAULT_PRICE_POOLS otherwise
+ */
+export function priceFeedsFromEnv(env: Env, log: Logger): PriceFeed[] {
+  const feeds = [coinGeckoFeed()];
+  const pools = env.PRICE_FEED_POOLS === undefined ? DEFAULT_PRICE_POOLS : parsePricePools(env.PRICE_FEED_POOLS);
+  if (pools.length > 0) {
+    feeds.push(hiroPoolFeed(pools, log, env.HIRO_API_KEY));
+  }
+  return feeds;
+}
+
+/**
+ * Ask every feed for quotes in parallel; failed feeds are logged and skipped
+ */
+export async function collectQuotes(feeds: PriceFeed[], log: Logger): Promise<PriceQuote[]> {
+  const results = await Promise.allSettled(
+    feeds.map((feed) => feed.fetchQuotes(AbortSignal.timeout(FEED_TIMEOUT_MS)))
+  );
+
+  const quotes: PriceQuote[] = [];
+  results.forEach((result, i) => {
+    if (result.status === "fulfilled") {
+      quotes.push(...result.value);
+    } else {
+      log.warn("Price feed failed", {
+        feed: feeds[i].name,
+        error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+      });
+    }
+  });
+  return quotes;
+}
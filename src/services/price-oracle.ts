@@ -0,0 +1,110 @@
+/**
+ * Price Oracle Service
+ *
+ * Isolate-scoped snapshot of the token rates served by PriceOracleDO, so the
+ * synchronous pricing functions can convert USD to tokens without a DO call
+ * per conversion. Until the oracle has answered, and whenever a rate is past
+ * PRICE_MAX_STALE_MS, the fixed rates apply. Requests are priced from the
+ * snapshot while it refreshes in the background; only an isolate that has not
+ * asked the oracle yet waits for it.
+ */
+
+import type { Env, Logger, TokenType } from "../types";
+import { PRICE_MAX_STALE_MS, fixedTokenRate, type TokenRate } from "../utils/price-oracle";
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** How long the isolate reuses a snapshot before asking the oracle again */
+const SNAPSHOT_TTL_MS = 30_000;
+
+/** Name of the single PriceOracleDO instance */
+const ORACLE_NAME = "global-prices";
+
+// =============================================================================
+// Module-level Snapshot
+// =============================================================================
+
+/** Latest rates from the oracle -- isolate-scoped, resets on deploy/recycle */
+const snapshot = new Map<TokenType, TokenRate>();
+
+/** When the oracle was last asked, successful or not (failures back off too) */
+let checkedAt: number | null = null;
+
+/** Shared in-flight refresh to collapse concurrent callers */
+let inflightRefresh: Promise<void> | null = null;
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * The rate a token is priced at right now
+ */
+export function getTokenRate(token: TokenType): TokenRate {
+  const now = Date.now();
+  const rate = snapshot.get(token);
+  if (!rate || now - rate.observedAt > PRICE_MAX_STALE_MS) {
+    return fixedTokenRate(token, now);
+  }
+  return rate;
+}
+
+/**
+ * Whether the isolate has asked the oracle yet (answered or not)
+ */
+export function hasCheckedTokenRates(): boolean {
+  return checkedAt !== null;
+}
+
+/**
+ * Replace the snapshot, e.g. with the oracle's answer (an empty list resets
+ * to the fixed rates)
+ */
+export function setTokenRates(rates: TokenRate[]): void {
+  snapshot.clear();
+  for (const rate of rates) {
+    // Fixed fallbacks are recomputed on read, so they never go stale
+    if (rate.source !== "fixed") snapshot.set(rate.token, rate);
+  }
+  checkedAt = Date.now();
+}
+
+/**
+ * Refresh the snapshot from PriceOracleDO when it is older than
+ * SNAPSHOT_TTL_MS. Never throws: on failure the current snapshot is kept.
+ */
+export async function refreshTokenRates(env: Env, log: Logger): Promise<void> {
+  if (!env.PRICE_ORACLE_DO) return;
+  if (checkedAt !== null && Date.now() - checkedAt < SNAPSHOT_TTL_MS) return;
+  if (inflightRefresh) return inflightRefresh;
+
+  inflightRefresh = (async () => {
+    try {
+      const oracle = env.PRICE_ORACLE_DO.get(env.PRICE_ORACLE_DO.idFromName(ORACLE_NAME));
+      setTokenRates(await oracle.getRates());
+    } catch (err) {
+      checkedAt = Date.now();
+      log.warn("Price oracle unavailable -- keeping current token rates", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  })();
+
+  try {
+    await inflightRefresh;
+  } finally {
+    inflightRefresh = null;
+  }
+}
+
+/**
+ * Reset the snapshot to the fixed rates.
+ * Exported for unit tests only — not intended for production use.
+ */
+export function _resetTokenRatesForTesting(): void {
+  snapshot.clear();
+  checkedAt = null;
+  inflightRefresh = null;
+}
@@ -14,6 +14,8 @@ import type {
   ChatCompletionRequest,
   Logger,
 } from "../types";
+import { CREDIT_MIN_TOPUP_CALLS } from "../utils/credit-session";
+import { getTokenRate } from "./price-oracle";
 
 // =============================================================================
 // Constants
@@ -31,6 +33,16 @@ const MIN_PAYMENT_USD = 0.001;
 /** Approximate tokens per character (conservative estimate) */
 const TOKENS_PER_CHAR = 0.25;
 
+/**
+ * Undercharged LLM cost the house absorbs per payer and token within any
+ * HOUSE_RISK_WINDOW_S (USD); beyond it, undercharges are recorded as
+ * unrecovered and never taken from the payer's credit balance
+ */
+export const HOUSE_RISK_CAP_USD = 0.05;
+
+/** Rolling window over which HOUSE_RISK_CAP_USD applies (seconds) */
+export const HOUSE_RISK_WINDOW_S = 86400;
+
 // =============================================================================
 // Fixed Tier Pricing
 // =============================================================================
@@ -107,24 +119,6 @@ const DEFAULT_MODEL_PRICING: ModelPricing = {
   completionPer1k: 0.03,
 };
 
-// =============================================================================
-// Token Exchange Rates
-// =============================================================================
-
-/**
- * Token exchange rates (approximate, for converting USD to tokens)
- * Updated periodically based on market rates
- *
- * TODO: Replace STX rate with a dynamic price oracle (e.g., Bitflow STX/USD feed
- *       or Hiro API market data). The hardcoded rate causes pricing drift as STX
- *       market price moves. A live feed would ensure accurate USD-equivalent pricing.
- */
-const TOKEN_RATES: Record<TokenType, number> = {
-  STX: 0.50,      // 1 STX ≈ $0.50 USD — hardcoded, see TODO above
-  sBTC: 100000,   // 1 sBTC ≈ $100,000 USD
-  USDCx: 1.0,     // 1 USDCx = $1 USD (Circle USDC via xReserve)
-};
-
 // =============================================================================
 // Public Functions
 // =============================================================================
@@ -221,10 +215,10 @@ const MIN_TOKEN_AMOUNTS: Record<TokenType, bigint> = {
 };
 
 /**
- * Convert USD to token amount
+ * Convert USD to token amount at the token's current rate (see price-oracle)
  */
 export function usdToTokenAmount(usd: number, tokenType: TokenType): bigint {
-  const rate = TOKEN_RATES[tokenType];
+  const rate = getTokenRate(tokenType).usd;
   const tokenAmount = usd / rate;
 
   let result: bigint;
@@ -255,10 +249,24 @@ export function usdToTokenAmount(usd: number, tokenType: TokenType): bigint {
  */
 export function stxToTokenAmount(stx: number, tokenType: TokenType): bigint {
   // Convert STX to USD first, then to target token
-  const usd = stx * TOKEN_RATES.STX;
+  const usd = stx * getTokenRate("STX").usd;
   return usdToTokenAmount(usd, tokenType);
 }
 
+/** Base units per whole token */
+const TOKEN_DECIMALS: Record<TokenType, number> = {
+  STX: 6,
+  sBTC: 8,
+  USDCx: 6,
+};
+
+/**
+ * Convert a token amount (base units) to USD at the token's current rate
+ */
+export function tokenAmountToUsd(amount: bigint, tokenType: TokenType): number {
+  return (Number(amount) / 10 ** TOKEN_DECIMALS[tokenType]) * getTokenRate(tokenType).usd;
+}
+
 /**
  * Get price estimate for a fixed tier
  */
@@ -350,6 +358,33 @@ export function estimateChatPayment(
   return estimate;
 }
 
+/**
+ * Price a prepaid credit top-up: the payer chooses the amount (base units of
+ * the payment token) in the request body. Throws on an invalid amount.
+ */
+export function estimateCreditTopup(body: unknown, tokenType: TokenType): PriceEstimate {
+  const raw = (body as { amount?: unknown } | null)?.amount;
+  const amountStr = typeof raw === "number" ? String(raw) : raw;
+  if (typeof amountStr !== "string" || !/^\d+$/.test(amountStr) || !Number.isSafeInteger(Number(amountStr))) {
+    throw new Error("amount must be a positive integer in base units of the payment token");
+  }
+
+  const amountInToken = BigInt(amountStr);
+  const minimum = getFixedTierEstimate("standard", tokenType).amountInToken * BigInt(CREDIT_MIN_TOPUP_CALLS);
+  if (amountInToken < minimum) {
+    throw new Error(`amount must be at least ${minimum} ${tokenType} base units (${CREDIT_MIN_TOPUP_CALLS} standard calls)`);
+  }
+
+  const usd = tokenAmountToUsd(amountInToken, tokenType);
+  return {
+    estimatedCostUsd: usd,
+    costWithMarginUsd: usd,
+    amountInToken,
+    tokenType,
+    tier: "dynamic",
+  };
+}
+
 /**
  * Log actual vs estimated cost for PnL tracking
  */
@@ -402,14 +437,32 @@ export function validateTokenType(tokenTypeStr: string): TokenType {
 
 /**
  * Estimate cost from actual usage (for cost tracking after completion)
+ *
+ * @param registryPricing - Optional live pricing from model-cache lookupModel(),
+ *   so the cost matches the pricing the request was estimated with.
  */
 export function estimateActualCost(
   promptTokens: number,
   completionTokens: number,
-  model: string
+  model: string,
+  registryPricing?: ModelPricing
 ): number {
-  const pricing = getModelPricing(model);
+  const pricing = registryPricing ?? getModelPricing(model);
   const promptCost = (promptTokens / 1000) * pricing.promptPer1k;
   const completionCost = (completionTokens / 1000) * pricing.completionPer1k;
   return promptCost + completionCost;
 }
+
+/**
+ * Compare what a dynamic LLM request was charged up front with what its
+ * actual cost comes to at the same margin and minimum. A positive delta was
+ * overcharged, a negative one undercharged (both in base units of the token).
+ */
+export function reconcileChatCharge(
+  estimate: PriceEstimate,
+  actualCostUsd: number
+): { charged: bigint; actual: bigint; delta: bigint } {
+  const actualWithMarginUsd = Math.max(actualCostUsd * (1 + COST_MARGIN), MIN_PAYMENT_USD);
+  const actual = usdToTokenAmount(actualWithMarginUsd, estimate.tokenType);
+  return { charged: estimate.amountInToken, actual, delta: estimate.amountInToken - actual };
+}
@@ -0,0 +1,282 @@
+/**
+ * Route Pricing
+ *
+ * Declarative price table for paid routes, keyed by method and route. Each
+ * route has a base price in STX and optional size-based components (bytes
+ * written, items pushed, embeddings generated) that the x402 middleware
+ * measures on the request before settlement, so a 1 MB paste or a 100-item
+ * memory store costs more than a hash.
+ *
+ * Routes missing from the table are priced by their tier (TIER_PRICING).
+ */
+
+import type { PriceComponentCharge, PriceEstimate, PriceMeasure, TokenType } from "../types";
+import { stxToTokenAmount } from "./pricing";
+import { getTokenRate } from "./price-oracle";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface PriceComponent {
+  measure: PriceMeasure;
+  /**
+   * JSON body fields measured (the first one present counts). Without fields,
+   * "bytes" is the whole request body by its Content-Length.
+   */
+  fields?: string[];
+  /** Items carrying this field are not counted (e.g. precomputed embeddings) */
+  unless?: string;
+  /** Units covered by the base price */
+  included: number;
+  /** Units per price step beyond the included ones (a started step counts) */
+  per: number;
+  /** STX per step */
+  stx: number;
+}
+
+export interface RoutePrice {
+  /** Base price in STX */
+  stx: number;
+  components?: PriceComponent[];
+}
+
+/** A table entry matched to a request */
+export interface MatchedRoutePrice extends RoutePrice {
+  /** Table key, e.g. "PUT /storage/paste/:id" */
+  route: string;
+}
+
+// =============================================================================
+// Price Table
+// =============================================================================
+
+const KB = 1024;
+
+/** Same as the standard tier */
+const BASE = { stx: 0.001 };
+
+/** Workers AI inference */
+const AI = { stx: 0.003 };
+
+/** 0.001 STX per started 64 KB written beyond the first 64 KB */
+const bytesWritten = (...fields: string[]): PriceComponent => ({
+  measure: "bytes",
+  ...(fields.length > 0 && { fields }),
+  included: 64 * KB,
+  per: 64 * KB,
+  stx: 0.001,
+});
+
+/** 0.0001 STX per item beyond the first 10 */
+const itemsPushed = (...fields: string[]): PriceComponent => ({
+  measure: "items",
+  fields,
+  included: 10,
+  per: 1,
+  stx: 0.0001,
+});
+
+/** 0.0002 STX per embedding generated beyond the first 5 (items with their own embedding are free) */
+const embeddingsGenerated = (...fields: string[]): PriceComponent => ({
+  measure: "embeddings",
+  fields,
+  unless: "embedding",
+  included: 5,
+  per: 1,
+  stx: 0.0002,
+});
+
+export const ROUTE_PRICES: Record<string, RoutePrice> = {
+  // Inference (OpenRouter chat is priced per model and token, see estimateChatPayment)
+  "POST /inference/cloudflare/chat": AI,
+
+  // Stacks
+  "GET /stacks/address/:address": BASE,
+  "POST /stacks/decode/clarity": BASE,
+  "POST /stacks/decode/transaction": BASE,
+  "GET /stacks/profile/:address": { stx: 0.002 }, // Several Hiro lookups
+  "POST /stacks/verify/message": BASE,
+  "POST /stacks/verify/sip018": BASE,
+
+  // Hashing
+  "POST /hashing/sha256": BASE,
+  "POST /hashing/sha512": BASE,
+  "POST /hashing/sha512-256": BASE,
+  "POST /hashing/keccak256": BASE,
+  "POST /hashing/hash160": BASE,
+  "POST /hashing/ripemd160": BASE,
+
+  // Storage - KV
+  "GET /storage/kv/:key": BASE,
+  "POST /storage/kv": { ...BASE, components: [bytesWritten("value")] },
+  "DELETE /storage/kv/:key": BASE,
+  "GET /storage/kv": BASE,
+  "POST /storage/kv/incr": BASE,
+  "POST /storage/kv/batch": { ...BASE, components: [itemsPushed("operations"), bytesWritten()] },
+  "POST /storage/kv/watch": BASE,
+
+  // Storage - Paste
+  "POST /storage/paste": { ...BASE, components: [bytesWritten("content")] },
+  "GET /storage/paste/:id": BASE,
+  "PUT /storage/paste/:id": { ...BASE, components: [bytesWritten("content")] },
+  "DELETE /storage/paste/:id": BASE,
+  "GET /storage/paste/:id/revisions": BASE,
+  "GET /storage/paste/:id/diff": BASE,
+  "GET /storage/paste/:id/raw": BASE,
+
+  // Storage - DB
+  "POST /storage/db/query": BASE,
+  "POST /storage/db/execute": BASE,
+  "POST /storage/db/batch": { ...BASE, components: [itemsPushed("statements")] },
+  "GET /storage/db/schema": BASE,
+
+  // Storage - Sync
+  "POST /storage/sync/lock": BASE,
+  "POST /storage/sync/unlock": BASE,
+  "POST /storage/sync/extend": BASE,
+  "GET /storage/sync/status/:name": BASE,
+  "GET /storage/sync/list": BASE,
+
+  // Storage - Queue
+  "POST /storage/queue/push": { ...BASE, components: [itemsPushed("items", "jobs"), bytesWritten()] },
+  "POST /storage/queue/pop": BASE,
+  "GET /storage/queue/peek": BASE,
+  "GET /storage/queue/status": BASE,
+  "POST /storage/queue/clear": BASE,
+  "POST /storage/queue/ack": BASE,
+  "POST /storage/queue/nack": BASE,
+  "POST /storage/queue/extend": BASE,
+  "GET /storage/queue/dead": BASE,
+  "POST /storage/queue/redrive": BASE,
+
+  // Storage - Memory
+  "POST /storage/memory/store": { ...BASE, components: [embeddingsGenerated("items"), bytesWritten()] },
+  "POST /storage/memory/search": BASE,
+  "POST /storage/memory/delete": BASE,
+  "GET /storage/memory/list": BASE,
+  "POST /storage/memory/clear": BASE,
+  "GET /storage/memory/collections": BASE,
+  "POST /storage/memory/consolidate": AI,
+
+  // Storage - Usage, Archive, Grants
+  "GET /storage/usage": BASE,
+  "GET /storage/export": BASE,
+  "POST /storage/import": { ...BASE, components: [bytesWritten()] },
+  "POST /storage/grants": BASE,
+  "GET /storage/grants": BASE,
+  "DELETE /storage/grants/:nonce": BASE,
+  "POST /credits/session": BASE,
+};
+
+// =============================================================================
+// Lookup
+// =============================================================================
+
+/** Table keys split into method and path segments, for matching */
+const ROUTE_PATTERNS = Object.keys(ROUTE_PRICES).map((route) => {
+  const [method, path] = route.split(" ");
+  return { route, method, segments: path.split("/") };
+});
+
+/**
+ * Price table entry for a request, matching `:param` segments against any
+ * value; null if the route is not in the table
+ */
+export function getRoutePrice(method: string, path: string): MatchedRoutePrice | null {
+  const segments = path.split("/");
+  for (const pattern of ROUTE_PATTERNS) {
+    if (pattern.method !== method || pattern.segments.length !== segments.length) continue;
+    const matches = pattern.segments.every(
+      (segment, i) => segment === segments[i] || (segment.startsWith(":") && segments[i] !== "")
+    );
+    if (matches) return { route: pattern.route, ...ROUTE_PRICES[pattern.route] };
+  }
+  return null;
+}
+
+// =============================================================================
+// Measurement and Estimation
+// =============================================================================
+
+function byteLength(value: unknown): number {
+  const text = typeof value === "string" ? value : JSON.stringify(value) ?? "";
+  return new TextEncoder().encode(text).length;
+}
+
+/**
+ * Whether pricing a route needs the parsed JSON body
+ */
+export function needsRequestBody(price: RoutePrice): boolean {
+  return price.components?.some((component) => component.fields) ?? false;
+}
+
+/**
+ * Measure a request for each component of its route price. `body` is the
+ * parsed JSON body (undefined if not JSON). Returns null when a whole-body
+ * byte count is needed but the request has no valid Content-Length.
+ */
+export function measureRouteRequest(
+  price: RoutePrice,
+  body: unknown,
+  contentLength: string | undefined
+): number[] | null {
+  const quantities: number[] = [];
+  for (const component of price.components ?? []) {
+    if (!component.fields) {
+      const length = Number(contentLength);
+      if (contentLength === undefined || !Number.isSafeInteger(length) || length < 0) return null;
+      quantities.push(length);
+      continue;
+    }
+
+    const record = body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+    const value = component.fields.map((field) => record[field]).find((v) => v !== undefined);
+    if (value === undefined) {
+      quantities.push(0);
+    } else if (component.measure === "bytes") {
+      quantities.push(byteLength(value));
+    } else {
+      // A single value (e.g. one text to embed) counts as one item
+      const items = Array.isArray(value) ? value : [value];
+      const unless = component.unless;
+      quantities.push(
+        unless
+          ? items.filter((item) => !(item && typeof item === "object" && (item as Record<string, unknown>)[unless] !== undefined)).length
+          : items.length
+      );
+    }
+  }
+  return quantities;
+}
+
+/**
+ * Price a request from its route price and measured quantities
+ * (see measureRouteRequest)
+ */
+export function estimateRoutePayment(
+  price: MatchedRoutePrice,
+  quantities: number[],
+  tokenType: TokenType
+): PriceEstimate {
+  const components: PriceComponentCharge[] = (price.components ?? []).map((component, i) => {
+    const quantity = quantities[i] ?? 0;
+    const billable = Math.max(quantity - component.included, 0);
+    const stx = Math.ceil(billable / component.per) * component.stx;
+    return { measure: component.measure, quantity, billable, stx };
+  });
+
+  // Rounded to microSTX so float sums don't leak into amounts
+  const totalStx = Math.round((price.stx + components.reduce((sum, c) => sum + c.stx, 0)) * 1e6) / 1e6;
+  const usd = totalStx * getTokenRate("STX").usd;
+
+  return {
+    estimatedCostUsd: usd,
+    costWithMarginUsd: usd,
+    amountInToken: stxToTokenAmount(totalStx, tokenType),
+    tokenType,
+    tier: "standard",
+    route: price.route,
+    components,
+  };
+}
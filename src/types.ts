@@ -7,6 +7,9 @@ import type { UsageDO } from "./durable-objects/UsageDO";
 import type { StorageDO } from "./durable-objects/StorageDO";
 import type { MetricsDO } from "./durable-objects/MetricsDO";
 import type { PaymentPollingDO } from "./durable-objects/PaymentPollingDO";
+import type { PasteIndexDO } from "./durable-objects/PasteIndexDO";
+import type { CreditLedgerDO, CreditBalance } from "./durable-objects/CreditLedgerDO";
+import type { PriceOracleDO } from "./durable-objects/PriceOracleDO";
 
 // Note: x402-stacks types are imported directly where needed
 
@@ -39,6 +42,9 @@ export interface Env {
   STORAGE_DO: DurableObjectNamespace<StorageDO>;
   METRICS_DO: DurableObjectNamespace<MetricsDO>;
   PAYMENT_POLLING_DO: DurableObjectNamespace<PaymentPollingDO>;
+  PASTE_INDEX_DO: DurableObjectNamespace<PasteIndexDO>;
+  CREDIT_LEDGER_DO: DurableObjectNamespace<CreditLedgerDO>;
+  PRICE_ORACLE_DO: DurableObjectNamespace<PriceOracleDO>;
   // AI Binding
   AI: Ai;
   // Service bindings (optional - uncomment in wrangler.jsonc if available)
@@ -52,6 +58,10 @@ export interface Env {
   X402_FACILITATOR_URL: string;
   X402_NETWORK: "mainnet" | "testnet";
   X402_SERVER_ADDRESS: string;
+  // Storage quota overrides (JSON, see utils/storage-quota)
+  STORAGE_QUOTAS?: string;
+  // DEX pools for the price oracle (JSON, see services/price-feeds)
+  PRICE_FEED_POOLS?: string;
 }
 
 // =============================================================================
@@ -71,6 +81,24 @@ export interface PriceEstimate {
   tokenType: TokenType;
   model?: string;
   tier?: PricingTier;
+  /** Route price table entry ("POST /storage/paste"), for route-priced requests */
+  route?: string;
+  /** Size-based parts of a route price */
+  components?: PriceComponentCharge[];
+}
+
+/** What a size-based route price component counts */
+export type PriceMeasure = "bytes" | "items" | "embeddings";
+
+/** One size-based part of a route price, as charged */
+export interface PriceComponentCharge {
+  measure: PriceMeasure;
+  /** Units measured in the request */
+  quantity: number;
+  /** Units beyond those included in the base price */
+  billable: number;
+  /** STX charged for the billable units */
+  stx: number;
 }
 
 export interface TierPricing {
@@ -93,7 +121,8 @@ export interface TokenContract {
 
 /**
  * x402 v2 context stored in request for downstream use
- * Note: paymentPayload and paymentRequirements are undefined for free tier
+ * Note: paymentPayload and paymentRequirements are undefined for free tier,
+ * and paymentPayload is undefined for requests paid from prepaid credits
  */
 export interface X402Context {
   payerAddress: string;
@@ -102,6 +131,8 @@ export interface X402Context {
   paymentRequirements?: import("x402-stacks").PaymentRequirementsV2;
   priceEstimate: PriceEstimate;
   parsedBody?: unknown;
+  /** Balance left after debiting a credit session (instead of settling a payment) */
+  credits?: CreditBalance;
 }
 
 // =============================================================================
@@ -112,6 +143,11 @@ export interface AppVariables {
   requestId: string;
   logger: Logger;
   x402?: X402Context;
+  /**
+   * Set by handlers that record their own usage in UsageDO (with actual
+   * models and token counts), so the global usage middleware skips them
+   */
+  usageRecorded?: boolean;
 }
 
 export type AppContext = Context<{ Bindings: Env; Variables: AppVariables }>;
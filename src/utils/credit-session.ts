@@ -0,0 +1,75 @@
+/**
+ * Credit Sessions
+ *
+ * A payer tops up a prepaid credit balance with one x402 payment and gets a
+ * bearer session token. Paid endpoints called with that token debit the
+ * balance instead of settling a payment per request.
+ *
+ * Tokens name the payer address (so the middleware can route to the payer's
+ * CreditLedgerDO) followed by a random secret. The ledger stores only a hash
+ * of the token; this module holds the token format and the credit limits,
+ * so both can be unit tested.
+ */
+
+import { validateStacksAddress } from "@stacks/transactions";
+import { bytesToHex } from "./encoding";
+
+export const CREDIT_SESSION_PREFIX = "x402cs_";
+
+/** Session lifetime bounds (seconds); clients pick one with sessionTtl when opening a session */
+export const CREDIT_SESSION_DEFAULT_TTL_S = 3600;
+export const CREDIT_SESSION_MIN_TTL_S = 60;
+export const CREDIT_SESSION_MAX_TTL_S = 86400;
+
+/** A balance expires this long after its last top-up (seconds) */
+export const CREDIT_BALANCE_TTL_S = 30 * 86400;
+
+/** Smallest top-up, as a multiple of the standard endpoint price */
+export const CREDIT_MIN_TOPUP_CALLS = 100;
+
+const SECRET_BYTES = 32;
+
+/**
+ * Mint a new session token for a payer
+ */
+export function mintSessionToken(address: string): string {
+  const secret = crypto.getRandomValues(new Uint8Array(SECRET_BYTES));
+  return `${CREDIT_SESSION_PREFIX}${address}.${bytesToHex(secret)}`;
+}
+
+/**
+ * Session lifetime for a requested sessionTtl: clamped to the allowed range,
+ * or the default if it is not a number
+ */
+export function clampSessionTtl(requested: unknown): number {
+  if (typeof requested !== "number" || !Number.isFinite(requested)) return CREDIT_SESSION_DEFAULT_TTL_S;
+  return Math.min(Math.max(Math.floor(requested), CREDIT_SESSION_MIN_TTL_S), CREDIT_SESSION_MAX_TTL_S);
+}
+
+/**
+ * Payer address a session token is bound to, or null if it is not a session token
+ */
+export function parseSessionToken(token: string): string | null {
+  if (!token.startsWith(CREDIT_SESSION_PREFIX)) return null;
+  const [address, secret, ...rest] = token.slice(CREDIT_SESSION_PREFIX.length).split(".");
+  if (rest.length > 0 || !secret || !/^[0-9a-f]+$/.test(secret) || secret.length !== SECRET_BYTES * 2) {
+    return null;
+  }
+  return validateStacksAddress(address) ? address : null;
+}
+
+/**
+ * Session token from an `Authorization: Bearer` header, if any
+ */
+export function bearerToken(authorization: string | undefined): string | null {
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Hash under which the ledger stores a token (hex)
+ */
+export async function hashSessionToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return bytesToHex(new Uint8Array(digest));
+}
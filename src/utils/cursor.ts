@@ -0,0 +1,31 @@
+/**
+ * Pagination Cursors
+ *
+ * Opaque cursors for list endpoints: a JSON position object, base64url-encoded.
+ * Clients pass `nextCursor` back unchanged; the encoding is not an API.
+ */
+
+/**
+ * Encode a list position as an opaque cursor
+ */
+export function encodeCursor(position: Record<string, string | number>): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(position));
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Decode a cursor produced by encodeCursor. Returns null when the cursor is
+ * malformed (callers should answer 400).
+ */
+export function decodeCursor(cursor: string): Record<string, unknown> | null {
+  try {
+    const binary = atob(cursor.replace(/-/g, "+").replace(/_/g, "/"));
+    const bytes = Uint8Array.from(binary, (ch) => ch.charCodeAt(0));
+    const position = JSON.parse(new TextDecoder().decode(bytes));
+    return position && typeof position === "object" && !Array.isArray(position) ? position : null;
+  } catch {
+    return null;
+  }
+}
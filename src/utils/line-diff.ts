@@ -0,0 +1,160 @@
+/**
+ * Line Diff
+ *
+ * Myers line diff and unified-diff rendering for paste revisions.
+ * No Durable Object dependencies, so these can be unit tested directly.
+ */
+
+/** One line of a diff: unchanged (" "), added ("+") or removed ("-") */
+export interface DiffLine {
+  op: " " | "+" | "-";
+  text: string;
+}
+
+/**
+ * Edit distance past which diffLines stops searching for a minimal diff and
+ * replaces the changed region wholesale (bounds CPU and trace memory).
+ */
+const MAX_EDIT_DISTANCE = 2000;
+
+/** Lines of context around each change in a unified diff */
+const DEFAULT_CONTEXT = 3;
+
+/**
+ * Split text into lines. A trailing newline does not add an empty last line.
+ */
+export function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split(/\r?\n/);
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Shortest edit script turning `a` into `b` (Myers, O((N+M)D)).
+ * Common leading and trailing lines are matched first.
+ */
+export function diffLines(a: string[], b: string[]): DiffLine[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const same = (text: string): DiffLine => ({ op: " ", text });
+  return [
+    ...a.slice(0, start).map(same),
+    ...myersDiff(a.slice(start, endA), b.slice(start, endB)),
+    ...a.slice(endA).map(same),
+  ];
+}
+
+function myersDiff(a: string[], b: string[]): DiffLine[] {
+  const n = a.length;
+  const m = b.length;
+  const removeAll = a.map((text): DiffLine => ({ op: "-", text }));
+  const addAll = b.map((text): DiffLine => ({ op: "+", text }));
+  if (n === 0 || m === 0) return [...removeAll, ...addAll];
+
+  // v[k + offset] = furthest x reached on diagonal k; trace[d] = v[-d-1..d+1] before round d
+  const maxD = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = maxD + 1;
+  const v = new Int32Array(2 * maxD + 3);
+  const trace: Int32Array[] = [];
+
+  let found = -1;
+  for (let d = 0; d <= maxD && found < 0; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = d;
+        break;
+      }
+    }
+  }
+  if (found < 0) return [...removeAll, ...addAll];
+
+  // Walk the trace back from (n, m), collecting edits in reverse
+  const edits: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = found; d >= 0; d--) {
+    const snapshot = trace[d];
+    const at = (k: number) => snapshot[k + d + 1];
+    const k = x - y;
+    const down = k === -d || (k !== d && at(k - 1) < at(k + 1));
+    const prevK = down ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      edits.push({ op: " ", text: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      edits.push(x === prevX ? { op: "+", text: b[prevY] } : { op: "-", text: a[prevX] });
+    }
+    x = prevX;
+    y = prevY;
+  }
+  return edits.reverse();
+}
+
+/**
+ * Render a diff as unified-diff text with `context` lines around each change.
+ * Returns "" when nothing changed.
+ */
+export function formatUnifiedDiff(
+  lines: DiffLine[],
+  labels: { from: string; to: string },
+  context: number = DEFAULT_CONTEXT
+): string {
+  const changed = lines.flatMap((line, index) => (line.op === " " ? [] : [index]));
+  if (changed.length === 0) return "";
+
+  // Line numbers in each side before every diff line
+  const before: Array<{ a: number; b: number }> = [];
+  let aLine = 0;
+  let bLine = 0;
+  for (const line of lines) {
+    before.push({ a: aLine, b: bLine });
+    if (line.op !== "+") aLine++;
+    if (line.op !== "-") bLine++;
+  }
+
+  // Merge changes whose context windows touch into one hunk
+  const hunks: Array<[number, number]> = [];
+  for (const index of changed) {
+    const from = Math.max(0, index - context);
+    const to = Math.min(lines.length, index + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && from <= last[1]) last[1] = to;
+    else hunks.push([from, to]);
+  }
+
+  const out = [`--- ${labels.from}`, `+++ ${labels.to}`];
+  for (const [from, to] of hunks) {
+    const slice = lines.slice(from, to);
+    const aLen = slice.filter((line) => line.op !== "+").length;
+    const bLen = slice.filter((line) => line.op !== "-").length;
+    // Empty ranges point at the line before them, as in GNU diff
+    const aStart = aLen === 0 ? before[from].a : before[from].a + 1;
+    const bStart = bLen === 0 ? before[from].b : before[from].b + 1;
+    out.push(`@@ -${aStart},${aLen} +${bStart},${bLen} @@`);
+    for (const line of slice) out.push(`${line.op}${line.text}`);
+  }
+  return out.join("\n") + "\n";
+}
@@ -16,7 +16,7 @@ const APP_ID = "x402-api-host";
 // Console Fallback (for local dev without LOGS binding)
 // =============================================================================
 
-function createConsoleLogger(baseContext?: Record<string, unknown>): Logger {
+export function createConsoleLogger(baseContext?: Record<string, unknown>): Logger {
   const formatMessage = (
     level: string,
     message: string,
@@ -0,0 +1,314 @@
+/**
+ * Memory Query Utilities
+ *
+ * Pure helpers for /storage/memory/search:
+ * - Structured metadata filters compiled to parameterized SQLite WHERE clauses
+ * - FTS5 MATCH expressions built from free text (no user-controlled syntax)
+ * - Rank fusion of keyword and vector result lists (RRF or weighted)
+ * - Optional importance/recency weighting of the final ranking
+ *
+ * No Durable Object dependencies, so these can be unit tested directly.
+ */
+
+// =============================================================================
+// Filters
+// =============================================================================
+
+/** Scalar values a filter can compare against */
+export type FilterValue = string | number | boolean;
+
+/** Operators for a single field; a bare value is shorthand for { $eq: value } */
+export interface FilterOperators {
+  $eq?: FilterValue;
+  $in?: FilterValue[];
+  $gt?: string | number;
+  $gte?: string | number;
+  $lt?: string | number;
+  $lte?: string | number;
+  $exists?: boolean;
+}
+
+/**
+ * Filter over memory items. Keys are `metadata.<path>` (dotted paths into the
+ * item's metadata object) or one of the row fields: id, type, importance,
+ * source, createdAt, updatedAt, expiresAt.
+ * All conditions must match.
+ *
+ * @example { "metadata.wallet": "SP123", "createdAt": { "$gte": "2026-01-01T00:00:00Z" } }
+ */
+export type MemoryFilter = Record<string, FilterValue | FilterOperators>;
+
+export interface CompiledFilter {
+  /** SQL boolean expression over the `memories` table (or "1" when empty) */
+  sql: string;
+  params: Array<string | number>;
+}
+
+export const MAX_FILTER_CONDITIONS = 20;
+export const MAX_FILTER_IN_VALUES = 100;
+
+/** Row fields a filter can reference directly, mapped to their columns */
+const FILTER_COLUMNS: Record<string, string> = {
+  id: "key",
+  type: "type",
+  importance: "importance",
+  source: "source",
+  createdAt: "created_at",
+  updatedAt: "updated_at",
+  expiresAt: "expires_at",
+};
+
+const METADATA_PATH = /^metadata\.([A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z_][A-Za-z0-9_]*)*)$/;
+const RANGE_OPERATORS: Record<string, string> = { $gt: ">", $gte: ">=", $lt: "<", $lte: "<=" };
+const KNOWN_OPERATORS = new Set(["$eq", "$in", "$exists", ...Object.keys(RANGE_OPERATORS)]);
+
+export class MemoryFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MemoryFilterError";
+  }
+}
+
+function isScalar(value: unknown): value is FilterValue {
+  return typeof value === "string" || typeof value === "number" || typeof value === "boolean";
+}
+
+/** SQLite's json_extract returns JSON booleans as 1/0 */
+function toSqlValue(value: FilterValue): string | number {
+  return typeof value === "boolean" ? (value ? 1 : 0) : value;
+}
+
+/**
+ * Validate a filter and compile it to a parameterized WHERE expression.
+ * Field names never reach the SQL text: metadata paths are bound as parameters.
+ *
+ * @throws MemoryFilterError on an invalid filter
+ */
+export function compileMemoryFilter(filter: unknown): CompiledFilter {
+  if (filter === undefined || filter === null) return { sql: "1", params: [] };
+  if (typeof filter !== "object" || Array.isArray(filter)) {
+    throw new MemoryFilterError("filter must be an object");
+  }
+
+  const entries = Object.entries(filter as Record<string, unknown>);
+  if (entries.length > MAX_FILTER_CONDITIONS) {
+    throw new MemoryFilterError(`filter supports at most ${MAX_FILTER_CONDITIONS} fields`);
+  }
+
+  const clauses: string[] = [];
+  const params: Array<string | number> = [];
+
+  for (const [field, condition] of entries) {
+    // Resolve the field to a SQL expression (with its own bound params)
+    let expr: string;
+    let exprParams: string[];
+    let existsExpr: string;
+    const column = FILTER_COLUMNS[field];
+    const metadataMatch = METADATA_PATH.exec(field);
+    if (column) {
+      expr = column;
+      exprParams = [];
+      existsExpr = `${column} IS NOT NULL`;
+    } else if (metadataMatch) {
+      expr = "json_extract(tags, ?)";
+      exprParams = [`$.${metadataMatch[1]}`];
+      existsExpr = "json_type(tags, ?) IS NOT NULL";
+    } else {
+      throw new MemoryFilterError(
+        `Unknown filter field "${field}" (use metadata.<path> or one of: ${Object.keys(FILTER_COLUMNS).join(", ")})`
+      );
+    }
+
+    const operators: FilterOperators = isScalar(condition)
+      ? { $eq: condition }
+      : (condition as FilterOperators);
+    if (!operators || typeof operators !== "object" || Array.isArray(operators)) {
+      throw new MemoryFilterError(`filter.${field} must be a value or an operator object`);
+    }
+    const ops = Object.entries(operators);
+    if (ops.length === 0) {
+      throw new MemoryFilterError(`filter.${field} has no operators`);
+    }
+
+    for (const [op, value] of ops) {
+      if (!KNOWN_OPERATORS.has(op)) {
+        throw new MemoryFilterError(`Unknown operator "${op}" on filter.${field}`);
+      }
+
+      if (op === "$eq") {
+        if (!isScalar(value)) throw new MemoryFilterError(`filter.${field}.$eq must be a string, number or boolean`);
+        clauses.push(`${expr} = ?`);
+        params.push(...exprParams, toSqlValue(value));
+      } else if (op === "$in") {
+        if (!Array.isArray(value) || value.length === 0 || value.length > MAX_FILTER_IN_VALUES || !value.every(isScalar)) {
+          throw new MemoryFilterError(
+            `filter.${field}.$in must be a non-empty array of up to ${MAX_FILTER_IN_VALUES} scalars`
+          );
+        }
+        clauses.push(`${expr} IN (${value.map(() => "?").join(",")})`);
+        params.push(...exprParams, ...value.map(toSqlValue));
+      } else if (op === "$exists") {
+        if (typeof value !== "boolean") throw new MemoryFilterError(`filter.${field}.$exists must be a boolean`);
+        clauses.push(value ? existsExpr : `NOT (${existsExpr})`);
+        params.push(...exprParams);
+      } else {
+        if (typeof value !== "string" && typeof value !== "number") {
+          throw new MemoryFilterError(`filter.${field}.${op} must be a string or number`);
+        }
+        clauses.push(`${expr} ${RANGE_OPERATORS[op]} ?`);
+        params.push(...exprParams, value);
+      }
+    }
+  }
+
+  return { sql: clauses.length > 0 ? clauses.join(" AND ") : "1", params };
+}
+
+// =============================================================================
+// Keyword Queries
+// =============================================================================
+
+/** How free-text keywords combine in an FTS5 query */
+export type KeywordMatch = "any" | "all";
+
+/**
+ * Build an FTS5 MATCH expression from free text. Each word becomes a quoted
+ * string literal, so FTS5 operators and column filters in the input are inert.
+ * Returns null when the text contains no searchable words.
+ */
+export function buildFtsQuery(text: string, match: KeywordMatch = "any"): string | null {
+  const terms = text.match(/[\p{L}\p{N}_]+/gu);
+  if (!terms || terms.length === 0) return null;
+  const quoted = [...new Set(terms.map((t) => t.toLowerCase()))].map((t) => `"${t}"`);
+  return quoted.join(match === "all" ? " AND " : " OR ");
+}
+
+// =============================================================================
+// Rank Fusion
+// =============================================================================
+
+export type FusionMode = "rrf" | "weighted";
+
+/** Standard reciprocal rank fusion constant */
+export const RRF_K = 60;
+
+export interface FusionCandidate {
+  id: string;
+  /** Cosine similarity to the query embedding, if computed */
+  similarity?: number;
+  /** 0-based position in the vector ranking, if present there */
+  vectorRank?: number;
+  /** FTS5 bm25 score (lower is better), if present in the keyword ranking */
+  bm25?: number;
+  /** 0-based position in the keyword ranking, if present there */
+  keywordRank?: number;
+}
+
+/**
+ * Score candidates from vector and keyword rankings. Returns a score per id
+ * (higher is better).
+ *
+ * - rrf: sum of 1 / (RRF_K + rank + 1) over the rankings an item appears in
+ * - weighted: vectorWeight * similarity + (1 - vectorWeight) * keyword score,
+ *   where bm25 is min-max normalized to 0-1 across the keyword candidates
+ */
+export function fuseScores(
+  candidates: FusionCandidate[],
+  mode: FusionMode,
+  vectorWeight = 0.5
+): Map<string, number> {
+  const scores = new Map<string, number>();
+
+  if (mode === "rrf") {
+    for (const c of candidates) {
+      let score = 0;
+      if (c.vectorRank !== undefined) score += 1 / (RRF_K + c.vectorRank + 1);
+      if (c.keywordRank !== undefined) score += 1 / (RRF_K + c.keywordRank + 1);
+      scores.set(c.id, score);
+    }
+    return scores;
+  }
+
+  const bm25Values = candidates.flatMap((c) => (c.bm25 === undefined ? [] : [c.bm25]));
+  const best = Math.min(...bm25Values);
+  const worst = Math.max(...bm25Values);
+  for (const c of candidates) {
+    let keywordScore = 0;
+    if (c.bm25 !== undefined) {
+      keywordScore = worst === best ? 1 : (worst - c.bm25) / (worst - best);
+    }
+    const similarity = Math.max(0, c.similarity ?? 0);
+    scores.set(c.id, vectorWeight * similarity + (1 - vectorWeight) * keywordScore);
+  }
+  return scores;
+}
+
+// =============================================================================
+// Importance / Recency Weighting
+// =============================================================================
+
+/** Importance scale for memory items */
+export const MIN_IMPORTANCE = 1;
+export const MAX_IMPORTANCE = 10;
+
+/** Default recency half-life: a week-old memory gets half the recency boost */
+export const DEFAULT_RECENCY_HALF_LIFE_HOURS = 168;
+
+export interface RankingWeights {
+  /** Share of the final score from importance (0-1) */
+  importance?: number;
+  /** Share of the final score from recency (0-1) */
+  recency?: number;
+  /** Age at which the recency component halves */
+  halfLifeHours?: number;
+}
+
+/**
+ * Validate ranking weights. Returns an error message, or null when valid.
+ */
+export function validateRankingWeights(weights: unknown): string | null {
+  if (typeof weights !== "object" || weights === null || Array.isArray(weights)) {
+    return "weights must be an object";
+  }
+  const { importance = 0, recency = 0, halfLifeHours } = weights as RankingWeights;
+  if (typeof importance !== "number" || importance < 0 || importance > 1) {
+    return "weights.importance must be a number between 0 and 1";
+  }
+  if (typeof recency !== "number" || recency < 0 || recency > 1) {
+    return "weights.recency must be a number between 0 and 1";
+  }
+  if (importance + recency > 1) {
+    return "weights.importance + weights.recency must not exceed 1";
+  }
+  if (halfLifeHours !== undefined && (typeof halfLifeHours !== "number" || halfLifeHours <= 0)) {
+    return "weights.halfLifeHours must be a positive number";
+  }
+  return null;
+}
+
+/**
+ * Blend relevance with importance and recency:
+ *
+ *   (1 - wi - wr) * relevance + wi * importance' + wr * 0.5^(age / halfLife)
+ *
+ * `relevance` should be normalized to 0-1 by the caller (search divides by the
+ * best score, so RRF and similarity scales mix the same way); importance' maps
+ * MIN_IMPORTANCE..MAX_IMPORTANCE onto 0-1.
+ */
+export function weightedMemoryScore(
+  relevance: number,
+  importance: number,
+  createdAt: string,
+  weights: RankingWeights,
+  now = Date.now()
+): number {
+  const wi = weights.importance ?? 0;
+  const wr = weights.recency ?? 0;
+  const halfLife = weights.halfLifeHours ?? DEFAULT_RECENCY_HALF_LIFE_HOURS;
+
+  const importanceScore = (importance - MIN_IMPORTANCE) / (MAX_IMPORTANCE - MIN_IMPORTANCE);
+  const ageHours = Math.max(0, now - Date.parse(createdAt)) / 3_600_000;
+  const recencyScore = Math.pow(0.5, ageHours / halfLife);
+
+  return (1 - wi - wr) * relevance + wi * importanceScore + wr * recencyScore;
+}
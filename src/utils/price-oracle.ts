@@ -0,0 +1,163 @@
+/**
+ * Price Oracle Utilities
+ *
+ * Pure price aggregation for the STX and sBTC USD rates used to convert
+ * prices into payment tokens. Quotes from several feeds are combined into a
+ * consensus with outlier rejection, and a rate past its staleness bound falls
+ * back to the fixed rates. USDCx is pegged to $1 and never quoted.
+ */
+
+import type { TokenType } from "../types";
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Tokens priced by the oracle */
+export const ORACLE_TOKENS = ["STX", "sBTC"] as const;
+
+/** How often the oracle asks its feeds for new prices */
+export const PRICE_REFRESH_MS = 60_000;
+
+/** A rate this old is no longer used; pricing falls back to the fixed rates */
+export const PRICE_MAX_STALE_MS = 15 * 60_000;
+
+/**
+ * Quotes further than this from the median of all quotes are rejected. Two
+ * quotes agree when both are within it of their midpoint.
+ */
+export const PRICE_MAX_SPREAD = 0.05;
+
+/**
+ * A consensus that moved further than this from the last rate is only
+ * accepted when at least two feeds agree on it
+ */
+export const PRICE_MAX_JUMP = 0.25;
+
+/**
+ * Fixed USD rates: the fallback when no live rate is available, and the rates
+ * used before the oracle has answered
+ */
+export const FIXED_TOKEN_RATES: Record<TokenType, number> = {
+  STX: 0.50,      // 1 STX ≈ $0.50 USD
+  sBTC: 100000,   // 1 sBTC ≈ $100,000 USD (pegged to BTC)
+  USDCx: 1.0,     // 1 USDCx = $1 USD (Circle USDC via xReserve)
+};
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type OracleToken = (typeof ORACLE_TOKENS)[number];
+
+/** One feed's price for a token */
+export interface PriceQuote {
+  token: OracleToken;
+  usd: number;
+  /** Feed name, e.g. "coingecko" */
+  source: string;
+}
+
+/** The USD rate a token is priced at */
+export interface TokenRate {
+  token: TokenType;
+  usd: number;
+  /** Feeds that agreed on the rate (comma separated), "fixed" or "peg" */
+  source: string;
+  /** When the rate was observed (ms since epoch) */
+  observedAt: number;
+  /** True once the rate is older than PRICE_REFRESH_MS because feeds failed */
+  stale: boolean;
+}
+
+/** Result of aggregating one token's quotes */
+export interface PriceConsensus {
+  usd: number;
+  sources: string[];
+  rejected: PriceQuote[];
+}
+
+// =============================================================================
+// Aggregation
+// =============================================================================
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Combine one token's quotes: invalid quotes and quotes further than
+ * PRICE_MAX_SPREAD from the median are rejected, and the consensus is the
+ * median of the rest. Null when no quote is usable.
+ *
+ * Two quotes that disagree have no majority to tell the outlier by: the one
+ * nearer the last accepted rate (`reference`) is kept as a single-feed
+ * consensus, or neither without a reference.
+ */
+export function aggregateQuotes(quotes: PriceQuote[], reference: number | null = null): PriceConsensus | null {
+  const valid = quotes.filter((q) => Number.isFinite(q.usd) && q.usd > 0);
+  const rejected = quotes.filter((q) => !valid.includes(q));
+  if (valid.length === 0) return null;
+
+  const mid = median(valid.map((q) => q.usd));
+  if (valid.length === 2 && valid.some((q) => Math.abs(q.usd - mid) / mid > PRICE_MAX_SPREAD)) {
+    if (reference === null) return null;
+    const [near, far] = [...valid].sort((a, b) => Math.abs(a.usd - reference) - Math.abs(b.usd - reference));
+    return { usd: near.usd, sources: [near.source], rejected: [...rejected, far] };
+  }
+
+  const accepted = valid.filter((q) => {
+    const ok = Math.abs(q.usd - mid) / mid <= PRICE_MAX_SPREAD;
+    if (!ok) rejected.push(q);
+    return ok;
+  });
+  if (accepted.length === 0) return null;
+
+  return {
+    usd: median(accepted.map((q) => q.usd)),
+    sources: accepted.map((q) => q.source),
+    rejected,
+  };
+}
+
+/**
+ * Pick a token's rate after a refresh from the new consensus (if any) and the
+ * previous rate. A jump past PRICE_MAX_JUMP from a live previous rate needs
+ * two agreeing feeds; otherwise the previous rate is kept until it passes
+ * PRICE_MAX_STALE_MS, after which the fixed rate is used.
+ */
+export function selectTokenRate(
+  token: OracleToken,
+  consensus: PriceConsensus | null,
+  previous: TokenRate | null,
+  now: number
+): TokenRate {
+  const live = previous && previous.source !== "fixed" && now - previous.observedAt <= PRICE_MAX_STALE_MS
+    ? previous
+    : null;
+
+  if (consensus) {
+    const jumped = live !== null && Math.abs(consensus.usd - live.usd) / live.usd > PRICE_MAX_JUMP;
+    if (!jumped || consensus.sources.length >= 2) {
+      return { token, usd: consensus.usd, source: consensus.sources.join(","), observedAt: now, stale: false };
+    }
+  }
+
+  if (live) {
+    return { ...live, stale: now - live.observedAt > PRICE_REFRESH_MS };
+  }
+  return fixedTokenRate(token, now);
+}
+
+/** The fixed fallback rate for a token */
+export function fixedTokenRate(token: TokenType, now: number): TokenRate {
+  return {
+    token,
+    usd: FIXED_TOKEN_RATES[token],
+    source: token === "USDCx" ? "peg" : "fixed",
+    observedAt: now,
+    stale: false,
+  };
+}
@@ -0,0 +1,370 @@
+/**
+ * SQL Statement Authorizer
+ *
+ * Policy checks for the per-payer database (/storage/db/*), based on a real
+ * SQLite tokenizer instead of substring matching:
+ * - Exactly one statement per call (trigger bodies are part of their CREATE TRIGGER)
+ * - Classifies the statement as a read (SELECT, VALUES, WITH ... SELECT, EXPLAIN)
+ *   or a write (INSERT, UPDATE, DELETE, CREATE, DROP, ALTER, ...)
+ * - Rejects writes that target protected (system) tables, indexes or triggers,
+ *   including writes inside trigger bodies
+ * - Optionally rejects any mention of a protected name, for callers that must
+ *   not read system tables either (delegated access through a grant)
+ * - Rejects transaction control, ATTACH/DETACH and PRAGMA assignments
+ *
+ * String literals, quoted identifiers and comments never match keywords, so
+ * `SELECT * FROM t WHERE status = 'UPDATED'` is a read. Errors carry the
+ * 0-based character position of the offending token.
+ */
+
+// =============================================================================
+// Tokenizer
+// =============================================================================
+
+export type SqlTokenType = "word" | "identifier" | "string" | "number" | "parameter" | "punct";
+
+export interface SqlToken {
+  type: SqlTokenType;
+  /** Keyword/name text: unquoted for identifiers, upper-cased for words */
+  value: string;
+  /** 0-based offset of the token in the input */
+  position: number;
+}
+
+export class SqlAuthorizationError extends Error {
+  /** 0-based offset in the statement where the problem was found */
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} (at position ${position})`);
+    this.name = "SqlAuthorizationError";
+    this.position = position;
+  }
+}
+
+const WORD_START = /[A-Za-z_\u0080-￿]/;
+const WORD_PART = /[A-Za-z0-9_$\u0080-￿]/;
+const DIGIT = /[0-9]/;
+const CLOSING_QUOTE: Record<string, string> = { "'": "'", '"': '"', "`": "`", "[": "]" };
+
+/**
+ * Split SQL into tokens, dropping whitespace and comments.
+ *
+ * @throws SqlAuthorizationError on an unterminated string or quoted identifier
+ */
+export function tokenizeSql(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let i = 0;
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const start = i;
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === "-" && sql[i + 1] === "-") {
+      const end = sql.indexOf("\n", i);
+      i = end === -1 ? sql.length : end + 1;
+    } else if (ch === "/" && sql[i + 1] === "*") {
+      // SQLite accepts an unterminated block comment running to the end
+      const end = sql.indexOf("*/", i + 2);
+      i = end === -1 ? sql.length : end + 2;
+    } else if (ch in CLOSING_QUOTE) {
+      const close = CLOSING_QUOTE[ch];
+      let value = "";
+      i++;
+      for (;;) {
+        if (i >= sql.length) {
+          throw new SqlAuthorizationError(
+            ch === "'" ? "Unterminated string literal" : "Unterminated quoted identifier",
+            start
+          );
+        }
+        if (sql[i] === close) {
+          // Doubled quote is an escaped quote (not for [brackets])
+          if (close !== "]" && sql[i + 1] === close) {
+            value += close;
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        value += sql[i++];
+      }
+      tokens.push({ type: ch === "'" ? "string" : "identifier", value, position: start });
+    } else if (DIGIT.test(ch) || (ch === "." && DIGIT.test(sql[i + 1] ?? ""))) {
+      while (i < sql.length && /[0-9A-Za-z_.]/.test(sql[i])) i++;
+      tokens.push({ type: "number", value: sql.slice(start, i), position: start });
+    } else if (WORD_START.test(ch)) {
+      while (i < sql.length && WORD_PART.test(sql[i])) i++;
+      tokens.push({ type: "word", value: sql.slice(start, i).toUpperCase(), position: start });
+    } else if (ch === "?" || ((ch === ":" || ch === "@" || ch === "$") && WORD_START.test(sql[i + 1] ?? ""))) {
+      i++;
+      while (i < sql.length && WORD_PART.test(sql[i])) i++;
+      tokens.push({ type: "parameter", value: sql.slice(start, i), position: start });
+    } else {
+      i++;
+      tokens.push({ type: "punct", value: ch, position: start });
+    }
+  }
+
+  return tokens;
+}
+
+// =============================================================================
+// Policy
+// =============================================================================
+
+export type StatementKind = "read" | "write";
+
+export interface AuthorizedStatement {
+  kind: StatementKind;
+  /** Leading verb, e.g. SELECT, INSERT, CREATE (WITH resolves to its main verb) */
+  verb: string;
+  /** Objects the statement writes to, lower-cased */
+  targets: string[];
+}
+
+export interface AuthorizeOptions {
+  /** Which statement kinds the caller accepts */
+  allow: ReadonlyArray<StatementKind>;
+  /** Lower-cased table/index/trigger names that must not be written */
+  protectedNames: ReadonlySet<string>;
+  /**
+   * Also reject statements that name a protected object anywhere (reads,
+   * subqueries, views and trigger bodies). Any name token counts, so a user
+   * column that shares a system table's name is refused too.
+   */
+  protectReads?: boolean;
+}
+
+const READ_VERBS = new Set(["SELECT", "VALUES"]);
+const WRITE_VERBS = new Set(["INSERT", "REPLACE", "UPDATE", "DELETE", "CREATE", "DROP", "ALTER", "ANALYZE", "REINDEX"]);
+const FORBIDDEN_VERBS = new Set([
+  "BEGIN", "COMMIT", "END", "ROLLBACK", "SAVEPOINT", "RELEASE", "ATTACH", "DETACH", "VACUUM",
+]);
+
+/** Introspection pragmas that take a table/index name and never change state */
+const READ_PRAGMAS = new Set([
+  "TABLE_INFO", "TABLE_XINFO", "TABLE_LIST", "INDEX_LIST", "INDEX_INFO", "INDEX_XINFO",
+  "FOREIGN_KEY_LIST", "FOREIGN_KEY_CHECK",
+]);
+
+/** Conflict clauses in INSERT OR <x> / UPDATE OR <x> */
+const CONFLICT_ACTIONS = new Set(["ROLLBACK", "ABORT", "REPLACE", "FAIL", "IGNORE"]);
+
+const isWord = (token: SqlToken | undefined, ...values: string[]) =>
+  token?.type === "word" && values.includes(token.value);
+
+const isPunct = (token: SqlToken | undefined, value: string) =>
+  token?.type === "punct" && token.value === value;
+
+const isName = (token: SqlToken | undefined) => token?.type === "word" || token?.type === "identifier";
+
+/**
+ * Split tokens into statements on top-level semicolons. Semicolons inside a
+ * CREATE TRIGGER body belong to the trigger (the body ends at `; END`).
+ */
+function splitStatements(tokens: SqlToken[]): SqlToken[][] {
+  const statements: SqlToken[][] = [];
+  let current: SqlToken[] = [];
+  let inTrigger = false;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (current.length === 0 && isPunct(token, ";")) continue;
+    current.push(token);
+
+    if (current.length <= 4 && isWord(token, "TRIGGER") && isWord(current[0], "CREATE")) {
+      inTrigger = true;
+    }
+
+    const endsTrigger = isWord(token, "END") && isPunct(tokens[i - 1], ";") && inTrigger;
+    if (endsTrigger) {
+      inTrigger = false;
+    } else if (isPunct(token, ";") && !inTrigger) {
+      current.pop();
+      statements.push(current);
+      current = [];
+    }
+  }
+  if (current.length > 0) statements.push(current);
+  return statements;
+}
+
+/** Read a possibly schema-qualified name at `index`; returns the last part and the next index */
+function readName(tokens: SqlToken[], index: number): { name: SqlToken; next: number } | null {
+  let name = tokens[index];
+  if (!isName(name)) return null;
+  let next = index + 1;
+  while (isPunct(tokens[next], ".") && isName(tokens[next + 1])) {
+    name = tokens[next + 1];
+    next += 2;
+  }
+  return { name, next };
+}
+
+/** Skip IF [NOT] EXISTS at `index` */
+function skipIfExists(tokens: SqlToken[], index: number): number {
+  if (!isWord(tokens[index], "IF")) return index;
+  let next = index + 1;
+  if (isWord(tokens[next], "NOT")) next++;
+  return isWord(tokens[next], "EXISTS") ? next + 1 : index;
+}
+
+/**
+ * Find every object a write statement modifies: the object named by
+ * CREATE/DROP/ALTER, the table of CREATE INDEX/TRIGGER ... ON, and the target
+ * of each INSERT/REPLACE INTO, UPDATE and DELETE FROM (including in trigger bodies).
+ */
+function writeTargets(tokens: SqlToken[]): SqlToken[] {
+  const targets: SqlToken[] = [];
+  const push = (index: number) => {
+    const found = readName(tokens, index);
+    if (found) targets.push(found.name);
+    return found;
+  };
+
+  // Statement head: CREATE / DROP / ALTER
+  const verb = tokens[0];
+  if (isWord(verb, "CREATE", "DROP", "ALTER")) {
+    let i = 1;
+    while (isWord(tokens[i], "TEMP", "TEMPORARY", "UNIQUE", "VIRTUAL")) i++;
+    const objectType = tokens[i];
+    if (isWord(objectType, "TABLE", "INDEX", "TRIGGER", "VIEW")) {
+      const named = push(skipIfExists(tokens, i + 1));
+      if (named && isWord(verb, "CREATE") && isWord(objectType, "INDEX", "TRIGGER")) {
+        // The table the index or trigger is attached to
+        const on = tokens.findIndex((t, j) => j >= named.next && isWord(t, "ON"));
+        if (on !== -1) push(on + 1);
+      }
+    }
+  }
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type !== "word") continue;
+
+    if (token.value === "INTO" && isWord(tokens[i - 1], "INSERT", "REPLACE", ...CONFLICT_ACTIONS)) {
+      push(i + 1);
+    } else if (token.value === "UPDATE" && !isWord(tokens[i - 1], "ON", "DO")) {
+      // Skip trigger events (UPDATE OF col / UPDATE ON t); handle UPDATE OR <action> t
+      let next = i + 1;
+      if (isWord(tokens[next], "OR") && isWord(tokens[next + 1], ...CONFLICT_ACTIONS)) next += 2;
+      if (!isWord(tokens[next], "OF", "ON", "SET")) push(next);
+    } else if (token.value === "DELETE" && isWord(tokens[i + 1], "FROM")) {
+      push(i + 2);
+    }
+  }
+
+  return targets;
+}
+
+/** Resolve the main verb of WITH ... <verb>: the first verb outside the CTE bodies */
+function withMainVerb(tokens: SqlToken[]): SqlToken | undefined {
+  let depth = 0;
+  for (const token of tokens.slice(1)) {
+    if (isPunct(token, "(")) depth++;
+    else if (isPunct(token, ")")) depth--;
+    else if (depth === 0 && isWord(token, "SELECT", "VALUES", "INSERT", "REPLACE", "UPDATE", "DELETE")) {
+      return token;
+    }
+  }
+  return undefined;
+}
+
+/** Classify a PRAGMA: introspection pragmas are reads, assignments are rejected */
+function classifyPragma(tokens: SqlToken[]): StatementKind {
+  const named = readName(tokens, 1);
+  if (!named) throw new SqlAuthorizationError("PRAGMA requires a name", tokens[0].position);
+  const pragma = named.name.value.toUpperCase();
+  const next = tokens[named.next];
+
+  if (isPunct(next, "=")) {
+    throw new SqlAuthorizationError("Cannot modify PRAGMA settings", next.position);
+  }
+  if (READ_PRAGMAS.has(pragma)) return "read";
+  if (isPunct(next, "(")) {
+    throw new SqlAuthorizationError("Cannot modify PRAGMA settings", next.position);
+  }
+  return "write";
+}
+
+function isProtectedName(name: string, options: AuthorizeOptions): boolean {
+  return options.protectedNames.has(name) || name.startsWith("sqlite_");
+}
+
+/**
+ * Check a single SQL statement against the database policy.
+ *
+ * @throws SqlAuthorizationError when the statement is not allowed
+ */
+export function authorizeStatement(sql: string, options: AuthorizeOptions): AuthorizedStatement {
+  const statements = splitStatements(tokenizeSql(sql));
+  if (statements.length === 0) {
+    throw new SqlAuthorizationError("Empty SQL statement", 0);
+  }
+  if (statements.length > 1) {
+    throw new SqlAuthorizationError(
+      "Only one statement is allowed per call (use /storage/db/batch for several)",
+      statements[1][0].position
+    );
+  }
+
+  const tokens = statements[0];
+  const first = tokens[0];
+  if (first.type !== "word") {
+    throw new SqlAuthorizationError(`Unexpected "${first.value}" at start of statement`, first.position);
+  }
+
+  let kind: StatementKind;
+  let verb = first;
+  if (first.value === "EXPLAIN") {
+    // EXPLAIN [QUERY PLAN] <statement> only describes the statement, it never runs it
+    kind = "read";
+  } else if (first.value === "PRAGMA") {
+    kind = classifyPragma(tokens);
+  } else if (FORBIDDEN_VERBS.has(first.value)) {
+    throw new SqlAuthorizationError(`${first.value} statements are not allowed`, first.position);
+  } else {
+    if (first.value === "WITH") {
+      const main = withMainVerb(tokens);
+      if (!main) throw new SqlAuthorizationError("WITH clause has no main statement", first.position);
+      verb = main;
+    }
+    if (READ_VERBS.has(verb.value)) {
+      kind = "read";
+    } else if (WRITE_VERBS.has(verb.value)) {
+      kind = "write";
+    } else {
+      throw new SqlAuthorizationError(`Unsupported statement "${verb.value}"`, verb.position);
+    }
+  }
+
+  if (!options.allow.includes(kind)) {
+    throw new SqlAuthorizationError(
+      kind === "write"
+        ? "Only read statements (SELECT, VALUES, WITH ... SELECT, EXPLAIN) are allowed"
+        : "Read statements are not allowed here",
+      verb.position
+    );
+  }
+
+  if (options.protectReads) {
+    const mention = tokens.find((token) => isName(token) && isProtectedName(token.value.toLowerCase(), options));
+    if (mention) {
+      throw new SqlAuthorizationError(`Cannot access system table: ${mention.value.toLowerCase()}`, mention.position);
+    }
+  }
+
+  const targets = kind === "write" ? writeTargets(tokens) : [];
+  for (const target of targets) {
+    const name = target.value.toLowerCase();
+    if (isProtectedName(name, options)) {
+      throw new SqlAuthorizationError(`Cannot modify system table: ${name}`, target.position);
+    }
+  }
+
+  return { kind, verb: verb.value, targets: targets.map((t) => t.value.toLowerCase()) };
+}
@@ -0,0 +1,275 @@
+/**
+ * Storage Archive Format
+ *
+ * NDJSON archive written by /storage/export and read by /storage/import:
+ * a header line, one record per line, and an end line with per-type counts
+ * (so a truncated archive is detected before anything is imported).
+ * Binary values (embeddings, BLOB columns) are base64-encoded.
+ */
+
+export const ARCHIVE_FORMAT = "x402-storage-archive";
+export const ARCHIVE_VERSION = 1;
+
+/** Parts of a payer's storage that can be exported separately */
+export type ArchiveSection = "kv" | "paste" | "queue" | "lock" | "memory" | "db";
+
+export const ARCHIVE_SECTIONS: readonly ArchiveSection[] = ["kv", "paste", "queue", "lock", "memory", "db"];
+
+/**
+ * How /storage/import applies an archive:
+ * - merge: records are upserted over existing data (the archive wins on conflicts)
+ * - replace: the archive's sections are cleared first, then restored
+ */
+export type ArchiveImportMode = "merge" | "replace";
+
+export const ARCHIVE_IMPORT_MODES: readonly ArchiveImportMode[] = ["merge", "replace"];
+
+/** A column value: BLOBs as { $base64 } so they survive JSON */
+export type ArchiveValue = string | number | null | { $base64: string };
+
+export interface ArchiveHeader {
+  type: "header";
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  owner: string | null;
+  sections: ArchiveSection[];
+}
+
+export interface ArchiveEnd {
+  type: "end";
+  counts: Record<string, number>;
+}
+
+export type ArchiveRecord =
+  | {
+      type: "kv";
+      key: string;
+      value: string;
+      metadata: string | null;
+      version: number;
+      expiresAt: string | null;
+      createdAt: string;
+      updatedAt: string;
+    }
+  | {
+      type: "paste";
+      id: string;
+      content: string;
+      title: string | null;
+      language: string | null;
+      version: number;
+      visibility: string;
+      maxReads: number | null;
+      readCount: number;
+      createdAt: string;
+      updatedAt: string | null;
+      expiresAt: string | null;
+    }
+  | {
+      type: "paste_revision";
+      pasteId: string;
+      version: number;
+      content: string;
+      title: string | null;
+      language: string | null;
+      savedAt: string;
+    }
+  | {
+      type: "job";
+      id: string;
+      queue: string;
+      payload: string;
+      priority: number;
+      status: string;
+      attempt: number;
+      maxAttempts: number;
+      availableAt: string;
+      createdAt: string;
+      updatedAt: string;
+      completedAt: string | null;
+      failedAt: string | null;
+      error: string | null;
+      dedupKey: string | null;
+      /** JSON array of the job's failed attempts and redrives, as stored */
+      history: string | null;
+    }
+  | { type: "lock"; name: string; fence: number }
+  | { type: "memory_collection"; name: string; model: string; dimensions: number | null; createdAt: string }
+  | {
+      type: "memory";
+      collection: string;
+      key: string;
+      content: string;
+      summary: string | null;
+      metadata: string | null;
+      memoryType: string | null;
+      importance: number | null;
+      source: string | null;
+      /** Packed Float32 vector, base64 */
+      embedding: string | null;
+      expiresAt: string | null;
+      createdAt: string;
+      updatedAt: string;
+    }
+  | { type: "db_object"; objectType: "table" | "index" | "trigger" | "view"; name: string; sql: string }
+  | { type: "db_row"; table: string; values: Record<string, ArchiveValue> };
+
+export type ArchiveRecordType = ArchiveRecord["type"];
+
+/** Section each record type belongs to */
+export const ARCHIVE_RECORD_SECTIONS: Record<ArchiveRecordType, ArchiveSection> = {
+  kv: "kv",
+  paste: "paste",
+  paste_revision: "paste",
+  job: "queue",
+  lock: "lock",
+  memory_collection: "memory",
+  memory: "memory",
+  db_object: "db",
+  db_row: "db",
+};
+
+/** Fields every record of a type must carry (nullable fields may be null) */
+const REQUIRED_FIELDS: Record<ArchiveRecordType, string[]> = {
+  kv: ["key", "value", "version", "createdAt", "updatedAt"],
+  paste: ["id", "content", "version", "visibility", "createdAt"],
+  paste_revision: ["pasteId", "version", "content", "savedAt"],
+  job: ["id", "queue", "payload", "status", "availableAt", "createdAt", "updatedAt"],
+  lock: ["name", "fence"],
+  memory_collection: ["name", "model", "createdAt"],
+  memory: ["collection", "key", "content", "createdAt", "updatedAt"],
+  db_object: ["objectType", "name", "sql"],
+  db_row: ["table", "values"],
+};
+
+/** Error in an archive line (1-based line number) */
+export class ArchiveFormatError extends Error {
+  constructor(message: string, public line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = "ArchiveFormatError";
+  }
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), (ch) => ch.charCodeAt(0));
+}
+
+/**
+ * Encode binary data for an archive line
+ */
+export function encodeBinary(value: ArrayBuffer | ArrayBufferView): string {
+  const bytes = value instanceof ArrayBuffer
+    ? new Uint8Array(value)
+    : new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+  return bytesToBase64(bytes);
+}
+
+/**
+ * Decode binary data from an archive line
+ */
+export function decodeBinary(base64: string): ArrayBuffer {
+  return base64ToBytes(base64).buffer as ArrayBuffer;
+}
+
+/**
+ * Encode an SQLite value for a db_row record
+ */
+export function encodeArchiveValue(value: ArrayBuffer | string | number | null): ArchiveValue {
+  return value instanceof ArrayBuffer ? { $base64: encodeBinary(value) } : value;
+}
+
+/**
+ * Decode a db_row value back to an SQLite value
+ */
+export function decodeArchiveValue(value: ArchiveValue): ArrayBuffer | string | number | null {
+  if (value !== null && typeof value === "object") return decodeBinary(value.$base64);
+  return value;
+}
+
+/**
+ * Parse and check the header line
+ */
+export function parseArchiveHeader(line: string): ArchiveHeader {
+  const header = parseJsonLine(line, 1);
+  if (header.type !== "header" || header.format !== ARCHIVE_FORMAT) {
+    throw new ArchiveFormatError(`Not a ${ARCHIVE_FORMAT} archive (missing header)`, 1);
+  }
+  if (header.version !== ARCHIVE_VERSION) {
+    throw new ArchiveFormatError(
+      `Unsupported archive version ${String(header.version)} (expected ${ARCHIVE_VERSION})`,
+      1
+    );
+  }
+  if (
+    !Array.isArray(header.sections) ||
+    !header.sections.every((section) => ARCHIVE_SECTIONS.includes(section as ArchiveSection))
+  ) {
+    throw new ArchiveFormatError("Header has no valid sections list", 1);
+  }
+  return header as unknown as ArchiveHeader;
+}
+
+/**
+ * Parse one line after the header: a record, or the end line
+ */
+export function parseArchiveLine(line: string, lineNumber: number): ArchiveRecord | ArchiveEnd {
+  const record = parseJsonLine(line, lineNumber);
+  if (record.type === "end") {
+    if (!record.counts || typeof record.counts !== "object") {
+      throw new ArchiveFormatError("End line has no counts", lineNumber);
+    }
+    return record as unknown as ArchiveEnd;
+  }
+
+  const required = REQUIRED_FIELDS[record.type as ArchiveRecordType];
+  if (!required) {
+    throw new ArchiveFormatError(`Unknown record type "${String(record.type)}"`, lineNumber);
+  }
+  for (const field of required) {
+    if (record[field] === undefined || record[field] === null) {
+      throw new ArchiveFormatError(`${String(record.type)} record is missing "${field}"`, lineNumber);
+    }
+  }
+  return record as unknown as ArchiveRecord;
+}
+
+/**
+ * Whether the end line's counts match the records actually read
+ * (types with a zero count may be omitted on either side)
+ */
+export function archiveCountsMatch(expected: Record<string, number>, actual: Record<string, number>): boolean {
+  const types = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+  for (const type of types) {
+    if ((expected[type] ?? 0) !== (actual[type] ?? 0)) return false;
+  }
+  return true;
+}
+
+/**
+ * Serialize a record as one NDJSON line (with trailing newline)
+ */
+export function archiveLine(record: ArchiveHeader | ArchiveRecord | ArchiveEnd): string {
+  return JSON.stringify(record) + "\n";
+}
+
+function parseJsonLine(line: string, lineNumber: number): Record<string, unknown> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(line);
+  } catch {
+    throw new ArchiveFormatError("Invalid JSON", lineNumber);
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new ArchiveFormatError("Expected a JSON object", lineNumber);
+  }
+  return parsed as Record<string, unknown>;
+}
@@ -0,0 +1,180 @@
+/**
+ * Storage Grants
+ *
+ * Delegated access to a payer's storage. The owner (grantor) signs a SIP-018
+ * structured-data message granting another address (grantee) read or
+ * read-write access to some storage subsystems, optionally limited to names
+ * under a prefix. The grantee then calls storage endpoints with an
+ * X-Storage-Owner header naming the grantor.
+ *
+ * Grants are stored in the grantor's StorageDO; this module holds the signed
+ * message format and the matching rules, so both can be unit tested.
+ */
+
+import {
+  encodeStructuredDataBytes,
+  getAddressFromPublicKey,
+  listCV,
+  noneCV,
+  principalCV,
+  publicKeyFromSignatureRsv,
+  someCV,
+  stringAsciiCV,
+  stringUtf8CV,
+  tupleCV,
+  uintCV,
+  validateStacksAddress,
+  type ClarityValue,
+} from "@stacks/transactions";
+import { bytesToHex, stripHexPrefix } from "./encoding";
+
+/** Storage areas a grant can cover */
+export type GrantSubsystem = "kv" | "paste" | "db" | "sync" | "queue" | "memory";
+
+export const GRANT_SUBSYSTEMS: readonly GrantSubsystem[] = ["kv", "paste", "db", "sync", "queue", "memory"];
+
+export type GrantScope = "read" | "read-write";
+
+export const GRANT_SCOPES: readonly GrantScope[] = ["read", "read-write"];
+
+/** Names a grant prefix applies to, per subsystem (others only match prefix-less grants) */
+export const GRANT_PREFIX_TARGETS: Partial<Record<GrantSubsystem, string>> = {
+  kv: "keys",
+  sync: "lock names",
+  queue: "queue names",
+  memory: "collection names",
+};
+
+/** SIP-018 domain of grant messages (chain-id follows the network) */
+export const GRANT_DOMAIN_NAME = "x402-storage";
+export const GRANT_DOMAIN_VERSION = "1";
+
+const CHAIN_IDS = { mainnet: 1, testnet: 2147483648 } as const;
+
+// Bounds on a grant's prefix (string-utf8 in the signed message)
+export const MAX_GRANT_PREFIX_LENGTH = 256;
+
+/** The signed part of a grant */
+export interface StorageGrant {
+  grantor: string;
+  grantee: string;
+  scope: GrantScope;
+  subsystems: GrantSubsystem[];
+  /** Names the grant covers must start with this ("" = everything) */
+  prefix: string;
+  /** Unix seconds after which the grant no longer applies (null = until revoked) */
+  expiresAt: number | null;
+  /** Grantor-chosen identifier, unique per grantor; also used to revoke */
+  nonce: number;
+}
+
+/** What a storage request touches, checked against the caller's grants */
+export interface StorageAccessRequest {
+  subsystem: GrantSubsystem;
+  access: "read" | "write";
+  /** Keys, queue, lock or collection names the request targets */
+  names?: string[];
+}
+
+/**
+ * Check a grant submitted by a client. Returns an error message, or null.
+ */
+export function validateGrant(grant: Partial<StorageGrant>): string | null {
+  if (typeof grant.grantor !== "string" || !validateStacksAddress(grant.grantor)) {
+    return "grantor must be a Stacks address";
+  }
+  if (typeof grant.grantee !== "string" || !validateStacksAddress(grant.grantee)) {
+    return "grantee must be a Stacks address";
+  }
+  if (grant.grantee === grant.grantor) {
+    return "grantee must differ from grantor";
+  }
+  if (!GRANT_SCOPES.includes(grant.scope as GrantScope)) {
+    return `scope must be one of: ${GRANT_SCOPES.join(", ")}`;
+  }
+  if (
+    !Array.isArray(grant.subsystems) ||
+    grant.subsystems.length === 0 ||
+    !grant.subsystems.every((subsystem) => GRANT_SUBSYSTEMS.includes(subsystem)) ||
+    new Set(grant.subsystems).size !== grant.subsystems.length
+  ) {
+    return `subsystems must be a non-empty list of distinct values from: ${GRANT_SUBSYSTEMS.join(", ")}`;
+  }
+  if (typeof grant.prefix !== "string" || grant.prefix.length > MAX_GRANT_PREFIX_LENGTH) {
+    return `prefix must be a string of at most ${MAX_GRANT_PREFIX_LENGTH} characters`;
+  }
+  if (grant.expiresAt !== null && (!Number.isSafeInteger(grant.expiresAt) || (grant.expiresAt as number) <= 0)) {
+    return "expiresAt must be a unix timestamp in seconds, or null";
+  }
+  if (!Number.isSafeInteger(grant.nonce) || (grant.nonce as number) < 0) {
+    return "nonce must be a non-negative integer";
+  }
+  return null;
+}
+
+/**
+ * SIP-018 domain tuple for a network
+ */
+export function grantDomain(network: "mainnet" | "testnet"): ClarityValue {
+  return tupleCV({
+    name: stringAsciiCV(GRANT_DOMAIN_NAME),
+    version: stringAsciiCV(GRANT_DOMAIN_VERSION),
+    "chain-id": uintCV(CHAIN_IDS[network]),
+  });
+}
+
+/**
+ * SIP-018 message tuple the grantor signs
+ */
+export function grantMessage(grant: StorageGrant): ClarityValue {
+  return tupleCV({
+    action: stringAsciiCV("grant-storage-access"),
+    grantor: principalCV(grant.grantor),
+    grantee: principalCV(grant.grantee),
+    scope: stringAsciiCV(grant.scope),
+    subsystems: listCV(grant.subsystems.map((subsystem) => stringAsciiCV(subsystem))),
+    prefix: stringUtf8CV(grant.prefix),
+    "expires-at": grant.expiresAt === null ? noneCV() : someCV(uintCV(grant.expiresAt)),
+    nonce: uintCV(grant.nonce),
+  });
+}
+
+/**
+ * Hash the grantor signs (hex): sha256 of the SIP-018 encoding of domain and message
+ */
+export async function grantSigningHash(grant: StorageGrant, network: "mainnet" | "testnet"): Promise<string> {
+  const encoded = encodeStructuredDataBytes({ message: grantMessage(grant), domain: grantDomain(network) });
+  const digest = await crypto.subtle.digest("SHA-256", encoded);
+  return bytesToHex(new Uint8Array(digest));
+}
+
+/**
+ * Whether `signature` (RSV hex) over the grant was made by the grantor's key
+ */
+export async function verifyGrantSignature(
+  grant: StorageGrant,
+  signature: string,
+  network: "mainnet" | "testnet"
+): Promise<boolean> {
+  const hash = await grantSigningHash(grant, network);
+  try {
+    const publicKey = publicKeyFromSignatureRsv(hash, stripHexPrefix(signature));
+    return getAddressFromPublicKey(publicKey, network) === grant.grantor;
+  } catch {
+    // Malformed signatures are simply not valid
+    return false;
+  }
+}
+
+/**
+ * Whether a grant allows a request at `now` (unix ms). A prefix only matches
+ * requests that name every target, each under the prefix.
+ */
+export function grantAllows(grant: StorageGrant, request: StorageAccessRequest, now: number): boolean {
+  if (grant.expiresAt !== null && grant.expiresAt * 1000 <= now) return false;
+  if (!grant.subsystems.includes(request.subsystem)) return false;
+  if (request.access === "write" && grant.scope !== "read-write") return false;
+  if (grant.prefix === "") return true;
+  const names = request.names ?? [];
+  return names.length > 0 && names.every((name) => name.startsWith(grant.prefix));
+}
@@ -0,0 +1,110 @@
+/**
+ * Storage Quotas
+ *
+ * Per-payer limits on what each StorageDO subsystem may hold, and the check
+ * applied after a write. Usage itself is tracked inside StorageDO; nothing
+ * here touches SQL, so the quota rules can be unit tested directly.
+ */
+
+export type StorageSubsystem = "kv" | "paste" | "queue" | "memory" | "db";
+
+export const STORAGE_SUBSYSTEMS: readonly StorageSubsystem[] = ["kv", "paste", "queue", "memory", "db"];
+
+/** Rows and bytes held by one subsystem (bytes count stored keys and values, not SQLite overhead) */
+export interface StorageUsage {
+  rows: number;
+  bytes: number;
+}
+
+export type StorageQuotas = Record<StorageSubsystem, StorageUsage>;
+
+const MB = 1024 * 1024;
+
+export const DEFAULT_STORAGE_QUOTAS: StorageQuotas = {
+  kv: { rows: 100_000, bytes: 50 * MB },
+  paste: { rows: 20_000, bytes: 50 * MB },
+  queue: { rows: 100_000, bytes: 50 * MB },
+  memory: { rows: 50_000, bytes: 250 * MB },
+  db: { rows: 1_000_000, bytes: 100 * MB },
+};
+
+/**
+ * Result of a write rejected by a quota. The write was rolled back.
+ * - status 413: the write alone is larger than the quota (it can never fit)
+ * - status 507: the write would fit an empty store, but not the current one
+ */
+export interface StorageQuotaExceeded {
+  ok: false;
+  quotaExceeded: {
+    subsystem: StorageSubsystem;
+    limit: keyof StorageUsage;
+    used: number;
+    requested: number;
+    quota: number;
+  };
+  status: 413 | 507;
+}
+
+/**
+ * Quotas from the STORAGE_QUOTAS variable: JSON overriding any subset of the
+ * defaults, e.g. {"kv":{"bytes":104857600},"db":{"rows":500000}}.
+ * Malformed JSON or values that are not positive integers keep the defaults.
+ */
+export function resolveStorageQuotas(raw: string | undefined): StorageQuotas {
+  const quotas: StorageQuotas = {
+    kv: { ...DEFAULT_STORAGE_QUOTAS.kv },
+    paste: { ...DEFAULT_STORAGE_QUOTAS.paste },
+    queue: { ...DEFAULT_STORAGE_QUOTAS.queue },
+    memory: { ...DEFAULT_STORAGE_QUOTAS.memory },
+    db: { ...DEFAULT_STORAGE_QUOTAS.db },
+  };
+  if (!raw) return quotas;
+
+  let overrides: unknown;
+  try {
+    overrides = JSON.parse(raw);
+  } catch {
+    return quotas;
+  }
+  if (!overrides || typeof overrides !== "object") return quotas;
+
+  for (const subsystem of STORAGE_SUBSYSTEMS) {
+    const override = (overrides as Record<string, unknown>)[subsystem];
+    if (!override || typeof override !== "object") continue;
+    for (const limit of ["rows", "bytes"] as const) {
+      const value = (override as Record<string, unknown>)[limit];
+      if (typeof value === "number" && Number.isSafeInteger(value) && value > 0) {
+        quotas[subsystem][limit] = value;
+      }
+    }
+  }
+  return quotas;
+}
+
+/**
+ * Check a subsystem's usage after a write against its quota. Only growth is
+ * rejected: a write that shrinks usage (or leaves it unchanged) always
+ * passes, so a store already over a lowered quota can still be cleaned up.
+ */
+export function checkStorageQuota(
+  subsystem: StorageSubsystem,
+  quota: StorageUsage,
+  before: StorageUsage,
+  after: StorageUsage
+): StorageQuotaExceeded | null {
+  for (const limit of ["bytes", "rows"] as const) {
+    const requested = after[limit] - before[limit];
+    if (requested > 0 && after[limit] > quota[limit]) {
+      return {
+        ok: false,
+        quotaExceeded: { subsystem, limit, used: before[limit], requested, quota: quota[limit] },
+        status: requested > quota[limit] ? 413 : 507,
+      };
+    }
+  }
+  return null;
+}
+
+export function isStorageQuotaExceeded(result: unknown): result is StorageQuotaExceeded {
+  return typeof result === "object" && result !== null && "quotaExceeded" in result;
+}
@@ -0,0 +1,155 @@
+/**
+ * Usage Authentication
+ *
+ * The /usage/me routes are free, so no payment identifies the caller.
+ * Instead the caller proves control of a payer address by signing a
+ * short-lived challenge naming that address and the time it was issued,
+ * either as a Stacks signed message or as SIP-018 structured data.
+ *
+ * Challenges are stateless: any challenge issued within the last
+ * USAGE_AUTH_MAX_AGE_S seconds is accepted, so this module holds the
+ * challenge formats and checks and can be unit tested.
+ */
+
+import { hashMessage } from "@stacks/encryption";
+import {
+  encodeStructuredDataBytes,
+  getAddressFromPublicKey,
+  principalCV,
+  publicKeyFromSignatureRsv,
+  stringAsciiCV,
+  tupleCV,
+  uintCV,
+  validateStacksAddress,
+  type ClarityValue,
+} from "@stacks/transactions";
+import { bytesToHex, stripHexPrefix } from "./encoding";
+
+/** How a challenge is signed */
+export type UsageAuthScheme = "message" | "sip018";
+
+export const USAGE_AUTH_SCHEMES: readonly UsageAuthScheme[] = ["message", "sip018"];
+
+/** Headers carrying a signed challenge */
+export const USAGE_AUTH_HEADERS = {
+  address: "X-Usage-Address",
+  issuedAt: "X-Usage-Issued-At",
+  signature: "X-Usage-Signature",
+  scheme: "X-Usage-Scheme",
+} as const;
+
+/** Seconds a challenge stays valid (and how far ahead of the server clock it may be issued) */
+export const USAGE_AUTH_MAX_AGE_S = 300;
+const MAX_CLOCK_SKEW_S = 30;
+
+/** SIP-018 domain of usage challenges (chain-id follows the network) */
+export const USAGE_AUTH_DOMAIN_NAME = "x402-usage";
+export const USAGE_AUTH_DOMAIN_VERSION = "1";
+
+const CHAIN_IDS = { mainnet: 1, testnet: 2147483648 } as const;
+
+/** A signed challenge, as sent in the USAGE_AUTH_HEADERS */
+export interface UsageAuth {
+  address: string;
+  /** Unix seconds */
+  issuedAt: number;
+  /** RSV signature (hex) */
+  signature: string;
+  scheme: UsageAuthScheme;
+}
+
+/**
+ * Text signed with the "message" scheme
+ */
+export function usageChallengeMessage(address: string, issuedAt: number): string {
+  return `x402 usage access\naddress: ${address}\nissued-at: ${issuedAt}`;
+}
+
+/**
+ * SIP-018 domain tuple for a network
+ */
+export function usageAuthDomain(network: "mainnet" | "testnet"): ClarityValue {
+  return tupleCV({
+    name: stringAsciiCV(USAGE_AUTH_DOMAIN_NAME),
+    version: stringAsciiCV(USAGE_AUTH_DOMAIN_VERSION),
+    "chain-id": uintCV(CHAIN_IDS[network]),
+  });
+}
+
+/**
+ * SIP-018 message tuple signed with the "sip018" scheme
+ */
+export function usageAuthMessage(address: string, issuedAt: number): ClarityValue {
+  return tupleCV({
+    action: stringAsciiCV("view-usage"),
+    address: principalCV(address),
+    "issued-at": uintCV(issuedAt),
+  });
+}
+
+/**
+ * Hash the caller signs (hex) for a challenge
+ */
+export async function usageAuthSigningHash(
+  auth: Pick<UsageAuth, "address" | "issuedAt" | "scheme">,
+  network: "mainnet" | "testnet"
+): Promise<string> {
+  if (auth.scheme === "message") {
+    return bytesToHex(hashMessage(usageChallengeMessage(auth.address, auth.issuedAt)));
+  }
+  const encoded = encodeStructuredDataBytes({
+    message: usageAuthMessage(auth.address, auth.issuedAt),
+    domain: usageAuthDomain(network),
+  });
+  const digest = await crypto.subtle.digest("SHA-256", encoded);
+  return bytesToHex(new Uint8Array(digest));
+}
+
+/**
+ * Read a signed challenge from request headers. Returns an error message,
+ * or the challenge (not yet verified).
+ */
+export function parseUsageAuth(header: (name: string) => string | undefined): UsageAuth | string {
+  const address = header(USAGE_AUTH_HEADERS.address);
+  const issuedAtRaw = header(USAGE_AUTH_HEADERS.issuedAt);
+  const signature = header(USAGE_AUTH_HEADERS.signature);
+  const scheme = header(USAGE_AUTH_HEADERS.scheme) || "message";
+  if (!address || !issuedAtRaw || !signature) {
+    return `Sign a usage challenge and send ${USAGE_AUTH_HEADERS.address}, ${USAGE_AUTH_HEADERS.issuedAt} and ${USAGE_AUTH_HEADERS.signature}`;
+  }
+  if (!validateStacksAddress(address)) {
+    return `${USAGE_AUTH_HEADERS.address} must be a Stacks address`;
+  }
+  const issuedAt = Number(issuedAtRaw);
+  if (!/^\d+$/.test(issuedAtRaw) || !Number.isSafeInteger(issuedAt)) {
+    return `${USAGE_AUTH_HEADERS.issuedAt} must be a unix timestamp in seconds`;
+  }
+  if (!USAGE_AUTH_SCHEMES.includes(scheme as UsageAuthScheme)) {
+    return `${USAGE_AUTH_HEADERS.scheme} must be one of: ${USAGE_AUTH_SCHEMES.join(", ")}`;
+  }
+  return { address, issuedAt, signature, scheme: scheme as UsageAuthScheme };
+}
+
+/**
+ * Check a challenge at `now` (unix ms): fresh, and signed by the address's
+ * key on this network. Returns an error message, or null.
+ */
+export async function verifyUsageAuth(
+  auth: UsageAuth,
+  network: "mainnet" | "testnet",
+  now: number
+): Promise<string | null> {
+  const age = Math.floor(now / 1000) - auth.issuedAt;
+  if (age > USAGE_AUTH_MAX_AGE_S || age < -MAX_CLOCK_SKEW_S) {
+    return `Challenge must be issued within the last ${USAGE_AUTH_MAX_AGE_S} seconds`;
+  }
+
+  const hash = await usageAuthSigningHash(auth, network);
+  try {
+    const publicKey = publicKeyFromSignatureRsv(hash, stripHexPrefix(auth.signature));
+    if (getAddressFromPublicKey(publicKey, network) === auth.address) return null;
+  } catch {
+    // Malformed signatures are simply not valid
+  }
+  return `Signature is not a ${network} ${auth.scheme} signature by ${auth.address}`;
+}
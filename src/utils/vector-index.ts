@@ -0,0 +1,186 @@
+/**
+ * Vector Index Utilities
+ *
+ * Pure helpers for the memory ANN index in StorageDO:
+ * - Float32 BLOB packing for embeddings
+ * - Unit-length normalization (cosine similarity becomes a dot product)
+ * - Spherical k-means training for IVF (inverted file) cluster centroids
+ *
+ * No Durable Object dependencies, so these can be unit tested directly.
+ */
+
+/** Below this many vectors, exact brute-force search is cheap enough */
+export const IVF_MIN_VECTORS = 1024;
+
+/** Bounds on the number of IVF clusters (lists) */
+export const IVF_MIN_LISTS = 16;
+export const IVF_MAX_LISTS = 128;
+
+/** Number of closest clusters scanned per query */
+export const IVF_DEFAULT_NPROBE = 8;
+
+/** Max vectors sampled to train centroids, and k-means iterations */
+export const IVF_TRAINING_SAMPLE = 2048;
+export const IVF_TRAINING_ITERATIONS = 8;
+
+/**
+ * Pack a vector into a little-endian Float32 buffer for BLOB storage
+ */
+export function packVector(vector: ArrayLike<number>): ArrayBuffer {
+  return Float32Array.from(vector).buffer;
+}
+
+/**
+ * Unpack a Float32 BLOB back into a vector
+ */
+export function unpackVector(blob: ArrayBuffer | ArrayBufferView): Float32Array {
+  if (ArrayBuffer.isView(blob)) {
+    const bytes = new Uint8Array(blob.buffer, blob.byteOffset, blob.byteLength);
+    return new Float32Array(bytes.slice().buffer);
+  }
+  return new Float32Array(blob);
+}
+
+/**
+ * Scale a vector to unit length. Zero vectors are returned unchanged.
+ */
+export function normalizeVector(vector: ArrayLike<number>): Float32Array {
+  const out = Float32Array.from(vector);
+  let norm = 0;
+  for (let i = 0; i < out.length; i++) norm += out[i] * out[i];
+  norm = Math.sqrt(norm);
+  if (norm === 0) return out;
+  for (let i = 0; i < out.length; i++) out[i] /= norm;
+  return out;
+}
+
+/**
+ * Dot product of two equal-length vectors (cosine similarity when both are normalized).
+ * Returns 0 on dimension mismatch.
+ */
+export function dotProduct(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length) return 0;
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/**
+ * Choose the number of IVF clusters for a collection of `count` vectors (~sqrt(n))
+ */
+export function ivfListCount(count: number): number {
+  return Math.min(Math.max(Math.round(Math.sqrt(count)), IVF_MIN_LISTS), IVF_MAX_LISTS);
+}
+
+/**
+ * Index of the centroid closest to `vector` (both normalized)
+ */
+export function nearestCentroid(vector: Float32Array, centroids: Float32Array[]): number {
+  let best = -1;
+  let bestScore = -Infinity;
+  for (let i = 0; i < centroids.length; i++) {
+    const score = dotProduct(vector, centroids[i]);
+    if (score > bestScore) {
+      bestScore = score;
+      best = i;
+    }
+  }
+  return best;
+}
+
+/**
+ * Indices of the `n` centroids closest to `vector`, best first
+ */
+export function topCentroids(vector: Float32Array, centroids: Float32Array[], n: number): number[] {
+  return centroids
+    .map((centroid, index) => ({ index, score: dotProduct(vector, centroid) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, n)
+    .map((entry) => entry.index);
+}
+
+/**
+ * Train `k` centroids over normalized vectors with spherical k-means.
+ * Centroids are seeded from distinct samples; empty clusters are reseeded.
+ *
+ * @param random - Injectable RNG for deterministic tests
+ */
+export function trainCentroids(
+  vectors: Float32Array[],
+  k: number,
+  iterations = IVF_TRAINING_ITERATIONS,
+  random: () => number = Math.random
+): Float32Array[] {
+  if (vectors.length === 0 || k <= 0) return [];
+  const clusters = Math.min(k, vectors.length);
+  const dims = vectors[0].length;
+
+  // Seed from a random permutation prefix
+  const order = vectors.map((_, i) => i);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  let centroids: Float32Array[] = order.slice(0, clusters).map((i) => Float32Array.from(vectors[i]));
+
+  const assignments = new Int32Array(vectors.length);
+  for (let iter = 0; iter < iterations; iter++) {
+    let changed = false;
+    for (let v = 0; v < vectors.length; v++) {
+      const nearest = nearestCentroid(vectors[v], centroids);
+      if (nearest !== assignments[v]) changed = true;
+      assignments[v] = nearest;
+    }
+    if (iter > 0 && !changed) break;
+
+    const sums = Array.from({ length: clusters }, () => new Float32Array(dims));
+    const counts = new Int32Array(clusters);
+    for (let v = 0; v < vectors.length; v++) {
+      const sum = sums[assignments[v]];
+      const vector = vectors[v];
+      for (let d = 0; d < dims; d++) sum[d] += vector[d];
+      counts[assignments[v]]++;
+    }
+
+    centroids = sums.map((sum, c) =>
+      counts[c] === 0
+        ? Float32Array.from(vectors[Math.floor(random() * vectors.length)])
+        : normalizeVector(sum)
+    );
+  }
+
+  return centroids;
+}
+
+/**
+ * Normalized mean of normalized vectors (the spherical centroid)
+ */
+export function meanVector(vectors: Float32Array[]): Float32Array {
+  const sum = new Float32Array(vectors[0]?.length ?? 0);
+  for (const vector of vectors) {
+    for (let d = 0; d < sum.length; d++) sum[d] += vector[d];
+  }
+  return normalizeVector(sum);
+}
+
+/**
+ * Greedy leader clustering over normalized vectors: each vector joins the
+ * first group whose leader it matches at `threshold` cosine similarity or
+ * better, otherwise it leads a new group. Returns groups (as input indices)
+ * with at least `minSize` members, largest first.
+ */
+export function groupBySimilarity(vectors: Float32Array[], threshold: number, minSize: number): number[][] {
+  const groups: Array<{ leader: Float32Array; members: number[] }> = [];
+  vectors.forEach((vector, index) => {
+    const group = groups.find((g) => dotProduct(vector, g.leader) >= threshold);
+    if (group) {
+      group.members.push(index);
+    } else {
+      groups.push({ leader: vector, members: [index] });
+    }
+  });
+  return groups
+    .map((g) => g.members)
+    .filter((members) => members.length >= minSize)
+    .sort((a, b) => b.length - a.length);
+}
@@ -8,6 +8,7 @@
  */
 
 import { TIER_PRICING, stxToTokenAmount } from "../services/pricing";
+import { getRoutePrice, type MatchedRoutePrice } from "../services/route-pricing";
 import type { PricingTier, TokenType } from "../types";
 import { getEndpointMetadata, buildBazaarExtension } from "../bazaar";
 import type { BazaarExtension } from "../bazaar";
@@ -86,7 +87,7 @@ export interface GeneratorConfig {
 
 interface EndpointInfo {
   path: string;
-  method: "GET" | "POST" | "DELETE";
+  method: "GET" | "POST" | "PUT" | "DELETE";
   description: string;
   tier: PricingTier;
 }
@@ -124,15 +125,23 @@ const ENDPOINT_REGISTRY: EndpointInfo[] = [
   { path: "/storage/kv", method: "POST", description: "Set key-value pair", tier: "standard" },
   { path: "/storage/kv/:key", method: "DELETE", description: "Delete key", tier: "standard" },
   { path: "/storage/kv", method: "GET", description: "List all keys", tier: "standard" },
+  { path: "/storage/kv/incr", method: "POST", description: "Atomically increment a counter", tier: "standard" },
+  { path: "/storage/kv/batch", method: "POST", description: "Get, set and delete many keys", tier: "standard" },
+  { path: "/storage/kv/watch", method: "POST", description: "Long-poll for key changes", tier: "standard" },
 
   // Storage - Paste
   { path: "/storage/paste", method: "POST", description: "Create paste", tier: "standard" },
   { path: "/storage/paste/:id", method: "GET", description: "Get paste by ID", tier: "standard" },
+  { path: "/storage/paste/:id", method: "PUT", description: "Update paste (keeps revision history)", tier: "standard" },
   { path: "/storage/paste/:id", method: "DELETE", description: "Delete paste", tier: "standard" },
+  { path: "/storage/paste/:id/revisions", method: "GET", description: "List paste versions", tier: "standard" },
+  { path: "/storage/paste/:id/diff", method: "GET", description: "Line diff between paste versions", tier: "standard" },
+  { path: "/storage/paste/:id/raw", method: "GET", description: "Raw paste content", tier: "standard" },
 
   // Storage - DB
   { path: "/storage/db/query", method: "POST", description: "Execute SQL query", tier: "standard" },
   { path: "/storage/db/execute", method: "POST", description: "Execute SQL statement", tier: "standard" },
+  { path: "/storage/db/batch", method: "POST", description: "Execute SQL statements in one transaction", tier: "standard" },
   { path: "/storage/db/schema", method: "GET", description: "Get database schema", tier: "standard" },
 
   // Storage - Sync
@@ -144,17 +153,37 @@ const ENDPOINT_REGISTRY: EndpointInfo[] = [
 
   // Storage - Queue
   { path: "/storage/queue/push", method: "POST", description: "Push job to queue", tier: "standard" },
-  { path: "/storage/queue/pop", method: "POST", description: "Pop job from queue", tier: "standard" },
+  { path: "/storage/queue/pop", method: "POST", description: "Lease jobs from queue", tier: "standard" },
   { path: "/storage/queue/peek", method: "GET", description: "Peek at next job", tier: "standard" },
   { path: "/storage/queue/status", method: "GET", description: "Get queue status", tier: "standard" },
   { path: "/storage/queue/clear", method: "POST", description: "Clear queue", tier: "standard" },
+  { path: "/storage/queue/ack", method: "POST", description: "Acknowledge leased jobs", tier: "standard" },
+  { path: "/storage/queue/nack", method: "POST", description: "Return leased jobs for retry", tier: "standard" },
+  { path: "/storage/queue/extend", method: "POST", description: "Extend job lease", tier: "standard" },
+  { path: "/storage/queue/dead", method: "GET", description: "List dead-lettered jobs", tier: "standard" },
+  { path: "/storage/queue/redrive", method: "POST", description: "Redrive dead-lettered jobs", tier: "standard" },
 
   // Storage - Memory
   { path: "/storage/memory/store", method: "POST", description: "Store memory with embedding", tier: "standard" },
-  { path: "/storage/memory/search", method: "POST", description: "Semantic search memories", tier: "standard" },
+  { path: "/storage/memory/search", method: "POST", description: "Semantic, keyword or hybrid memory search", tier: "standard" },
   { path: "/storage/memory/delete", method: "POST", description: "Delete memory", tier: "standard" },
-  { path: "/storage/memory/list", method: "GET", description: "List all memories", tier: "standard" },
-  { path: "/storage/memory/clear", method: "POST", description: "Clear all memories", tier: "standard" },
+  { path: "/storage/memory/list", method: "GET", description: "List memories in a collection", tier: "standard" },
+  { path: "/storage/memory/clear", method: "POST", description: "Clear a memory collection", tier: "standard" },
+  { path: "/storage/memory/collections", method: "GET", description: "List memory collections", tier: "standard" },
+  { path: "/storage/memory/consolidate", method: "POST", description: "Consolidate old, low-importance memories", tier: "standard" },
+  // Storage - Usage
+  { path: "/storage/usage", method: "GET", description: "Storage footprint and quotas per subsystem", tier: "standard" },
+  // Storage - Archive
+  { path: "/storage/export", method: "GET", description: "Export all storage as an NDJSON archive", tier: "standard" },
+  { path: "/storage/import", method: "POST", description: "Restore storage from an NDJSON archive", tier: "standard" },
+  // Storage - Grants
+  { path: "/storage/grants", method: "POST", description: "Register a signed grant to another payer's storage", tier: "standard" },
+  { path: "/storage/grants", method: "GET", description: "List grants issued by the payer", tier: "standard" },
+  { path: "/storage/grants/:nonce", method: "DELETE", description: "Revoke a grant", tier: "standard" },
+
+  // Credits
+  { path: "/credits/topup", method: "POST", description: "Prepay a credit balance (amount chosen in the body)", tier: "dynamic" },
+  { path: "/credits/session", method: "POST", description: "Open a session on the existing credit balance", tier: "standard" },
 ];
 
 // =============================================================================
@@ -176,15 +205,16 @@ function getTimeoutForTier(tier: PricingTier): number {
 }
 
 /**
- * Get amount in smallest unit for a tier and token.
+ * Get amount in smallest unit for an endpoint and token: the route's base
+ * price, or its tier's price when the route is not in the price table.
  * Dynamic tier uses standard pricing as a base (actual price varies per request).
  */
-function getAmountForTier(tier: PricingTier, token: TokenType): string {
+function getAmountForEndpoint(tier: PricingTier, routePrice: MatchedRoutePrice | null, token: TokenType): string {
   if (tier === "free") return "0";
 
   // Dynamic endpoints advertise standard base price in the manifest
   const effectiveTier = tier === "dynamic" ? "standard" : tier;
-  const amount = stxToTokenAmount(TIER_PRICING[effectiveTier].stx, token);
+  const amount = stxToTokenAmount(routePrice?.stx ?? TIER_PRICING[effectiveTier].stx, token);
   return amount.toString();
 }
 
@@ -231,10 +261,11 @@ export function generateX402Manifest(config: GeneratorConfig): V2Manifest {
     const normalizedPath = normalizePath(info.path);
     const resourceUrl = `${config.baseUrl}${normalizedPath}`;
     const timeout = getTimeoutForTier(info.tier);
+    const routePrice = info.tier === "dynamic" ? null : getRoutePrice(info.method, info.path);
 
     // Create payment requirement for each supported token
     for (const token of TOKENS) {
-      const amount = getAmountForTier(info.tier, token);
+      const amount = getAmountForEndpoint(info.tier, routePrice, token);
 
       // Skip if amount is 0
       if (amount === "0") continue;
@@ -246,6 +277,10 @@ export function generateX402Manifest(config: GeneratorConfig): V2Manifest {
         asset: token,
         payTo: config.payTo,
         maxTimeoutSeconds: timeout,
+        // Size-based components are added to the base amount per request
+        ...(routePrice?.components && {
+          extra: { pricing: { type: "fixed", route: routePrice.route, components: routePrice.components } },
+        }),
       });
     }
 
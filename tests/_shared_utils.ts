@@ -28,7 +28,7 @@ export interface TestConfig {
   /** API endpoint path (e.g., "/hashing/sha256") */
   endpoint: string;
   /** HTTP method */
-  method: "GET" | "POST" | "DELETE";
+  method: "GET" | "POST" | "PUT" | "DELETE";
   /** Request body for POST requests */
   body?: Record<string, unknown>;
   /** Function to validate the response data */
@@ -563,7 +563,7 @@ export interface RetryConfig {
  */
 export async function makeX402RequestWithRetry(
   endpoint: string,
-  method: "GET" | "POST" | "DELETE",
+  method: "GET" | "POST" | "PUT" | "DELETE",
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   x402Client: any, // X402PaymentClient - avoid circular import
   tokenType: TokenType,
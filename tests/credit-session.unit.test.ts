@@ -0,0 +1,116 @@
+#!/usr/bin/env bun
+/**
+ * Unit tests for prepaid credit sessions
+ *
+ * Covers:
+ * 1. Session tokens — minting, parsing, bearer headers, lifetimes
+ * 2. estimateCreditTopup — amount validation and minimum
+ * 3. reconcileChatCharge — estimated vs actual LLM charge
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+  CREDIT_MIN_TOPUP_CALLS,
+  CREDIT_SESSION_DEFAULT_TTL_S,
+  CREDIT_SESSION_MAX_TTL_S,
+  CREDIT_SESSION_MIN_TTL_S,
+  CREDIT_SESSION_PREFIX,
+  bearerToken,
+  clampSessionTtl,
+  hashSessionToken,
+  mintSessionToken,
+  parseSessionToken,
+} from "../src/utils/credit-session";
+import {
+  estimateActualCost,
+  estimateChatPayment,
+  estimateCreditTopup,
+  getFixedTierEstimate,
+  reconcileChatCharge,
+  usdToTokenAmount,
+} from "../src/services/pricing";
+
+const address = "SP2PABAF9FTAJYNFZH93XENAJ8FVY99RRM50D2JG9";
+
+describe("credit session tokens", () => {
+  test("mint unique tokens bound to the payer address", async () => {
+    const token = mintSessionToken(address);
+    const other = mintSessionToken(address);
+    expect(token.startsWith(`${CREDIT_SESSION_PREFIX}${address}.`)).toBe(true);
+    expect(token).not.toBe(other);
+    expect(parseSessionToken(token)).toBe(address);
+    expect(await hashSessionToken(token)).not.toBe(await hashSessionToken(other));
+  });
+
+  test("reject tokens that are not well-formed session tokens", () => {
+    const secret = "ab".repeat(32);
+    expect(parseSessionToken(`${CREDIT_SESSION_PREFIX}${address}.${secret}`)).toBe(address);
+    expect(parseSessionToken(`sk_${address}.${secret}`)).toBeNull();
+    expect(parseSessionToken(`${CREDIT_SESSION_PREFIX}nope.${secret}`)).toBeNull();
+    expect(parseSessionToken(`${CREDIT_SESSION_PREFIX}${address}.${secret.slice(2)}`)).toBeNull();
+    expect(parseSessionToken(`${CREDIT_SESSION_PREFIX}${address}.${secret}.x`)).toBeNull();
+  });
+
+  test("read bearer tokens from Authorization headers", () => {
+    expect(bearerToken("Bearer abc")).toBe("abc");
+    expect(bearerToken("bearer  abc")).toBe("abc");
+    expect(bearerToken("Basic abc")).toBeNull();
+    expect(bearerToken(undefined)).toBeNull();
+  });
+
+  test("clamp requested session lifetimes to the allowed range", () => {
+    expect(clampSessionTtl(600.7)).toBe(600);
+    expect(clampSessionTtl(1)).toBe(CREDIT_SESSION_MIN_TTL_S);
+    expect(clampSessionTtl(10 * CREDIT_SESSION_MAX_TTL_S)).toBe(CREDIT_SESSION_MAX_TTL_S);
+    expect(clampSessionTtl("600")).toBe(CREDIT_SESSION_DEFAULT_TTL_S);
+    expect(clampSessionTtl(undefined)).toBe(CREDIT_SESSION_DEFAULT_TTL_S);
+    expect(clampSessionTtl(Number.NaN)).toBe(CREDIT_SESSION_DEFAULT_TTL_S);
+  });
+});
+
+describe("estimateCreditTopup", () => {
+  const minimum = getFixedTierEstimate("standard", "STX").amountInToken * BigInt(CREDIT_MIN_TOPUP_CALLS);
+
+  test("prices the requested amount in the payment token", () => {
+    const estimate = estimateCreditTopup({ amount: minimum.toString() }, "STX");
+    expect(estimate.amountInToken).toBe(minimum);
+    expect(estimate.tokenType).toBe("STX");
+    expect(estimate.costWithMarginUsd).toBeGreaterThan(0);
+    expect(estimateCreditTopup({ amount: Number(minimum) * 2 }, "STX").amountInToken).toBe(minimum * 2n);
+  });
+
+  test("rejects missing, malformed and too small amounts", () => {
+    expect(() => estimateCreditTopup({}, "STX")).toThrow(/positive integer/);
+    expect(() => estimateCreditTopup({ amount: "1.5" }, "STX")).toThrow(/positive integer/);
+    expect(() => estimateCreditTopup({ amount: "9".repeat(20) }, "STX")).toThrow(/positive integer/);
+    expect(() => estimateCreditTopup({ amount: (minimum - 1n).toString() }, "STX")).toThrow(/at least/);
+  });
+});
+
+describe("reconcileChatCharge", () => {
+  const pricing = { promptPer1k: 0.005, completionPer1k: 0.015 };
+  const estimate = estimateChatPayment(
+    { model: "openai/gpt-4o", messages: [{ role: "user", content: "x".repeat(4000) }] },
+    "STX",
+    undefined,
+    pricing
+  );
+
+  test("a shorter completion than estimated is an overcharge", () => {
+    const actualCostUsd = estimateActualCost(estimate.estimatedInputTokens ?? 0, 10, "openai/gpt-4o", pricing);
+    const { charged, actual, delta } = reconcileChatCharge(estimate, actualCostUsd);
+    expect(charged).toBe(estimate.amountInToken);
+    expect(actual).toBeLessThan(charged);
+    expect(delta).toBe(charged - actual);
+  });
+
+  test("a longer completion than estimated is an undercharge", () => {
+    const actualCostUsd = estimateActualCost(estimate.estimatedInputTokens ?? 0, 20000, "openai/gpt-4o", pricing);
+    expect(reconcileChatCharge(estimate, actualCostUsd).delta).toBeLessThan(0n);
+  });
+
+  test("the actual charge keeps the minimum payment", () => {
+    const { actual } = reconcileChatCharge(estimate, 0);
+    expect(actual).toBe(usdToTokenAmount(0.001, "STX"));
+  });
+});
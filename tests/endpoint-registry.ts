@@ -183,7 +183,7 @@ const inferenceEndpoints: TestConfig[] = [
 ];
 
 // =============================================================================
-// STORAGE - KV ENDPOINTS (4)
+// STORAGE - KV ENDPOINTS (7)
 // =============================================================================
 
 const kvEndpoints: TestConfig[] = [
@@ -222,10 +222,34 @@ const kvEndpoints: TestConfig[] = [
       (isOk(data) && hasTokenType(data, tokenType)) ||
       (hasField(data, "error") && hasField(data, "ok") && (data as { ok: boolean }).ok === false),
   },
+  {
+    name: "kv-incr",
+    endpoint: "/storage/kv/incr",
+    method: "POST",
+    body: { key: generateTestId("counter"), delta: 2 },
+    validateResponse: (data, tokenType) =>
+      isOk(data) && hasFields(data, ["value", "version"]) && hasTokenType(data, tokenType),
+  },
+  {
+    name: "kv-batch",
+    endpoint: "/storage/kv/batch",
+    method: "POST",
+    body: { operations: [{ op: "get", key: "nonexistent-key" }] },
+    validateResponse: (data, tokenType) =>
+      isOk(data) && hasField(data, "results") && hasTokenType(data, tokenType),
+  },
+  {
+    name: "kv-watch",
+    endpoint: "/storage/kv/watch",
+    method: "POST",
+    body: { key: "nonexistent-key", timeout: 0 },
+    validateResponse: (data, tokenType) =>
+      isOk(data) && hasFields(data, ["events", "seq"]) && hasTokenType(data, tokenType),
+  },
 ];
 
 // =============================================================================
-// STORAGE - PASTE ENDPOINTS (3)
+// STORAGE - PASTE ENDPOINTS (10)
 // =============================================================================
 
 const pasteEndpoints: TestConfig[] = [
@@ -246,6 +270,43 @@ const pasteEndpoints: TestConfig[] = [
       (isOk(data) && hasTokenType(data, tokenType)) ||
       (hasField(data, "error") && hasField(data, "ok") && (data as { ok: boolean }).ok === false),
   },
+  {
+    name: "paste-update",
+    endpoint: "/storage/paste/nonexistent",
+    method: "PUT",
+    body: { content: "Updated content" },
+    allowedStatuses: [404],
+    validateResponse: (data, tokenType) =>
+      (isOk(data) && hasTokenType(data, tokenType)) ||
+      (hasField(data, "error") && hasField(data, "ok") && (data as { ok: boolean }).ok === false),
+  },
+  {
+    name: "paste-revisions",
+    endpoint: "/storage/paste/nonexistent/revisions",
+    method: "GET",
+    allowedStatuses: [404],
+    validateResponse: (data, tokenType) =>
+      (isOk(data) && hasTokenType(data, tokenType)) ||
+      (hasField(data, "error") && hasField(data, "ok") && (data as { ok: boolean }).ok === false),
+  },
+  {
+    name: "paste-diff",
+    endpoint: "/storage/paste/nonexistent/diff",
+    method: "GET",
+    allowedStatuses: [404],
+    validateResponse: (data, tokenType) =>
+      (isOk(data) && hasTokenType(data, tokenType)) ||
+      (hasField(data, "error") && hasField(data, "ok") && (data as { ok: boolean }).ok === false),
+  },
+  {
+    name: "paste-raw",
+    endpoint: "/storage/paste/nonexistent/raw",
+    method: "GET",
+    allowedStatuses: [404],
+    expectedContentType: "text/plain",
+    validateResponse: (data) =>
+      hasField(data, "error") && hasField(data, "ok") && (data as { ok: boolean }).ok === false,
+  },
   {
     name: "paste-delete",
     endpoint: "/storage/paste/nonexistent",
@@ -255,10 +316,35 @@ const pasteEndpoints: TestConfig[] = [
       (isOk(data) && hasTokenType(data, tokenType)) ||
       (hasField(data, "error") && hasField(data, "ok") && (data as { ok: boolean }).ok === false),
   },
+  {
+    name: "paste-shared-list",
+    endpoint: "/paste",
+    method: "GET",
+    skipPayment: true,
+    validateResponse: (data) => isOk(data) && hasField(data, "pastes"),
+  },
+  {
+    name: "paste-shared-get",
+    endpoint: "/paste/nonexistent",
+    method: "GET",
+    skipPayment: true,
+    allowedStatuses: [404],
+    validateResponse: (data) =>
+      hasField(data, "error") && hasField(data, "ok") && (data as { ok: boolean }).ok === false,
+  },
+  {
+    name: "paste-shared-raw",
+    endpoint: "/paste/nonexistent/raw",
+    method: "GET",
+    skipPayment: true,
+    allowedStatuses: [404],
+    validateResponse: (data) =>
+      hasField(data, "error") && hasField(data, "ok") && (data as { ok: boolean }).ok === false,
+  },
 ];
 
 // =============================================================================
-// STORAGE - DB ENDPOINTS (3)
+// STORAGE - DB ENDPOINTS (4)
 // =============================================================================
 
 const dbEndpoints: TestConfig[] = [
@@ -278,6 +364,19 @@ const dbEndpoints: TestConfig[] = [
     validateResponse: (data, tokenType) =>
       isOk(data) && hasField(data, "rowsAffected") && hasTokenType(data, tokenType),
   },
+  {
+    name: "db-batch",
+    endpoint: "/storage/db/batch",
+    method: "POST",
+    body: {
+      statements: [
+        { query: "CREATE TABLE IF NOT EXISTS test_table (id INTEGER PRIMARY KEY, name TEXT)" },
+        { query: "SELECT COUNT(*) AS n FROM test_table" },
+      ],
+    },
+    validateResponse: (data, tokenType) =>
+      isOk(data) && hasFields(data, ["results", "rowsAffected"]) && hasTokenType(data, tokenType),
+  },
   {
     name: "db-schema",
     endpoint: "/storage/db/schema",
@@ -333,7 +432,7 @@ const syncEndpoints: TestConfig[] = [
 ];
 
 // =============================================================================
-// STORAGE - QUEUE ENDPOINTS (5)
+// STORAGE - QUEUE ENDPOINTS (11)
 // =============================================================================
 
 const queueEndpoints: TestConfig[] = [
@@ -345,6 +444,17 @@ const queueEndpoints: TestConfig[] = [
     validateResponse: (data, tokenType) =>
       isOk(data) && hasField(data, "pushed") && hasTokenType(data, tokenType),
   },
+  {
+    name: "queue-push-scheduled",
+    endpoint: "/storage/queue/push",
+    method: "POST",
+    body: {
+      name: "test-queue",
+      jobs: [{ data: { task: "later" }, delaySeconds: 600, maxAttempts: 5, dedupKey: "test-scheduled" }],
+    },
+    validateResponse: (data, tokenType) =>
+      isOk(data) && hasFields(data, ["pushed", "ids", "duplicates"]) && hasTokenType(data, tokenType),
+  },
   {
     name: "queue-pop",
     endpoint: "/storage/queue/pop",
@@ -377,10 +487,49 @@ const queueEndpoints: TestConfig[] = [
     validateResponse: (data, tokenType) =>
       isOk(data) && hasTokenType(data, tokenType),
   },
+  {
+    name: "queue-ack",
+    endpoint: "/storage/queue/ack",
+    method: "POST",
+    body: { name: "test-queue", ids: ["nonexistent-job"] },
+    validateResponse: (data, tokenType) =>
+      isOk(data) && hasFields(data, ["acked", "ids"]) && hasTokenType(data, tokenType),
+  },
+  {
+    name: "queue-nack",
+    endpoint: "/storage/queue/nack",
+    method: "POST",
+    body: { name: "test-queue", ids: ["nonexistent-job"], error: "test failure" },
+    validateResponse: (data, tokenType) =>
+      isOk(data) && hasFields(data, ["requeued", "deadLettered"]) && hasTokenType(data, tokenType),
+  },
+  {
+    name: "queue-extend",
+    endpoint: "/storage/queue/extend",
+    method: "POST",
+    body: { name: "test-queue", ids: ["nonexistent-job"], visibilityTimeout: 60 },
+    validateResponse: (data, tokenType) =>
+      isOk(data) && hasFields(data, ["extended", "leaseExpiresAt"]) && hasTokenType(data, tokenType),
+  },
+  {
+    name: "queue-dead",
+    endpoint: "/storage/queue/dead?name=test-queue",
+    method: "GET",
+    validateResponse: (data, tokenType) =>
+      isOk(data) && hasFields(data, ["items", "total"]) && hasTokenType(data, tokenType),
+  },
+  {
+    name: "queue-redrive",
+    endpoint: "/storage/queue/redrive",
+    method: "POST",
+    body: { name: "test-queue", all: true },
+    validateResponse: (data, tokenType) =>
+      isOk(data) && hasFields(data, ["redriven", "ids"]) && hasTokenType(data, tokenType),
+  },
 ];
 
 // =============================================================================
-// STORAGE - MEMORY ENDPOINTS (5)
+// STORAGE - MEMORY ENDPOINTS (7)
 // =============================================================================
 
 const memoryEndpoints: TestConfig[] = [
@@ -425,6 +574,200 @@ const memoryEndpoints: TestConfig[] = [
     validateResponse: (data, tokenType) =>
       isOk(data) && hasTokenType(data, tokenType),
   },
+  {
+    name: "memory-collections",
+    endpoint: "/storage/memory/collections",
+    method: "GET",
+    validateResponse: (data, tokenType) =>
+      isOk(data) && hasField(data, "collections") && hasTokenType(data, tokenType),
+  },
+  {
+    name: "memory-consolidate",
+    endpoint: "/storage/memory/consolidate",
+    method: "POST",
+    body: { dryRun: true },
+    validateResponse: (data, tokenType) =>
+      isOk(data) && hasFields(data, ["scanned", "groups"]) && hasTokenType(data, tokenType),
+  },
+];
+
+// =============================================================================
+// STORAGE - USAGE ENDPOINTS (1)
+// =============================================================================
+
+const usageEndpoints: TestConfig[] = [
+  {
+    name: "storage-usage",
+    endpoint: "/storage/usage",
+    method: "GET",
+    validateResponse: (data, tokenType) =>
+      isOk(data) && hasFields(data, ["subsystems", "total", "databaseBytes"]) && hasTokenType(data, tokenType),
+  },
+];
+
+// =============================================================================
+// STORAGE - ARCHIVE ENDPOINTS (2)
+// =============================================================================
+
+const archiveEndpoints: TestConfig[] = [
+  {
+    name: "storage-export",
+    endpoint: "/storage/export?sections=kv,lock",
+    method: "GET",
+    expectedContentType: "application/x-ndjson",
+    validateResponse: () => true,
+  },
+  {
+    // A JSON body is a one-line archive: the header alone is rejected as truncated,
+    // which exercises the import path without touching stored data
+    name: "storage-import",
+    endpoint: "/storage/import?mode=merge",
+    method: "POST",
+    body: { type: "header", format: "x402-storage-archive", version: 1, sections: ["kv"] },
+    allowedStatuses: [400],
+    validateResponse: (data) => hasFields(data, ["error", "line"]),
+  },
+];
+
+// =============================================================================
+// STORAGE - GRANT ENDPOINTS (3)
+// =============================================================================
+
+const grantEndpoints: TestConfig[] = [
+  {
+    // Signed by neither party: rejected before anything is stored
+    name: "storage-grant-create",
+    endpoint: "/storage/grants",
+    method: "POST",
+    body: {
+      grant: {
+        grantor: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+        grantee: "ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG",
+        scope: "read",
+        subsystems: ["kv"],
+        prefix: "shared/",
+        expiresAt: null,
+        nonce: 1,
+      },
+      signature: "00".repeat(65),
+    },
+    allowedStatuses: [401],
+    validateResponse: (data) => hasField(data, "error"),
+  },
+  {
+    name: "storage-grant-list",
+    endpoint: "/storage/grants?includeRevoked=true",
+    method: "GET",
+    validateResponse: (data, tokenType) =>
+      isOk(data) && hasField(data, "grants") && hasTokenType(data, tokenType),
+  },
+  {
+    name: "storage-grant-revoke",
+    endpoint: "/storage/grants/999999999",
+    method: "DELETE",
+    allowedStatuses: [404],
+    validateResponse: (data) => hasField(data, "error") && (data as { ok: boolean }).ok === false,
+  },
+];
+
+// =============================================================================
+// USAGE - PAYER ENDPOINTS (7) - Free, signed challenge
+// =============================================================================
+
+const refusedWithError = (data: unknown) =>
+  hasField(data, "error") && (data as { ok: boolean }).ok === false;
+
+const usageMeEndpoints: TestConfig[] = [
+  {
+    name: "usage-me-challenge",
+    endpoint: `/usage/me/challenge?address=${FIXTURES.testnetAddress}`,
+    method: "GET",
+    skipPayment: true,
+    validateResponse: (data) => isOk(data) && hasFields(data, ["message", "issuedAt", "sip018"]),
+  },
+  // Reports need a signed challenge; unsigned requests are refused
+  {
+    name: "usage-me-unsigned",
+    endpoint: "/usage/me",
+    method: "GET",
+    skipPayment: true,
+    allowedStatuses: [401],
+    validateResponse: refusedWithError,
+  },
+  {
+    name: "usage-me-endpoints-unsigned",
+    endpoint: "/usage/me/endpoints",
+    method: "GET",
+    skipPayment: true,
+    allowedStatuses: [401],
+    validateResponse: refusedWithError,
+  },
+  {
+    name: "usage-me-models-unsigned",
+    endpoint: "/usage/me/models",
+    method: "GET",
+    skipPayment: true,
+    allowedStatuses: [401],
+    validateResponse: refusedWithError,
+  },
+  {
+    name: "usage-me-daily-unsigned",
+    endpoint: "/usage/me/daily",
+    method: "GET",
+    skipPayment: true,
+    allowedStatuses: [401],
+    validateResponse: refusedWithError,
+  },
+  {
+    name: "usage-me-recent-unsigned",
+    endpoint: "/usage/me/recent",
+    method: "GET",
+    skipPayment: true,
+    allowedStatuses: [401],
+    validateResponse: refusedWithError,
+  },
+  {
+    name: "usage-me-reconciliation-unsigned",
+    endpoint: "/usage/me/reconciliation",
+    method: "GET",
+    skipPayment: true,
+    allowedStatuses: [401],
+    validateResponse: refusedWithError,
+  },
+];
+
+// =============================================================================
+// CREDITS - SESSION ENDPOINTS (3) - Paid session open, free with session token
+// =============================================================================
+
+// /credits/topup is left out: its minimum is 100 standard calls per token type.
+// Opening a session works on an empty balance; free session routes without a
+// session token are refused.
+const creditEndpoints: TestConfig[] = [
+  {
+    name: "credits-session-open",
+    endpoint: "/credits/session",
+    method: "POST",
+    body: { sessionTtl: 60 },
+    validateResponse: (data, tokenType) =>
+      isOk(data) && hasFields(data, ["sessionToken", "sessionExpiresAt", "balances"]) && hasTokenType(data, tokenType),
+  },
+  {
+    name: "credits-balance-no-session",
+    endpoint: "/credits/balance",
+    method: "GET",
+    skipPayment: true,
+    allowedStatuses: [401],
+    validateResponse: refusedWithError,
+  },
+  {
+    name: "credits-session-revoke-no-session",
+    endpoint: "/credits/session",
+    method: "DELETE",
+    skipPayment: true,
+    allowedStatuses: [401],
+    validateResponse: refusedWithError,
+  },
 ];
 
 // =============================================================================
@@ -454,6 +797,11 @@ export const ENDPOINT_REGISTRY: TestConfig[] = [
   ...syncEndpoints,
   ...queueEndpoints,
   ...memoryEndpoints,
+  ...usageEndpoints,
+  ...archiveEndpoints,
+  ...grantEndpoints,
+  ...usageMeEndpoints,
+  ...creditEndpoints,
 ];
 
 // Category mapping for filtered runs
@@ -467,6 +815,11 @@ export const ENDPOINT_CATEGORIES: Record<string, TestConfig[]> = {
   sync: syncEndpoints,
   queue: queueEndpoints,
   memory: memoryEndpoints,
+  usage: usageEndpoints,
+  archive: archiveEndpoints,
+  grants: grantEndpoints,
+  "usage-me": usageMeEndpoints,
+  credits: creditEndpoints,
 };
 
 // Check if a category is stateful
@@ -487,4 +840,9 @@ export const ENDPOINT_COUNTS = {
   sync: syncEndpoints.length,
   queue: queueEndpoints.length,
   memory: memoryEndpoints.length,
+  usage: usageEndpoints.length,
+  archive: archiveEndpoints.length,
+  grants: grantEndpoints.length,
+  usageMe: usageMeEndpoints.length,
+  credits: creditEndpoints.length,
 };
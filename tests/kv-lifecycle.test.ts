@@ -8,6 +8,9 @@
  * 3. List keys
  * 4. Delete the key
  * 5. Verify deletion
+ * 6. Batch set and get
+ * 7. Paginate the batch keys with a cursor
+ * 8. Batch delete
  */
 
 import type { TokenType } from "x402-stacks";
@@ -85,7 +88,7 @@ export async function runKvLifecycle(verbose = false): Promise<LifecycleTestResu
   const testValue = JSON.stringify({ message: "Hello from KV test", timestamp: Date.now() });
 
   let successCount = 0;
-  const totalTests = 5;
+  const totalTests = 8;
 
   // Test 1: Set a value
   logger.info("1. Testing /storage/kv (POST - set)...");
@@ -198,6 +201,83 @@ export async function runKvLifecycle(verbose = false): Promise<LifecycleTestResu
     logger.error(`Key still exists after delete: ${JSON.stringify(verifyResult.data)}`);
   }
 
+  await sleep(STEP_DELAY_MS);
+
+  // Test 6: Batch set two keys and read one back
+  logger.info("6. Testing /storage/kv/batch (set + get)...");
+  const batchKeys = [`${testKey}-a`, `${testKey}-b`];
+  const batchResult = await makeX402Request(
+    x402Client,
+    "/storage/kv/batch",
+    "POST",
+    {
+      operations: [
+        { op: "set", key: batchKeys[0], value: "first" },
+        { op: "set", key: batchKeys[1], value: "second" },
+        { op: "get", key: batchKeys[0] },
+      ],
+    },
+    tokenType,
+    logger
+  );
+
+  const batchData = batchResult.data as { ok?: boolean; results?: Array<{ op: string; value?: string }> };
+  if (batchResult.status === 200 && batchData.ok && batchData.results?.[2]?.value === "first") {
+    logger.success(`Batch wrote ${batchKeys.length} keys and read one back`);
+    successCount++;
+  } else {
+    logger.error(`Batch failed: ${JSON.stringify(batchResult.data)}`);
+  }
+
+  await sleep(STEP_DELAY_MS);
+
+  // Test 7: Walk the batch keys one page at a time
+  logger.info("7. Testing /storage/kv (GET - list with cursor)...");
+  const seen: string[] = [];
+  let cursor: string | null = null;
+  let pageError: unknown = null;
+  for (let page = 0; page < batchKeys.length + 1; page++) {
+    const query = `prefix=${encodeURIComponent(`${testKey}-`)}&limit=1${cursor ? `&cursor=${cursor}` : ""}`;
+    const pageResult = await makeX402Request(x402Client, `/storage/kv?${query}`, "GET", null, tokenType, logger);
+    const pageData = pageResult.data as { ok?: boolean; keys?: Array<{ key: string }>; nextCursor?: string | null };
+    if (pageResult.status !== 200 || !pageData.ok || !Array.isArray(pageData.keys)) {
+      pageError = pageResult.data;
+      break;
+    }
+    seen.push(...pageData.keys.map((k) => k.key));
+    cursor = pageData.nextCursor ?? null;
+    if (!cursor) break;
+    await sleep(STEP_DELAY_MS);
+  }
+
+  if (!pageError && JSON.stringify(seen) === JSON.stringify(batchKeys)) {
+    logger.success(`Paged through ${seen.length} keys with nextCursor`);
+    successCount++;
+  } else {
+    logger.error(`Cursor pagination failed: ${JSON.stringify(pageError ?? seen)}`);
+  }
+
+  await sleep(STEP_DELAY_MS);
+
+  // Test 8: Batch delete
+  logger.info("8. Testing /storage/kv/batch (delete)...");
+  const batchDeleteResult = await makeX402Request(
+    x402Client,
+    "/storage/kv/batch",
+    "POST",
+    { operations: batchKeys.map((k) => ({ op: "delete", key: k })) },
+    tokenType,
+    logger
+  );
+
+  const batchDeleteData = batchDeleteResult.data as { ok?: boolean; results?: Array<{ deleted?: boolean }> };
+  if (batchDeleteResult.status === 200 && batchDeleteData.ok && batchDeleteData.results?.every((r) => r.deleted)) {
+    logger.success(`Batch deleted ${batchKeys.length} keys`);
+    successCount++;
+  } else {
+    logger.error(`Batch delete failed: ${JSON.stringify(batchDeleteResult.data)}`);
+  }
+
   logger.summary(successCount, totalTests);
   return { passed: successCount, total: totalTests, success: successCount === totalTests };
 }
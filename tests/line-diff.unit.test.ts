@@ -0,0 +1,93 @@
+#!/usr/bin/env bun
+/**
+ * Unit tests for the line diff used by paste revisions
+ *
+ * Covers:
+ * 1. splitLines — trailing newline handling
+ * 2. diffLines — minimal edit scripts that reproduce both sides
+ * 3. formatUnifiedDiff — hunk headers, context and merging
+ */
+
+import { describe, expect, test } from "bun:test";
+import { diffLines, formatUnifiedDiff, splitLines, type DiffLine } from "../src/utils/line-diff";
+
+/** Rebuild the old and new sides from an edit script */
+function sides(lines: DiffLine[]): { a: string[]; b: string[] } {
+  return {
+    a: lines.filter((line) => line.op !== "+").map((line) => line.text),
+    b: lines.filter((line) => line.op !== "-").map((line) => line.text),
+  };
+}
+
+function editCount(lines: DiffLine[]): number {
+  return lines.filter((line) => line.op !== " ").length;
+}
+
+describe("splitLines", () => {
+  test("ignores a single trailing newline", () => {
+    expect(splitLines("a\nb\n")).toEqual(["a", "b"]);
+    expect(splitLines("a\r\nb")).toEqual(["a", "b"]);
+    expect(splitLines("")).toEqual([]);
+  });
+});
+
+describe("diffLines", () => {
+  test("identical input has no edits", () => {
+    const lines = diffLines(["a", "b"], ["a", "b"]);
+    expect(editCount(lines)).toBe(0);
+    expect(lines).toHaveLength(2);
+  });
+
+  test("finds a minimal script for a changed middle line", () => {
+    const a = ["one", "two", "three"];
+    const b = ["one", "2", "three"];
+    const lines = diffLines(a, b);
+    expect(sides(lines)).toEqual({ a, b });
+    expect(editCount(lines)).toBe(2);
+  });
+
+  test("handles insertions, deletions and empty sides", () => {
+    const cases: Array<[string[], string[]]> = [
+      [[], ["x", "y"]],
+      [["x", "y"], []],
+      [["a", "b", "c", "a", "b", "b", "a"], ["c", "b", "a", "b", "a", "c"]],
+      [["a", "x", "b", "y", "c"], ["a", "b", "c", "z"]],
+    ];
+    for (const [a, b] of cases) {
+      expect(sides(diffLines(a, b))).toEqual({ a, b });
+    }
+    // Classic Myers example: edit distance 5
+    expect(editCount(diffLines(cases[2][0], cases[2][1]))).toBe(5);
+  });
+});
+
+describe("formatUnifiedDiff", () => {
+  test("returns empty text when nothing changed", () => {
+    expect(formatUnifiedDiff(diffLines(["a"], ["a"]), { from: "v1", to: "v2" })).toBe("");
+  });
+
+  test("renders hunk headers with context", () => {
+    const a = ["1", "2", "3", "4", "5", "6", "7", "8"];
+    const b = ["1", "2", "3", "4", "five", "6", "7", "8"];
+    const text = formatUnifiedDiff(diffLines(a, b), { from: "v1", to: "v2" });
+    expect(text).toBe(
+      ["--- v1", "+++ v2", "@@ -2,7 +2,7 @@", " 2", " 3", " 4", "-5", "+five", " 6", " 7", " 8", ""].join("\n")
+    );
+  });
+
+  test("splits distant changes into separate hunks", () => {
+    const a = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const b = [...a];
+    b[1] = "changed 2";
+    b[17] = "changed 18";
+    const text = formatUnifiedDiff(diffLines(a, b), { from: "v1", to: "v2" });
+    expect(text.match(/^@@/gm)).toHaveLength(2);
+    expect(text).toContain("@@ -1,5 +1,5 @@");
+    expect(text).toContain("@@ -15,6 +15,6 @@");
+  });
+
+  test("points empty ranges at the preceding line", () => {
+    const text = formatUnifiedDiff(diffLines([], ["new"]), { from: "v1", to: "v2" });
+    expect(text).toContain("@@ -0,0 +1,1 @@");
+  });
+});
@@ -0,0 +1,169 @@
+#!/usr/bin/env bun
+/**
+ * Unit tests for memory-query helpers
+ *
+ * Covers:
+ * 1. compileMemoryFilter — operators, field mapping, validation errors
+ * 2. buildFtsQuery — quoting, dedup, any/all matching
+ * 3. fuseScores — RRF and weighted fusion
+ * 4. validateRankingWeights / weightedMemoryScore — importance and recency blending
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+  MAX_FILTER_CONDITIONS,
+  MemoryFilterError,
+  buildFtsQuery,
+  compileMemoryFilter,
+  fuseScores,
+  validateRankingWeights,
+  weightedMemoryScore,
+} from "../src/utils/memory-query";
+
+// ---------------------------------------------------------------------------
+// compileMemoryFilter
+// ---------------------------------------------------------------------------
+
+describe("compileMemoryFilter", () => {
+  test("empty or missing filter matches everything", () => {
+    expect(compileMemoryFilter(undefined)).toEqual({ sql: "1", params: [] });
+    expect(compileMemoryFilter({})).toEqual({ sql: "1", params: [] });
+  });
+
+  test("bare values compile to equality on a metadata path", () => {
+    expect(compileMemoryFilter({ "metadata.wallet": "SP123" })).toEqual({
+      sql: "json_extract(tags, ?) = ?",
+      params: ["$.wallet", "SP123"],
+    });
+  });
+
+  test("booleans compare as 1/0", () => {
+    expect(compileMemoryFilter({ "metadata.flags.pinned": true }).params).toEqual(["$.flags.pinned", 1]);
+  });
+
+  test("row fields map to columns and ranges combine with AND", () => {
+    const compiled = compileMemoryFilter({
+      createdAt: { $gte: "2026-01-01T00:00:00Z", $lt: "2026-02-01T00:00:00Z" },
+    });
+    expect(compiled.sql).toBe("created_at >= ? AND created_at < ?");
+    expect(compiled.params).toEqual(["2026-01-01T00:00:00Z", "2026-02-01T00:00:00Z"]);
+  });
+
+  test("$in and $exists", () => {
+    expect(compileMemoryFilter({ "metadata.topic": { $in: ["a", "b"] } })).toEqual({
+      sql: "json_extract(tags, ?) IN (?,?)",
+      params: ["$.topic", "a", "b"],
+    });
+    expect(compileMemoryFilter({ "metadata.topic": { $exists: false } })).toEqual({
+      sql: "NOT (json_type(tags, ?) IS NOT NULL)",
+      params: ["$.topic"],
+    });
+  });
+
+  test("rejects unknown fields, unsafe paths and bad operators", () => {
+    expect(() => compileMemoryFilter({ wallet: "x" })).toThrow(MemoryFilterError);
+    expect(() => compileMemoryFilter({ "metadata.a') OR 1=1 --": "x" })).toThrow(MemoryFilterError);
+    expect(() => compileMemoryFilter({ "metadata.a": { $regex: "x" } })).toThrow(MemoryFilterError);
+    expect(() => compileMemoryFilter({ "metadata.a": { $in: [] } })).toThrow(MemoryFilterError);
+    expect(() => compileMemoryFilter({ "metadata.a": { $gt: true } })).toThrow(MemoryFilterError);
+    expect(() => compileMemoryFilter(["metadata.a"])).toThrow(MemoryFilterError);
+  });
+
+  test("caps the number of fields", () => {
+    const filter = Object.fromEntries(
+      Array.from({ length: MAX_FILTER_CONDITIONS + 1 }, (_, i) => [`metadata.f${i}`, i])
+    );
+    expect(() => compileMemoryFilter(filter)).toThrow(MemoryFilterError);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// buildFtsQuery
+// ---------------------------------------------------------------------------
+
+describe("buildFtsQuery", () => {
+  test("quotes and dedupes terms", () => {
+    expect(buildFtsQuery("Swap swap STX")).toBe('"swap" OR "stx"');
+    expect(buildFtsQuery("swap stx", "all")).toBe('"swap" AND "stx"');
+  });
+
+  test("neutralizes FTS5 syntax", () => {
+    expect(buildFtsQuery('content:swap NOT "x" *')).toBe('"content" OR "swap" OR "not" OR "x"');
+  });
+
+  test("returns null without searchable words", () => {
+    expect(buildFtsQuery("  ?! ")).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// fuseScores
+// ---------------------------------------------------------------------------
+
+describe("fuseScores", () => {
+  test("rrf rewards items ranked in both lists", () => {
+    const scores = fuseScores(
+      [
+        { id: "both", vectorRank: 1, keywordRank: 1 },
+        { id: "vector-only", vectorRank: 0 },
+        { id: "keyword-only", keywordRank: 0 },
+      ],
+      "rrf"
+    );
+    expect(scores.get("both")!).toBeGreaterThan(scores.get("vector-only")!);
+    expect(scores.get("vector-only")).toBeCloseTo(1 / 61, 10);
+  });
+
+  test("weighted mixes similarity with normalized bm25", () => {
+    const scores = fuseScores(
+      [
+        { id: "a", similarity: 0.9, bm25: -2 },
+        { id: "b", similarity: 0.5, bm25: -10 },
+        { id: "c", similarity: 0.8 },
+      ],
+      "weighted",
+      0.5
+    );
+    expect(scores.get("a")).toBeCloseTo(0.45, 6);
+    expect(scores.get("b")).toBeCloseTo(0.75, 6);
+    expect(scores.get("c")).toBeCloseTo(0.4, 6);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Importance / recency weighting
+// ---------------------------------------------------------------------------
+
+describe("validateRankingWeights", () => {
+  test("accepts shares that sum to at most 1", () => {
+    expect(validateRankingWeights({})).toBeNull();
+    expect(validateRankingWeights({ importance: 0.3, recency: 0.2, halfLifeHours: 24 })).toBeNull();
+  });
+
+  test("rejects out-of-range values", () => {
+    expect(validateRankingWeights(null)).not.toBeNull();
+    expect(validateRankingWeights({ importance: 1.5 })).not.toBeNull();
+    expect(validateRankingWeights({ importance: 0.6, recency: 0.6 })).not.toBeNull();
+    expect(validateRankingWeights({ recency: 0.5, halfLifeHours: 0 })).not.toBeNull();
+  });
+});
+
+describe("weightedMemoryScore", () => {
+  const now = Date.parse("2026-03-01T00:00:00Z");
+
+  test("zero weights keep relevance", () => {
+    expect(weightedMemoryScore(0.7, 10, "2020-01-01T00:00:00Z", {}, now)).toBeCloseTo(0.7, 10);
+  });
+
+  test("importance maps 1-10 onto 0-1", () => {
+    const created = "2026-03-01T00:00:00Z";
+    expect(weightedMemoryScore(0, 10, created, { importance: 1 }, now)).toBeCloseTo(1, 10);
+    expect(weightedMemoryScore(0, 1, created, { importance: 1 }, now)).toBeCloseTo(0, 10);
+  });
+
+  test("recency halves every half-life", () => {
+    const weekOld = "2026-02-22T00:00:00Z";
+    expect(weightedMemoryScore(1, 5, weekOld, { recency: 0.5 }, now)).toBeCloseTo(0.5 + 0.25, 10);
+    expect(weightedMemoryScore(1, 5, weekOld, { recency: 0.5, halfLifeHours: 84 }, now)).toBeCloseTo(0.5 + 0.125, 10);
+  });
+});
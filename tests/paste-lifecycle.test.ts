@@ -5,8 +5,15 @@
  * Tests the complete lifecycle of paste storage operations:
  * 1. Create a paste
  * 2. Get the paste back
- * 3. Delete the paste
- * 4. Verify deletion
+ * 3. Update the paste (new version)
+ * 4. List revisions
+ * 5. Diff the two versions
+ * 6. Get the raw content
+ * 7. Delete the paste
+ * 8. Verify deletion
+ * 9. Create an unlisted burn-after-read paste
+ * 10. Read it through the free /paste/:id route (burns it)
+ * 11. Verify the second shared read is 404
  */
 
 import type { TokenType } from "x402-stacks";
@@ -15,6 +22,7 @@ import { deriveChildAccount } from "../src/utils/wallet";
 import {
   X402_CLIENT_PK,
   X402_NETWORK,
+  X402_WORKER_URL,
   createTestLogger,
   STEP_DELAY_MS,
   generateTestId,
@@ -35,7 +43,7 @@ type JsonBody =
 async function makeX402Request(
   x402Client: X402PaymentClient,
   endpoint: string,
-  method: "GET" | "POST" | "DELETE",
+  method: "GET" | "POST" | "PUT" | "DELETE",
   body: JsonBody | undefined,
   tokenType: TokenType,
   logger: ReturnType<typeof createTestLogger>
@@ -85,7 +93,7 @@ export async function runPasteLifecycle(verbose = false): Promise<LifecycleTestR
   const testLanguage = "text";
 
   let successCount = 0;
-  const totalTests = 4;
+  const totalTests = 11;
   let pasteId: string | null = null;
 
   // Test 1: Create a paste
@@ -134,8 +142,97 @@ export async function runPasteLifecycle(verbose = false): Promise<LifecycleTestR
 
   await sleep(STEP_DELAY_MS);
 
-  // Test 3: Delete the paste
-  logger.info("3. Testing /storage/paste/:id (DELETE)...");
+  // Test 3: Update the paste
+  logger.info("3. Testing /storage/paste/:id (PUT - update)...");
+  const updatedContent = `${testContent}\nA second line added in version 2.`;
+  const updateResult = await makeX402Request(
+    x402Client,
+    `/storage/paste/${pasteId}`,
+    "PUT",
+    { content: updatedContent, ifMatch: 1 },
+    tokenType,
+    logger
+  );
+
+  const updateData = updateResult.data as { ok?: boolean; version?: number };
+  if (updateResult.status === 200 && updateData.ok && updateData.version === 2) {
+    logger.success(`Updated paste to version ${updateData.version}`);
+    successCount++;
+  } else {
+    logger.error(`Update failed: ${JSON.stringify(updateResult.data)}`);
+  }
+
+  await sleep(STEP_DELAY_MS);
+
+  // Test 4: List revisions
+  logger.info("4. Testing /storage/paste/:id/revisions (GET)...");
+  const revisionsResult = await makeX402Request(
+    x402Client,
+    `/storage/paste/${pasteId}/revisions`,
+    "GET",
+    null,
+    tokenType,
+    logger
+  );
+
+  const revisionsData = revisionsResult.data as { ok?: boolean; revisions?: Array<{ version: number; current: boolean }> };
+  if (
+    revisionsResult.status === 200 &&
+    revisionsData.ok &&
+    revisionsData.revisions?.length === 2 &&
+    revisionsData.revisions[0].current
+  ) {
+    logger.success(`Listed ${revisionsData.revisions.length} revisions`);
+    successCount++;
+  } else {
+    logger.error(`Revisions failed: ${JSON.stringify(revisionsResult.data)}`);
+  }
+
+  await sleep(STEP_DELAY_MS);
+
+  // Test 5: Diff versions 1 and 2
+  logger.info("5. Testing /storage/paste/:id/diff (GET)...");
+  const diffResult = await makeX402Request(
+    x402Client,
+    `/storage/paste/${pasteId}/diff`,
+    "GET",
+    null,
+    tokenType,
+    logger
+  );
+
+  const diffData = diffResult.data as { ok?: boolean; from?: number; to?: number; added?: number; diff?: string };
+  if (diffResult.status === 200 && diffData.ok && diffData.from === 1 && diffData.to === 2 && diffData.added === 1) {
+    logger.success(`Diff v1→v2 adds ${diffData.added} line`);
+    successCount++;
+  } else {
+    logger.error(`Diff failed: ${JSON.stringify(diffResult.data)}`);
+  }
+
+  await sleep(STEP_DELAY_MS);
+
+  // Test 6: Raw content
+  logger.info("6. Testing /storage/paste/:id/raw (GET)...");
+  const rawResult = await makeX402Request(
+    x402Client,
+    `/storage/paste/${pasteId}/raw`,
+    "GET",
+    null,
+    tokenType,
+    logger
+  );
+
+  if (rawResult.status === 200 && rawResult.data === updatedContent) {
+    logger.success(`Got raw content`);
+    successCount++;
+  } else {
+    logger.error(`Raw failed: ${JSON.stringify(rawResult.data)}`);
+  }
+
+  await sleep(STEP_DELAY_MS);
+
+  // Test 7: Delete the paste
+  logger.info("7. Testing /storage/paste/:id (DELETE)...");
   const deleteResult = await makeX402Request(
     x402Client,
     `/storage/paste/${pasteId}`,
@@ -155,8 +252,8 @@ export async function runPasteLifecycle(verbose = false): Promise<LifecycleTestR
 
   await sleep(STEP_DELAY_MS);
 
-  // Test 4: Verify deletion
-  logger.info("4. Verifying deletion...");
+  // Test 8: Verify deletion
+  logger.info("8. Verifying deletion...");
   const verifyResult = await makeX402Request(
     x402Client,
     `/storage/paste/${pasteId}`,
@@ -173,6 +270,54 @@ export async function runPasteLifecycle(verbose = false): Promise<LifecycleTestR
     logger.error(`Paste still exists after delete: ${JSON.stringify(verifyResult.data)}`);
   }
 
+  await sleep(STEP_DELAY_MS);
+
+  // Test 9: Create an unlisted burn-after-read paste
+  logger.info("9. Testing /storage/paste (POST, unlisted + burnAfterRead)...");
+  const secretContent = `Shared secret ${generateTestId("paste")}`;
+  const shareResult = await makeX402Request(
+    x402Client,
+    "/storage/paste",
+    "POST",
+    { content: secretContent, visibility: "unlisted", burnAfterRead: true, ttl: 300 },
+    tokenType,
+    logger
+  );
+
+  const shareData = shareResult.data as { ok?: boolean; id?: string; visibility?: string; url?: string };
+  const sharedId = shareData.id;
+  if (shareResult.status === 200 && shareData.ok && sharedId && shareData.visibility === "unlisted" && shareData.url) {
+    logger.success(`Created unlisted paste "${sharedId}"`);
+    successCount++;
+  } else {
+    logger.error(`Shared create failed: ${JSON.stringify(shareResult.data)}`);
+  }
+
+  await sleep(STEP_DELAY_MS);
+
+  // Test 10: Free shared read (burns the paste)
+  logger.info("10. Testing /paste/:id (GET, free)...");
+  const sharedRes = await fetch(`${X402_WORKER_URL}/paste/${sharedId}`);
+  const sharedData = (await sharedRes.json()) as { ok?: boolean; content?: string; burned?: boolean };
+  if (sharedRes.status === 200 && sharedData.content === secretContent && sharedData.burned === true) {
+    logger.success(`Read shared paste without payment (burned)`);
+    successCount++;
+  } else {
+    logger.error(`Shared read failed: ${sharedRes.status} ${JSON.stringify(sharedData)}`);
+  }
+
+  await sleep(STEP_DELAY_MS);
+
+  // Test 11: A burned paste is gone
+  logger.info("11. Verifying burn-after-read...");
+  const burnedRes = await fetch(`${X402_WORKER_URL}/paste/${sharedId}`);
+  if (burnedRes.status === 404) {
+    logger.success(`Verified shared paste is burned (404)`);
+    successCount++;
+  } else {
+    logger.error(`Burned paste still readable: ${burnedRes.status}`);
+  }
+
   logger.summary(successCount, totalTests);
   return { passed: successCount, total: totalTests, success: successCount === totalTests };
 }
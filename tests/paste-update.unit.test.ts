@@ -0,0 +1,172 @@
+#!/usr/bin/env bun
+/**
+ * Unit tests for the paste update endpoint's shared index handling
+ *
+ * Covers:
+ * 1. Updating a shared paste re-registers it in the global paste index
+ * 2. An index failure after the update is stored returns a defined 503
+ * 3. Private pastes never touch the index
+ *
+ * Approach: direct handler unit tests using a minimal Hono app with stand-in
+ * STORAGE_DO and PASTE_INDEX_DO bindings. The x402 middleware is not mounted.
+ */
+
+import { describe, expect, test } from "bun:test";
+import { Hono } from "hono";
+import { PasteUpdate } from "../src/endpoints/storage/paste/update";
+import type { Env, AppVariables, Logger } from "../src/types";
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+const PAYER = "SP1TESTPAYERADDRESS";
+
+/** Logger that keeps error messages for assertions */
+function makeLogger(errors: string[]): Logger {
+  return {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+    error: (message) => errors.push(message),
+    child: function () {
+      return this;
+    },
+  };
+}
+
+/** Result of StorageDO.pasteUpdate for a paste with the given visibility */
+function updatedPaste(visibility: "private" | "unlisted" | "public") {
+  return {
+    ok: true as const,
+    id: "abc123",
+    version: 2,
+    title: "notes",
+    language: null,
+    visibility,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-02T00:00:00.000Z",
+    expiresAt: null,
+  };
+}
+
+/**
+ * Build a Hono app mounting PasteUpdate at PUT /storage/paste/:id, with a
+ * storage DO that returns `result` and a paste index using `register`
+ */
+function buildTestApp(
+  result: ReturnType<typeof updatedPaste>,
+  register: (entry: Record<string, unknown>) => Promise<void>,
+  errors: string[] = []
+) {
+  const app = new Hono<{ Bindings: Env; Variables: AppVariables }>();
+  const storageDO = { pasteUpdate: async () => result };
+  const pasteIndex = { register };
+
+  app.use("/storage/paste/*", async (c, next) => {
+    // @ts-expect-error — we are intentionally overriding readonly env in tests
+    c.env = {
+      ...c.env,
+      STORAGE_DO: { idFromName: (name: string) => name, get: () => storageDO },
+      PASTE_INDEX_DO: { idFromName: (name: string) => name, get: () => pasteIndex },
+    };
+
+    c.set("requestId", "test-req-id");
+    c.set("logger", makeLogger(errors));
+    c.set("x402", {
+      payerAddress: PAYER,
+      settleResult: { success: true, transaction: "", network: "mainnet:1", payer: PAYER },
+      priceEstimate: {
+        estimatedCostUsd: 0,
+        costWithMarginUsd: 0,
+        amountInToken: BigInt(0),
+        tokenType: "STX" as const,
+        tier: "standard" as const,
+      },
+    });
+
+    return next();
+  });
+
+  const handler = new PasteUpdate();
+  app.put("/storage/paste/:id", (c) => handler.handle(c));
+
+  return app;
+}
+
+/** Stand-in execution context: the safety scan is fire-and-forget */
+const executionCtx = {
+  waitUntil: () => {},
+  passThroughOnException: () => {},
+  props: {},
+} as unknown as ExecutionContext;
+
+async function putPaste(app: ReturnType<typeof buildTestApp>) {
+  return app.request(
+    "/storage/paste/abc123",
+    {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ content: "updated content" }),
+    },
+    undefined,
+    executionCtx
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("PasteUpdate shared index", () => {
+  test("re-registers an updated shared paste in the index", async () => {
+    const registered: Record<string, unknown>[] = [];
+    const app = buildTestApp(updatedPaste("public"), async (entry) => {
+      registered.push(entry);
+    });
+
+    const res = await putPaste(app);
+    expect(res.status).toBe(200);
+    expect(registered).toEqual([
+      {
+        id: "abc123",
+        owner: PAYER,
+        visibility: "public",
+        title: "notes",
+        language: null,
+        createdAt: "2026-01-01T00:00:00.000Z",
+        expiresAt: null,
+      },
+    ]);
+  });
+
+  test("returns 503 with the stored version when the index is unavailable", async () => {
+    const errors: string[] = [];
+    const app = buildTestApp(
+      updatedPaste("unlisted"),
+      async () => {
+        throw new Error("paste index unavailable");
+      },
+      errors
+    );
+
+    const res = await putPaste(app);
+    expect(res.status).toBe(503);
+    const data = (await res.json()) as Record<string, unknown>;
+    expect(data.ok).toBe(false);
+    expect(data.id).toBe("abc123");
+    expect(data.version).toBe(2);
+    expect(errors).toEqual(["Failed to re-index shared paste"]);
+  });
+
+  test("leaves the index alone for private pastes", async () => {
+    let registrations = 0;
+    const app = buildTestApp(updatedPaste("private"), async () => {
+      registrations++;
+    });
+
+    const res = await putPaste(app);
+    expect(res.status).toBe(200);
+    expect(registrations).toBe(0);
+  });
+});
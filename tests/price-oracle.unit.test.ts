@@ -0,0 +1,303 @@
+#!/usr/bin/env bun
+/**
+ * Unit tests for the token price oracle
+ *
+ * Covers:
+ * 1. aggregateQuotes — median consensus, outlier rejection and two-feed disagreement
+ * 2. selectTokenRate — jumps, staleness bounds, fixed fallback
+ * 3. collectQuotes / parsePricePools / hiroPoolFeed — feeds and their configuration
+ * 4. refreshTokenRates — isolate snapshot used by pricing conversions
+ *
+ * Prices come from a local stand-in feed or a stand-in fetch; nothing leaves
+ * the process.
+ */
+
+import { describe, expect, test, afterEach } from "bun:test";
+import { cvToHex, responseOkCV, tupleCV, uintCV } from "@stacks/transactions";
+import {
+  FIXED_TOKEN_RATES,
+  PRICE_MAX_STALE_MS,
+  PRICE_REFRESH_MS,
+  aggregateQuotes,
+  selectTokenRate,
+  type PriceQuote,
+  type TokenRate,
+} from "../src/utils/price-oracle";
+import {
+  DEFAULT_PRICE_POOLS,
+  collectQuotes,
+  hiroPoolFeed,
+  parsePricePools,
+  priceFeedsFromEnv,
+  type PriceFeed,
+  type PricePool,
+} from "../src/services/price-feeds";
+import {
+  _resetTokenRatesForTesting,
+  getTokenRate,
+  hasCheckedTokenRates,
+  refreshTokenRates,
+} from "../src/services/price-oracle";
+import { getFixedTierEstimate, tokenAmountToUsd, usdToTokenAmount } from "../src/services/pricing";
+import type { Env, Logger } from "../src/types";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const warnings: string[] = [];
+const log: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: (message) => warnings.push(message),
+  error: () => {},
+  child: () => log,
+};
+
+/** Local stand-in feed serving fixed quotes */
+function standInFeed(name: string, prices: Partial<Record<"STX" | "sBTC", number>>): PriceFeed {
+  return {
+    name,
+    async fetchQuotes() {
+      return Object.entries(prices).map(([token, usd]) => ({ token, usd, source: name }) as PriceQuote);
+    },
+  };
+}
+
+const failingFeed: PriceFeed = {
+  name: "down",
+  async fetchQuotes() {
+    throw new Error("connection refused");
+  },
+};
+
+const quote = (usd: number, source: string): PriceQuote => ({ token: "STX", usd, source });
+
+const now = 1_767_225_600_000;
+const liveRate = (usd: number, observedAt = now - PRICE_REFRESH_MS): TokenRate => ({
+  token: "STX",
+  usd,
+  source: "a",
+  observedAt,
+  stale: false,
+});
+
+afterEach(() => {
+  _resetTokenRatesForTesting();
+  warnings.length = 0;
+});
+
+// ---------------------------------------------------------------------------
+// aggregateQuotes
+// ---------------------------------------------------------------------------
+
+describe("aggregateQuotes", () => {
+  test("takes the median of agreeing quotes", () => {
+    const consensus = aggregateQuotes([quote(0.61, "a"), quote(0.62, "b"), quote(0.63, "c")]);
+    expect(consensus?.usd).toBe(0.62);
+    expect(consensus?.sources).toEqual(["a", "b", "c"]);
+    expect(consensus?.rejected).toEqual([]);
+  });
+
+  test("rejects quotes far from the median and invalid quotes", () => {
+    const consensus = aggregateQuotes([
+      quote(0.60, "a"),
+      quote(0.62, "b"),
+      quote(6.2, "fat-finger"),
+      quote(-1, "broken"),
+      quote(NaN, "nan"),
+    ]);
+    expect(consensus?.usd).toBe(0.61);
+    expect(consensus?.sources).toEqual(["a", "b"]);
+    expect(consensus?.rejected.map((q) => q.source).sort()).toEqual(["broken", "fat-finger", "nan"]);
+  });
+
+  test("two disagreeing quotes are settled by the last accepted rate", () => {
+    const quotes = [quote(0.60, "a"), quote(0.70, "b")];
+    expect(aggregateQuotes(quotes)).toBeNull();
+
+    const consensus = aggregateQuotes(quotes, 0.68);
+    expect(consensus?.usd).toBe(0.70);
+    expect(consensus?.sources).toEqual(["b"]);
+    expect(consensus?.rejected.map((q) => q.source)).toEqual(["a"]);
+
+    // Two quotes within the spread still agree on their midpoint
+    expect(aggregateQuotes([quote(0.60, "a"), quote(0.62, "b")], 0.9)?.usd).toBe(0.61);
+  });
+
+  test("returns null without usable quotes", () => {
+    expect(aggregateQuotes([])).toBeNull();
+    expect(aggregateQuotes([quote(0, "a")])).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// selectTokenRate
+// ---------------------------------------------------------------------------
+
+describe("selectTokenRate", () => {
+  test("accepts a consensus within the jump bound", () => {
+    const rate = selectTokenRate("STX", { usd: 0.7, sources: ["a"], rejected: [] }, liveRate(0.62), now);
+    expect(rate).toEqual({ token: "STX", usd: 0.7, source: "a", observedAt: now, stale: false });
+  });
+
+  test("a large jump needs two agreeing feeds", () => {
+    const single = selectTokenRate("STX", { usd: 1.0, sources: ["a"], rejected: [] }, liveRate(0.62), now);
+    expect(single.usd).toBe(0.62);
+    expect(single.stale).toBe(false);
+
+    const two = selectTokenRate("STX", { usd: 1.0, sources: ["a", "b"], rejected: [] }, liveRate(0.62), now);
+    expect(two.usd).toBe(1.0);
+    expect(two.source).toBe("a,b");
+  });
+
+  test("keeps the last rate while feeds fail, then falls back to the fixed rate", () => {
+    const stale = selectTokenRate("STX", null, liveRate(0.62, now - 2 * PRICE_REFRESH_MS), now);
+    expect(stale.usd).toBe(0.62);
+    expect(stale.stale).toBe(true);
+
+    const expired = selectTokenRate("STX", null, liveRate(0.62, now - PRICE_MAX_STALE_MS - 1), now);
+    expect(expired.usd).toBe(FIXED_TOKEN_RATES.STX);
+    expect(expired.source).toBe("fixed");
+  });
+
+  test("any consensus replaces an expired rate", () => {
+    const rate = selectTokenRate(
+      "STX",
+      { usd: 2.0, sources: ["a"], rejected: [] },
+      liveRate(0.62, now - PRICE_MAX_STALE_MS - 1),
+      now
+    );
+    expect(rate.usd).toBe(2.0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Feeds
+// ---------------------------------------------------------------------------
+
+describe("price feeds", () => {
+  test("collect quotes from every feed and skip failed ones", async () => {
+    const quotes = await collectQuotes(
+      [standInFeed("local", { STX: 0.62, sBTC: 98000 }), failingFeed],
+      log
+    );
+    expect(quotes).toEqual([
+      { token: "STX", usd: 0.62, source: "local" },
+      { token: "sBTC", usd: 98000, source: "local" },
+    ]);
+    expect(warnings).toEqual(["Price feed failed"]);
+  });
+
+  test("parse pool configuration and drop malformed entries", () => {
+    const pool = {
+      token: "STX",
+      contract: "SP000000000000000000002Q6VF78.stx-usd-pool",
+      functionName: "get-pool",
+      tokenReserve: "reserve-x",
+      quoteReserve: "reserve-y",
+      tokenDecimals: 6,
+      quoteDecimals: 6,
+    };
+    expect(parsePricePools(JSON.stringify([pool, { ...pool, token: "USDCx" }, { ...pool, contract: "nodot" }]))).toEqual([pool]);
+    expect(parsePricePools("not json")).toEqual([]);
+    expect(parsePricePools(undefined)).toEqual([]);
+    expect(parsePricePools(JSON.stringify([{ ...pool, args: ["0x01"] }, { ...pool, args: ["zz"] }]))).toEqual([
+      { ...pool, args: ["0x01"] },
+    ]);
+  });
+
+  test("read the default pools unless PRICE_FEED_POOLS says otherwise", () => {
+    const names = (env: Partial<Env>) => priceFeedsFromEnv(env as Env, log).map((feed) => feed.name);
+    expect(names({})).toEqual(["coingecko", "hiro-pool"]);
+    expect(names({ PRICE_FEED_POOLS: "[]" })).toEqual(["coingecko"]);
+    expect(DEFAULT_PRICE_POOLS.map((pool) => pool.token)).toContain("STX");
+  });
+
+  test("a pool that fails to read is skipped, the others still quote", async () => {
+    const pool = (contract: string): PricePool => ({
+      token: "STX",
+      contract,
+      functionName: "get-pool",
+      tokenReserve: "reserve-x",
+      quoteReserve: "reserve-y",
+      tokenDecimals: 6,
+      quoteDecimals: 6,
+    });
+    const reserves = cvToHex(
+      responseOkCV(tupleCV({ "reserve-x": uintCV(1_000_000_000), "reserve-y": uintCV(620_000_000) }))
+    );
+
+    // Stand-in Hiro API: the "down" pool errors, the other returns its reserves
+    const realFetch = globalThis.fetch;
+    globalThis.fetch = (async (url: string) =>
+      url.includes("down-pool")
+        ? new Response("node unavailable", { status: 503 })
+        : Response.json({ okay: true, result: reserves })) as unknown as typeof fetch;
+    try {
+      const feed = hiroPoolFeed([pool("SP000000000000000000002Q6VF78.down-pool"), pool("SP000000000000000000002Q6VF78.up-pool")], log);
+      const quotes = await feed.fetchQuotes(AbortSignal.timeout(1000));
+      expect(quotes).toEqual([{ token: "STX", usd: 0.62, source: "pool:SP000000000000000000002Q6VF78.up-pool" }]);
+      expect(warnings).toEqual(["Price pool read failed"]);
+
+      const allDown = hiroPoolFeed([pool("SP000000000000000000002Q6VF78.down-pool")], log);
+      await expect(allDown.fetchQuotes(AbortSignal.timeout(1000))).rejects.toThrow("All 1 pool reads failed");
+    } finally {
+      globalThis.fetch = realFetch;
+    }
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Isolate snapshot and pricing
+// ---------------------------------------------------------------------------
+
+describe("refreshTokenRates", () => {
+  /** Env whose PriceOracleDO answers from a stand-in feed */
+  function envWithOracle(feed: PriceFeed): Env {
+    const oracle = {
+      async getRates(): Promise<TokenRate[]> {
+        const quotes = await collectQuotes([feed], log);
+        const observedAt = Date.now();
+        return (["STX", "sBTC"] as const).map((token) =>
+          selectTokenRate(token, aggregateQuotes(quotes.filter((q) => q.token === token)), null, observedAt)
+        );
+      },
+    };
+    return {
+      PRICE_ORACLE_DO: { idFromName: () => "global-prices", get: () => oracle },
+    } as unknown as Env;
+  }
+
+  test("uses the fixed rates until the oracle answers", () => {
+    expect(hasCheckedTokenRates()).toBe(false);
+    expect(getTokenRate("STX").usd).toBe(FIXED_TOKEN_RATES.STX);
+    expect(getTokenRate("STX").source).toBe("fixed");
+    expect(getTokenRate("USDCx").source).toBe("peg");
+  });
+
+  test("converts prices at the oracle's rates", async () => {
+    await refreshTokenRates(envWithOracle(standInFeed("local", { STX: 1.0, sBTC: 50000 })), log);
+
+    expect(getTokenRate("STX")).toMatchObject({ usd: 1.0, source: "local", stale: false });
+    expect(usdToTokenAmount(1, "STX")).toBe(1_000_000n);
+    expect(usdToTokenAmount(1, "sBTC")).toBe(2000n);
+    expect(tokenAmountToUsd(2000n, "sBTC")).toBe(1);
+    // Fixed tiers stay priced in STX: 0.001 STX, now worth $0.001 of sBTC
+    expect(getFixedTierEstimate("standard", "STX").amountInToken).toBe(1000n);
+    expect(getFixedTierEstimate("standard", "sBTC").amountInToken).toBe(2n);
+  });
+
+  test("keeps the fixed rates when the oracle fails", async () => {
+    const env = {
+      PRICE_ORACLE_DO: {
+        idFromName: () => "global-prices",
+        get: () => ({ getRates: () => Promise.reject(new Error("oracle down")) }),
+      },
+    } as unknown as Env;
+    await refreshTokenRates(env, log);
+    expect(hasCheckedTokenRates()).toBe(true);
+    expect(getTokenRate("STX").usd).toBe(FIXED_TOKEN_RATES.STX);
+    expect(warnings).toEqual(["Price oracle unavailable -- keeping current token rates"]);
+  });
+});
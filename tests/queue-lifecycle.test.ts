@@ -6,9 +6,11 @@
  * 1. Push (add items to queue)
  * 2. Status (check queue has items)
  * 3. Peek (view items without removing)
- * 4. Pop (remove and get items)
- * 5. Clear (remove remaining items)
- * 6. Status (verify queue is empty)
+ * 4. Pop (lease items)
+ * 5. Extend (renew the lease on the popped item)
+ * 6. Ack (delete the popped item)
+ * 7. Clear (remove remaining items)
+ * 8. Status (verify queue is empty)
  */
 
 import type { TokenType } from "x402-stacks";
@@ -90,7 +92,7 @@ export async function runQueueLifecycle(verbose = false): Promise<LifecycleTestR
   ];
 
   let successCount = 0;
-  const totalTests = 6;
+  const totalTests = 8;
 
   // Test 1: Push items to queue
   logger.info("1. Testing /storage/queue/push (POST)...");
@@ -169,9 +171,20 @@ export async function runQueueLifecycle(verbose = false): Promise<LifecycleTestR
     logger
   );
 
-  const popData = popResult.data as { ok?: boolean; items?: unknown[]; count?: number };
-  if (popResult.status === 200 && popData.ok && Array.isArray(popData.items) && popData.items.length === 1) {
-    logger.success(`Popped ${popData.items.length} item from queue`);
+  const popData = popResult.data as {
+    ok?: boolean;
+    items?: Array<{ id: string; leaseExpiresAt?: string }>;
+    count?: number;
+  };
+  const poppedIds = popData.items?.map((item) => item.id) ?? [];
+  if (
+    popResult.status === 200 &&
+    popData.ok &&
+    Array.isArray(popData.items) &&
+    popData.items.length === 1 &&
+    popData.items[0].leaseExpiresAt
+  ) {
+    logger.success(`Leased ${popData.items.length} item from queue until ${popData.items[0].leaseExpiresAt}`);
     successCount++;
   } else {
     logger.error(`Pop failed: ${JSON.stringify(popResult.data)}`);
@@ -179,8 +192,50 @@ export async function runQueueLifecycle(verbose = false): Promise<LifecycleTestR
 
   await sleep(STEP_DELAY_MS);
 
-  // Test 5: Clear remaining items
-  logger.info("5. Testing /storage/queue/clear (POST)...");
+  // Test 5: Extend the lease on the popped item
+  logger.info("5. Testing /storage/queue/extend (POST)...");
+  const extendResult = await makeX402Request(
+    x402Client,
+    "/storage/queue/extend",
+    "POST",
+    { name: queueName, ids: poppedIds, visibilityTimeout: 120 },
+    tokenType,
+    logger
+  );
+
+  const extendData = extendResult.data as { ok?: boolean; extended?: number; leaseExpiresAt?: string };
+  if (extendResult.status === 200 && extendData.ok && extendData.extended === 1) {
+    logger.success(`Extended lease until ${extendData.leaseExpiresAt}`);
+    successCount++;
+  } else {
+    logger.error(`Extend failed: ${JSON.stringify(extendResult.data)}`);
+  }
+
+  await sleep(STEP_DELAY_MS);
+
+  // Test 6: Ack the popped item
+  logger.info("6. Testing /storage/queue/ack (POST)...");
+  const ackResult = await makeX402Request(
+    x402Client,
+    "/storage/queue/ack",
+    "POST",
+    { name: queueName, ids: poppedIds },
+    tokenType,
+    logger
+  );
+
+  const ackData = ackResult.data as { ok?: boolean; acked?: number };
+  if (ackResult.status === 200 && ackData.ok && ackData.acked === 1) {
+    logger.success(`Acked ${ackData.acked} item`);
+    successCount++;
+  } else {
+    logger.error(`Ack failed: ${JSON.stringify(ackResult.data)}`);
+  }
+
+  await sleep(STEP_DELAY_MS);
+
+  // Test 7: Clear remaining items
+  logger.info("7. Testing /storage/queue/clear (POST)...");
   const clearResult = await makeX402Request(
     x402Client,
     "/storage/queue/clear",
@@ -200,8 +255,8 @@ export async function runQueueLifecycle(verbose = false): Promise<LifecycleTestR
 
   await sleep(STEP_DELAY_MS);
 
-  // Test 6: Verify queue is empty
-  logger.info("6. Verifying queue is empty...");
+  // Test 8: Verify queue is empty
+  logger.info("8. Verifying queue is empty...");
   const verifyResult = await makeX402Request(
     x402Client,
     `/storage/queue/status?name=${queueName}`,
@@ -0,0 +1,127 @@
+#!/usr/bin/env bun
+/**
+ * Unit tests for per-route pricing
+ *
+ * Covers:
+ * 1. getRoutePrice — method and :param matching
+ * 2. measureRouteRequest — bytes, items and embeddings, Content-Length
+ * 3. estimateRoutePayment — base price plus size-based components
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+  estimateRoutePayment,
+  getRoutePrice,
+  measureRouteRequest,
+  needsRequestBody,
+  type MatchedRoutePrice,
+} from "../src/services/route-pricing";
+
+function routePrice(method: string, path: string): MatchedRoutePrice {
+  const price = getRoutePrice(method, path);
+  if (!price) throw new Error(`No price for ${method} ${path}`);
+  return price;
+}
+
+/** Price a JSON request as the x402 middleware does */
+function priceJson(method: string, path: string, body: unknown) {
+  const price = routePrice(method, path);
+  const contentLength = String(new TextEncoder().encode(JSON.stringify(body)).length);
+  const quantities = measureRouteRequest(price, needsRequestBody(price) ? body : undefined, contentLength);
+  if (!quantities) throw new Error("unmeasurable");
+  return estimateRoutePayment(price, quantities, "STX");
+}
+
+// ---------------------------------------------------------------------------
+// getRoutePrice
+// ---------------------------------------------------------------------------
+
+describe("getRoutePrice", () => {
+  test("matches method and path, with :params matching any segment", () => {
+    expect(routePrice("PUT", "/storage/paste/abc123").route).toBe("PUT /storage/paste/:id");
+    expect(routePrice("GET", "/storage/paste/abc123/raw").route).toBe("GET /storage/paste/:id/raw");
+    expect(routePrice("POST", "/storage/kv").route).toBe("POST /storage/kv");
+    expect(routePrice("GET", "/storage/kv").route).toBe("GET /storage/kv");
+  });
+
+  test("returns null for routes outside the table", () => {
+    expect(getRoutePrice("PATCH", "/storage/kv")).toBeNull();
+    expect(getRoutePrice("POST", "/inference/openrouter/chat")).toBeNull();
+    expect(getRoutePrice("GET", "/storage/paste/")).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// measureRouteRequest
+// ---------------------------------------------------------------------------
+
+describe("measureRouteRequest", () => {
+  test("measures body fields, the first present field winning", () => {
+    const push = routePrice("POST", "/storage/queue/push");
+    expect(measureRouteRequest(push, { name: "q", jobs: [{ data: 1 }, { data: 2 }] }, "60")).toEqual([2, 60]);
+    expect(measureRouteRequest(push, { name: "q", items: [1, 2, 3] }, "40")).toEqual([3, 40]);
+
+    const kv = routePrice("POST", "/storage/kv");
+    expect(measureRouteRequest(kv, { key: "k", value: "héllo" }, undefined)).toEqual([6]);
+    expect(measureRouteRequest(kv, { key: "k", value: { a: 1 } }, undefined)).toEqual([7]);
+    expect(measureRouteRequest(kv, undefined, undefined)).toEqual([0]);
+  });
+
+  test("whole-body byte counts need a Content-Length", () => {
+    const importPrice = routePrice("POST", "/storage/import");
+    expect(needsRequestBody(importPrice)).toBe(false);
+    expect(measureRouteRequest(importPrice, undefined, "2048")).toEqual([2048]);
+    expect(measureRouteRequest(importPrice, undefined, undefined)).toBeNull();
+    expect(measureRouteRequest(importPrice, undefined, "-1")).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// estimateRoutePayment
+// ---------------------------------------------------------------------------
+
+describe("estimateRoutePayment", () => {
+  test("a hash costs the base price", () => {
+    const estimate = priceJson("POST", "/hashing/sha256", { data: "hello" });
+    expect(estimate.amountInToken).toBe(1000n);
+    expect(estimate.route).toBe("POST /hashing/sha256");
+    expect(estimate.components).toEqual([]);
+  });
+
+  test("small writes stay at the base price", () => {
+    expect(priceJson("POST", "/storage/paste", { content: "x".repeat(1000) }).amountInToken).toBe(1000n);
+    expect(priceJson("POST", "/storage/memory/store", { items: [{ id: "a", text: "b" }] }).amountInToken).toBe(1000n);
+  });
+
+  test("a 1 MB paste is charged per started 64 KB beyond the first", () => {
+    const estimate = priceJson("POST", "/storage/paste", { content: "x".repeat(1024 * 1024) });
+    expect(estimate.amountInToken).toBe(16_000n);
+    expect(estimate.components).toEqual([
+      { measure: "bytes", quantity: 1024 * 1024, billable: 983_040, stx: 0.015 },
+    ]);
+  });
+
+  test("a 100-item memory store is charged per embedding beyond 5", () => {
+    const items = Array.from({ length: 100 }, (_, i) => ({ id: `m${i}`, text: "remember this" }));
+    const estimate = priceJson("POST", "/storage/memory/store", { items });
+    expect(estimate.amountInToken).toBe(20_000n);
+    expect(estimate.components?.[0]).toMatchObject({ measure: "embeddings", quantity: 100, billable: 95 });
+  });
+
+  test("items with their own embedding are not charged as embeddings", () => {
+    const items = Array.from({ length: 100 }, (_, i) => ({
+      id: `m${i}`,
+      text: "remember this",
+      ...(i >= 3 && { embedding: [0.1, 0.2, 0.3] }),
+    }));
+    const estimate = priceJson("POST", "/storage/memory/store", { collection: "custom", items });
+    expect(estimate.amountInToken).toBe(1000n);
+    expect(estimate.components?.[0]).toMatchObject({ measure: "embeddings", quantity: 3, billable: 0 });
+  });
+
+  test("converts the total to other tokens", () => {
+    const price = routePrice("POST", "/inference/cloudflare/chat");
+    expect(estimateRoutePayment(price, [], "STX").amountInToken).toBe(3000n);
+    expect(estimateRoutePayment(price, [], "USDCx").amountInToken).toBe(1500n);
+  });
+});
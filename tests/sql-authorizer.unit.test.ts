@@ -0,0 +1,186 @@
+#!/usr/bin/env bun
+/**
+ * Unit tests for the SQL statement authorizer
+ *
+ * Covers:
+ * 1. tokenizeSql — strings, quoted identifiers, comments, positions
+ * 2. authorizeStatement — read/write classification (WITH, EXPLAIN, PRAGMA)
+ * 3. authorizeStatement — system table protection, including trigger bodies
+ *    and reads by grantees (protectReads)
+ * 4. authorizeStatement — multiple statements and forbidden verbs
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+  SqlAuthorizationError,
+  authorizeStatement,
+  tokenizeSql,
+  type AuthorizeOptions,
+} from "../src/utils/sql-authorizer";
+
+const PROTECTED = new Set(["kv", "memories", "idx_memories_type"]);
+const READ_ONLY: AuthorizeOptions = { allow: ["read"], protectedNames: PROTECTED };
+const ANY: AuthorizeOptions = { allow: ["read", "write"], protectedNames: PROTECTED };
+/** What StorageDO applies to a grantee holding a db read grant */
+const GRANTEE_READ: AuthorizeOptions = { ...READ_ONLY, protectReads: true };
+const GRANTEE_ANY: AuthorizeOptions = { ...ANY, protectReads: true };
+
+/** Run the authorizer and return the thrown error */
+function rejection(sql: string, options: AuthorizeOptions = ANY): SqlAuthorizationError {
+  try {
+    authorizeStatement(sql, options);
+  } catch (e) {
+    expect(e).toBeInstanceOf(SqlAuthorizationError);
+    return e as SqlAuthorizationError;
+  }
+  throw new Error(`Expected rejection: ${sql}`);
+}
+
+// ---------------------------------------------------------------------------
+// tokenizeSql
+// ---------------------------------------------------------------------------
+
+describe("tokenizeSql", () => {
+  test("separates keywords from literals and quoted identifiers", () => {
+    const tokens = tokenizeSql(`SELECT "delete" FROM t WHERE s = 'it''s' -- DROP\n/* UPDATE */`);
+    expect(tokens.map((t) => [t.type, t.value])).toEqual([
+      ["word", "SELECT"],
+      ["identifier", "delete"],
+      ["word", "FROM"],
+      ["word", "T"],
+      ["word", "WHERE"],
+      ["word", "S"],
+      ["punct", "="],
+      ["string", "it's"],
+    ]);
+  });
+
+  test("records positions and parameters", () => {
+    const tokens = tokenizeSql("SELECT ?1, :name");
+    expect(tokens.map((t) => t.position)).toEqual([0, 7, 9, 11]);
+    expect(tokens[3]).toEqual({ type: "parameter", value: ":name", position: 11 });
+  });
+
+  test("rejects unterminated literals at their start", () => {
+    expect(() => tokenizeSql("SELECT 'abc")).toThrow(SqlAuthorizationError);
+    expect(rejection("SELECT [abc").position).toBe(7);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Classification
+// ---------------------------------------------------------------------------
+
+describe("authorizeStatement classification", () => {
+  test("keywords inside strings do not affect reads", () => {
+    expect(authorizeStatement("SELECT * FROM orders WHERE status = 'UPDATED'", READ_ONLY).kind).toBe("read");
+    expect(authorizeStatement("select created_at, deleted from t", READ_ONLY).kind).toBe("read");
+  });
+
+  test("WITH resolves to its main statement", () => {
+    const cte = "WITH recent AS (SELECT * FROM t WHERE x > 1) SELECT count(*) FROM recent";
+    expect(authorizeStatement(cte, READ_ONLY)).toEqual({ kind: "read", verb: "SELECT", targets: [] });
+
+    const write = "WITH ids AS (SELECT id FROM t) DELETE FROM archive WHERE id IN ids";
+    expect(authorizeStatement(write, ANY)).toEqual({ kind: "write", verb: "DELETE", targets: ["archive"] });
+    expect(rejection(write, READ_ONLY).position).toBe(31);
+  });
+
+  test("EXPLAIN and VALUES are reads", () => {
+    expect(authorizeStatement("EXPLAIN QUERY PLAN SELECT * FROM t", READ_ONLY).kind).toBe("read");
+    expect(authorizeStatement("VALUES (1), (2)", READ_ONLY).kind).toBe("read");
+  });
+
+  test("PRAGMA introspection is a read, assignment is rejected", () => {
+    expect(authorizeStatement("PRAGMA table_info(kv)", READ_ONLY).kind).toBe("read");
+    expect(rejection("PRAGMA foreign_keys = OFF").position).toBe(20);
+    expect(rejection("PRAGMA cache_size(100)").message).toContain("PRAGMA");
+  });
+
+  test("writes are rejected on the read-only path", () => {
+    expect(rejection("INSERT INTO t VALUES (1)", READ_ONLY).message).toContain("Only read statements");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// System tables
+// ---------------------------------------------------------------------------
+
+describe("authorizeStatement system tables", () => {
+  test("reads of system tables are allowed", () => {
+    expect(authorizeStatement("SELECT key FROM kv", READ_ONLY).kind).toBe("read");
+    expect(authorizeStatement("INSERT INTO mine SELECT key FROM kv", ANY).targets).toEqual(["mine"]);
+  });
+
+  test("rejects writes to system tables with the target position", () => {
+    expect(rejection("DELETE FROM kv").position).toBe(12);
+    expect(rejection("INSERT OR REPLACE INTO main.memories (key) VALUES (1)").position).toBe(28);
+    expect(rejection('UPDATE "KV" SET value = 1').message).toContain("kv");
+    expect(rejection("DROP TABLE IF EXISTS kv").position).toBe(21);
+    expect(rejection("ALTER TABLE memories ADD COLUMN x").position).toBe(12);
+    expect(rejection("DROP INDEX idx_memories_type").position).toBe(11);
+    expect(rejection("DELETE FROM sqlite_sequence").message).toContain("sqlite_sequence");
+  });
+
+  test("rejects indexes and triggers on system tables, and trigger bodies that write them", () => {
+    expect(rejection("CREATE INDEX my_idx ON kv (value)").position).toBe(23);
+    expect(rejection("CREATE TRIGGER t AFTER INSERT ON kv BEGIN SELECT 1; END").position).toBe(33);
+    const body = "CREATE TRIGGER t AFTER UPDATE OF name ON users BEGIN DELETE FROM kv; END";
+    expect(rejection(body).position).toBe(65);
+  });
+
+  test("allows user triggers and upserts whose keywords name no target", () => {
+    const trigger =
+      "CREATE TRIGGER audit AFTER UPDATE ON users BEGIN INSERT INTO log (id) VALUES (new.id); UPDATE stats SET n = n + 1; END";
+    expect(authorizeStatement(trigger, ANY).targets).toEqual(["audit", "users", "log", "stats"]);
+
+    const upsert = "INSERT INTO t (k, v) VALUES (1, 2) ON CONFLICT (k) DO UPDATE SET v = excluded.v";
+    expect(authorizeStatement(upsert, ANY).targets).toEqual(["t"]);
+
+    const fk = "CREATE TABLE c (id INTEGER, p INTEGER REFERENCES p(id) ON DELETE CASCADE ON UPDATE CASCADE)";
+    expect(authorizeStatement(fk, ANY).targets).toEqual(["c"]);
+  });
+});
+
+describe("authorizeStatement delegated access", () => {
+  test("a db-read grantee cannot read kv", () => {
+    const error = rejection("SELECT * FROM kv", GRANTEE_READ);
+    expect(error.message).toContain("Cannot access system table: kv");
+    expect(error.position).toBe(14);
+  });
+
+  test("rejects system tables in subqueries, joins, pragmas and sqlite_ tables", () => {
+    expect(rejection("SELECT * FROM mine WHERE id IN (SELECT key FROM main.kv)", GRANTEE_READ).position).toBe(53);
+    expect(rejection('SELECT * FROM mine JOIN "Memories" ON 1', GRANTEE_READ).message).toContain("memories");
+    expect(rejection("PRAGMA table_info(kv)", GRANTEE_READ).position).toBe(18);
+    expect(rejection("SELECT sql FROM sqlite_master", GRANTEE_READ).message).toContain("sqlite_master");
+  });
+
+  test("rejects writes that would copy system tables into readable ones", () => {
+    expect(rejection("CREATE VIEW leak AS SELECT * FROM kv", GRANTEE_ANY).position).toBe(34);
+    expect(rejection("INSERT INTO mine SELECT key FROM kv", GRANTEE_ANY).position).toBe(33);
+  });
+
+  test("allows the grantor's own tables", () => {
+    expect(authorizeStatement("SELECT * FROM mine WHERE note = 'kv'", GRANTEE_READ).kind).toBe("read");
+    expect(authorizeStatement("INSERT INTO mine (note) VALUES (?)", GRANTEE_ANY).targets).toEqual(["mine"]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Statement boundaries and forbidden verbs
+// ---------------------------------------------------------------------------
+
+describe("authorizeStatement statement boundaries", () => {
+  test("allows a trailing semicolon but not a second statement", () => {
+    expect(authorizeStatement("SELECT 1;", READ_ONLY).kind).toBe("read");
+    expect(rejection("SELECT 1; DROP TABLE t").position).toBe(10);
+    expect(authorizeStatement("SELECT ';DROP TABLE kv'", READ_ONLY).kind).toBe("read");
+  });
+
+  test("rejects empty input, transaction control and ATTACH", () => {
+    expect(rejection("  -- nothing").message).toContain("Empty");
+    expect(rejection("BEGIN TRANSACTION").message).toContain("BEGIN");
+    expect(rejection("ATTACH DATABASE 'x' AS y").message).toContain("ATTACH");
+  });
+});
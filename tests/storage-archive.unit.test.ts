@@ -0,0 +1,110 @@
+#!/usr/bin/env bun
+/**
+ * Unit tests for the storage archive format
+ *
+ * Covers:
+ * 1. parseArchiveHeader — format and version checks
+ * 2. parseArchiveLine — record validation and the end line
+ * 3. archiveCountsMatch — truncation checks against the end line
+ * 4. Binary values — base64 round trips, including large blobs
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+  ARCHIVE_FORMAT,
+  ARCHIVE_VERSION,
+  ArchiveFormatError,
+  archiveCountsMatch,
+  archiveLine,
+  decodeArchiveValue,
+  decodeBinary,
+  encodeArchiveValue,
+  encodeBinary,
+  parseArchiveHeader,
+  parseArchiveLine,
+} from "../src/utils/storage-archive";
+
+const header = {
+  type: "header" as const,
+  format: ARCHIVE_FORMAT,
+  version: ARCHIVE_VERSION,
+  exportedAt: "2026-01-01T00:00:00.000Z",
+  owner: "SP000000000000000000002Q6VF78",
+  sections: ["kv" as const],
+};
+
+describe("parseArchiveHeader", () => {
+  test("accepts a current header", () => {
+    expect(parseArchiveHeader(archiveLine(header).trim())).toEqual(header);
+  });
+
+  test("rejects other formats and versions", () => {
+    expect(() => parseArchiveHeader(JSON.stringify({ type: "kv", key: "a" }))).toThrow(ArchiveFormatError);
+    expect(() => parseArchiveHeader(JSON.stringify({ ...header, version: ARCHIVE_VERSION + 1 }))).toThrow(
+      /Unsupported archive version/
+    );
+    expect(() => parseArchiveHeader("not json")).toThrow(/Line 1: Invalid JSON/);
+    expect(() => parseArchiveHeader(JSON.stringify({ ...header, sections: ["kv", "files"] }))).toThrow(/sections/);
+  });
+});
+
+describe("parseArchiveLine", () => {
+  test("parses records and the end line", () => {
+    const record = {
+      type: "lock" as const,
+      name: "deploy",
+      fence: 7,
+    };
+    expect(parseArchiveLine(archiveLine(record), 2)).toEqual(record);
+    expect(parseArchiveLine(JSON.stringify({ type: "end", counts: { lock: 1 } }), 3)).toEqual({
+      type: "end",
+      counts: { lock: 1 },
+    });
+  });
+
+  test("reports the line of a bad record", () => {
+    expect(() => parseArchiveLine(JSON.stringify({ type: "kv", key: "a" }), 5)).toThrow(
+      'Line 5: kv record is missing "value"'
+    );
+    expect(() => parseArchiveLine(JSON.stringify({ type: "bogus" }), 6)).toThrow(/Unknown record type/);
+    expect(() => parseArchiveLine("[1,2]", 7)).toThrow(/Expected a JSON object/);
+    expect(() => parseArchiveLine(JSON.stringify({ type: "end" }), 8)).toThrow(/no counts/);
+  });
+});
+
+describe("archiveCountsMatch", () => {
+  test("ignores zero counts", () => {
+    expect(archiveCountsMatch({ kv: 2, paste: 0 }, { kv: 2 })).toBe(true);
+  });
+
+  test("detects missing and extra records", () => {
+    expect(archiveCountsMatch({ kv: 2 }, { kv: 1 })).toBe(false);
+    expect(archiveCountsMatch({ kv: 2 }, { kv: 2, job: 1 })).toBe(false);
+  });
+});
+
+describe("binary values", () => {
+  test("round-trip packed vectors", () => {
+    const vector = new Float32Array([0.5, -1.25, 3]);
+    const decoded = new Float32Array(decodeBinary(encodeBinary(vector)));
+    expect(Array.from(decoded)).toEqual([0.5, -1.25, 3]);
+  });
+
+  test("encode views at their offset", () => {
+    const bytes = new Uint8Array([1, 2, 3, 4]);
+    expect(new Uint8Array(decodeBinary(encodeBinary(bytes.subarray(1, 3))))).toEqual(new Uint8Array([2, 3]));
+  });
+
+  test("handle blobs larger than the argument limit", () => {
+    const bytes = new Uint8Array(300_000).map((_, i) => i % 251);
+    expect(new Uint8Array(decodeBinary(encodeBinary(bytes)))).toEqual(bytes);
+  });
+
+  test("leave non-binary column values unchanged", () => {
+    for (const value of ["text", 42, 1.5, null]) {
+      expect(decodeArchiveValue(encodeArchiveValue(value))).toBe(value);
+    }
+    const blob = encodeArchiveValue(new Uint8Array([9, 8]).buffer as ArrayBuffer);
+    expect(blob).toEqual({ $base64: "CQg=" });
+  });
+});
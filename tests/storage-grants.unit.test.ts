@@ -0,0 +1,97 @@
+#!/usr/bin/env bun
+/**
+ * Unit tests for storage access grants
+ *
+ * Covers:
+ * 1. validateGrant — field checks on submitted grants
+ * 2. verifyGrantSignature — SIP-018 signatures by the grantor's key
+ * 3. grantAllows — scope, subsystem, prefix and expiry matching
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+  getAddressFromPrivateKey,
+  makeRandomPrivKey,
+  signStructuredData,
+} from "@stacks/transactions";
+import {
+  grantAllows,
+  grantDomain,
+  grantMessage,
+  validateGrant,
+  verifyGrantSignature,
+  type StorageGrant,
+} from "../src/utils/storage-grants";
+
+const grantorKey = makeRandomPrivKey();
+const otherKey = makeRandomPrivKey();
+
+const grant: StorageGrant = {
+  grantor: getAddressFromPrivateKey(grantorKey, "testnet"),
+  grantee: getAddressFromPrivateKey(otherKey, "testnet"),
+  scope: "read",
+  subsystems: ["kv", "queue"],
+  prefix: "shared/",
+  expiresAt: null,
+  nonce: 1,
+};
+
+function sign(value: StorageGrant, privateKey: string, network: "mainnet" | "testnet" = "testnet"): string {
+  return signStructuredData({ message: grantMessage(value), domain: grantDomain(network), privateKey });
+}
+
+describe("validateGrant", () => {
+  test("accepts a well-formed grant", () => {
+    expect(validateGrant(grant)).toBeNull();
+    expect(validateGrant({ ...grant, prefix: "", expiresAt: 1_900_000_000 })).toBeNull();
+  });
+
+  test("rejects bad fields", () => {
+    expect(validateGrant({ ...grant, grantee: grant.grantor })).toMatch(/differ/);
+    expect(validateGrant({ ...grant, grantee: "not-an-address" })).toMatch(/grantee/);
+    expect(validateGrant({ ...grant, scope: "admin" as never })).toMatch(/scope/);
+    expect(validateGrant({ ...grant, subsystems: [] })).toMatch(/subsystems/);
+    expect(validateGrant({ ...grant, subsystems: ["kv", "kv"] })).toMatch(/subsystems/);
+    expect(validateGrant({ ...grant, nonce: -1 })).toMatch(/nonce/);
+    expect(validateGrant({ ...grant, expiresAt: 1.5 })).toMatch(/expiresAt/);
+  });
+});
+
+describe("verifyGrantSignature", () => {
+  test("accepts the grantor's signature", async () => {
+    expect(await verifyGrantSignature(grant, sign(grant, grantorKey), "testnet")).toBe(true);
+  });
+
+  test("rejects other signers, altered grants and other networks", async () => {
+    const signature = sign(grant, grantorKey);
+    expect(await verifyGrantSignature(grant, sign(grant, otherKey), "testnet")).toBe(false);
+    expect(await verifyGrantSignature({ ...grant, scope: "read-write" }, signature, "testnet")).toBe(false);
+    expect(await verifyGrantSignature(grant, sign(grant, grantorKey, "mainnet"), "testnet")).toBe(false);
+    expect(await verifyGrantSignature(grant, "00", "testnet")).toBe(false);
+  });
+});
+
+describe("grantAllows", () => {
+  const now = Date.now();
+
+  test("matches scope and subsystem", () => {
+    expect(grantAllows(grant, { subsystem: "kv", access: "read", names: ["shared/a"] }, now)).toBe(true);
+    expect(grantAllows(grant, { subsystem: "kv", access: "write", names: ["shared/a"] }, now)).toBe(false);
+    expect(grantAllows(grant, { subsystem: "db", access: "read" }, now)).toBe(false);
+    const readWrite = { ...grant, scope: "read-write" as const };
+    expect(grantAllows(readWrite, { subsystem: "queue", access: "write", names: ["shared/jobs"] }, now)).toBe(true);
+  });
+
+  test("requires every name under the prefix", () => {
+    expect(grantAllows(grant, { subsystem: "kv", access: "read", names: ["shared/a", "private/b"] }, now)).toBe(false);
+    expect(grantAllows(grant, { subsystem: "kv", access: "read" }, now)).toBe(false);
+    expect(grantAllows({ ...grant, prefix: "" }, { subsystem: "kv", access: "read" }, now)).toBe(true);
+  });
+
+  test("stops at expiry", () => {
+    const expiring = { ...grant, expiresAt: Math.floor(now / 1000) + 60 };
+    const request = { subsystem: "kv" as const, access: "read" as const, names: ["shared/a"] };
+    expect(grantAllows(expiring, request, now)).toBe(true);
+    expect(grantAllows(expiring, request, now + 61_000)).toBe(false);
+  });
+});
@@ -0,0 +1,72 @@
+#!/usr/bin/env bun
+/**
+ * Unit tests for storage quotas
+ *
+ * Covers:
+ * 1. resolveStorageQuotas — defaults and STORAGE_QUOTAS overrides
+ * 2. checkStorageQuota — growth past a quota, 413 vs 507, shrinking writes
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+  DEFAULT_STORAGE_QUOTAS,
+  checkStorageQuota,
+  isStorageQuotaExceeded,
+  resolveStorageQuotas,
+} from "../src/utils/storage-quota";
+
+describe("resolveStorageQuotas", () => {
+  test("uses the defaults without overrides", () => {
+    expect(resolveStorageQuotas(undefined)).toEqual(DEFAULT_STORAGE_QUOTAS);
+    expect(resolveStorageQuotas("not json")).toEqual(DEFAULT_STORAGE_QUOTAS);
+  });
+
+  test("overrides only valid positive integers", () => {
+    const quotas = resolveStorageQuotas(
+      JSON.stringify({ kv: { bytes: 1024 }, db: { rows: -5, bytes: "big" }, bogus: { rows: 1 } })
+    );
+    expect(quotas.kv).toEqual({ rows: DEFAULT_STORAGE_QUOTAS.kv.rows, bytes: 1024 });
+    expect(quotas.db).toEqual(DEFAULT_STORAGE_QUOTAS.db);
+  });
+
+  test("does not share objects with the defaults", () => {
+    const quotas = resolveStorageQuotas(JSON.stringify({ paste: { rows: 1 } }));
+    expect(quotas.paste.rows).toBe(1);
+    expect(DEFAULT_STORAGE_QUOTAS.paste.rows).not.toBe(1);
+  });
+});
+
+describe("checkStorageQuota", () => {
+  const quota = { rows: 10, bytes: 1000 };
+
+  test("allows growth within the quota", () => {
+    expect(checkStorageQuota("kv", quota, { rows: 5, bytes: 500 }, { rows: 6, bytes: 1000 })).toBeNull();
+  });
+
+  test("rejects growth past the quota with 507", () => {
+    const result = checkStorageQuota("kv", quota, { rows: 5, bytes: 900 }, { rows: 6, bytes: 1100 });
+    expect(result).toEqual({
+      ok: false,
+      quotaExceeded: { subsystem: "kv", limit: "bytes", used: 900, requested: 200, quota: 1000 },
+      status: 507,
+    });
+    expect(isStorageQuotaExceeded(result)).toBe(true);
+  });
+
+  test("uses 413 when the write alone exceeds the quota", () => {
+    const result = checkStorageQuota("paste", quota, { rows: 0, bytes: 0 }, { rows: 1, bytes: 5000 });
+    expect(result?.status).toBe(413);
+    expect(result?.quotaExceeded.limit).toBe("bytes");
+  });
+
+  test("checks rows as well as bytes", () => {
+    const result = checkStorageQuota("queue", quota, { rows: 10, bytes: 10 }, { rows: 11, bytes: 20 });
+    expect(result?.quotaExceeded).toMatchObject({ limit: "rows", used: 10, requested: 1 });
+  });
+
+  test("never rejects a write that does not grow usage", () => {
+    const over = { rows: 50, bytes: 5000 };
+    expect(checkStorageQuota("db", quota, over, { rows: 49, bytes: 4000 })).toBeNull();
+    expect(checkStorageQuota("db", quota, over, over)).toBeNull();
+  });
+});
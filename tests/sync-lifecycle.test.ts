@@ -9,6 +9,8 @@
  * 4. Extend (extend lock TTL)
  * 5. Unlock (release the lock)
  * 6. Verify unlock via status
+ * 7. Shared holds (two readers, increasing fences)
+ * 8. Exclusive try-lock is refused while readers hold, then readers release
  */
 
 import type { TokenType } from "x402-stacks";
@@ -85,7 +87,7 @@ export async function runSyncLifecycle(verbose = false): Promise<LifecycleTestRe
   const lockName = generateTestId("lock");
 
   let successCount = 0;
-  const totalTests = 6;
+  const totalTests = 8;
   let lockToken: string | null = null;
 
   // Test 1: Acquire lock
@@ -221,6 +223,73 @@ export async function runSyncLifecycle(verbose = false): Promise<LifecycleTestRe
     logger.error(`Lock still held after unlock: ${JSON.stringify(verifyResult.data)}`);
   }
 
+  await sleep(STEP_DELAY_MS);
+
+  // Test 7: Two shared holds
+  logger.info("7. Testing shared locks (two readers)...");
+  const sharedName = generateTestId("rwlock");
+  const sharedTokens: string[] = [];
+  const sharedFences: number[] = [];
+  for (let i = 0; i < 2; i++) {
+    const sharedResult = await makeX402Request(
+      x402Client,
+      "/storage/sync/lock",
+      "POST",
+      { name: sharedName, mode: "shared", ttl: 60 },
+      tokenType,
+      logger
+    );
+    const sharedData = sharedResult.data as { ok?: boolean; acquired?: boolean; token?: string; fence?: number };
+    if (sharedResult.status === 200 && sharedData.ok && sharedData.acquired && sharedData.token) {
+      sharedTokens.push(sharedData.token);
+      sharedFences.push(sharedData.fence ?? 0);
+    } else {
+      logger.error(`Shared lock failed: ${JSON.stringify(sharedResult.data)}`);
+    }
+    await sleep(STEP_DELAY_MS);
+  }
+
+  if (sharedTokens.length === 2 && sharedFences[1] > sharedFences[0]) {
+    logger.success(`Two shared holds on "${sharedName}" (fences ${sharedFences.join(", ")})`);
+    successCount++;
+  } else {
+    logger.error(`Expected two shared holds with increasing fences, got fences ${JSON.stringify(sharedFences)}`);
+  }
+
+  await sleep(STEP_DELAY_MS);
+
+  // Test 8: Exclusive try-lock is refused while shared holds exist
+  logger.info("8. Testing exclusive lock against shared holders...");
+  const exclusiveResult = await makeX402Request(
+    x402Client,
+    "/storage/sync/lock",
+    "POST",
+    { name: sharedName, mode: "exclusive", ttl: 60 },
+    tokenType,
+    logger
+  );
+
+  const exclusiveData = exclusiveResult.data as { ok?: boolean; acquired?: boolean };
+  if (exclusiveResult.status === 200 && exclusiveData.ok && exclusiveData.acquired === false) {
+    logger.success("Exclusive lock refused while readers hold");
+    successCount++;
+  } else {
+    logger.error(`Exclusive lock should have been refused: ${JSON.stringify(exclusiveResult.data)}`);
+  }
+
+  // Cleanup: release shared holds
+  for (const sharedToken of sharedTokens) {
+    await sleep(STEP_DELAY_MS);
+    await makeX402Request(
+      x402Client,
+      "/storage/sync/unlock",
+      "POST",
+      { name: sharedName, token: sharedToken },
+      tokenType,
+      logger
+    );
+  }
+
   logger.summary(successCount, totalTests);
   return { passed: successCount, total: totalTests, success: successCount === totalTests };
 }
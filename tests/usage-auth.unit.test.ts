@@ -0,0 +1,101 @@
+#!/usr/bin/env bun
+/**
+ * Unit tests for /usage/me authentication
+ *
+ * Covers:
+ * 1. parseUsageAuth — header checks
+ * 2. verifyUsageAuth — message and SIP-018 signatures, freshness
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+  getAddressFromPrivateKey,
+  makeRandomPrivKey,
+  signMessageHashRsv,
+  signStructuredData,
+} from "@stacks/transactions";
+import {
+  USAGE_AUTH_HEADERS,
+  USAGE_AUTH_MAX_AGE_S,
+  parseUsageAuth,
+  usageAuthDomain,
+  usageAuthMessage,
+  usageAuthSigningHash,
+  verifyUsageAuth,
+  type UsageAuth,
+  type UsageAuthScheme,
+} from "../src/utils/usage-auth";
+
+const payerKey = makeRandomPrivKey();
+const otherKey = makeRandomPrivKey();
+const address = getAddressFromPrivateKey(payerKey, "testnet");
+const now = 1_800_000_000_000;
+const issuedAt = now / 1000 - 10;
+
+async function sign(
+  scheme: UsageAuthScheme,
+  privateKey: string,
+  challenge: { address: string; issuedAt: number } = { address, issuedAt }
+): Promise<UsageAuth> {
+  const signature = scheme === "message"
+    ? signMessageHashRsv({
+        messageHash: await usageAuthSigningHash({ ...challenge, scheme }, "testnet"),
+        privateKey,
+      })
+    : signStructuredData({
+        message: usageAuthMessage(challenge.address, challenge.issuedAt),
+        domain: usageAuthDomain("testnet"),
+        privateKey,
+      });
+  return { ...challenge, signature, scheme };
+}
+
+function headers(values: Record<string, string>) {
+  return (name: string) => values[name];
+}
+
+describe("parseUsageAuth", () => {
+  test("reads the challenge headers, defaulting to the message scheme", () => {
+    expect(
+      parseUsageAuth(headers({
+        [USAGE_AUTH_HEADERS.address]: address,
+        [USAGE_AUTH_HEADERS.issuedAt]: String(issuedAt),
+        [USAGE_AUTH_HEADERS.signature]: "ab",
+      }))
+    ).toEqual({ address, issuedAt, signature: "ab", scheme: "message" });
+  });
+
+  test("rejects missing or malformed headers", () => {
+    const valid = {
+      [USAGE_AUTH_HEADERS.address]: address,
+      [USAGE_AUTH_HEADERS.issuedAt]: String(issuedAt),
+      [USAGE_AUTH_HEADERS.signature]: "ab",
+    };
+    expect(parseUsageAuth(headers({}))).toMatch(/Sign a usage challenge/);
+    expect(parseUsageAuth(headers({ ...valid, [USAGE_AUTH_HEADERS.address]: "nope" }))).toMatch(/Stacks address/);
+    expect(parseUsageAuth(headers({ ...valid, [USAGE_AUTH_HEADERS.issuedAt]: "1.5" }))).toMatch(/unix timestamp/);
+    expect(parseUsageAuth(headers({ ...valid, [USAGE_AUTH_HEADERS.scheme]: "jwt" }))).toMatch(/must be one of/);
+  });
+});
+
+describe("verifyUsageAuth", () => {
+  test("accepts message and SIP-018 signatures by the address's key", async () => {
+    expect(await verifyUsageAuth(await sign("message", payerKey), "testnet", now)).toBeNull();
+    expect(await verifyUsageAuth(await sign("sip018", payerKey), "testnet", now)).toBeNull();
+  });
+
+  test("rejects other keys, schemes and networks", async () => {
+    expect(await verifyUsageAuth(await sign("message", otherKey), "testnet", now)).toMatch(/not a testnet message/);
+    const sip018 = await sign("sip018", payerKey);
+    expect(await verifyUsageAuth({ ...sip018, scheme: "message" }, "testnet", now)).not.toBeNull();
+    expect(await verifyUsageAuth(sip018, "mainnet", now)).not.toBeNull();
+    expect(await verifyUsageAuth({ ...sip018, signature: "zz" }, "testnet", now)).not.toBeNull();
+  });
+
+  test("rejects stale and future challenges", async () => {
+    const stale = await sign("message", payerKey, { address, issuedAt: now / 1000 - USAGE_AUTH_MAX_AGE_S - 1 });
+    expect(await verifyUsageAuth(stale, "testnet", now)).toMatch(/within the last/);
+    const future = await sign("message", payerKey, { address, issuedAt: now / 1000 + 120 });
+    expect(await verifyUsageAuth(future, "testnet", now)).toMatch(/within the last/);
+  });
+});
@@ -0,0 +1,150 @@
+#!/usr/bin/env bun
+/**
+ * Unit tests for vector-index helpers
+ *
+ * Covers:
+ * 1. packVector / unpackVector — Float32 BLOB round-trip
+ * 2. normalizeVector / dotProduct — unit length, cosine via dot product
+ * 3. ivfListCount — sqrt(n) bounded by IVF_MIN_LISTS / IVF_MAX_LISTS
+ * 4. topCentroids — best-first ordering
+ * 5. trainCentroids — separates well-clustered data (seeded RNG)
+ * 6. meanVector / groupBySimilarity — consolidation grouping
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+  IVF_MAX_LISTS,
+  IVF_MIN_LISTS,
+  dotProduct,
+  groupBySimilarity,
+  ivfListCount,
+  meanVector,
+  nearestCentroid,
+  normalizeVector,
+  packVector,
+  topCentroids,
+  trainCentroids,
+  unpackVector,
+} from "../src/utils/vector-index";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Deterministic LCG so training results are reproducible */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    return state / 0x100000000;
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Packing
+// ---------------------------------------------------------------------------
+
+describe("packVector / unpackVector", () => {
+  test("round-trips through an ArrayBuffer", () => {
+    const blob = packVector([0.5, -1, 2.25]);
+    expect(blob.byteLength).toBe(12);
+    expect(Array.from(unpackVector(blob))).toEqual([0.5, -1, 2.25]);
+  });
+
+  test("accepts a Uint8Array view with an offset", () => {
+    const packed = new Uint8Array(packVector([1, 2]));
+    const padded = new Uint8Array(packed.length + 4);
+    padded.set(packed, 4);
+    const view = new Uint8Array(padded.buffer, 4, packed.length);
+    expect(Array.from(unpackVector(view))).toEqual([1, 2]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Normalization and similarity
+// ---------------------------------------------------------------------------
+
+describe("normalizeVector / dotProduct", () => {
+  test("scales to unit length", () => {
+    const v = normalizeVector([3, 4]);
+    expect(v[0]).toBeCloseTo(0.6, 6);
+    expect(v[1]).toBeCloseTo(0.8, 6);
+    expect(dotProduct(v, v)).toBeCloseTo(1, 6);
+  });
+
+  test("leaves zero vectors unchanged", () => {
+    expect(Array.from(normalizeVector([0, 0, 0]))).toEqual([0, 0, 0]);
+  });
+
+  test("returns 0 on dimension mismatch", () => {
+    expect(dotProduct([1, 0], [1, 0, 0])).toBe(0);
+  });
+});
+
+describe("ivfListCount", () => {
+  test("clamps sqrt(n) to the configured bounds", () => {
+    expect(ivfListCount(10)).toBe(IVF_MIN_LISTS);
+    expect(ivfListCount(2500)).toBe(50);
+    expect(ivfListCount(1_000_000)).toBe(IVF_MAX_LISTS);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Centroids
+// ---------------------------------------------------------------------------
+
+describe("topCentroids", () => {
+  test("orders centroids by similarity, best first", () => {
+    const centroids = [[1, 0, 0], [0, 1, 0], [0, 0, 1]].map(normalizeVector);
+    const query = normalizeVector([0.1, 0.3, 0.9]);
+    expect(topCentroids(query, centroids, 2)).toEqual([2, 1]);
+    expect(nearestCentroid(query, centroids)).toBe(2);
+  });
+});
+
+describe("trainCentroids", () => {
+  test("separates well-clustered vectors", () => {
+    const random = seededRandom(42);
+    const axes = [[1, 0, 0, 0], [0, 1, 0, 0], [0, 0, 1, 0], [0, 0, 0, 1]];
+    const vectors = axes.flatMap((axis) =>
+      Array.from({ length: 50 }, () =>
+        normalizeVector(axis.map((x) => x + (random() - 0.5) * 0.2))
+      )
+    );
+
+    const centroids = trainCentroids(vectors, 4, 10, seededRandom(7));
+    expect(centroids).toHaveLength(4);
+
+    // Every axis should map to its own centroid
+    const assigned = new Set(axes.map((axis) => nearestCentroid(normalizeVector(axis), centroids)));
+    expect(assigned.size).toBe(4);
+  });
+
+  test("caps k at the number of vectors", () => {
+    const vectors = [normalizeVector([1, 0]), normalizeVector([0, 1])];
+    expect(trainCentroids(vectors, 8)).toHaveLength(2);
+    expect(trainCentroids([], 8)).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Grouping
+// ---------------------------------------------------------------------------
+
+describe("meanVector", () => {
+  test("returns the normalized centroid", () => {
+    const mean = meanVector([normalizeVector([1, 0]), normalizeVector([0, 1])]);
+    expect(mean[0]).toBeCloseTo(Math.SQRT1_2, 6);
+    expect(mean[1]).toBeCloseTo(Math.SQRT1_2, 6);
+  });
+});
+
+describe("groupBySimilarity", () => {
+  test("groups near-duplicates and drops small groups, largest first", () => {
+    const vectors = [
+      [1, 0, 0], [0.98, 0.1, 0], [0, 1, 0], [0.97, 0, 0.1], [0, 0.99, 0.05], [0, 0, 1],
+    ].map(normalizeVector);
+    expect(groupBySimilarity(vectors, 0.9, 2)).toEqual([[0, 1, 3], [2, 4]]);
+    expect(groupBySimilarity(vectors, 0.9, 3)).toEqual([[0, 1, 3]]);
+  });
+});